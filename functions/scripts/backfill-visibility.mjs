@@ -0,0 +1,21 @@
+// Writes `visibility: public` on projects (and drafts) saved before the field
+// existed. `firebase deploy` runs it with --apply before deploying the rules.
+// Usage: npm run backfill:visibility -- [--apply] [--project <id>]
+const args = process.argv.slice(2)
+const apply = args.includes('--apply')
+const projectIndex = args.indexOf('--project')
+if (projectIndex !== -1 && args[projectIndex + 1]) {
+  process.env.GCLOUD_PROJECT = args[projectIndex + 1]
+}
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  console.warn('backfill-visibility: FIRESTORE_EMULATOR_HOST is not set; using the live project.')
+}
+
+const { backfillProjectVisibility } = await import('../lib/functions/src/backfillVisibility.js')
+const report = await backfillProjectVisibility({ apply })
+
+for (const path of report.changed) {
+  console.log(`${path}: set visibility = "public"`)
+}
+console.log(`backfill-visibility: ${report.changed.length}/${report.scanned} projects ${apply ? 'updated' : 'need changes (dry run, pass --apply to write)'}`)
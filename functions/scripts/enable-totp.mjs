@@ -0,0 +1,20 @@
+// Turns on TOTP as a second factor for the project so admins can enroll an
+// authenticator app from /admin/account. Needs Identity Platform enabled.
+// Usage: npm run enable-totp -- [--project <id>]
+import { initializeApp } from 'firebase-admin/app'
+import { getAuth } from 'firebase-admin/auth'
+
+const args = process.argv.slice(2)
+const projectIndex = args.indexOf('--project')
+if (projectIndex !== -1 && args[projectIndex + 1]) {
+  process.env.GCLOUD_PROJECT = args[projectIndex + 1]
+}
+
+initializeApp()
+await getAuth().projectConfigManager().updateProjectConfig({
+  multiFactorConfig: {
+    state: 'ENABLED',
+    providerConfigs: [{ state: 'ENABLED', totpProviderConfig: { adjacentIntervals: 5 } }]
+  }
+})
+console.log('enable-totp: TOTP multi-factor sign-in is enabled')
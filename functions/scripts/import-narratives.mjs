@@ -0,0 +1,25 @@
+// Copies the case study narratives that used to be hard-coded in the web app
+// onto the matching project documents (and open drafts).
+// Usage: npm run import:narratives -- [--apply] [--project <id>]
+// Dry run by default; only empty fields are filled, so it is safe to re-run.
+const args = process.argv.slice(2)
+const apply = args.includes('--apply')
+const projectIndex = args.indexOf('--project')
+if (projectIndex !== -1 && args[projectIndex + 1]) {
+  process.env.GCLOUD_PROJECT = args[projectIndex + 1]
+}
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  console.warn('import-narratives: FIRESTORE_EMULATOR_HOST is not set; using the live project.')
+}
+
+const { importLegacyNarratives } = await import('../lib/functions/src/importNarratives.js')
+const report = await importLegacyNarratives({ apply })
+
+for (const doc of report.docs) {
+  console.log(`${doc.path} (${doc.key})`)
+  for (const [field, value] of Object.entries(doc.set)) {
+    console.log(`  set ${field} = ${JSON.stringify(value)}`)
+  }
+}
+console.log(`import-narratives: ${report.changed}/${report.scanned} documents ${apply ? 'updated' : 'need changes (dry run, pass --apply to write)'}`)
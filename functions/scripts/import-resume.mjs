@@ -0,0 +1,26 @@
+// Copies the resume summary, highlight cards and curated sections that used to
+// be hard-coded in the `/resume` function and the web app onto public/resume
+// (and its open draft).
+// Usage: npm run import:resume -- [--apply] [--project <id>]
+// Dry run by default; only missing content is added, so it is safe to re-run.
+const args = process.argv.slice(2)
+const apply = args.includes('--apply')
+const projectIndex = args.indexOf('--project')
+if (projectIndex !== -1 && args[projectIndex + 1]) {
+  process.env.GCLOUD_PROJECT = args[projectIndex + 1]
+}
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  console.warn('import-resume: FIRESTORE_EMULATOR_HOST is not set; using the live project.')
+}
+
+const { importLegacyResume } = await import('../lib/functions/src/importResume.js')
+const report = await importLegacyResume({ apply })
+
+for (const doc of report.docs) {
+  console.log(doc.path)
+  for (const [field, value] of Object.entries(doc.set)) {
+    console.log(`  set ${field} = ${JSON.stringify(value)}`)
+  }
+}
+console.log(`import-resume: ${report.changed}/${report.scanned} documents ${apply ? 'updated' : 'need changes (dry run, pass --apply to write)'}`)
@@ -0,0 +1,27 @@
+// Canonicalizes legacy content field aliases in Firestore.
+// Usage: npm run migrate:fields -- [--apply] [--project <id>]
+// Dry run by default. Point FIRESTORE_EMULATOR_HOST at the emulator to try it
+// locally before touching production data.
+const args = process.argv.slice(2)
+const apply = args.includes('--apply')
+const projectIndex = args.indexOf('--project')
+if (projectIndex !== -1 && args[projectIndex + 1]) {
+  process.env.GCLOUD_PROJECT = args[projectIndex + 1]
+}
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  console.warn('migrate-fields: FIRESTORE_EMULATOR_HOST is not set; using the live project.')
+}
+
+const { migrateLegacyFields } = await import('../lib/functions/src/migrateFields.js')
+const report = await migrateLegacyFields({ apply })
+
+for (const doc of report.docs) {
+  console.log(doc.path)
+  for (const change of doc.changes) {
+    console.log(change.action === 'set'
+      ? `  set ${change.field} (from ${change.from}) = ${JSON.stringify(change.value)}`
+      : `  delete ${change.field}`)
+  }
+}
+console.log(`migrate-fields: ${report.changed}/${report.scanned} documents ${apply ? 'updated' : 'need changes (dry run, pass --apply to write)'}`)
@@ -0,0 +1,28 @@
+// Grants or revokes an admin role from the command line. Use it once to
+// create the first owner; after that owners manage users from /admin/users.
+// Usage: npm run set-role -- <email> <owner|editor|translator|none> [--project <id>]
+const args = process.argv.slice(2)
+const projectIndex = args.indexOf('--project')
+if (projectIndex !== -1 && args[projectIndex + 1]) {
+  process.env.GCLOUD_PROJECT = args[projectIndex + 1]
+  args.splice(projectIndex, 2)
+}
+const [email, roleArg] = args
+
+const { assignAdminRole } = await import('../lib/functions/src/adminUsers.js')
+const { isAdminRole } = await import('../lib/functions/src/schema.js')
+
+if (!email || !roleArg || (roleArg !== 'none' && !isAdminRole(roleArg))) {
+  console.error('Usage: npm run set-role -- <email> <owner|editor|translator|none> [--project <id>]')
+  process.exit(1)
+}
+
+const result = await assignAdminRole(email.toLowerCase(), roleArg === 'none' ? null : roleArg)
+if (!result.user) {
+  console.log(`set-role: ${email} has no admin role`)
+} else {
+  console.log(`set-role: ${result.user.email} is now ${result.user.role}${result.created ? ' (new account)' : ''}`)
+}
+if (result.inviteLink) {
+  console.log(`set-role: password setup link: ${result.inviteLink}`)
+}
@@ -0,0 +1,119 @@
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getAuth, type UserRecord } from 'firebase-admin/auth'
+import { HttpsError, type CallableRequest } from 'firebase-functions/v2/https'
+import { ROLE_LABELS, isAdminRole, pickString, roleFromClaims, type AdminRole } from './schema.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+export type AdminUser = {
+  uid: string
+  email: string
+  role: AdminRole
+  disabled: boolean
+  lastSignInAt: string | null
+}
+
+export type SetAdminRoleResult = {
+  user: AdminUser | null
+  created: boolean
+  inviteLink: string | null
+}
+
+function toAdminUser(user: UserRecord): AdminUser | null {
+  const role = roleFromClaims(user.customClaims)
+  if (!role) return null
+  return {
+    uid: user.uid,
+    email: user.email ?? '',
+    role,
+    disabled: user.disabled,
+    lastSignInAt: user.metadata.lastSignInTime ? new Date(user.metadata.lastSignInTime).toISOString() : null
+  }
+}
+
+function requireOwner(request: CallableRequest) {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in first.')
+  }
+  if (roleFromClaims(request.auth.token) !== 'owner') {
+    throw new HttpsError('permission-denied', 'Only owners can manage admin users.')
+  }
+}
+
+export async function listAdminUsers(): Promise<AdminUser[]> {
+  const users: AdminUser[] = []
+  let pageToken: string | undefined
+  do {
+    const page = await getAuth().listUsers(1000, pageToken)
+    page.users.forEach(user => {
+      const adminUser = toAdminUser(user)
+      if (adminUser) users.push(adminUser)
+    })
+    pageToken = page.pageToken
+  } while (pageToken)
+  return users.sort((left, right) => left.email.localeCompare(right.email))
+}
+
+// Grants, changes or (with `role: null`) revokes a role. Unknown emails get a
+// new passwordless account and a password-setup link the owner can send on.
+export async function assignAdminRole(email: string, role: AdminRole | null): Promise<SetAdminRoleResult> {
+  const auth = getAuth()
+  let user: UserRecord
+  let created = false
+  try {
+    user = await auth.getUserByEmail(email)
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'auth/user-not-found') throw error
+    if (!role) return { user: null, created: false, inviteLink: null }
+    user = await auth.createUser({ email })
+    created = true
+  }
+
+  const previous = roleFromClaims(user.customClaims)
+  // `admin` is the claim the rules used before roles existed.
+  const { role: _role, admin: _admin, ...claims } = user.customClaims ?? {}
+  await auth.setCustomUserClaims(user.uid, role ? { ...claims, role } : claims)
+  if (previous && previous !== role) {
+    // The rules accept an issued ID token until it expires, so the old role
+    // lasts up to an hour; revoking stops the token from being renewed after
+    // that. A first grant has nothing to withdraw and skips this.
+    await auth.revokeRefreshTokens(user.uid)
+  }
+
+  const updated = await auth.getUser(user.uid)
+  return {
+    user: toAdminUser(updated),
+    created,
+    inviteLink: created ? await auth.generatePasswordResetLink(email) : null
+  }
+}
+
+export async function listAdminUsersHandler(request: CallableRequest): Promise<AdminUser[]> {
+  requireOwner(request)
+  return listAdminUsers()
+}
+
+export async function setAdminRoleHandler(request: CallableRequest<{ email?: unknown; role?: unknown }>): Promise<SetAdminRoleResult> {
+  requireOwner(request)
+  const email = pickString(request.data?.email).toLowerCase()
+  const role = request.data?.role ?? null
+  if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new HttpsError('invalid-argument', 'Enter a valid email address.')
+  }
+  if (role !== null && !isAdminRole(role)) {
+    throw new HttpsError('invalid-argument', `Role must be one of: ${Object.values(ROLE_LABELS).join(', ')}.`)
+  }
+  // Keeps the last owner from locking everyone out of the users page.
+  if (email === pickString(request.auth?.token.email).toLowerCase()) {
+    throw new HttpsError('failed-precondition', 'Owners cannot change their own role.')
+  }
+
+  try {
+    return await assignAdminRole(email, role)
+  } catch (error) {
+    console.error('setAdminRoleHandler error:', error)
+    throw new HttpsError('internal', 'Unable to update the role right now.')
+  }
+}
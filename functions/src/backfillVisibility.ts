@@ -0,0 +1,40 @@
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getFirestore } from 'firebase-admin/firestore'
+import { PROJECT_FIELDS, readField } from './schema.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+export type VisibilityBackfillReport = {
+  apply: boolean
+  scanned: number
+  changed: string[]
+}
+
+// Live projects and their pending drafts, so a draft published later does not
+// bring the gap back.
+const PROJECT_COLLECTIONS = ['projects', 'drafts_projects']
+
+// Projects saved before `visibility` existed have none, and the public listing
+// only matches `visibility == 'public'`. Writes `public` on them; runs before
+// every Firestore deploy (see `firebase.json`) and is a no-op once they all
+// have one. Dry run unless `apply` is set.
+export async function backfillProjectVisibility({ apply = false } = {}): Promise<VisibilityBackfillReport> {
+  const db = getFirestore()
+  const changed: string[] = []
+  let scanned = 0
+
+  for (const collection of PROJECT_COLLECTIONS) {
+    const snapshot = await db.collection(collection).get()
+    for (const doc of snapshot.docs) {
+      scanned += 1
+      if (readField(doc.data(), PROJECT_FIELDS.visibility) != null) continue
+      if (apply) {
+        await doc.ref.update({ visibility: 'public' })
+      }
+      changed.push(doc.ref.path)
+    }
+  }
+  return { apply, scanned, changed }
+}
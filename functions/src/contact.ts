@@ -0,0 +1,134 @@
+import type { Request, Response } from 'express'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
+import { clientKey, consumeRateLimit, type RateLimit } from './rateLimit.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+const MESSAGES_COLLECTION = 'messages'
+const RATE_LIMIT: RateLimit = {
+  collection: 'contact_rate_limits',
+  windowMs: 60 * 60 * 1000,
+  max: 5
+}
+
+const LIMITS = {
+  name: 120,
+  email: 254,
+  subject: 200,
+  message: 5000
+}
+
+type ContactLanguage = 'en' | 'ja'
+
+type ContactSubmission = {
+  name: string
+  email: string
+  subject: string
+  message: string
+  language: ContactLanguage
+}
+
+type FieldErrors = Partial<Record<keyof ContactSubmission, string>>
+
+function pick(value: unknown) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function readBody(req: Request): Record<string, unknown> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>
+  }
+  if (typeof req.body === 'string') {
+    try {
+      const parsed = JSON.parse(req.body) as unknown
+      return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {}
+    } catch {
+      return {}
+    }
+  }
+  return {}
+}
+
+function validateSubmission(body: Record<string, unknown>): { submission: ContactSubmission; errors: FieldErrors } {
+  const submission: ContactSubmission = {
+    name: pick(body.name),
+    email: pick(body.email).toLowerCase(),
+    subject: pick(body.subject),
+    message: pick(body.message),
+    language: pick(body.language) === 'ja' ? 'ja' : 'en'
+  }
+  const errors: FieldErrors = {}
+
+  if (!submission.name) {
+    errors.name = 'required'
+  } else if (submission.name.length > LIMITS.name) {
+    errors.name = 'too_long'
+  }
+
+  if (!submission.email) {
+    errors.email = 'required'
+  } else if (submission.email.length > LIMITS.email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(submission.email)) {
+    errors.email = 'invalid'
+  }
+
+  if (submission.subject.length > LIMITS.subject) {
+    errors.subject = 'too_long'
+  }
+
+  if (!submission.message) {
+    errors.message = 'required'
+  } else if (submission.message.length > LIMITS.message) {
+    errors.message = 'too_long'
+  }
+
+  return { submission, errors }
+}
+
+export async function contactHandler(req: Request, res: Response) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    res.status(405).json({ ok: false, error: 'method_not_allowed' })
+    return
+  }
+
+  try {
+    const body = readBody(req)
+
+    // Honeypot: real visitors never see this field, so pretend success for bots.
+    if (pick(body.website)) {
+      res.status(200).json({ ok: true })
+      return
+    }
+
+    const { submission, errors } = validateSubmission(body)
+    if (Object.keys(errors).length > 0) {
+      res.status(400).json({ ok: false, error: 'invalid', fields: errors })
+      return
+    }
+
+    const key = clientKey(req)
+    if (!(await consumeRateLimit(RATE_LIMIT, key))) {
+      res.setHeader('Retry-After', String(RATE_LIMIT.windowMs / 1000))
+      res.status(429).json({ ok: false, error: 'rate_limited' })
+      return
+    }
+
+    await getFirestore().collection(MESSAGES_COLLECTION).add({
+      ...submission,
+      status: 'new',
+      clientHash: key,
+      userAgent: pick(req.get('user-agent')).slice(0, 300),
+      createdAt: FieldValue.serverTimestamp()
+    })
+
+    res.status(201).json({ ok: true })
+  } catch (error) {
+    console.error('contactHandler error:', error)
+    res.status(500).json({ ok: false, error: 'server_error' })
+  }
+}
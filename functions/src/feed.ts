@@ -0,0 +1,189 @@
+import type { Request, Response } from 'express'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getFirestore } from 'firebase-admin/firestore'
+import { loadSiteDoc, personName } from './resume.js'
+import {
+  localized,
+  markdownPlainText,
+  normalizePostRecord,
+  parseMarkdown,
+  renderMarkdownHtml,
+  sortPosts,
+  validatePostDoc,
+  type PostRecord,
+  type RawDoc,
+  type SupportedLanguage
+} from './schema.js'
+import { resolveSiteUrl } from './siteUrl.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+const FEED_LIMIT = 20
+const JA_PATH_PREFIX = '/ja'
+
+type FeedFormat = 'rss' | 'atom'
+
+type FeedEntry = {
+  url: string
+  title: string
+  summary: string
+  html: string
+  tags: string[]
+  published: Date
+  updated: Date
+}
+
+type FeedMeta = {
+  title: string
+  link: string
+  self: string
+  description: string
+  author: string
+  language: SupportedLanguage
+  updated: Date
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function parseDate(value: string, fallback: Date) {
+  const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value)
+  return value && !Number.isNaN(parsed.getTime()) ? parsed : fallback
+}
+
+function localizedPath(path: string, language: SupportedLanguage) {
+  return language === 'ja' ? `${JA_PATH_PREFIX}${path}` : path
+}
+
+// Feed readers resolve relative links inconsistently, so site-relative links
+// in post bodies are made absolute.
+function absolutizeLinks(html: string, base: string, language: SupportedLanguage) {
+  return html.replace(/(href|src)="(\/[^/"][^"]*|\/)"/g, (_match, attr: string, path: string) => {
+    const target = attr === 'href' && !/\.[a-z0-9]+$/i.test(path.split(/[?#]/, 1)[0]) ? localizedPath(path, language) : path
+    return `${attr}="${base}${target}"`
+  })
+}
+
+async function loadPosts(): Promise<Array<{ post: PostRecord; updateTime: Date }>> {
+  const snapshot = await getFirestore().collection('posts').get()
+  const updateTimes = new Map<string, Date>()
+  const posts = snapshot.docs.map(doc => {
+    const raw = doc.data() as RawDoc
+    const issues = validatePostDoc(raw)
+    if (issues.length) {
+      console.warn(`posts/${doc.id} schema issues:`, issues)
+    }
+    updateTimes.set(doc.id, doc.updateTime.toDate())
+    return normalizePostRecord({ id: doc.id, ...raw })
+  })
+  return sortPosts(posts)
+    .slice(0, FEED_LIMIT)
+    .map(post => ({ post, updateTime: updateTimes.get(post.slug)! }))
+}
+
+function buildEntry(post: PostRecord, updateTime: Date, base: string, language: SupportedLanguage): FeedEntry {
+  const blocks = parseMarkdown(localized(post.body, language))
+  const published = parseDate(post.publishedAt, updateTime)
+  return {
+    url: `${base}${localizedPath(`/writing/${encodeURIComponent(post.slug)}`, language)}`,
+    title: localized(post.title, language) || post.slug,
+    summary: localized(post.summary, language) || markdownPlainText(blocks).slice(0, 280),
+    html: absolutizeLinks(renderMarkdownHtml(blocks), base, language),
+    tags: localized(post.tags, language),
+    published,
+    updated: parseDate(post.updatedAt, published)
+  }
+}
+
+function renderRss(entries: FeedEntry[], meta: FeedMeta) {
+  const items = entries.map(entry => [
+    '    <item>',
+    `      <title>${escapeXml(entry.title)}</title>`,
+    `      <link>${escapeXml(entry.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(entry.url)}</guid>`,
+    `      <pubDate>${entry.published.toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(entry.summary)}</description>`,
+    `      <content:encoded>${escapeXml(entry.html)}</content:encoded>`,
+    ...entry.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+    '    </item>'
+  ].join('\n'))
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(meta.title)}</title>
+    <link>${escapeXml(meta.link)}</link>
+    <description>${escapeXml(meta.description)}</description>
+    <language>${meta.language}</language>
+    <lastBuildDate>${meta.updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(meta.self)}" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>
+`
+}
+
+function renderAtom(entries: FeedEntry[], meta: FeedMeta) {
+  const items = entries.map(entry => [
+    '  <entry>',
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <id>${escapeXml(entry.url)}</id>`,
+    `    <link href="${escapeXml(entry.url)}" />`,
+    `    <published>${entry.published.toISOString()}</published>`,
+    `    <updated>${entry.updated.toISOString()}</updated>`,
+    `    <summary>${escapeXml(entry.summary)}</summary>`,
+    `    <content type="html">${escapeXml(entry.html)}</content>`,
+    ...entry.tags.map(tag => `    <category term="${escapeXml(tag)}" />`),
+    '  </entry>'
+  ].join('\n'))
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${meta.language}">
+  <title>${escapeXml(meta.title)}</title>
+  <id>${escapeXml(meta.link)}</id>
+  <link href="${escapeXml(meta.link)}" />
+  <link rel="self" href="${escapeXml(meta.self)}" type="application/atom+xml" />
+  <updated>${meta.updated.toISOString()}</updated>
+  <author><name>${escapeXml(meta.author)}</name></author>
+${items.join('\n')}
+</feed>
+`
+}
+
+export async function feedHandler(req: Request, res: Response) {
+  try {
+    const base = resolveSiteUrl(req)
+    const language: SupportedLanguage = req.path.startsWith(`${JA_PATH_PREFIX}/`) ? 'ja' : 'en'
+    const format: FeedFormat = req.path.endsWith('atom.xml') ? 'atom' : 'rss'
+    const [site, posts] = await Promise.all([loadSiteDoc(), loadPosts()])
+    const author = personName(site, language)
+    const entries = posts.map(({ post, updateTime }) => buildEntry(post, updateTime, base, language))
+    const meta: FeedMeta = {
+      title: `${author} | ${language === 'ja' ? '記事' : 'Writing'}`,
+      link: `${base}${localizedPath('/writing', language)}`,
+      self: `${base}${localizedPath(format === 'atom' ? '/atom.xml' : '/feed.xml', language)}`,
+      description: language === 'ja'
+        ? '実装、連携、運用サポートについての記事。'
+        : 'Notes on implementation, integrations, and supporting production systems.',
+      author,
+      language,
+      updated: entries.length ? new Date(Math.max(...entries.map(entry => entry.updated.getTime()))) : new Date()
+    }
+
+    res.setHeader('Content-Type', format === 'atom' ? 'application/atom+xml; charset=utf-8' : 'application/rss+xml; charset=utf-8')
+    res.setHeader('Cache-Control', 'public, max-age=3600')
+    res.status(200).send(format === 'atom' ? renderAtom(entries, meta) : renderRss(entries, meta))
+  } catch (error) {
+    console.error('feedHandler error:', error)
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+    res.status(500).send('Unable to generate feed right now.')
+  }
+}
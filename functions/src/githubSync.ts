@@ -0,0 +1,184 @@
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getFirestore } from 'firebase-admin/firestore'
+import {
+  GITHUB_API_HEADERS,
+  GITHUB_API_URL,
+  PROJECT_FIELDS,
+  buildProjectUpdateFromRepo,
+  changedFields,
+  isGitHubCover,
+  readField,
+  type GitHubRepo
+} from './schema.js'
+import { recordRevision, type RevisionAuthor } from './revisions.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+const SYNC_RUNS_COLLECTION = 'github_sync_runs'
+const DRAFTS_COLLECTION = 'drafts_projects'
+const DRAFT_DELETED_FIELD = 'draftDeleted'
+const SYNC_AUTHOR: RevisionAuthor = { uid: 'github-sync', email: '' }
+
+type ProjectSyncStatus = 'updated' | 'not_found' | 'failed'
+
+type ProjectSyncResult = {
+  projectId: string
+  fullName: string
+  status: ProjectSyncStatus
+  error?: string
+}
+
+export type GitHubSyncReport = {
+  startedAt: string
+  finishedAt: string
+  trigger: string
+  total: number
+  updated: number
+  notFound: number
+  failed: number
+  results: ProjectSyncResult[]
+}
+
+function pick(value: unknown) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function githubApiBase() {
+  const configured = pick(process.env.GITHUB_API_URL)
+  return (configured || GITHUB_API_URL).replace(/\/+$/, '')
+}
+
+function githubHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    ...GITHUB_API_HEADERS,
+    'User-Agent': 'rosenauinfo-github-sync/1.0'
+  }
+  const token = pick(process.env.GITHUB_TOKEN)
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+  return headers
+}
+
+async function fetchRepo(fullName: string): Promise<GitHubRepo | null> {
+  const [owner, name] = fullName.split('/', 2)
+  const response = await fetch(
+    `${githubApiBase()}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`,
+    { headers: githubHeaders() }
+  )
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`GitHub request failed for ${fullName} (status ${response.status})`)
+  }
+  return (await response.json()) as GitHubRepo
+}
+
+export type LinkedProject = {
+  id: string
+  data: Record<string, unknown>
+}
+
+// Builds the update for one stored copy of the project (live or draft) from
+// that copy's own fields.
+export type ProjectUpdateBuilder = (data: Record<string, unknown>) => Record<string, unknown>
+
+export type ProjectWriter = (projectId: string, updateFor: ProjectUpdateBuilder) => Promise<void>
+
+async function syncProject(project: LinkedProject, syncedAt: string, write: ProjectWriter): Promise<ProjectSyncResult> {
+  const fullName = pick(project.data.github_full_name)
+
+  try {
+    const repo = await fetchRepo(fullName)
+    if (!repo) {
+      return { projectId: project.id, fullName, status: 'not_found' }
+    }
+    // Covers are only replaced where that copy already uses a GitHub social
+    // preview, so hand-picked images survive.
+    await write(project.id, data =>
+      buildProjectUpdateFromRepo(repo, isGitHubCover(readField(data, PROJECT_FIELDS.cover)), syncedAt)
+    )
+    return { projectId: project.id, fullName, status: 'updated' }
+  } catch (error) {
+    return {
+      projectId: project.id,
+      fullName,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+// Sequential on purpose: keeps unauthenticated runs inside GitHub's rate limit.
+export async function syncLinkedProjects(projects: LinkedProject[], syncedAt: string, write: ProjectWriter) {
+  const results: ProjectSyncResult[] = []
+  for (const project of projects) {
+    results.push(await syncProject(project, syncedAt, write))
+  }
+  return results
+}
+
+// The live project and any pending draft are refreshed together; otherwise the
+// next publish would put the draft's stale GitHub fields back. Each gets an
+// update built from its own cover. The replaced live document is kept as a
+// revision unless only the sync time moved.
+async function writeProjectUpdate(projectId: string, updateFor: ProjectUpdateBuilder) {
+  const db = getFirestore()
+  const liveRef = db.collection('projects').doc(projectId)
+  const draftRef = db.collection(DRAFTS_COLLECTION).doc(projectId)
+
+  await db.runTransaction(async transaction => {
+    const [live, draft] = await Promise.all([transaction.get(liveRef), transaction.get(draftRef)])
+    if (!live.exists) {
+      throw new Error('Project was deleted during the sync')
+    }
+    const previous = live.data() as Record<string, unknown>
+    const update = updateFor(previous)
+    const next = { ...previous, ...update }
+    if (changedFields(previous, next).some(field => field !== 'github_synced_at')) {
+      recordRevision(transaction, liveRef, previous, next, SYNC_AUTHOR)
+    }
+    transaction.update(liveRef, update)
+    if (draft.exists && draft.get(DRAFT_DELETED_FIELD) !== true) {
+      transaction.update(draftRef, updateFor(draft.data() as Record<string, unknown>))
+    }
+  })
+}
+
+export async function syncGitHubProjects(trigger = 'schedule'): Promise<GitHubSyncReport> {
+  const db = getFirestore()
+  const startedAt = new Date().toISOString()
+  const snapshot = await db.collection('projects').get()
+  const linked = snapshot.docs
+    .filter(doc => pick(doc.get('github_full_name')).includes('/'))
+    .map(doc => ({ id: doc.id, data: doc.data() }))
+
+  const results = await syncLinkedProjects(linked, startedAt, (projectId, updateFor) => writeProjectUpdate(projectId, updateFor))
+
+  const report: GitHubSyncReport = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    trigger,
+    total: results.length,
+    updated: results.filter(result => result.status === 'updated').length,
+    notFound: results.filter(result => result.status === 'not_found').length,
+    failed: results.filter(result => result.status === 'failed').length,
+    results
+  }
+
+  await db.collection(SYNC_RUNS_COLLECTION).add(report)
+  return report
+}
+
+export async function githubSyncHandler() {
+  try {
+    const report = await syncGitHubProjects('schedule')
+    console.log(`githubSync: updated ${report.updated}/${report.total}, not found ${report.notFound}, failed ${report.failed}`)
+  } catch (error) {
+    console.error('githubSyncHandler error:', error)
+    throw error
+  }
+}
@@ -0,0 +1,91 @@
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getFirestore, type DocumentReference } from 'firebase-admin/firestore'
+import { identifyLegacyProject, LEGACY_PROJECT_NARRATIVES, type LegacyNarrative } from './legacyNarratives.js'
+import { normalizeProjectRecord, type RawDoc } from './schema.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+export type ImportedNarrative = {
+  path: string
+  key: string
+  set: RawDoc
+}
+
+export type NarrativeImportReport = {
+  apply: boolean
+  scanned: number
+  changed: number
+  docs: ImportedNarrative[]
+}
+
+const PROJECT_COLLECTIONS = ['projects', 'drafts_projects']
+const LANGUAGES = ['en', 'ja'] as const
+
+// Fills only what the page was taking from the hard-coded copy, so every case
+// study renders exactly as before: a field the document already has keeps
+// winning, and `summary` / `systems` are skipped where the description /
+// architecture used to stand in for them.
+export function planNarrativeImport(raw: RawDoc, narrative: LegacyNarrative): RawDoc {
+  const project = normalizeProjectRecord(raw)
+  const set: RawDoc = {}
+
+  LANGUAGES.forEach(language => {
+    if (!project.summary[language] && !project.description[language]) {
+      set[`summary_${language}`] = narrative.summary[language]
+    }
+    if (!project.systems[language] && !project.architecture[language]) {
+      set[`systems_${language}`] = narrative.systems[language]
+    }
+    ;(['problem', 'owned', 'architecture', 'result'] as const).forEach(name => {
+      if (!project[name][language]) {
+        set[`${name}_${language}`] = narrative[name][language]
+      }
+    })
+  })
+  if (project.priority === undefined) set.priority = narrative.priority
+  if (typeof raw.featured !== 'boolean') set.featured = narrative.featured
+  return set
+}
+
+async function importDoc(ref: DocumentReference, apply: boolean): Promise<ImportedNarrative | null> {
+  const snapshot = await ref.get()
+  if (!snapshot.exists) return null
+  const raw = snapshot.data() as RawDoc
+  const project = normalizeProjectRecord({ id: ref.id, ...raw })
+  const key = identifyLegacyProject([
+    project.id,
+    project.title.en,
+    project.title.ja,
+    project.repo || '',
+    project.githubFullName || '',
+    project.githubRepo || ''
+  ])
+  const narrative = LEGACY_PROJECT_NARRATIVES[key]
+  if (!narrative) return { path: ref.path, key: '', set: {} }
+
+  const set = planNarrativeImport(raw, narrative)
+  if (apply && Object.keys(set).length) {
+    await ref.update(set)
+  }
+  return { path: ref.path, key, set }
+}
+
+// One-time move of the narratives that used to ship in the web bundle onto the
+// project documents. Dry run unless `apply` is set; re-running after an apply
+// reports no changes.
+export async function importLegacyNarratives({ apply = false } = {}): Promise<NarrativeImportReport> {
+  const db = getFirestore()
+  const results: Array<ImportedNarrative | null> = []
+  for (const collection of PROJECT_COLLECTIONS) {
+    const refs = await db.collection(collection).listDocuments()
+    for (const ref of refs) {
+      results.push(await importDoc(ref, apply))
+    }
+  }
+
+  const scanned = results.filter((result): result is ImportedNarrative => result !== null)
+  const docs = scanned.filter(result => Object.keys(result.set).length > 0)
+  return { apply, scanned: scanned.length, changed: docs.length, docs }
+}
@@ -0,0 +1,126 @@
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getFirestore, type DocumentReference } from 'firebase-admin/firestore'
+import {
+  LEGACY_RESUME_HEADLINE,
+  LEGACY_RESUME_HIGHLIGHTS,
+  LEGACY_RESUME_KNOWS_ABOUT,
+  LEGACY_RESUME_LEAD,
+  LEGACY_RESUME_SECTIONS,
+  LEGACY_RESUME_SUMMARY,
+  LEGACY_RESUME_SUPPORTING
+} from './legacyResume.js'
+import {
+  normalizeResumeDoc,
+  type RawDoc,
+  type ResumeHighlight,
+  type LocalizedText,
+  type ResumeSectionContent
+} from './schema.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+export type ImportedResume = {
+  path: string
+  set: RawDoc
+}
+
+export type ResumeImportReport = {
+  apply: boolean
+  scanned: number
+  changed: number
+  docs: ImportedResume[]
+}
+
+const RESUME_PATHS = [['public', 'resume'], ['drafts_public', 'resume']] as const
+const LANGUAGES = ['en', 'ja'] as const
+
+function highlightDoc(highlight: ResumeHighlight): RawDoc {
+  return {
+    id: highlight.id,
+    title_en: highlight.title.en,
+    title_ja: highlight.title.ja,
+    body_en: highlight.body.en,
+    body_ja: highlight.body.ja
+  }
+}
+
+function sectionDoc(section: ResumeSectionContent): RawDoc {
+  return {
+    id: section.id,
+    title_en: section.title.en,
+    title_ja: section.title.ja,
+    items_en: section.items.en,
+    items_ja: section.items.ja
+  }
+}
+
+// Sets both languages of a text field that is empty in both.
+function fillText(set: RawDoc, key: string, current: LocalizedText, fallback: LocalizedText) {
+  if (current.en || current.ja) return
+  LANGUAGES.forEach(language => {
+    set[`${key}_${language}`] = fallback[language]
+  })
+}
+
+// The code used to render the curated sections ahead of whatever the document
+// held, so missing ones are put back in front, in their old order. Sections
+// already on the document (matched by id) and any page copy, highlights or
+// summary an admin entered are left alone.
+export function planResumeImport(raw: RawDoc): RawDoc {
+  const resume = normalizeResumeDoc(raw)
+  const set: RawDoc = {}
+
+  // Pages fall back to the other language, so a summary in either one counts.
+  if (!resume.summary.en.length && !resume.summary.ja.length) {
+    LANGUAGES.forEach(language => {
+      set[`summary_${language}`] = LEGACY_RESUME_SUMMARY[language].join('\n\n')
+    })
+  }
+  fillText(set, 'headline', resume.headline, LEGACY_RESUME_HEADLINE)
+  fillText(set, 'lead', resume.lead, LEGACY_RESUME_LEAD)
+  fillText(set, 'supporting', resume.supporting, LEGACY_RESUME_SUPPORTING)
+  if (!resume.knowsAbout.length) {
+    set.knows_about = LEGACY_RESUME_KNOWS_ABOUT
+  }
+  if (!resume.highlights.length) {
+    set.highlights = LEGACY_RESUME_HIGHLIGHTS.map(highlightDoc)
+  }
+
+  const existing = new Set(resume.sections.map(section => section.id))
+  const missing = LEGACY_RESUME_SECTIONS.filter(section => !existing.has(section.id))
+  if (missing.length) {
+    set.sections = [...missing.map(sectionDoc), ...(Array.isArray(raw.sections) ? raw.sections : [])]
+  }
+  return set
+}
+
+async function importDoc(ref: DocumentReference, apply: boolean): Promise<ImportedResume | null> {
+  const snapshot = await ref.get()
+  // The live document is created when missing; a draft only exists while an
+  // edit is in progress.
+  if (!snapshot.exists && ref.parent.id !== 'public') return null
+  const raw = (snapshot.data() ?? {}) as RawDoc
+
+  const set = planResumeImport(raw)
+  if (apply && Object.keys(set).length) {
+    await ref.set(set, { merge: true })
+  }
+  return { path: ref.path, set }
+}
+
+// One-time move of the resume copy that used to ship in the `/resume` function
+// and the web bundle onto `public/resume`. Dry run unless `apply` is set;
+// re-running after an apply reports no changes.
+export async function importLegacyResume({ apply = false } = {}): Promise<ResumeImportReport> {
+  const db = getFirestore()
+  const results: Array<ImportedResume | null> = []
+  for (const [collection, id] of RESUME_PATHS) {
+    results.push(await importDoc(db.collection(collection).doc(id), apply))
+  }
+
+  const scanned = results.filter((result): result is ImportedResume => result !== null)
+  const docs = scanned.filter(result => Object.keys(result.set).length > 0)
+  return { apply, scanned: scanned.length, changed: docs.length, docs }
+}
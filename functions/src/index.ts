@@ -1,24 +1,80 @@
-import { onRequest } from 'firebase-functions/v2/https'
+import { onCall, onRequest } from 'firebase-functions/v2/https'
+import { onSchedule } from 'firebase-functions/v2/scheduler'
+import { onDocumentWritten } from 'firebase-functions/v2/firestore'
+import { onObjectFinalized } from 'firebase-functions/v2/storage'
+import { listAdminUsersHandler, setAdminRoleHandler } from './adminUsers.js'
+import { contactHandler } from './contact.js'
+import { feedHandler } from './feed.js'
+import { githubSyncHandler } from './githubSync.js'
+import { portalHandler } from './portal.js'
 import { projectCoverHandler } from './projectCover.js'
+import { projectCoverUploadedHandler } from './projectCoverVariants.js'
 import { sitemapHandler } from './sitemap.js'
-import { resumeHtmlHandler, resumePdfHandler } from './resume.js'
+import { resumeHtmlHandler } from './resume.js'
+import { resumeJsonHandler } from './resumeJson.js'
+import { resumePdfHandler, resumePdfSourceChangedHandler } from './resumePdf.js'
+import { shareLinkHandler } from './shareLink.js'
 
 export const sitemap = onRequest(
   { cors: ['*'], invoker: 'public' },
   sitemapHandler
 )
 
+export const feed = onRequest(
+  { cors: ['*'], invoker: 'public' },
+  feedHandler
+)
+
 export const resumeHtml = onRequest(
   { cors: ['*'], invoker: 'public' },
   resumeHtmlHandler
 )
 
 export const resumePdf = onRequest(
-  { cors: ['*'], invoker: 'public' },
+  { cors: ['*'], invoker: 'public', memory: '512MiB' },
   resumePdfHandler
 )
 
-export const projectCover = onRequest(
+export const resumeJson = onRequest(
   { cors: ['*'], invoker: 'public' },
+  resumeJsonHandler
+)
+
+export const shareLink = onRequest(
+  { invoker: 'public' },
+  shareLinkHandler
+)
+
+export const resumePdfRegenerate = onDocumentWritten(
+  { document: 'public/{docId}', memory: '512MiB' },
+  resumePdfSourceChangedHandler
+)
+
+export const projectCover = onRequest(
+  { cors: ['*'], invoker: 'public', memory: '512MiB' },
   projectCoverHandler
 )
+
+export const projectCoverUploaded = onObjectFinalized(
+  { memory: '1GiB', timeoutSeconds: 120 },
+  projectCoverUploadedHandler
+)
+
+export const contact = onRequest(
+  { invoker: 'public' },
+  contactHandler
+)
+
+export const portal = onRequest(
+  { invoker: 'public' },
+  portalHandler
+)
+
+export const githubSync = onSchedule(
+  { schedule: 'every 24 hours', timeoutSeconds: 300 },
+  githubSyncHandler
+)
+
+export const listAdminUsers = onCall(listAdminUsersHandler)
+
+export const setAdminRole = onCall(setAdminRoleHandler)
@@ -0,0 +1,504 @@
+import { createHash } from 'node:crypto'
+import type { Request, Response } from 'express'
+import PDFDocument from 'pdfkit'
+import { preparePdf } from './pdfFonts.js'
+import {
+  formatJapaneseDate,
+  formatJapanesePeriod,
+  japaneseAge,
+  rirekishoHistoryRows,
+  rirekishoQualificationRows,
+  shokumuCareers,
+  type JapaneseCareer,
+  type ResumeContent,
+  type RirekishoRow,
+  type SiteContent
+} from './schema.js'
+
+// The JIS-style 履歴書 and the 職務経歴書, served by resumeHtml under the
+// `/resume/**` rewrite as `/resume/rirekisho` and `/resume/shokumu-keirekisho`,
+// with a `.pdf` suffix for the printable file. Both are Japanese only.
+
+export const JAPANESE_DOCUMENTS = ['rirekisho', 'shokumu-keirekisho'] as const
+
+export type JapaneseDocument = (typeof JAPANESE_DOCUMENTS)[number]
+
+export type JapaneseDocumentRequest = {
+  document: JapaneseDocument
+  format: 'html' | 'pdf'
+}
+
+export type JapaneseDocumentContent = {
+  asOf: string
+  name: string
+  nameKana: string
+  birthDate: string
+  age: number | null
+  postalCode: string
+  address: string
+  addressKana: string
+  phone: string
+  email: string
+  historyRows: RirekishoRow[]
+  qualificationRows: RirekishoRow[]
+  careers: JapaneseCareer[]
+  summary: string[]
+  skills: string[]
+  selfPr: string
+  personalRequests: string
+}
+
+const TITLES: Record<JapaneseDocument, string> = {
+  rirekisho: '履歴書',
+  'shokumu-keirekisho': '職務経歴書'
+}
+// The JIS form has room for this many lines; shorter histories are padded
+// with blank rows so the printed grid keeps its shape.
+const HISTORY_ROWS = 16
+const QUALIFICATION_ROWS = 6
+const DEFAULT_REQUESTS = '貴社の規定に従います。'
+// Bump when the layout changes so clients drop cached copies.
+const LAYOUT_VERSION = 1
+
+const DOCUMENT_PATH = /^\/resume\/(rirekisho|shokumu-keirekisho)(\.pdf)?\/?$/
+
+export function matchJapaneseDocument(path: string): JapaneseDocumentRequest | null {
+  const match = DOCUMENT_PATH.exec(path)
+  if (!match) return null
+  return { document: match[1] as JapaneseDocument, format: match[2] ? 'pdf' : 'html' }
+}
+
+// Today in Japan, as YYYY-MM-DD.
+function japanToday() {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Tokyo' }).format(new Date())
+}
+
+export function buildJapaneseDocumentContent(
+  doc: ResumeContent | null,
+  site: SiteContent | null,
+  name: string,
+  asOf = japanToday()
+): JapaneseDocumentContent {
+  const japanese = doc?.japanese
+  const skills = (doc?.sections ?? [])
+    .filter(section => section.kind === 'skills')
+    .flatMap(section => section.items.ja)
+  return {
+    asOf,
+    name,
+    nameKana: japanese?.nameKana ?? '',
+    birthDate: japanese?.birthDate ?? '',
+    age: japanese ? japaneseAge(japanese.birthDate, asOf) : null,
+    postalCode: japanese?.postalCode ?? '',
+    address: japanese?.address ?? '',
+    addressKana: japanese?.addressKana ?? '',
+    phone: japanese?.phone ?? '',
+    email: site?.contactEmail ?? '',
+    historyRows: japanese ? rirekishoHistoryRows(japanese) : [],
+    qualificationRows: japanese ? rirekishoQualificationRows(japanese) : [],
+    careers: japanese ? shokumuCareers(japanese) : [],
+    summary: doc?.summary.ja ?? [],
+    skills,
+    selfPr: japanese?.selfPr ?? '',
+    personalRequests: japanese?.personalRequests || DEFAULT_REQUESTS
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function multiline(value: string) {
+  return escapeHtml(value).replace(/\n/g, '<br />')
+}
+
+function birthLine(content: JapaneseDocumentContent) {
+  if (!content.birthDate) return ''
+  const age = content.age === null ? '' : `（満 ${content.age} 歳）`
+  return `${formatJapaneseDate(content.birthDate)}生${age}`
+}
+
+function padRows(rows: RirekishoRow[], minimum: number) {
+  const blank: RirekishoRow = { year: '', month: '', text: '' }
+  return [...rows, ...Array.from({ length: Math.max(0, minimum - rows.length) }, () => blank)]
+}
+
+function careerHeading(career: JapaneseCareer) {
+  return `${career.company}${career.employment ? `（${career.employment}）` : ''}`
+}
+
+function rowsHtml(rows: RirekishoRow[], heading: string) {
+  const body = rows
+    .map(row => `<tr><td class="num">${escapeHtml(row.year)}</td><td class="num">${escapeHtml(row.month)}</td><td${row.align ? ` class="${row.align}"` : ''}>${escapeHtml(row.text)}</td></tr>`)
+    .join('')
+  return `<table class="grid history"><thead><tr><th>年</th><th>月</th><th>${escapeHtml(heading)}</th></tr></thead><tbody>${body}</tbody></table>`
+}
+
+function rirekishoBody(content: JapaneseDocumentContent) {
+  const address = [content.postalCode ? `〒${content.postalCode}` : '', content.address]
+    .filter(Boolean)
+    .map(escapeHtml)
+    .join('<br />')
+  return `
+      <header class="doc-header">
+        <h1>履 歴 書</h1>
+        <p>${escapeHtml(formatJapaneseDate(content.asOf))}現在</p>
+      </header>
+      <div class="identity">
+        <table class="grid">
+          <tr><th>ふりがな</th><td class="kana">${escapeHtml(content.nameKana)}</td></tr>
+          <tr><th>氏名</th><td class="name">${escapeHtml(content.name)}</td></tr>
+          <tr><th>生年月日</th><td>${escapeHtml(birthLine(content))}</td></tr>
+        </table>
+        <div class="photo" aria-hidden="true">写真をはる位置</div>
+      </div>
+      <table class="grid">
+        <tr><th>ふりがな</th><td class="kana" colspan="3">${escapeHtml(content.addressKana)}</td></tr>
+        <tr><th>現住所</th><td colspan="3">${address}</td></tr>
+        <tr><th>電話</th><td>${escapeHtml(content.phone)}</td><th>E-mail</th><td>${escapeHtml(content.email)}</td></tr>
+      </table>
+      ${rowsHtml(padRows(content.historyRows, HISTORY_ROWS), '学歴・職歴（各別にまとめて書く）')}
+      ${rowsHtml(padRows(content.qualificationRows, QUALIFICATION_ROWS), '免許・資格')}
+      <table class="grid">
+        <tr><th class="wide">志望の動機、特技、好きな学科、アピールポイントなど</th></tr>
+        <tr><td class="box">${multiline(content.selfPr)}</td></tr>
+        <tr><th class="wide">本人希望記入欄（特に給料・職種・勤務時間・勤務地・その他についての希望などがあれば記入）</th></tr>
+        <tr><td class="box">${multiline(content.personalRequests)}</td></tr>
+      </table>`
+}
+
+function shokumuBody(content: JapaneseDocumentContent) {
+  const careers = content.careers
+    .map(career => {
+      const items = career.items.length
+        ? `<ul>${career.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        : ''
+      return `<article class="career">
+          <h3><span>${escapeHtml(formatJapanesePeriod(career.start, career.end))}</span>${escapeHtml(careerHeading(career))}</h3>
+          ${career.role ? `<p class="role">${escapeHtml(career.role)}</p>` : ''}
+          ${career.description ? `<p>${multiline(career.description)}</p>` : ''}
+          ${items}
+        </article>`
+    })
+    .join('')
+  const qualifications = content.qualificationRows
+    .map(row => `<li>${row.year ? `${escapeHtml(row.year)}年${escapeHtml(row.month)}月　` : ''}${escapeHtml(row.text)}</li>`)
+    .join('')
+  return `
+      <header class="doc-header">
+        <h1>職務経歴書</h1>
+        <p>${escapeHtml(formatJapaneseDate(content.asOf))}現在<br />氏名　${escapeHtml(content.name)}</p>
+      </header>
+      ${content.summary.length ? `<h2>■ 職務要約</h2>${content.summary.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('')}` : ''}
+      <h2>■ 職務経歴</h2>
+      ${careers || '<p>職務経歴はまだ登録されていません。</p>'}
+      ${content.skills.length ? `<h2>■ 活かせる経験・知識・技術</h2><ul>${content.skills.map(skill => `<li>${escapeHtml(skill)}</li>`).join('')}</ul>` : ''}
+      <h2>■ 資格</h2>
+      <ul>${qualifications}</ul>
+      ${content.selfPr ? `<h2>■ 自己PR</h2><p>${multiline(content.selfPr)}</p>` : ''}
+      <p class="end">以上</p>`
+}
+
+export function japaneseDocumentHtml(document: JapaneseDocument, content: JapaneseDocumentContent) {
+  const title = TITLES[document]
+  const other = document === 'rirekisho' ? 'shokumu-keirekisho' : 'rirekisho'
+  return `<!doctype html>
+<html lang="ja">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>${escapeHtml(title)} | ${escapeHtml(content.name)}</title>
+    <style>
+      @page { size: A4; margin: 12mm; }
+      * { box-sizing: border-box; }
+      body {
+        margin: 0;
+        color: #111827;
+        background: #f3f4f6;
+        font-family: "Noto Sans JP", "Hiragino Sans", "Yu Gothic", sans-serif;
+        line-height: 1.6;
+      }
+      .toolbar {
+        width: min(100%, 210mm);
+        margin: 1rem auto 0;
+        display: flex;
+        flex-wrap: wrap;
+        gap: 0.75rem;
+        font-size: 0.9rem;
+      }
+      .sheet {
+        width: min(100%, 210mm);
+        margin: 1rem auto 2rem;
+        padding: 12mm;
+        background: #fff;
+        box-shadow: 0 8px 24px rgba(15, 23, 42, 0.08);
+      }
+      .doc-header { display: flex; justify-content: space-between; align-items: flex-end; margin-bottom: 0.75rem; }
+      .doc-header h1 { margin: 0; font-size: 1.6rem; letter-spacing: 0.2em; }
+      .doc-header p { margin: 0; text-align: right; font-size: 0.85rem; }
+      .identity { display: grid; grid-template-columns: 1fr 30mm; gap: 4mm; align-items: start; }
+      .photo {
+        width: 30mm;
+        height: 40mm;
+        border: 1px dashed #6b7280;
+        display: grid;
+        place-items: center;
+        font-size: 0.7rem;
+        color: #6b7280;
+      }
+      .grid { width: 100%; border-collapse: collapse; margin-bottom: 4mm; }
+      .grid th, .grid td { border: 1px solid #111827; padding: 0.3rem 0.5rem; vertical-align: top; text-align: left; }
+      .grid th { width: 6.5rem; font-weight: 500; font-size: 0.8rem; background: #f9fafb; }
+      .grid th.wide { width: auto; }
+      .grid .kana { font-size: 0.8rem; }
+      .grid .name { font-size: 1.5rem; }
+      .grid .box { height: 30mm; }
+      .history th:nth-child(1), .history th:nth-child(2) { width: 3.5rem; text-align: center; }
+      .history td { height: 2rem; }
+      .history .num { text-align: center; }
+      .history .center { text-align: center; }
+      .history .right { text-align: right; }
+      h2 { font-size: 1.05rem; margin: 1.25rem 0 0.5rem; }
+      .career h3 {
+        display: flex;
+        gap: 1rem;
+        margin: 0.75rem 0 0.25rem;
+        padding: 0.3rem 0.5rem;
+        font-size: 0.95rem;
+        background: #e5e7eb;
+      }
+      .career .role { font-weight: 600; margin: 0.25rem 0; }
+      .end { text-align: right; }
+      @media print {
+        body { background: #fff; }
+        .toolbar { display: none; }
+        .sheet { margin: 0; padding: 0; box-shadow: none; width: auto; }
+      }
+    </style>
+  </head>
+  <body>
+    <nav class="toolbar" aria-label="書類">
+      <a href="/ja/resume">Web 版の履歴書に戻る</a>
+      <a href="/resume/${document}.pdf">PDF をダウンロード</a>
+      <a href="/resume/${other}">${escapeHtml(TITLES[other])}を見る</a>
+    </nav>
+    <main class="sheet">${document === 'rirekisho' ? rirekishoBody(content) : shokumuBody(content)}
+    </main>
+  </body>
+</html>`
+}
+
+const PDF_COLORS = {
+  text: '#111827',
+  muted: '#4b5563',
+  fill: '#e5e7eb'
+}
+
+// A bordered cell with its text clipped to the box, so long entries never
+// break the JIS grid.
+function cell(
+  doc: PDFKit.PDFDocument,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  text: string,
+  options: { size?: number; align?: 'left' | 'center' | 'right'; font?: 'body' | 'bold' } = {}
+) {
+  doc.rect(x, y, width, height).strokeColor(PDF_COLORS.text).lineWidth(0.6).stroke()
+  if (!text) return
+  doc.font(options.font ?? 'body').fontSize(options.size ?? 9).fillColor(PDF_COLORS.text)
+    .text(text, x + 4, y + 4, { width: width - 8, height: height - 6, align: options.align ?? 'left', ellipsis: true })
+}
+
+function drawRowTable(doc: PDFKit.PDFDocument, rows: RirekishoRow[], heading: string, top: number) {
+  const left = doc.page.margins.left
+  const width = doc.page.width - left - doc.page.margins.right
+  const rowHeight = 20
+  const columns = [42, 26, width - 68]
+  const header = (y: number) => {
+    cell(doc, left, y, columns[0], rowHeight, '年', { align: 'center' })
+    cell(doc, left + columns[0], y, columns[1], rowHeight, '月', { align: 'center' })
+    cell(doc, left + columns[0] + columns[1], y, columns[2], rowHeight, heading, { align: 'center' })
+    return y + rowHeight
+  }
+
+  let y = header(top)
+  rows.forEach(row => {
+    if (y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage()
+      y = header(doc.page.margins.top)
+    }
+    cell(doc, left, y, columns[0], rowHeight, row.year, { align: 'center' })
+    cell(doc, left + columns[0], y, columns[1], rowHeight, row.month, { align: 'center' })
+    cell(doc, left + columns[0] + columns[1], y, columns[2], rowHeight, row.text, { align: row.align })
+    y += rowHeight
+  })
+  return y
+}
+
+function drawBox(doc: PDFKit.PDFDocument, label: string, text: string, top: number, height: number) {
+  const left = doc.page.margins.left
+  const width = doc.page.width - left - doc.page.margins.right
+  let y = top
+  if (y + 18 + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage()
+    y = doc.page.margins.top
+  }
+  cell(doc, left, y, width, 18, label, { size: 8 })
+  cell(doc, left, y + 18, width, height, text)
+  return y + 18 + height
+}
+
+function renderRirekisho(doc: PDFKit.PDFDocument, content: JapaneseDocumentContent) {
+  const left = doc.page.margins.left
+  const width = doc.page.width - left - doc.page.margins.right
+  const photo = { width: 85, height: 113 }
+  const label = 60
+  const identityWidth = width - photo.width - 10
+
+  doc.font('bold').fontSize(18).fillColor(PDF_COLORS.text).text('履 歴 書', left, doc.page.margins.top)
+  doc.font('body').fontSize(9)
+    .text(`${formatJapaneseDate(content.asOf)}現在`, left, doc.page.margins.top + 8, { width: identityWidth, align: 'right' })
+
+  let y = doc.page.margins.top + 30
+  const identity: Array<[string, string, number, number]> = [
+    ['ふりがな', content.nameKana, 18, 8],
+    ['氏名', content.name, 44, 18],
+    ['生年月日', birthLine(content), 22, 9]
+  ]
+  identity.forEach(([name, value, height, size]) => {
+    cell(doc, left, y, label, height, name, { size: 8 })
+    cell(doc, left + label, y, identityWidth - label, height, value, { size })
+    y += height
+  })
+  doc.rect(left + width - photo.width, doc.page.margins.top + 30, photo.width, photo.height)
+    .dash(3, { space: 2 }).strokeColor(PDF_COLORS.muted).stroke().undash()
+  doc.font('body').fontSize(7).fillColor(PDF_COLORS.muted)
+    .text('写真をはる位置', left + width - photo.width, doc.page.margins.top + 30 + photo.height / 2 - 4, { width: photo.width, align: 'center' })
+
+  y = Math.max(y, doc.page.margins.top + 30 + photo.height) + 6
+  cell(doc, left, y, label, 18, 'ふりがな', { size: 8 })
+  cell(doc, left + label, y, width - label, 18, content.addressKana, { size: 8 })
+  y += 18
+  const address = [content.postalCode ? `〒${content.postalCode}` : '', content.address].filter(Boolean).join('\n')
+  cell(doc, left, y, label, 36, '現住所', { size: 8 })
+  cell(doc, left + label, y, width - label, 36, address)
+  y += 36
+  const half = (width - label * 2) / 2
+  cell(doc, left, y, label, 20, '電話', { size: 8 })
+  cell(doc, left + label, y, half, 20, content.phone)
+  cell(doc, left + label + half, y, label, 20, 'E-mail', { size: 8 })
+  cell(doc, left + label * 2 + half, y, half, 20, content.email)
+  y += 30
+
+  y = drawRowTable(doc, padRows(content.historyRows, HISTORY_ROWS), '学歴・職歴（各別にまとめて書く）', y) + 10
+  y = drawRowTable(doc, padRows(content.qualificationRows, QUALIFICATION_ROWS), '免許・資格', y) + 10
+  y = drawBox(doc, '志望の動機、特技、好きな学科、アピールポイントなど', content.selfPr, y, 110) + 10
+  drawBox(doc, '本人希望記入欄（特に給料・職種・勤務時間・勤務地・その他についての希望などがあれば記入）', content.personalRequests, y, 70)
+}
+
+function renderShokumu(doc: PDFKit.PDFDocument, content: JapaneseDocumentContent) {
+  const left = doc.page.margins.left
+  const width = doc.page.width - left - doc.page.margins.right
+  const heading = (text: string) => {
+    doc.moveDown(0.8).font('bold').fontSize(11.5).fillColor(PDF_COLORS.text).text(`■ ${text}`, left, doc.y, { width })
+    doc.moveDown(0.3).font('body').fontSize(10)
+  }
+  const bullets = (items: string[]) => items.forEach(item => {
+    doc.text(`・${item}`, left + 8, doc.y, { width: width - 8, lineGap: 1.5 })
+  })
+
+  doc.font('bold').fontSize(18).fillColor(PDF_COLORS.text).text('職務経歴書', left, doc.page.margins.top, { width, align: 'center' })
+  doc.moveDown(0.4).font('body').fontSize(9)
+    .text(`${formatJapaneseDate(content.asOf)}現在`, { width, align: 'right' })
+    .text(`氏名　${content.name}`, { width, align: 'right' })
+
+  if (content.summary.length) {
+    heading('職務要約')
+    content.summary.forEach(paragraph => doc.text(paragraph, left, doc.y, { width, lineGap: 2 }).moveDown(0.3))
+  }
+
+  heading('職務経歴')
+  if (!content.careers.length) doc.text('職務経歴はまだ登録されていません。', left, doc.y, { width })
+  content.careers.forEach(career => {
+    doc.moveDown(0.4)
+    const top = doc.y
+    const text = `${formatJapanesePeriod(career.start, career.end)}　${careerHeading(career)}`
+    const height = doc.font('bold').fontSize(10).heightOfString(text, { width: width - 12 }) + 8
+    doc.rect(left, top, width, height).fill(PDF_COLORS.fill)
+    doc.fillColor(PDF_COLORS.text).text(text, left + 6, top + 4, { width: width - 12 })
+    doc.y = top + height + 4
+    doc.font('body').fontSize(10)
+    if (career.role) doc.font('bold').text(career.role, left, doc.y, { width }).font('body')
+    if (career.description) doc.text(career.description, left, doc.y, { width, lineGap: 1.5 })
+    bullets(career.items)
+  })
+
+  if (content.skills.length) {
+    heading('活かせる経験・知識・技術')
+    bullets(content.skills)
+  }
+
+  heading('資格')
+  bullets(content.qualificationRows.map(row => (row.year ? `${row.year}年${row.month}月　${row.text}` : row.text)))
+
+  if (content.selfPr) {
+    heading('自己PR')
+    doc.text(content.selfPr, left, doc.y, { width, lineGap: 2 })
+  }
+
+  doc.moveDown(1).text('以上', left, doc.y, { width, align: 'right' })
+}
+
+export function renderJapaneseDocumentPdf(document: JapaneseDocument, content: JapaneseDocumentContent): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: document === 'rirekisho' ? 36 : 54,
+    info: { Title: `${content.name} ${TITLES[document]}`, Author: content.name },
+    lang: 'ja'
+  })
+  const done = preparePdf(doc)
+  if (document === 'rirekisho') {
+    renderRirekisho(doc, content)
+  } else {
+    renderShokumu(doc, content)
+  }
+  doc.end()
+  return done
+}
+
+export async function sendJapaneseDocument(
+  req: Request,
+  res: Response,
+  { document, format }: JapaneseDocumentRequest,
+  content: JapaneseDocumentContent
+) {
+  const etag = `"${createHash('sha256')
+    .update(JSON.stringify({ version: LAYOUT_VERSION, document, format, content }))
+    .digest('hex')
+    .slice(0, 16)}"`
+  res.setHeader('Cache-Control', 'public, max-age=300')
+  res.setHeader('ETag', etag)
+  if (req.get('if-none-match') === etag) {
+    res.status(304).end()
+    return
+  }
+
+  if (format === 'html') {
+    res.setHeader('Content-Type', 'text/html; charset=utf-8')
+    res.status(200).send(japaneseDocumentHtml(document, content))
+    return
+  }
+
+  const buffer = await renderJapaneseDocumentPdf(document, content)
+  res.setHeader('Content-Type', 'application/pdf')
+  res.setHeader('Content-Disposition', `inline; filename="${document}.pdf"`)
+  res.status(200).send(buffer)
+}
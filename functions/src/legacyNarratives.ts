@@ -0,0 +1,176 @@
+import type { LocalizedText } from './schema.js'
+
+// The case study copy that used to be hard-coded in the web app, keyed by the
+// slug identifyLegacyProject matches. Only `npm run import:narratives` reads
+// it; project documents are the source of truth once imported.
+
+export type LegacyNarrative = {
+  priority: number
+  featured: boolean
+  summary: LocalizedText
+  problem: LocalizedText
+  systems: LocalizedText
+  owned: LocalizedText
+  architecture: LocalizedText
+  result: LocalizedText
+}
+
+export const LEGACY_PROJECT_NARRATIVES: Record<string, LegacyNarrative> = {
+  crowdpmplatform: {
+    priority: 3,
+    featured: true,
+    summary: {
+      en: 'Secure ingest and monitoring platform connecting device auth, partner APIs, calibrated processing, and operator-facing mapping.',
+      ja: 'デバイス認証、外部 API、校正処理、運用向けマッピングをつなぐセキュアな ingest / 監視プラットフォーム。'
+    },
+    problem: {
+      en: 'Air-quality monitoring needed a working path from device activation through secure ingest, calibrated storage, and an operator-facing map.',
+      ja: '空気質監視には、デバイス有効化からセキュアな ingest、校正済み保存、運用者向け地図までつながる仕組みが必要だった。'
+    },
+    systems: {
+      en: 'Device activation, MFA approval, DPoP-bound ingest, partner API routes, calibrated storage, Firestore buckets, and a React/WebGL operations surface.',
+      ja: 'デバイス有効化、MFA 承認、DPoP 付き ingest、外部 API、校正済み保存、Firestore bucket、React/WebGL の運用画面。'
+    },
+    owned: {
+      en: 'Technical discovery, platform architecture, API design, deployment workflow, mapping client delivery, and end-to-end demo operations.',
+      ja: '技術調査、プラットフォーム設計、API 設計、デプロイ導線、地図クライアント実装、デモ運用まで担当。'
+    },
+    architecture: {
+      en: 'Fastify on Firebase Cloud Functions, Cloud Storage, Firestore hourly buckets, React 19, deck.gl, Google Maps WebGL, and GitHub Actions.',
+      ja: 'Firebase Cloud Functions 上の Fastify、Cloud Storage、Firestore の hourly bucket、React 19、deck.gl、Google Maps WebGL、GitHub Actions。'
+    },
+    result: {
+      en: 'Live demo with documented auth and approval flows, partner-facing routes, and an end-to-end path from sensor payloads to map layers.',
+      ja: '認証と承認フロー、外部向けルート、センサーペイロードから地図レイヤーまでの経路を備えた live demo を公開。'
+    }
+  },
+  questbycycle: {
+    priority: 1,
+    featured: true,
+    summary: {
+      en: 'Public Flask/PostgreSQL system covering auth, background jobs, deployment, and production support for a cycling platform.',
+      ja: '認証、バックグラウンドジョブ、デプロイ、本番サポートまで含む Flask / PostgreSQL の公開システム。'
+    },
+    problem: {
+      en: 'Cycling program operators needed a public system that could turn missions, proof submission, badges, and leaderboards into a repeatable operational program.',
+      ja: 'サイクリング施策の運営側には、ミッション、証跡投稿、バッジ、リーダーボードを運用可能な仕組みにする公開システムが必要だった。'
+    },
+    systems: {
+      en: 'Public-facing Flask/PostgreSQL app, account/auth flows, RQ background jobs, notifications, admin operations, and deployment/monitoring paths.',
+      ja: '公開向け Flask/PostgreSQL アプリ、認証フロー、RQ バックグラウンドジョブ、通知、管理運用導線、デプロイ / 監視。'
+    },
+    owned: {
+      en: 'Technical discovery, data model, backend services, frontend delivery, infrastructure provisioning, and post-launch production troubleshooting.',
+      ja: '技術調査、データモデル、バックエンド、フロントエンド、本番基盤、公開後の本番トラブル対応まで担当。'
+    },
+    architecture: {
+      en: 'Flask, PostgreSQL, SQLAlchemy, Redis/RQ workers, Vite frontend, Gunicorn, NGINX, Terraform, Ansible, Poetry, and pytest.',
+      ja: 'Flask、PostgreSQL、SQLAlchemy、Redis / RQ ワーカー、Vite フロントエンド、Gunicorn、NGINX、Terraform、Ansible、Poetry、pytest。'
+    },
+    result: {
+      en: 'Pilot operations with 100+ users, live production deployment, and production issues handled after launch across auth, jobs, notifications, and user support.',
+      ja: '100 人超の利用を含む pilot 運用、本番公開、そして認証・ジョブ・通知・利用者対応まで含む公開後の本番トラブル対応。'
+    }
+  },
+  moonshineart: {
+    priority: 2,
+    featured: true,
+    summary: {
+      en: 'Workflow and integration system for artist onboarding, checkout, fulfillment, and operational automation.',
+      ja: 'アーティスト登録、購入、発送、運用自動化をつなぐワークフロー / 連携システム。'
+    },
+    problem: {
+      en: 'The business needed onboarding, order handling, and fulfillment to behave like one reliable workflow instead of a loose collection of manual steps.',
+      ja: '登録、受注、発送を、ばらばらな手作業ではなく、一貫したワークフローとして機能させる必要があった。'
+    },
+    systems: {
+      en: 'Artist onboarding, checkout and fulfillment flow, operational automation, and Firebase/Cloud Run backend integration points.',
+      ja: 'アーティスト登録、購入 / 発送フロー、運用自動化、Firebase / Cloud Run のバックエンド連携ポイント。'
+    },
+    owned: {
+      en: 'Integration design, backend implementation, workflow automation, and the operational path needed to keep the flow moving.',
+      ja: '連携設計、バックエンド実装、ワークフロー自動化、運用導線の整備を担当。'
+    },
+    architecture: {
+      en: 'Firebase and Cloud Run services coordinating onboarding data, commerce flow, fulfillment state, and operational handoffs.',
+      ja: 'Firebase と Cloud Run を使い、登録データ、購入フロー、発送状態、運用ハンドオフを連携させる構成。'
+    },
+    result: {
+      en: 'Reframed a storefront as an operational system with clearer handoffs, less manual coordination, and repeatable backend workflow.',
+      ja: 'ストアを単なる見せ方ではなく、引き継ぎが明確で手作業が減る、再現可能なバックエンドワークフローとして整えた。'
+    }
+  },
+  apkworkbench: {
+    priority: 4,
+    featured: false,
+    summary: {
+      en: 'Operational developer-tooling case study focused on workflow orchestration, packaging, and supportable Android tooling for Linux ARM64.',
+      ja: 'Linux ARM64 向けに、ワークフロー制御、配布、保守しやすさを重視した開発ツールケーススタディ。'
+    },
+    problem: {
+      en: 'Android development on Linux ARM64 needed a supportable workflow with packaging, orchestration, and observability instead of ad hoc scripts.',
+      ja: 'Linux ARM64 上の Android 開発には、場当たり的なスクリプトではなく、配布、ワークフロー制御、可観測性を備えた仕組みが必要だった。'
+    },
+    systems: {
+      en: 'GTK UI, CLI client, gRPC services, workflow jobs, package distribution, and observability around Android toolchain tasks.',
+      ja: 'GTK UI、CLI、gRPC サービス、ワークフロージョブ、パッケージ配布、Android toolchain 作業の可観測性。'
+    },
+    owned: {
+      en: 'Designed and built the service architecture, GTK UI, CLI, packaging, and workflow orchestration around builds and releases.',
+      ja: 'サービス構成、GTK UI、CLI、パッケージング、ビルド / リリースのワークフロー制御を設計・実装。'
+    },
+    architecture: {
+      en: 'Rust workspace with 12 crates, gRPC services, GTK4 UI, CLI client, JobService event bus, workflow/build/observe services, and packaged Linux ARM64 releases.',
+      ja: '12 クレートの Rust workspace、gRPC サービス、GTK4 UI、CLI、JobService event bus、workflow/build/observe サービス、Linux ARM64 向けパッケージ配布。'
+    },
+    result: {
+      en: 'Public release with packaged artifacts, a repo-hosted UI demo, and a repeatable workflow for Linux ARM64 Android development.',
+      ja: '配布パッケージ、repo 上の UI デモ、Linux ARM64 向け Android 開発の再現可能なワークフローを備えた公開リリース。'
+    }
+  },
+  dripcopy: {
+    priority: 5,
+    featured: false,
+    summary: {
+      en: 'Operational utility that turns fragile media-copying work into a resumable Linux workflow.',
+      ja: '壊れやすいメディアコピー作業を再開可能な Linux ワークフローに変える運用ユーティリティ。'
+    },
+    problem: {
+      en: 'Copying optical media on low-power USB hosts can brown out the drive, reset the bus, and corrupt long-running transfers.',
+      ja: '低電力 USB ホストで光学メディアをコピーすると、電圧低下でドライブや USB バスがリセットされ、長時間の転送が壊れやすい。'
+    },
+    systems: {
+      en: 'USB storage, retry/remount handling, rate-limited transfer, resumable outputs, and structured logging around unreliable hardware.',
+      ja: 'USB ストレージ、不安定なハードウェア向けの retry/remount、速度制御転送、再開可能な出力、構造化ログ。'
+    },
+    owned: {
+      en: 'Built the recovery-focused utility and the operational logic around retries, remounts, resumable output, and logging.',
+      ja: 'リトライ、再マウント、再開可能な出力、ログ収集を含む、復旧重視のユーティリティを実装。'
+    },
+    architecture: {
+      en: 'Bash utility with pv rate limiting, atomic writes, retry/remount handling, path de-duplication, and structured logs.',
+      ja: 'pv による速度制限、atomic write、retry/remount、パス重複排除、構造化ログを備えた Bash ユーティリティ。'
+    },
+    result: {
+      en: 'Turns a flaky hardware problem into a reproducible Linux workflow for extracting files when standard copy tools or whole-disc imaging are too brittle.',
+      ja: '標準コピーやディスク丸ごとイメージ化が不安定な状況でも、ファイル抽出を再現可能な Linux ワークフローに変える。'
+    }
+  }
+}
+
+function normalizeKey(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '')
+}
+
+// The same substring matching the web app used, so every project picks up the
+// narrative it was showing before the import.
+export function identifyLegacyProject(candidates: string[]) {
+  const haystack = candidates.map(normalizeKey).join(' ')
+  if (haystack.includes('crowdpmplatform')) return 'crowdpmplatform'
+  if (haystack.includes('questbycycle')) return 'questbycycle'
+  if (haystack.includes('moonshineart')) return 'moonshineart'
+  if (haystack.includes('apkworkbench')) return 'apkworkbench'
+  if (haystack.includes('arm64adk')) return 'apkworkbench'
+  if (haystack.includes('dripcopy')) return 'dripcopy'
+  return ''
+}
@@ -0,0 +1,168 @@
+import type { LocalizedList, LocalizedText, ResumeHighlight, ResumeSectionContent } from './schema.js'
+
+// The resume copy that used to be hard-coded in the `/resume` function, the PDF
+// and the web app. Only `npm run import:resume` reads it; `public/resume` is
+// the source of truth once imported.
+
+export const LEGACY_RESUME_HEADLINE: LocalizedText = {
+  en: 'Implementation / Developer Support Engineer',
+  ja: '実装 / 開発者サポートエンジニア'
+}
+
+export const LEGACY_RESUME_SUMMARY: LocalizedList = {
+  en: [
+    'I build, integrate, debug, document, deploy, and support API-driven web systems across Python, TypeScript, Firebase, Cloud Run, PostgreSQL, Linux, and CI/CD.'
+  ],
+  ja: [
+    'Python、TypeScript、Firebase、Cloud Run、PostgreSQL、Linux、CI/CD を使い、API 駆動の Web システムを構築、連携、デバッグ、文書化、デプロイ、サポートします。'
+  ]
+}
+
+export const LEGACY_RESUME_LEAD: LocalizedText = {
+  en: 'I am strongest when the work spans unclear requirements, multiple systems, and the production details needed to keep a delivery moving.',
+  ja: '曖昧な要件、複数システム、そして delivery を前に進める本番運用の細部までまたぐ仕事を得意としています。'
+}
+
+export const LEGACY_RESUME_SUPPORTING: LocalizedText = {
+  en: 'Open to implementation, developer support, technical support, integration, solutions, and technical operations roles.',
+  ja: '実装、開発者サポート、技術サポート、連携、ソリューション寄りの技術職、技術運用職に関心があります。'
+}
+
+export const LEGACY_RESUME_KNOWS_ABOUT = [
+  'Python',
+  'TypeScript',
+  'APIs',
+  'authentication',
+  'webhooks',
+  'background processing',
+  'SQL',
+  'data validation',
+  'cloud operations',
+  'production troubleshooting',
+  'technical delivery',
+  'developer support',
+  'technical onboarding',
+  'runbooks'
+]
+
+export const LEGACY_RESUME_HIGHLIGHTS: ResumeHighlight[] = [
+  {
+    id: 'primary-focus',
+    title: { en: 'Primary focus', ja: '主軸' },
+    body: {
+      en: 'Implementation and developer support delivery with ownership from discovery through production support.',
+      ja: '技術調査から本番サポートまで責任を持つ、実装 / 開発者サポート delivery。'
+    }
+  },
+  {
+    id: 'core-stack',
+    title: { en: 'Core stack', ja: '主要技術' },
+    body: {
+      en: 'Python, TypeScript, APIs, auth, webhooks, SQL, and cloud operations.',
+      ja: 'Python、TypeScript、API、認証、Webhook、SQL、クラウド運用。'
+    }
+  },
+  {
+    id: 'delivery-scope',
+    title: { en: 'Delivery scope', ja: '担当領域' },
+    body: {
+      en: 'Public products, backend services, background jobs, and operational tooling.',
+      ja: '公開プロダクト、バックエンドサービス、バックグラウンドジョブ、運用ツール。'
+    }
+  },
+  {
+    id: 'support-scope',
+    title: { en: 'Support scope', ja: 'サポート領域' },
+    body: {
+      en: 'Customer-facing troubleshooting, technical onboarding, runbooks, and escalation-quality bug reproduction.',
+      ja: '顧客向けのトラブルシュート、技術オンボーディング、ランブック、エスカレーション品質の不具合再現。'
+    }
+  }
+]
+
+export const LEGACY_RESUME_SECTIONS: ResumeSectionContent[] = [
+  {
+    id: 'core-strengths',
+    title: { en: 'Core strengths', ja: 'コアの強み' },
+    items: {
+      en: [
+        'API integration, customer-facing technical troubleshooting, auth flows, webhooks, background processing, SQL, data validation, and cloud-hosted services.',
+        'Python and TypeScript delivery across backend services, operational tooling, and public web products.',
+        'Production troubleshooting, deployment, monitoring, and documentation after launch.'
+      ],
+      ja: [
+        'API 連携、顧客向け技術トラブルシュート、認証フロー、Webhook、バックグラウンド処理、SQL、データバリデーション、クラウドホスト型サービス。',
+        'バックエンドサービス、運用ツール、公開 Web プロダクトにまたがる Python / TypeScript の delivery。',
+        '公開後の本番トラブル対応、デプロイ、監視、ドキュメント整備。'
+      ]
+    }
+  },
+  {
+    id: 'selected-delivery-examples',
+    title: { en: 'Selected delivery examples', ja: '主な delivery 事例' },
+    items: {
+      en: [
+        'QuestByCycle: public Flask/PostgreSQL system with auth, background jobs, deployment, and production support.',
+        'Moonshine Art: marketplace implementation case study spanning checkout, seller onboarding, fulfillment, admin/support workflows, and compliance surfaces.',
+        'CrowdPM Platform: secure ingest, auth, partner APIs, data processing, and operator-facing monitoring in one cloud-hosted system.',
+        'Operational tooling shipped around real constraints, including Linux workflows and developer-platform utilities.'
+      ],
+      ja: [
+        'QuestByCycle: 認証、バックグラウンドジョブ、デプロイ、本番サポートを含む Flask / PostgreSQL の公開システム。',
+        'Moonshine Art: 購入、出品者登録、発送、管理 / サポート、コンプライアンスを含むマーケットプレイス実装ケーススタディ。',
+        'CrowdPM Platform: セキュアな ingest、認証、外部 API、データ処理、運用向け監視画面を一つにつないだクラウドホスト型システム。',
+        'Linux ワークフローや開発者向け基盤ユーティリティを含む、実際の制約に向き合った運用ツール。'
+      ]
+    }
+  },
+  {
+    id: 'how-i-work',
+    title: { en: 'How I work', ja: '進め方' },
+    items: {
+      en: [
+        'Discover: clarify requirements, boundaries, and failure points before code becomes expensive.',
+        'Integrate: connect APIs, auth, data flows, and background processing into one reliable path.',
+        'Operate and improve: deploy, monitor, troubleshoot, document, and tighten the workflow after real use.'
+      ],
+      ja: [
+        'Discover: コード変更が高くつく前に、要件、境界、壊れやすい点を明確にする。',
+        'Integrate: API、認証、データフロー、バックグラウンド処理を一つの信頼できる経路にまとめる。',
+        'Operate / Improve: デプロイ、監視、トラブルシュート、ドキュメント化を行い、実運用の後でワークフローを締める。'
+      ]
+    }
+  },
+  {
+    id: 'integration-automation',
+    title: { en: 'Integration / Automation', ja: '連携 / 自動化' },
+    items: {
+      en: [
+        'API integration, webhook consumers/producers, background processing, SQL, data validation, and cloud-hosted services.',
+        'Customer-facing troubleshooting, technical onboarding, production data/auth debugging, and support runbooks.'
+      ],
+      ja: [
+        'API 連携、Webhook の consumer / producer、バックグラウンド処理、SQL、データバリデーション、クラウドホスト型サービス。',
+        '顧客向けトラブルシュート、技術オンボーディング、本番データ / 認証の不具合調査、サポート用ランブック。'
+      ]
+    }
+  },
+  {
+    id: 'selected-systems',
+    title: { en: 'System and stack examples', ja: 'システム / スタック例' },
+    items: {
+      en: [
+        'QuestByCycle: Flask, PostgreSQL, SQLAlchemy, Redis, RQ, Gunicorn, and NGINX around a live bicycling product.',
+        'Moonshine Art: Flutter, Firebase/Firestore, Cloud Run APIs, Stripe Connect, Gelato fulfillment, moderation/admin tooling, support workflows, and compliance surfaces.',
+        'CrowdPM Platform: DPoP-bound ingest, calibration, Fastify APIs, Cloud Storage, Firestore, deck.gl, and Google Maps WebGL.',
+        'APK Workbench: a Rust/gRPC Linux ARM64 platform with GTK UI, CLI, workflow services, and packaged releases.',
+        'DripCopy: a Bash utility for resilient optical-media copying on unstable low-power USB hosts.'
+      ],
+      ja: [
+        'QuestByCycle: Flask、PostgreSQL、SQLAlchemy、Redis、RQ、Gunicorn、NGINX を中心にした公開サイクリングプロダクト。',
+        'Moonshine Art: Flutter、Firebase / Firestore、Cloud Run API、Stripe Connect、Gelato 発送、モデレーション / 管理ツール、サポートワークフロー、コンプライアンス。',
+        'CrowdPM Platform: DPoP 付き ingest、補正処理、Fastify API、Cloud Storage、Firestore、deck.gl、Google Maps WebGL。',
+        'APK Workbench: GTK UI、CLI、workflow サービス、配布物を備えた Rust / gRPC の Linux ARM64 プラットフォーム。',
+        'DripCopy: 低電力で不安定な USB ホスト向けの、堅牢な光学メディア複製 Bash ユーティリティ。'
+      ]
+    }
+  }
+]
@@ -0,0 +1,86 @@
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { FieldValue, getFirestore, type DocumentReference } from 'firebase-admin/firestore'
+import {
+  canonicalizeAboutDoc,
+  canonicalizeContactDoc,
+  canonicalizeHomeDoc,
+  canonicalizeProjectDoc,
+  canonicalizeResumeDoc,
+  canonicalizeSiteDoc,
+  type CanonicalizePlan,
+  type FieldChange,
+  type RawDoc
+} from './schema.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+type Canonicalizer = (raw: RawDoc) => CanonicalizePlan
+
+export type MigratedDoc = {
+  path: string
+  changes: FieldChange[]
+}
+
+export type FieldMigrationReport = {
+  apply: boolean
+  scanned: number
+  changed: number
+  docs: MigratedDoc[]
+}
+
+const SINGLE_DOCS: Array<{ id: string; canonicalize: Canonicalizer }> = [
+  { id: 'site', canonicalize: canonicalizeSiteDoc },
+  { id: 'home', canonicalize: canonicalizeHomeDoc },
+  { id: 'about', canonicalize: canonicalizeAboutDoc },
+  { id: 'contact', canonicalize: canonicalizeContactDoc },
+  { id: 'resume', canonicalize: canonicalizeResumeDoc }
+]
+
+// Live content and pending drafts; revisions are history and stay as written.
+const PUBLIC_COLLECTIONS = ['public', 'drafts_public']
+const PROJECT_COLLECTIONS = ['projects', 'drafts_projects']
+
+async function migrateDoc(
+  ref: DocumentReference,
+  canonicalize: Canonicalizer,
+  apply: boolean
+): Promise<MigratedDoc | null> {
+  const snapshot = await ref.get()
+  if (!snapshot.exists) return null
+  const plan = canonicalize(snapshot.data() as RawDoc)
+  if (!plan.changes.length) return { path: ref.path, changes: [] }
+
+  if (apply) {
+    const update: Record<string, unknown> = { ...plan.set }
+    plan.remove.forEach(alias => {
+      update[alias] = FieldValue.delete()
+    })
+    await ref.update(update)
+  }
+  return { path: ref.path, changes: plan.changes }
+}
+
+// Rewrites stored content onto the canonical field names from /shared. Dry
+// run unless `apply` is set; re-running after an apply reports no changes.
+export async function migrateLegacyFields({ apply = false } = {}): Promise<FieldMigrationReport> {
+  const db = getFirestore()
+  const results: Array<MigratedDoc | null> = []
+
+  for (const collection of PUBLIC_COLLECTIONS) {
+    for (const { id, canonicalize } of SINGLE_DOCS) {
+      results.push(await migrateDoc(db.collection(collection).doc(id), canonicalize, apply))
+    }
+  }
+  for (const collection of PROJECT_COLLECTIONS) {
+    const refs = await db.collection(collection).listDocuments()
+    for (const ref of refs) {
+      results.push(await migrateDoc(ref, canonicalizeProjectDoc, apply))
+    }
+  }
+
+  const scanned = results.filter((result): result is MigratedDoc => result !== null)
+  const docs = scanned.filter(result => result.changes.length > 0)
+  return { apply, scanned: scanned.length, changed: docs.length, docs }
+}
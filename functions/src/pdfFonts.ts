@@ -0,0 +1,23 @@
+import { createRequire } from 'node:module'
+
+const require = createRequire(import.meta.url)
+
+// Noto Sans JP covers Latin as well, so both languages share one font family
+// and Japanese names in the English resume still render.
+export const PDF_FONTS = {
+  regular: require.resolve('@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf'),
+  bold: require.resolve('@expo-google-fonts/noto-sans-jp/700Bold/NotoSansJP_700Bold.ttf')
+}
+
+// Registers the fonts as `body` / `bold` and resolves with the finished file
+// once the caller ends the document.
+export function preparePdf(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  doc.registerFont('body', PDF_FONTS.regular)
+  doc.registerFont('bold', PDF_FONTS.bold)
+  const chunks: Buffer[] = []
+  doc.on('data', chunk => chunks.push(chunk as Buffer))
+  return new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+  })
+}
@@ -0,0 +1,120 @@
+import type { Request, Response } from 'express'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { FieldValue, Timestamp, getFirestore } from 'firebase-admin/firestore'
+import { getStorage } from 'firebase-admin/storage'
+import { clientKey, consumeRateLimit, type RateLimit } from './rateLimit.js'
+import {
+  PORTAL_CODES_COLLECTION,
+  PROTECTED_STORAGE_PREFIX,
+  isPortalFileVisible,
+  isValidAccessCode,
+  normalizeAccessCode,
+  normalizeProjectRecord,
+  portalProjects,
+  projectOrder,
+  protectedFileProjectId,
+  shareLinkState,
+  toList,
+  type PortalFile,
+  type ProjectRecord
+} from './schema.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+// Enough to read the page and download a few files; the portal asks again
+// with the same code once the links run out.
+const SIGNED_URL_TTL_MS = 15 * 60 * 1000
+
+// Generous for someone reloading the portal, tight enough to stop guessing codes.
+const RATE_LIMIT: RateLimit = {
+  collection: 'portal_rate_limits',
+  windowMs: 60 * 60 * 1000,
+  max: 30
+}
+
+function pick(value: unknown) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function readCode(req: Request) {
+  const body = req.body && typeof req.body === 'object' ? req.body as Record<string, unknown> : {}
+  return normalizeAccessCode(pick(body.code))
+}
+
+async function loadProtectedProjects(projectIds: string[]): Promise<ProjectRecord[]> {
+  const snapshot = await getFirestore().collection('projects').where('visibility', '==', 'protected').get()
+  const docs = snapshot.docs.sort((left, right) => projectOrder(left.data()) - projectOrder(right.data()))
+  return portalProjects(docs.map(doc => normalizeProjectRecord({ id: doc.id, ...doc.data() })), projectIds)
+}
+
+async function signProtectedFiles(projectIds: string[], expires: number): Promise<PortalFile[]> {
+  const [files] = await getStorage().bucket().getFiles({ prefix: PROTECTED_STORAGE_PREFIX })
+  const visible = files.filter(file => isPortalFileVisible(file.name, projectIds))
+  return Promise.all(visible.map(async file => {
+    const [url] = await file.getSignedUrl({ action: 'read', expires })
+    return {
+      name: file.name.slice(file.name.lastIndexOf('/') + 1),
+      path: file.name,
+      projectId: protectedFileProjectId(file.name),
+      contentType: pick(file.metadata.contentType),
+      size: Number(file.metadata.size ?? 0),
+      url
+    }
+  }))
+}
+
+export async function portalHandler(req: Request, res: Response) {
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    res.status(405).json({ ok: false, error: 'method_not_allowed' })
+    return
+  }
+
+  try {
+    const code = readCode(req)
+    if (!isValidAccessCode(code)) {
+      res.status(400).json({ ok: false, error: 'invalid_code' })
+      return
+    }
+
+    if (!(await consumeRateLimit(RATE_LIMIT, clientKey(req)))) {
+      res.setHeader('Retry-After', String(RATE_LIMIT.windowMs / 1000))
+      res.status(429).json({ ok: false, error: 'rate_limited' })
+      return
+    }
+
+    const ref = getFirestore().collection(PORTAL_CODES_COLLECTION).doc(code)
+    const data = (await ref.get()).data()
+    const expiresAt = data?.expiresAt instanceof Timestamp ? data.expiresAt.toMillis() : null
+    // Unknown, revoked and expired codes look the same, so a guess does not
+    // reveal that a code exists.
+    if (!data || shareLinkState({ revoked: data.revoked === true, expiresAt }) !== 'active') {
+      res.status(403).json({ ok: false, error: 'invalid_code' })
+      return
+    }
+
+    const projectIds = toList(data.projectIds)
+    const urlsExpireAt = Date.now() + SIGNED_URL_TTL_MS
+    const [projects, files] = await Promise.all([
+      loadProtectedProjects(projectIds),
+      signProtectedFiles(projectIds, urlsExpireAt)
+    ])
+
+    await ref.update({ uses: FieldValue.increment(1), lastUsedAt: FieldValue.serverTimestamp() })
+
+    res.status(200).json({
+      ok: true,
+      label: pick(data.label),
+      urlsExpireAt: new Date(urlsExpireAt).toISOString(),
+      projects,
+      files
+    })
+  } catch (error) {
+    console.error('portalHandler error:', error)
+    res.status(500).json({ ok: false, error: 'server_error' })
+  }
+}
@@ -1,38 +1,41 @@
-type ProxyRequest = {
-  method: string
-  query: Record<string, unknown>
-}
+import { createHash } from 'node:crypto'
+import type { Request, Response } from 'express'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getFirestore } from 'firebase-admin/firestore'
+import { getStorage } from 'firebase-admin/storage'
+import sharp from 'sharp'
+import { COVER_FORMATS, COVER_WIDTHS, PROJECT_FIELDS, type CoverFormat } from './schema.js'
 
-type ProxyResponse = {
-  set(name: string, value: string): void
-  status(code: number): ProxyResponse
-  send(body: unknown): void
-  end(): void
+if (!getApps().length) {
+  initializeApp()
 }
 
-type RemoteResponse = {
-  ok: boolean
-  status: number
-  headers: { get(name: string): string | null }
-  arrayBuffer(): Promise<ArrayBuffer>
-}
+type OutputFormat = CoverFormat | 'original'
 
-type RemoteFetch = (
-  input: string,
-  init?: {
-    method?: string
-    headers?: Record<string, string>
-    redirect?: 'follow'
-  }
-) => Promise<RemoteResponse>
-
-type UrlLike = {
-  protocol: string
-  hostname: string
-  toString(): string
+type CachedSource = {
+  body: Buffer
+  contentType: string
+  version: string
 }
 
-type UrlConstructor = new (input: string, base?: string) => UrlLike
+type SourceResult =
+  | { ok: true; source: CachedSource }
+  | { ok: false; status: number; message: string }
+
+// Fetched originals and their resized copies live under this prefix, keyed by
+// a hash of the upstream URL; variants are also keyed by the upstream ETag so a
+// changed image never serves an old resize.
+const CACHE_PREFIX = 'cover-proxy'
+const MAX_UPSTREAM_BYTES = 8 * 1024 * 1024
+const UPSTREAM_TIMEOUT_MS = 8000
+// How long a cached original is trusted before it is revalidated upstream.
+const SOURCE_TTL_MS = 24 * 60 * 60 * 1000
+const RESPONSE_CACHE_CONTROL = 'public, max-age=86400, s-maxage=604800, stale-while-revalidate=604800'
+const ERROR_CACHE_CONTROL = 'public, max-age=300, s-maxage=300'
+// Vector and animated images are passed through untouched.
+const PASSTHROUGH_TYPES = new Set(['image/svg+xml', 'image/gif'])
+// Drafts are included so the admin preview of a new cover works before publishing.
+const COVER_COLLECTIONS = ['projects', 'drafts_projects']
 
 const exactAllowedHosts = new Set([
   'github.com',
@@ -45,11 +48,8 @@ const exactAllowedHosts = new Set([
   'camo.githubusercontent.com'
 ])
 
-const fetchImpl = (globalThis as { fetch?: RemoteFetch }).fetch
-const URLImpl = (globalThis as { URL?: UrlConstructor }).URL
-
 function readQueryString(value: unknown) {
-  if (Array.isArray(value)) return value[0]?.trim() ?? ''
+  if (Array.isArray(value)) return typeof value[0] === 'string' ? value[0].trim() : ''
   return typeof value === 'string' ? value.trim() : ''
 }
 
@@ -60,27 +60,180 @@ function isAllowedGitHubHost(hostname: string) {
     || normalized.endsWith('.githubassets.com')
 }
 
-export async function projectCoverHandler(req: ProxyRequest, res: ProxyResponse) {
+// Only images a project uses as its cover are fetched and cached, so the
+// public endpoint cannot be used to fill Storage with arbitrary GitHub URLs.
+async function isProjectCover(url: string) {
+  const db = getFirestore()
+  const lookups = COVER_COLLECTIONS.flatMap(name => PROJECT_FIELDS.cover.aliases.map(alias => (
+    db.collection(name).where(alias, '==', url).limit(1).get()
+  )))
+  const snapshots = await Promise.all(lookups)
+  return snapshots.some(snapshot => !snapshot.empty)
+}
+
+function shortHash(value: string | Buffer) {
+  return createHash('sha256').update(value).digest('hex').slice(0, 24)
+}
+
+// Widths snap up to the same steps as uploaded covers so the cache stays small.
+// Returns undefined when no width was asked for and null when it is invalid.
+function parseWidth(value: string): number | null | undefined {
+  if (!value) return undefined
+  const requested = Number(value)
+  if (!Number.isInteger(requested) || requested <= 0) return null
+  return COVER_WIDTHS.find(width => width >= requested) ?? COVER_WIDTHS[COVER_WIDTHS.length - 1]
+}
+
+function parseFormat(value: string, accept: string): { format: OutputFormat; negotiated: boolean } | null {
+  const requested = value.toLowerCase()
+  if (requested === 'original') return { format: 'original', negotiated: false }
+  if ((COVER_FORMATS as readonly string[]).includes(requested)) {
+    return { format: requested as CoverFormat, negotiated: false }
+  }
+  if (requested && requested !== 'auto') return null
+  const preferred = COVER_FORMATS.find(format => accept.includes(`image/${format}`))
+  return { format: preferred ?? 'original', negotiated: true }
+}
+
+async function readLimited(response: globalThis.Response): Promise<Buffer | null> {
+  const declared = Number(response.headers.get('content-length'))
+  if (declared > MAX_UPSTREAM_BYTES) return null
+  if (!response.body) return Buffer.alloc(0)
+
+  const chunks: Buffer[] = []
+  let total = 0
+  const reader = response.body.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > MAX_UPSTREAM_BYTES) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(Buffer.from(value))
+  }
+  return Buffer.concat(chunks)
+}
+
+async function fetchUpstream(target: string, etag?: string) {
+  return fetch(target, {
+    redirect: 'follow',
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    headers: {
+      Accept: 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
+      'User-Agent': 'rosenauinfo-project-cover-proxy/1.0',
+      ...(etag ? { 'If-None-Match': etag } : {})
+    }
+  })
+}
+
+// Returns the original for `target`, from Storage when it is fresh and from
+// GitHub otherwise. A cached copy is served past its TTL whenever GitHub is
+// unreachable or erroring, so an outage does not take covers down with it.
+async function loadSource(target: string): Promise<SourceResult> {
+  const file = getStorage().bucket().file(`${CACHE_PREFIX}/${shortHash(target)}/source`)
+  const [exists] = await file.exists()
+  let cached: { contentType: string; version: string; etag: string } | null = null
+  if (exists) {
+    const [metadata] = await file.getMetadata()
+    const custom = (metadata.metadata ?? {}) as Record<string, string | undefined>
+    cached = { contentType: metadata.contentType ?? '', version: custom.version ?? '', etag: custom.etag ?? '' }
+    if (Date.now() - Number(custom.fetchedAt ?? 0) < SOURCE_TTL_MS) {
+      const [body] = await file.download()
+      return { ok: true, source: { body, contentType: cached.contentType, version: cached.version } }
+    }
+  }
+
+  const serveCached = async (): Promise<SourceResult> => {
+    const [body] = await file.download()
+    return { ok: true, source: { body, contentType: cached!.contentType, version: cached!.version } }
+  }
+
+  let upstream: globalThis.Response
+  try {
+    upstream = await fetchUpstream(target, cached?.etag || undefined)
+  } catch (error) {
+    if (cached) {
+      console.warn(`projectCover: serving cached ${target} after fetch error`, error)
+      return serveCached()
+    }
+    return { ok: false, status: 504, message: 'Upstream image request timed out.' }
+  }
+
+  if (upstream.status === 304 && cached) {
+    await file.setMetadata({ metadata: { fetchedAt: String(Date.now()) } })
+    return serveCached()
+  }
+  if (!upstream.ok) {
+    if (cached) return serveCached()
+    return { ok: false, status: 502, message: `Upstream image request failed with status ${upstream.status}.` }
+  }
+
+  const contentType = upstream.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? ''
+  if (!contentType.startsWith('image/')) {
+    if (cached) return serveCached()
+    return { ok: false, status: 502, message: 'Upstream URL did not return an image.' }
+  }
+
+  const body = await readLimited(upstream)
+  if (!body) {
+    if (cached) return serveCached()
+    return { ok: false, status: 502, message: `Upstream image is larger than ${MAX_UPSTREAM_BYTES} bytes.` }
+  }
+
+  const etag = upstream.headers.get('etag') ?? ''
+  const version = shortHash(etag ? `${target}\n${etag}` : body)
+  await file.save(body, {
+    resumable: false,
+    metadata: {
+      contentType,
+      metadata: { sourceUrl: target, etag, version, fetchedAt: String(Date.now()) }
+    }
+  })
+  return { ok: true, source: { body, contentType, version } }
+}
+
+async function loadVariant(target: string, source: CachedSource, width: number | undefined, format: OutputFormat) {
+  if (PASSTHROUGH_TYPES.has(source.contentType) || (!width && format === 'original')) {
+    return { body: source.body, contentType: source.contentType }
+  }
+
+  const extension = format === 'original' ? 'orig' : format
+  const file = getStorage().bucket().file(`${CACHE_PREFIX}/${shortHash(target)}/${source.version}-${width ?? 'full'}.${extension}`)
+  const [exists] = await file.exists()
+  if (exists) {
+    const [[body], [metadata]] = await Promise.all([file.download(), file.getMetadata()])
+    return { body, contentType: metadata.contentType ?? source.contentType }
+  }
+
+  let pipeline = sharp(source.body, { failOn: 'error' }).rotate()
+  if (width) pipeline = pipeline.resize({ width, withoutEnlargement: true })
+  if (format === 'avif') pipeline = pipeline.avif({ quality: 50 })
+  if (format === 'webp') pipeline = pipeline.webp({ quality: 75 })
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true })
+  const contentType = format === 'original' ? `image/${info.format}` : `image/${format}`
+
+  await file.save(data, { resumable: false, metadata: { contentType } })
+  return { body: data, contentType }
+}
+
+export async function projectCoverHandler(req: Request, res: Response) {
   if (req.method !== 'GET' && req.method !== 'HEAD') {
     res.set('Allow', 'GET, HEAD')
     res.status(405).send('Method not allowed.')
     return
   }
 
-  if (!fetchImpl || !URLImpl) {
-    res.status(500).send('Image proxy is not available.')
-    return
-  }
-
   const rawUrl = readQueryString(req.query.url)
   if (!rawUrl) {
     res.status(400).send('Missing url query parameter.')
     return
   }
 
-  let target: UrlLike
+  let target: URL
   try {
-    target = new URLImpl(rawUrl)
+    target = new URL(rawUrl)
   } catch {
     res.status(400).send('Invalid image URL.')
     return
@@ -91,44 +244,56 @@ export async function projectCoverHandler(req: ProxyRequest, res: ProxyResponse)
     return
   }
 
-  const upstream = await fetchImpl(target.toString(), {
-    method: req.method,
-    redirect: 'follow',
-    headers: {
-      Accept: 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
-      'User-Agent': 'rosenauinfo-project-cover-proxy/1.0'
-    }
-  })
-
-  if (!upstream.ok) {
-    res.set('Cache-Control', 'public, max-age=300, s-maxage=300')
-    res.status(502).send(`Upstream image request failed with status ${upstream.status}.`)
+  const width = parseWidth(readQueryString(req.query.w))
+  if (width === null) {
+    res.status(400).send('Invalid width.')
     return
   }
 
-  const contentType = upstream.headers.get('content-type')?.trim() ?? ''
-  if (!contentType.startsWith('image/')) {
-    res.set('Cache-Control', 'public, max-age=300, s-maxage=300')
-    res.status(502).send('Upstream URL did not return an image.')
+  const negotiation = parseFormat(readQueryString(req.query.format), req.get('accept') ?? '')
+  if (!negotiation) {
+    res.status(400).send('Unsupported format.')
     return
   }
 
-  const contentLength = upstream.headers.get('content-length')
-  const etag = upstream.headers.get('etag')
-  const lastModified = upstream.headers.get('last-modified')
+  try {
+    if (!(await isProjectCover(rawUrl))) {
+      res.set('Cache-Control', ERROR_CACHE_CONTROL)
+      res.status(404).send('Image is not a project cover.')
+      return
+    }
 
-  res.set('Content-Type', contentType)
-  res.set('Cache-Control', 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800')
-  res.set('X-Robots-Tag', 'noindex')
-  if (contentLength) res.set('Content-Length', contentLength)
-  if (etag) res.set('ETag', etag)
-  if (lastModified) res.set('Last-Modified', lastModified)
+    const result = await loadSource(target.toString())
+    if (!result.ok) {
+      res.set('Cache-Control', ERROR_CACHE_CONTROL)
+      res.status(result.status).send(result.message)
+      return
+    }
 
-  if (req.method === 'HEAD') {
-    res.status(200).end()
-    return
-  }
+    const { format, negotiated } = negotiation
+    const etag = `"${result.source.version}-${width ?? 'full'}-${format}"`
+    res.set('Cache-Control', RESPONSE_CACHE_CONTROL)
+    res.set('X-Robots-Tag', 'noindex')
+    res.set('ETag', etag)
+    if (negotiated) res.set('Vary', 'Accept')
 
-  const body = await upstream.arrayBuffer()
-  res.status(200).send(Buffer.from(body))
+    const ifNoneMatch = req.get('if-none-match') ?? ''
+    if (ifNoneMatch.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag)) {
+      res.status(304).end()
+      return
+    }
+
+    const variant = await loadVariant(target.toString(), result.source, width, format)
+    res.set('Content-Type', variant.contentType)
+    res.set('Content-Length', String(variant.body.length))
+    if (req.method === 'HEAD') {
+      res.status(200).end()
+      return
+    }
+    res.status(200).send(variant.body)
+  } catch (error) {
+    console.error('projectCoverHandler error:', error)
+    res.set('Cache-Control', ERROR_CACHE_CONTROL)
+    res.status(502).send('Unable to load cover image right now.')
+  }
 }
@@ -0,0 +1,136 @@
+import { randomUUID } from 'node:crypto'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
+import { getStorage } from 'firebase-admin/storage'
+import type { CloudEvent } from 'firebase-functions/v2'
+import type { StorageObjectData } from 'firebase-functions/v2/storage'
+import sharp from 'sharp'
+import {
+  COVER_FORMATS,
+  coverVariantPath,
+  coverWidthsFor,
+  parseCoverOriginalPath,
+  type CoverVariant,
+  type ProjectCoverImage
+} from './schema.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+const MAX_SOURCE_BYTES = 15 * 1024 * 1024
+const PLACEHOLDER_WIDTH = 24
+const FALLBACK_WIDTH = 1600
+const VARIANT_CACHE_CONTROL = 'public, max-age=31536000, immutable'
+
+// Same bookkeeping as web/src/lib/drafts.ts.
+const DRAFT_UPDATED_FIELD = 'draftUpdatedAt'
+
+function downloadUrl(bucket: string, path: string, token: string) {
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST
+  const origin = emulatorHost ? `http://${emulatorHost}` : 'https://firebasestorage.googleapis.com'
+  return `${origin}/v0/b/${bucket}/o/${encodeURIComponent(path)}?alt=media&token=${token}`
+}
+
+async function saveVariant(bucketName: string, path: string, body: Buffer, contentType: string) {
+  const token = randomUUID()
+  await getStorage().bucket(bucketName).file(path).save(body, {
+    resumable: false,
+    metadata: {
+      contentType,
+      cacheControl: VARIANT_CACHE_CONTROL,
+      metadata: { firebaseStorageDownloadTokens: token }
+    }
+  })
+  return downloadUrl(bucketName, path, token)
+}
+
+export async function buildCoverImage(bucketName: string, sourcePath: string, projectId: string, source: Buffer): Promise<ProjectCoverImage> {
+  // Decode once with EXIF orientation applied so phone photos are not
+  // sideways and every variant starts from the same pixels.
+  const { data, info } = await sharp(source, { failOn: 'error' })
+    .rotate()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  const { width, height, channels } = info
+  const base = sharp(data, { raw: { width, height, channels } })
+  const stem = sourcePath.split('/').pop()!.replace(/\.[^.]+$/, '')
+
+  const variants: Record<(typeof COVER_FORMATS)[number], CoverVariant[]> = { avif: [], webp: [] }
+  for (const variantWidth of coverWidthsFor(width)) {
+    const resized = base.clone().resize({ width: variantWidth, withoutEnlargement: true })
+    const [avif, webp] = await Promise.all([
+      resized.clone().avif({ quality: 50 }).toBuffer(),
+      resized.clone().webp({ quality: 75 }).toBuffer()
+    ])
+    variants.avif.push({
+      width: variantWidth,
+      url: await saveVariant(bucketName, coverVariantPath(projectId, stem, variantWidth, 'avif'), avif, 'image/avif')
+    })
+    variants.webp.push({
+      width: variantWidth,
+      url: await saveVariant(bucketName, coverVariantPath(projectId, stem, variantWidth, 'webp'), webp, 'image/webp')
+    })
+  }
+
+  const fallbackWidth = Math.min(width, FALLBACK_WIDTH)
+  const fallback = await base.clone()
+    .resize({ width: fallbackWidth, withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 80, mozjpeg: true })
+    .toBuffer()
+  const placeholder = await base.clone().resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer()
+
+  return {
+    source: sourcePath,
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+    fallback: await saveVariant(bucketName, coverVariantPath(projectId, stem, fallbackWidth, 'jpg'), fallback, 'image/jpeg'),
+    avif: variants.avif,
+    webp: variants.webp
+  }
+}
+
+// Uploads go through drafts like every other edit: the first change copies
+// the live project into drafts_projects, and publishing makes it live.
+async function writeCoverToDraft(projectId: string, coverImage: ProjectCoverImage) {
+  const db = getFirestore()
+  const draftRef = db.collection('drafts_projects').doc(projectId)
+  const liveRef = db.collection('projects').doc(projectId)
+  await db.runTransaction(async transaction => {
+    const [draft, live] = await Promise.all([transaction.get(draftRef), transaction.get(liveRef)])
+    if (!draft.exists && !live.exists) {
+      throw new Error(`projects/${projectId} does not exist`)
+    }
+    const patch = {
+      cover: coverImage.fallback,
+      cover_image: coverImage,
+      [DRAFT_UPDATED_FIELD]: FieldValue.serverTimestamp()
+    }
+    if (draft.exists) {
+      transaction.update(draftRef, patch)
+    } else {
+      transaction.set(draftRef, { ...live.data(), ...patch })
+    }
+  })
+}
+
+export async function projectCoverUploadedHandler(event: CloudEvent<StorageObjectData>) {
+  const { bucket, name, contentType, size } = event.data
+  const upload = name ? parseCoverOriginalPath(name) : null
+  if (!upload || !name) return
+  if (!contentType?.startsWith('image/') || Number(size) > MAX_SOURCE_BYTES) {
+    console.warn(`projectCoverUploaded: skipping ${name} (${contentType}, ${size} bytes)`)
+    return
+  }
+
+  try {
+    const [source] = await getStorage().bucket(bucket).file(name).download()
+    const coverImage = await buildCoverImage(bucket, name, upload.projectId, source)
+    await writeCoverToDraft(upload.projectId, coverImage)
+    console.log(`projectCoverUploaded: ${name} -> ${coverImage.webp.length} sizes`)
+  } catch (error) {
+    console.error('projectCoverUploadedHandler error:', error)
+  }
+}
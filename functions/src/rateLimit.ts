@@ -0,0 +1,55 @@
+import { createHash } from 'node:crypto'
+import type { Request } from 'express'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getFirestore } from 'firebase-admin/firestore'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+export type RateLimit = {
+  collection: string
+  windowMs: number
+  max: number
+}
+
+function pick(value: unknown) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+// Behind the Hosting rewrite a request reaches the function as
+// `<whatever the client sent>, <client>, <CDN>`: Hosting appends the address
+// it saw and the Google front end appends Hosting's own. Earlier entries are
+// whatever the client chose to send, and the last one is shared by everyone.
+const TRUSTED_PROXY_HOPS = 2
+
+export function clientKey(req: Request) {
+  const hops = pick(req.get('x-forwarded-for')).split(',').map(hop => hop.trim()).filter(Boolean)
+  const forwarded = hops.length >= TRUSTED_PROXY_HOPS ? hops[hops.length - TRUSTED_PROXY_HOPS] : hops[0]
+  const address = forwarded || req.ip || 'unknown'
+  return createHash('sha256').update(address).digest('hex').slice(0, 32)
+}
+
+// Fixed-window counter per hashed client address; raw IPs are never stored.
+export async function consumeRateLimit(limit: RateLimit, key: string): Promise<boolean> {
+  const db = getFirestore()
+  const ref = db.collection(limit.collection).doc(key)
+  const now = Date.now()
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref)
+    const data = snapshot.data() as { windowStart?: number; count?: number } | undefined
+    const windowStart = typeof data?.windowStart === 'number' ? data.windowStart : 0
+    const count = typeof data?.count === 'number' ? data.count : 0
+
+    if (now - windowStart >= limit.windowMs) {
+      transaction.set(ref, { windowStart: now, count: 1 })
+      return true
+    }
+    if (count >= limit.max) {
+      return false
+    }
+    transaction.update(ref, { count: count + 1 })
+    return true
+  })
+}
@@ -1,6 +1,26 @@
 import type { Request, Response } from 'express'
 import { getApps, initializeApp } from 'firebase-admin/app'
 import { getFirestore } from 'firebase-admin/firestore'
+import {
+  applyResumeVariant,
+  findResumeVariant,
+  hasJapaneseHistory,
+  localized,
+  normalizeResumeDoc,
+  normalizeSiteDoc,
+  pickString,
+  resumePageDescription,
+  siteDisplayName,
+  siteProfileLinks,
+  validateResumeDoc,
+  validateSiteDoc,
+  type ProfileLink,
+  type RawDoc,
+  type ResumeContent,
+  type SchemaIssue,
+  type SiteContent
+} from './schema.js'
+import { buildJapaneseDocumentContent, matchJapaneseDocument, sendJapaneseDocument } from './japaneseResume.js'
 import { resolveSiteUrl } from './siteUrl.js'
 
 if (!getApps().length) {
@@ -9,81 +29,19 @@ if (!getApps().length) {
 
 const DEFAULT_PERSON_NAME = 'Jaron Rosenau'
 
-type ResumeSectionRecord = {
-  id?: unknown
-  title_en?: unknown
-  title_ja?: unknown
-  title?: unknown
-  items_en?: unknown
-  items_ja?: unknown
-  items?: unknown
-}
-
-type ResumeRecord = {
-  url_en?: unknown
-  url_ja?: unknown
-  url?: unknown
-  summary_en?: unknown
-  summary_ja?: unknown
-  summary?: unknown
-  updatedAt?: unknown
-  updated_at?: unknown
-  ja_eta?: unknown
-  eta_ja?: unknown
-  jaTargetDate?: unknown
-  sections?: unknown
-}
+export type { ProfileLink, ResumeContent, SiteContent }
 
-type SiteRecord = {
-  name_en?: unknown
-  name_ja?: unknown
-  name?: unknown
-  footerNote?: unknown
-  footer_note?: unknown
-  contactEmail?: unknown
-  contact_email?: unknown
-  email?: unknown
-  githubUrl?: unknown
-  github_url?: unknown
-  github?: unknown
-  linkedinUrl?: unknown
-  linkedin_url?: unknown
-  linkedin?: unknown
-  xUrl?: unknown
-  x_url?: unknown
-  twitterUrl?: unknown
-  twitter_url?: unknown
-  twitter?: unknown
-  website?: unknown
-  websiteUrl?: unknown
-  website_url?: unknown
-  blogUrl?: unknown
-  blog_url?: unknown
-  blog?: unknown
-  sameAs?: unknown
-  same_as?: unknown
-  profile_links?: unknown
-  profileLinks?: unknown
-}
-
-type ProfileLink = {
-  label: string
-  url: string
-}
-
-type NormalizedSection = {
+export type NormalizedSection = {
   id: string
   title: string
   items: string[]
 }
 
-type ResumeCard = {
+export type ResumeCard = {
   title: string
   body: string
 }
 
-const pick = (value: unknown) => typeof value === 'string' ? value.trim() : ''
-
 function localizedText(language: 'en' | 'ja', en: string, ja: string) {
   return language === 'ja' ? ja : en
 }
@@ -92,37 +50,24 @@ function dedupeStrings(values: string[]) {
   return Array.from(new Set(values.map(value => value.trim()).filter(Boolean)))
 }
 
-function isLegacyBrandCopy(value: string) {
-  return /backend\s*\/\s*platform engineer|data-rich web products?|geospatial|research-adjacent|データ量の多い\s*web\s*プロダクト|地理空間|研究周辺|公共性の高い領域/i.test(value)
+const VARIANT_PATH = /^(?:\/ja)?\/resume\/([a-z0-9-]+)(\.pdf)?\/?$/
+
+// `/resume/<id>` and `/resume/<id>.pdf`, also under `/ja`. The Japanese
+// documents take their paths first, so callers check those before this.
+export function resumeVariantFromPath(path: string): { id: string; format: 'html' | 'pdf' } | null {
+  const match = VARIANT_PATH.exec(path)
+  return match ? { id: match[1], format: match[2] ? 'pdf' : 'html' } : null
 }
 
-function normalizeLanguage(req: Request): 'en' | 'ja' {
+export function normalizeLanguage(req: Request): 'en' | 'ja' {
+  if (req.path === '/ja/resume' || req.path.startsWith('/ja/resume/')) return 'ja'
   const queryLang = Array.isArray(req.query.lang) ? req.query.lang[0] : req.query.lang
-  const raw = pick(queryLang).toLowerCase()
+  const raw = pickString(queryLang).toLowerCase()
   if (raw.startsWith('ja')) return 'ja'
   if (raw.startsWith('en')) return 'en'
   return 'en'
 }
 
-function toList(value: unknown): string[] {
-  if (Array.isArray(value)) {
-    return value
-      .map(entry => pick(entry))
-      .filter(Boolean)
-  }
-  return pick(value)
-    .split('\n')
-    .map(line => line.trim())
-    .filter(Boolean)
-}
-
-function toParagraphs(value: unknown): string[] {
-  return pick(value)
-    .split(/\n{2,}/)
-    .map(paragraph => paragraph.trim())
-    .filter(Boolean)
-}
-
 function escapeHtml(value: string): string {
   return value
     .replace(/&/g, '&amp;')
@@ -144,370 +89,122 @@ function safeUrl(value: string): string | null {
   }
 }
 
-function toSafeUrl(value: unknown): string | null {
-  const raw = pick(value)
-  if (!raw) return null
-  const withProtocol = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`
-  return safeUrl(withProtocol)
+export function personName(site: SiteContent | null, language: 'en' | 'ja') {
+  return site ? siteDisplayName(site, language, DEFAULT_PERSON_NAME) : DEFAULT_PERSON_NAME
 }
 
-function parseProfileLinks(raw: unknown): ProfileLink[] {
-  const normalizeEntry = (entry: string, fallbackLabel: string): ProfileLink | null => {
-    if (!entry) return null
-    const [labelPart, urlPart] = entry.includes('|')
-      ? entry.split('|', 2).map(part => part.trim())
-      : [fallbackLabel, entry.trim()]
-    const url = toSafeUrl(urlPart)
-    if (!url) return null
-    return {
-      label: labelPart || fallbackLabel,
-      url
-    }
-  }
-
-  if (Array.isArray(raw)) {
-    return raw
-      .map(item => pick(item))
-      .map((entry, index) => normalizeEntry(entry, `Profile ${index + 1}`))
-      .filter((entry): entry is ProfileLink => Boolean(entry))
-  }
-
-  return pick(raw)
-    .split(/\n|,/)
-    .map(entry => entry.trim())
-    .filter(Boolean)
-    .map((entry, index) => normalizeEntry(entry, `Profile ${index + 1}`))
-    .filter((entry): entry is ProfileLink => Boolean(entry))
+export function profileLinks(site: SiteContent | null): ProfileLink[] {
+  return site ? siteProfileLinks(site) : []
 }
 
-function dedupeProfileLinks(links: ProfileLink[]): ProfileLink[] {
-  const map = new Map<string, ProfileLink>()
-  links.forEach(link => {
-    if (!map.has(link.url)) {
-      map.set(link.url, link)
-    }
-  })
-  return Array.from(map.values())
-}
-
-function personName(site: SiteRecord | null, language: 'en' | 'ja') {
-  const en = pick(site?.name_en ?? site?.name)
-  const ja = pick(site?.name_ja ?? site?.name)
-  if (language === 'ja') {
-    return ja || en || DEFAULT_PERSON_NAME
-  }
-  return en || ja || DEFAULT_PERSON_NAME
-}
-
-function profileLinks(site: SiteRecord | null): ProfileLink[] {
-  if (!site) return []
-  const known: ProfileLink[] = [
-    { label: 'GitHub', url: toSafeUrl(site.githubUrl ?? site.github_url ?? site.github) || '' },
-    { label: 'LinkedIn', url: toSafeUrl(site.linkedinUrl ?? site.linkedin_url ?? site.linkedin) || '' },
-    { label: 'X', url: toSafeUrl(site.xUrl ?? site.x_url ?? site.twitterUrl ?? site.twitter_url ?? site.twitter) || '' },
-    { label: 'Website', url: toSafeUrl(site.website ?? site.websiteUrl ?? site.website_url) || '' },
-    { label: 'Blog', url: toSafeUrl(site.blogUrl ?? site.blog_url ?? site.blog) || '' }
-  ].filter(link => Boolean(link.url))
-
-  const rawLinks = parseProfileLinks(site.sameAs ?? site.same_as ?? site.profileLinks ?? site.profile_links)
-  return dedupeProfileLinks([...known, ...rawLinks])
-}
-
-function footerCopy(site: SiteRecord | null, language: 'en' | 'ja') {
-  const custom = pick(site?.footerNote ?? site?.footer_note)
+function footerCopy(site: SiteContent | null, language: 'en' | 'ja') {
+  const custom = site?.footerNote
   if (custom) return custom
   const year = new Date().getFullYear()
   return `© ${year} ${personName(site, language)}`
 }
 
-function preferredResumeUrl(doc: ResumeRecord | null, language: 'en' | 'ja'): string | null {
+export function preferredResumeUrl(doc: ResumeContent | null, language: 'en' | 'ja'): string | null {
   if (!doc) return null
-  const primary = language === 'ja'
-    ? pick(doc.url_ja ?? doc.url)
-    : pick(doc.url_en ?? doc.url)
-  const fallback = language === 'ja'
-    ? pick(doc.url_en ?? doc.url)
-    : pick(doc.url_ja ?? doc.url)
+  const primary = language === 'ja' ? doc.urls.ja : doc.urls.en
+  const fallback = language === 'ja' ? doc.urls.en : doc.urls.ja
   return safeUrl(primary) ?? safeUrl(fallback)
 }
 
-function summaryParagraphs(doc: ResumeRecord | null, language: 'en' | 'ja'): string[] {
-  if (!doc) return []
-  const localized = language === 'ja'
-    ? toParagraphs(doc.summary_ja ?? doc.summary)
-    : toParagraphs(doc.summary_en ?? doc.summary)
-  if (localized.length > 0) return localized
-  return language === 'ja'
-    ? toParagraphs(doc.summary_en ?? doc.summary)
-    : toParagraphs(doc.summary_ja ?? doc.summary)
-}
-
-function normalizeSections(doc: ResumeRecord | null, language: 'en' | 'ja'): NormalizedSection[] {
-  if (!doc || !Array.isArray(doc.sections)) {
+function normalizeSections(doc: ResumeContent | null, language: 'en' | 'ja'): NormalizedSection[] {
+  if (!doc) {
     return []
   }
 
-  return (doc.sections as ResumeSectionRecord[])
-    .map((section, index) => {
-      const titlePrimary = language === 'ja'
-        ? pick(section.title_ja ?? section.title)
-        : pick(section.title_en ?? section.title)
-      const titleFallback = language === 'ja'
-        ? pick(section.title_en ?? section.title)
-        : pick(section.title_ja ?? section.title)
-      const itemsPrimary = language === 'ja'
-        ? toList(section.items_ja ?? section.items)
-        : toList(section.items_en ?? section.items)
-      const itemsFallback = language === 'ja'
-        ? toList(section.items_en ?? section.items)
-        : toList(section.items_ja ?? section.items)
-      return {
-        id: pick(section.id) || `section-${index}`,
-        title: titlePrimary || titleFallback,
-        items: (itemsPrimary.length > 0 ? itemsPrimary : itemsFallback)
-          .filter(item => !isLegacyBrandCopy(item))
-      }
-    })
+  return doc.sections
+    .map(section => ({
+      id: section.id,
+      title: localized(section.title, language),
+      items: localized(section.items, language)
+    }))
     .filter(section => section.title || section.items.length > 0)
 }
 
-function legacySummaryParagraphs(doc: ResumeRecord | null, language: 'en' | 'ja') {
-  if (!doc) return []
-
-  const localized = language === 'ja'
-    ? toParagraphs(doc.summary_ja ?? doc.summary)
-    : toParagraphs(doc.summary_en ?? doc.summary)
-
-  if (localized.length > 0) {
-    return localized.filter(paragraph => !isLegacyBrandCopy(paragraph))
-  }
-
-  return language === 'ja'
-    ? toParagraphs(doc.summary_en ?? doc.summary).filter(paragraph => !isLegacyBrandCopy(paragraph))
-    : toParagraphs(doc.summary_ja ?? doc.summary).filter(paragraph => !isLegacyBrandCopy(paragraph))
-}
-
-function buildExecutiveSummary(doc: ResumeRecord | null, language: 'en' | 'ja', displayName: string): string[] {
-  const fallbackPrimary = localizedText(
-    language,
-    `${displayName} is an Implementation / Developer Support Engineer.`,
-    `${displayName} は、実装 / 開発者サポートエンジニアです。`
-  )
-  const fallbackSecondary = localizedText(
-    language,
-    'I build, integrate, debug, document, deploy, and support API-driven web systems across Python, TypeScript, Firebase, Cloud Run, PostgreSQL, Linux, and CI/CD.',
-    'Python、TypeScript、Firebase、Cloud Run、PostgreSQL、Linux、CI/CD を使い、API 駆動の Web システムを構築、連携、デバッグ、文書化、デプロイ、サポートします。'
-  )
-  const docParagraphs = legacySummaryParagraphs(doc, language)
-  const secondParagraph = docParagraphs[0] || fallbackSecondary
-
-  return dedupeStrings([fallbackPrimary, secondParagraph]).slice(0, 2)
+export function buildExecutiveSummary(doc: ResumeContent | null, language: 'en' | 'ja'): string[] {
+  return doc ? dedupeStrings(localized(doc.summary, language)) : []
 }
 
-function buildHeroCards(language: 'en' | 'ja'): ResumeCard[] {
-  return [
-    {
-      title: localizedText(language, 'Primary focus', '主軸'),
-      body: localizedText(
-        language,
-        'Implementation and developer support delivery with ownership from discovery through production support.',
-        '技術調査から本番サポートまで責任を持つ、実装 / 開発者サポート delivery。'
-      )
-    },
-    {
-      title: localizedText(language, 'Core stack', '主要技術'),
-      body: localizedText(
-        language,
-        'Python, TypeScript, APIs, auth, webhooks, SQL, and cloud operations.',
-        'Python、TypeScript、API、認証、Webhook、SQL、クラウド運用。'
-      )
-    },
-    {
-      title: localizedText(language, 'Delivery scope', '担当領域'),
-      body: localizedText(
-        language,
-        'Public products, backend services, background jobs, and operational tooling.',
-        '公開プロダクト、バックエンドサービス、バックグラウンドジョブ、運用ツール。'
-      )
-    },
-    {
-      title: localizedText(language, 'Support scope', 'サポート領域'),
-      body: localizedText(
-        language,
-        'Customer-facing troubleshooting, technical onboarding, runbooks, and escalation-quality bug reproduction.',
-        '顧客向けのトラブルシュート、技術オンボーディング、ランブック、エスカレーション品質の不具合再現。'
-      )
-    }
-  ]
+export function buildResumeHighlights(language: 'en' | 'ja', doc: ResumeContent | null): ResumeCard[] {
+  if (!doc) return []
+  return doc.highlights
+    .map(highlight => ({
+      title: localized(highlight.title, language),
+      body: localized(highlight.body, language)
+    }))
+    .filter(card => card.title || card.body)
 }
 
-function buildCuratedSections(language: 'en' | 'ja'): NormalizedSection[] {
-  return [
-    {
-      id: 'core-strengths',
-      title: localizedText(language, 'Core strengths', 'コアの強み'),
-      items: [
-        localizedText(
-          language,
-          'API integration, customer-facing technical troubleshooting, auth flows, webhooks, background processing, SQL, data validation, and cloud-hosted services.',
-          'API 連携、顧客向け技術トラブルシュート、認証フロー、Webhook、バックグラウンド処理、SQL、データバリデーション、クラウドホスト型サービス。'
-        ),
-        localizedText(
-          language,
-          'Python and TypeScript delivery across backend services, operational tooling, and public web products.',
-          'バックエンドサービス、運用ツール、公開 Web プロダクトにまたがる Python / TypeScript の delivery。'
-        ),
-        localizedText(
-          language,
-          'Production troubleshooting, deployment, monitoring, and documentation after launch.',
-          '公開後の本番トラブル対応、デプロイ、監視、ドキュメント整備。'
-        )
-      ]
-    },
-    {
-      id: 'selected-delivery-examples',
-      title: localizedText(language, 'Selected delivery examples', '主な delivery 事例'),
-      items: [
-        localizedText(
-          language,
-          'QuestByCycle: public Flask/PostgreSQL system with auth, background jobs, deployment, and production support.',
-          'QuestByCycle: 認証、バックグラウンドジョブ、デプロイ、本番サポートを含む Flask / PostgreSQL の公開システム。'
-        ),
-        localizedText(
-          language,
-          'Moonshine Art: marketplace implementation case study spanning checkout, seller onboarding, fulfillment, admin/support workflows, and compliance surfaces.',
-          'Moonshine Art: 購入、出品者登録、発送、管理 / サポート、コンプライアンスを含むマーケットプレイス実装ケーススタディ。'
-        ),
-        localizedText(
-          language,
-          'CrowdPM Platform: secure ingest, auth, partner APIs, data processing, and operator-facing monitoring in one cloud-hosted system.',
-          'CrowdPM Platform: セキュアな ingest、認証、外部 API、データ処理、運用向け監視画面を一つにつないだクラウドホスト型システム。'
-        ),
-        localizedText(
-          language,
-          'Operational tooling shipped around real constraints, including Linux workflows and developer-platform utilities.',
-          'Linux ワークフローや開発者向け基盤ユーティリティを含む、実際の制約に向き合った運用ツール。'
-        )
-      ]
-    },
-    {
-      id: 'how-i-work',
-      title: localizedText(language, 'How I work', '進め方'),
-      items: [
-        localizedText(
-          language,
-          'Discover: clarify requirements, boundaries, and failure points before code becomes expensive.',
-          'Discover: コード変更が高くつく前に、要件、境界、壊れやすい点を明確にする。'
-        ),
-        localizedText(
-          language,
-          'Integrate: connect APIs, auth, data flows, and background processing into one reliable path.',
-          'Integrate: API、認証、データフロー、バックグラウンド処理を一つの信頼できる経路にまとめる。'
-        ),
-        localizedText(
-          language,
-          'Operate and improve: deploy, monitor, troubleshoot, document, and tighten the workflow after real use.',
-          'Operate / Improve: デプロイ、監視、トラブルシュート、ドキュメント化を行い、実運用の後でワークフローを締める。'
-        )
-      ]
-    },
-    {
-      id: 'integration-automation',
-      title: localizedText(language, 'Integration / Automation', '連携 / 自動化'),
-      items: [
-        localizedText(
-          language,
-          'API integration, webhook consumers/producers, background processing, SQL, data validation, and cloud-hosted services.',
-          'API 連携、Webhook の consumer / producer、バックグラウンド処理、SQL、データバリデーション、クラウドホスト型サービス。'
-        ),
-        localizedText(
-          language,
-          'Customer-facing troubleshooting, technical onboarding, production data/auth debugging, and support runbooks.',
-          '顧客向けトラブルシュート、技術オンボーディング、本番データ / 認証の不具合調査、サポート用ランブック。'
-        )
-      ]
-    }
-  ]
+export function buildResumeSections(language: 'en' | 'ja', doc: ResumeContent | null): NormalizedSection[] {
+  return normalizeSections(doc, language)
 }
 
-function buildShippedSystemsSection(language: 'en' | 'ja'): NormalizedSection {
-  return {
-    id: 'selected-systems',
-    title: localizedText(language, 'System and stack examples', 'システム / スタック例'),
-    items: [
-      localizedText(
-        language,
-        'QuestByCycle: Flask, PostgreSQL, SQLAlchemy, Redis, RQ, Gunicorn, and NGINX around a live bicycling product.',
-        'QuestByCycle: Flask、PostgreSQL、SQLAlchemy、Redis、RQ、Gunicorn、NGINX を中心にした公開サイクリングプロダクト。'
-      ),
-      localizedText(
-        language,
-        'Moonshine Art: Flutter, Firebase/Firestore, Cloud Run APIs, Stripe Connect, Gelato fulfillment, moderation/admin tooling, support workflows, and compliance surfaces.',
-        'Moonshine Art: Flutter、Firebase / Firestore、Cloud Run API、Stripe Connect、Gelato 発送、モデレーション / 管理ツール、サポートワークフロー、コンプライアンス。'
-      ),
-      localizedText(
-        language,
-        'CrowdPM Platform: DPoP-bound ingest, calibration, Fastify APIs, Cloud Storage, Firestore, deck.gl, and Google Maps WebGL.',
-        'CrowdPM Platform: DPoP 付き ingest、補正処理、Fastify API、Cloud Storage、Firestore、deck.gl、Google Maps WebGL。'
-      ),
-      localizedText(
-        language,
-        'APK Workbench: a Rust/gRPC Linux ARM64 platform with GTK UI, CLI, workflow services, and packaged releases.',
-        'APK Workbench: GTK UI、CLI、workflow サービス、配布物を備えた Rust / gRPC の Linux ARM64 プラットフォーム。'
-      ),
-      localizedText(
-        language,
-        'DripCopy: a Bash utility for resilient optical-media copying on unstable low-power USB hosts.',
-        'DripCopy: 低電力で不安定な USB ホスト向けの、堅牢な光学メディア複製 Bash ユーティリティ。'
-      )
-    ]
+function warnSchemaIssues(path: string, issues: SchemaIssue[]) {
+  if (issues.length) {
+    console.warn(`${path} schema issues:`, issues)
   }
 }
 
-function buildResumeSections(language: 'en' | 'ja', doc: ResumeRecord | null): NormalizedSection[] {
-  const curated = [...buildCuratedSections(language), buildShippedSystemsSection(language)]
-  const legacy = normalizeSections(doc, language)
-  return [...curated, ...legacy]
-}
-
-async function loadResumeDoc(): Promise<ResumeRecord | null> {
+export async function loadResumeDoc(): Promise<ResumeContent | null> {
   const snapshot = await getFirestore().collection('public').doc('resume').get()
   if (!snapshot.exists) {
     return null
   }
-  return snapshot.data() as ResumeRecord
+  const raw = snapshot.data() as RawDoc
+  warnSchemaIssues('public/resume', validateResumeDoc(raw))
+  return normalizeResumeDoc(raw)
 }
 
-async function loadSiteDoc(): Promise<SiteRecord | null> {
+export async function loadSiteDoc(): Promise<SiteContent | null> {
   const snapshot = await getFirestore().collection('public').doc('site').get()
   if (!snapshot.exists) {
     return null
   }
-  return snapshot.data() as SiteRecord
+  const raw = snapshot.data() as RawDoc
+  warnSchemaIssues('public/site', validateSiteDoc(raw))
+  return normalizeSiteDoc(raw)
 }
 
 function resumeHtml({
   baseUrl,
   language,
-  pdfUrl,
   updatedAt,
   eta,
   summary,
+  highlights,
   sections,
   displayName,
   sameAsLinks,
-  footerText
+  footerText,
+  japaneseDocuments,
+  variantId,
+  headline,
+  description,
+  lead,
+  supporting,
+  knowsAbout
 }: {
   baseUrl: string
   language: 'en' | 'ja'
-  pdfUrl: string | null
   updatedAt: string
   eta: string
   summary: string[]
+  highlights: ResumeCard[]
   sections: NormalizedSection[]
   displayName: string
   sameAsLinks: ProfileLink[]
   footerText: string
+  japaneseDocuments: boolean
+  variantId?: string
+  headline: string
+  description: string
+  lead: string
+  supporting: string
+  knowsAbout: string[]
 }) {
   const nav = language === 'ja'
     ? {
@@ -532,17 +229,8 @@ function resumeHtml({
         relatedProfiles: 'Related profiles',
         summary: 'Summary'
       }
-  const title = localizedText(language, 'Resume | Implementation / Developer Support Engineer', '履歴書 | 実装 / 開発者サポートエンジニア')
-  const subtitle = localizedText(
-    language,
-    'Implementation / Developer Support Engineer',
-    '実装 / 開発者サポートエンジニア'
-  )
-  const description = localizedText(
-    language,
-    `${displayName} builds, integrates, debugs, documents, deploys, and supports API-driven web systems across Python, TypeScript, Firebase, Cloud Run, PostgreSQL, Linux, and CI/CD.`,
-    `${displayName} は Python、TypeScript、Firebase、Cloud Run、PostgreSQL、Linux、CI/CD を使い、API 駆動の Web システムを構築、連携、デバッグ、文書化、デプロイ、サポートします。`
-  )
+  const title = headline ? `${nav.resume} | ${headline}` : nav.resume
+  const heading = headline ? `${displayName} | ${headline}` : displayName
   const downloadLabel = localizedText(language, 'Open résumé PDF', '履歴書 PDF を開く')
   const neutral = localizedText(
     language,
@@ -551,28 +239,29 @@ function resumeHtml({
   )
   const updatedLabel = language === 'ja' ? '最終更新' : 'Updated'
   const etaLabel = language === 'ja' ? '公開予定日' : 'Target publish date'
-  const leadText = localizedText(
-    language,
-    `${displayName} is strongest when the work spans unclear requirements, multiple systems, and the production details needed to keep a delivery moving.`,
-    `${displayName} は、曖昧な要件、複数システム、そして delivery を前に進める本番運用の細部までまたぐ仕事を得意としています。`
-  )
-  const pdfLink = `/resume.pdf${language === 'ja' ? '?lang=ja' : ''}`
-  const englishPath = '/resume?lang=en'
-  const japanesePath = '/resume?lang=ja'
+  const basePath = variantId ? `/resume/${variantId}` : '/resume'
+  const pdfLink = `${basePath}.pdf${language === 'ja' ? '?lang=ja' : ''}`
+  const englishPath = basePath
+  const japanesePath = `/ja${basePath}`
+  const canonicalPath = language === 'ja' ? japanesePath : englishPath
+  const resumePath = language === 'ja' ? '/ja/resume' : '/resume'
+  const sitePath = (path: string) => (language === 'ja' ? `/ja${path === '/' ? '' : path}` : path)
   const sectionLinks = [
     { href: '#summary', label: nav.summary },
     { href: '#experience', label: localizedText(language, 'Delivery', 'デリバリー') },
-    { href: '#selected-systems', label: localizedText(language, 'Systems', 'システム') },
+    ...(sections.some(section => section.id === 'selected-systems')
+      ? [{ href: '#selected-systems', label: localizedText(language, 'Systems', 'システム') }]
+      : []),
     ...(sameAsLinks.length > 0 ? [{ href: '#profiles', label: nav.relatedProfiles }] : [])
   ]
   const navigationHtml = [
-    { href: '/', label: nav.home },
-    { href: '/about', label: nav.about },
-    { href: '/resume', label: nav.resume },
-    { href: '/projects', label: nav.projects },
-    { href: '/contact', label: nav.contact }
+    { href: sitePath('/'), label: nav.home },
+    { href: sitePath('/about'), label: nav.about },
+    { href: resumePath, label: nav.resume },
+    { href: sitePath('/projects'), label: nav.projects },
+    { href: sitePath('/contact'), label: nav.contact }
   ]
-    .map(item => `<a href="${escapeHtml(item.href)}"${item.href === '/resume' ? ' aria-current="page"' : ''}>${escapeHtml(item.label)}</a>`)
+    .map(item => `<a href="${escapeHtml(item.href)}"${item.href === resumePath ? ' aria-current="page"' : ''}>${escapeHtml(item.label)}</a>`)
     .join('')
 
   const sectionsHtml = sections
@@ -594,30 +283,15 @@ function resumeHtml({
     '@context': 'https://schema.org',
     '@type': 'ProfilePage',
     name: `${title} | ${displayName}`,
-    url: `${baseUrl}/resume`,
+    url: `${baseUrl}${canonicalPath}`,
     isPartOf: baseUrl,
     inLanguage: language === 'ja' ? 'ja' : 'en',
     mainEntity: {
       '@type': 'Person',
       name: displayName,
-      jobTitle: localizedText(language, 'Implementation / Developer Support Engineer', '実装 / 開発者サポートエンジニア'),
-      description,
-      knowsAbout: [
-        'Python',
-        'TypeScript',
-        'APIs',
-        'authentication',
-        'webhooks',
-        'background processing',
-        'SQL',
-        'data validation',
-        'cloud operations',
-        'production troubleshooting',
-        'technical delivery',
-        'developer support',
-        'technical onboarding',
-        'runbooks'
-      ],
+      ...(headline ? { jobTitle: headline } : {}),
+      ...(description ? { description } : {}),
+      ...(knowsAbout.length > 0 ? { knowsAbout } : {}),
       ...(sameAsLinks.length > 0 ? { sameAs: sameAsLinks.map(link => link.url) } : {})
     }
   })
@@ -628,17 +302,17 @@ function resumeHtml({
     <meta charset="utf-8" />
     <meta name="viewport" content="width=device-width, initial-scale=1" />
     <title>${escapeHtml(title)} | ${escapeHtml(displayName)}</title>
-    <meta name="description" content="${escapeHtml(description)}" />
+    ${description ? `<meta name="description" content="${escapeHtml(description)}" />` : ''}
     <meta name="robots" content="index,follow,max-snippet:-1,max-image-preview:large,max-video-preview:-1" />
     <meta property="og:type" content="profile" />
     <meta property="og:title" content="${escapeHtml(`${title} | ${displayName}`)}" />
-    <meta property="og:description" content="${escapeHtml(description)}" />
-    <meta property="og:url" content="${escapeHtml(`${baseUrl}/resume`)}" />
-    <link rel="canonical" href="${escapeHtml(`${baseUrl}/resume`)}" />
+    ${description ? `<meta property="og:description" content="${escapeHtml(description)}" />` : ''}
+    <meta property="og:url" content="${escapeHtml(`${baseUrl}${canonicalPath}`)}" />
+    <link rel="canonical" href="${escapeHtml(`${baseUrl}${canonicalPath}`)}" />
     <link rel="alternate" hreflang="en" href="${escapeHtml(`${baseUrl}${englishPath}`)}" />
     <link rel="alternate" hreflang="ja" href="${escapeHtml(`${baseUrl}${japanesePath}`)}" />
-    <link rel="alternate" hreflang="x-default" href="${escapeHtml(`${baseUrl}/resume`)}" />
-    <link rel="alternate" type="application/pdf" href="${escapeHtml(`${baseUrl}/resume.pdf`)}" />
+    <link rel="alternate" hreflang="x-default" href="${escapeHtml(`${baseUrl}${englishPath}`)}" />
+    <link rel="alternate" type="application/pdf" href="${escapeHtml(`${baseUrl}${basePath}.pdf`)}" />
     <style>
       :root {
         color-scheme: light;
@@ -927,36 +601,33 @@ function resumeHtml({
         <section class="hero" aria-labelledby="resume-title">
           <div class="topline">
             <div class="hero-copy">
-              <p class="eyebrow">${escapeHtml(subtitle)}</p>
-              <h1 id="resume-title">${escapeHtml(`${displayName} | ${localizedText(language, 'Implementation / Developer Support Engineer', '実装 / 開発者サポートエンジニア')}`)}</h1>
+              <p class="eyebrow">${escapeHtml(nav.resume)}</p>
+              <h1 id="resume-title">${escapeHtml(heading)}</h1>
             </div>
-            <a class="back-link" href="${escapeHtml(baseUrl)}">${escapeHtml(nav.back)}</a>
+            <a class="back-link" href="${escapeHtml(`${baseUrl}${sitePath('/')}`)}">${escapeHtml(nav.back)}</a>
           </div>
-          <p class="lead">${escapeHtml(leadText)}</p>
-          <p class="supporting-copy">${escapeHtml(localizedText(
-            language,
-            'Open to implementation, developer support, technical support, integration, solutions, and technical operations roles.',
-            '実装、開発者サポート、技術サポート、連携、ソリューション寄りの技術職、技術運用職に関心があります。'
-          ))}</p>
+          ${lead ? `<p class="lead">${escapeHtml(lead)}</p>` : ''}
+          ${supporting ? `<p class="supporting-copy">${escapeHtml(supporting)}</p>` : ''}
           ${metadataHtml ? `<div class="meta-block">${metadataHtml}</div>` : ''}
           <nav class="links" aria-label="${escapeHtml(nav.displayLanguage)}">
             <a href="${escapeHtml(englishPath)}" hreflang="en">English</a>
             <a href="${escapeHtml(japanesePath)}" hreflang="ja">日本語</a>
-            ${pdfUrl ? `<a href="${escapeHtml(pdfLink)}">${escapeHtml(downloadLabel)}</a>` : ''}
+            <a href="${escapeHtml(pdfLink)}">${escapeHtml(downloadLabel)}</a>
+            ${language === 'ja' && japaneseDocuments ? '<a href="/resume/rirekisho">履歴書（JIS 形式）</a><a href="/resume/shokumu-keirekisho">職務経歴書</a>' : ''}
           </nav>
           <nav class="links anchor-links" aria-label="${escapeHtml(localizedText(language, 'Resume sections', '履歴書セクション'))}">
             ${sectionLinks.map(link => `<a href="${escapeHtml(link.href)}">${escapeHtml(link.label)}</a>`).join('')}
           </nav>
           ${sameAsLinks.length > 0 ? `<nav class="links" id="profiles" aria-label="${escapeHtml(nav.relatedProfiles)}">${sameAsLinks.map(link => `<a href="${escapeHtml(link.url)}" rel="noopener">${escapeHtml(link.label)}</a>`).join('')}</nav>` : ''}
         </section>
-        <section class="proof-grid" aria-label="${escapeHtml(localizedText(language, 'Executive summary', '要約'))}">
-          ${buildHeroCards(language).map(card => `
+        ${highlights.length > 0 ? `<section class="proof-grid" aria-label="${escapeHtml(localizedText(language, 'Executive summary', '要約'))}">
+          ${highlights.map(card => `
             <article class="proof-card">
               <h2>${escapeHtml(card.title)}</h2>
               <p>${escapeHtml(card.body)}</p>
             </article>
           `).join('')}
-        </section>
+        </section>` : ''}
         <section class="content" id="summary" aria-label="${escapeHtml(nav.summary)}">
           ${summary.length > 0
             ? summary.map(paragraph => `<article class="content-card"><p>${escapeHtml(paragraph)}</p></article>`).join('')
@@ -976,59 +647,74 @@ function resumeHtml({
 </html>`
 }
 
+// Everything on the page except the navigation labels comes from `doc`, which
+// for a variant is the resume with the variant already applied.
+export function renderResumePage({
+  doc,
+  site,
+  language,
+  baseUrl,
+  variantId
+}: {
+  doc: ResumeContent | null
+  site: SiteContent | null
+  language: 'en' | 'ja'
+  baseUrl: string
+  variantId?: string
+}) {
+  return resumeHtml({
+    baseUrl,
+    language,
+    updatedAt: doc?.updatedAt ?? '',
+    eta: doc?.jaEta ?? '',
+    summary: buildExecutiveSummary(doc, language),
+    highlights: buildResumeHighlights(language, doc),
+    sections: buildResumeSections(language, doc),
+    displayName: personName(site, language),
+    sameAsLinks: profileLinks(site),
+    footerText: footerCopy(site, language),
+    japaneseDocuments: doc ? hasJapaneseHistory(doc.japanese) : false,
+    variantId,
+    headline: doc ? localized(doc.headline, language) : '',
+    description: doc ? resumePageDescription(doc, language) : '',
+    lead: doc ? localized(doc.lead, language) : '',
+    supporting: doc ? localized(doc.supporting, language) : '',
+    knowsAbout: doc?.knowsAbout ?? []
+  })
+}
+
 export async function resumeHtmlHandler(req: Request, res: Response) {
   const language = normalizeLanguage(req)
+  const japaneseDocument = matchJapaneseDocument(req.path)
   try {
-    const [doc, site] = await Promise.all([loadResumeDoc(), loadSiteDoc()])
-    const baseUrl = resolveSiteUrl(req)
-    const pdfUrl = preferredResumeUrl(doc, language)
-    const displayName = personName(site, language)
-    const summary = buildExecutiveSummary(doc, language, displayName)
-    const sections = buildResumeSections(language, doc)
-    const updatedAt = pick(doc?.updatedAt ?? doc?.updated_at)
-    const eta = pick(doc?.ja_eta ?? doc?.eta_ja ?? doc?.jaTargetDate)
-    const sameAsLinks = profileLinks(site)
-    const footerText = footerCopy(site, language)
+    const [resumeDoc, site] = await Promise.all([loadResumeDoc(), loadSiteDoc()])
+    if (japaneseDocument) {
+      const content = buildJapaneseDocumentContent(resumeDoc, site, personName(site, 'ja'))
+      await sendJapaneseDocument(req, res, japaneseDocument, content)
+      return
+    }
+    const variantPath = resumeVariantFromPath(req.path)
+    const variant = variantPath ? findResumeVariant(resumeDoc, variantPath.id) : null
+    if (variantPath && !variant) {
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+      res.status(404).send('Resume not found.')
+      return
+    }
+    const doc = resumeDoc && variant ? applyResumeVariant(resumeDoc, variant) : resumeDoc
 
     res.setHeader('Content-Type', 'text/html; charset=utf-8')
     res.setHeader('Cache-Control', 'public, max-age=300')
     res.setHeader('Vary', 'Accept-Language')
-    res.status(200).send(
-      resumeHtml({
-        baseUrl,
-        language,
-        pdfUrl,
-        updatedAt,
-        eta,
-        summary,
-        sections,
-        displayName,
-        sameAsLinks,
-        footerText
-      })
-    )
+    res.status(200).send(renderResumePage({
+      doc,
+      site,
+      language,
+      baseUrl: resolveSiteUrl(req),
+      variantId: variant?.id
+    }))
   } catch (error) {
     console.error('resumeHtmlHandler error:', error)
     res.setHeader('Content-Type', 'text/plain; charset=utf-8')
     res.status(500).send('Unable to load resume page right now.')
   }
 }
-
-export async function resumePdfHandler(req: Request, res: Response) {
-  const language = normalizeLanguage(req)
-  try {
-    const doc = await loadResumeDoc()
-    const url = preferredResumeUrl(doc, language)
-    if (!url) {
-      res.setHeader('Content-Type', 'text/plain; charset=utf-8')
-      res.status(404).send('Resume PDF is not configured.')
-      return
-    }
-    res.setHeader('Cache-Control', 'public, max-age=300')
-    res.redirect(302, url)
-  } catch (error) {
-    console.error('resumePdfHandler error:', error)
-    res.setHeader('Content-Type', 'text/plain; charset=utf-8')
-    res.status(500).send('Unable to load resume PDF right now.')
-  }
-}
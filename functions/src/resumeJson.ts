@@ -0,0 +1,38 @@
+import type { Request, Response } from 'express'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import {
+  loadResumeDoc,
+  loadSiteDoc,
+  normalizeLanguage,
+  personName,
+  profileLinks
+} from './resume.js'
+import { normalizeResumeDoc, toJsonResume } from './schema.js'
+import { resolveSiteUrl } from './siteUrl.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+export async function resumeJsonHandler(req: Request, res: Response) {
+  const language = normalizeLanguage(req)
+  try {
+    const [doc, site] = await Promise.all([loadResumeDoc(), loadSiteDoc()])
+    const body = toJsonResume({
+      resume: doc ?? normalizeResumeDoc(null),
+      language,
+      name: personName(site, language),
+      email: site?.contactEmail,
+      url: resolveSiteUrl(req),
+      profiles: profileLinks(site)
+    })
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8')
+    res.setHeader('Cache-Control', 'public, max-age=300')
+    res.status(200).send(JSON.stringify(body, null, 2))
+  } catch (error) {
+    console.error('resumeJsonHandler error:', error)
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+    res.status(500).send('Unable to load resume JSON right now.')
+  }
+}
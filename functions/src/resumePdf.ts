@@ -0,0 +1,248 @@
+import { createHash } from 'node:crypto'
+import type { Request, Response } from 'express'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { getStorage } from 'firebase-admin/storage'
+import PDFDocument from 'pdfkit'
+import {
+  buildExecutiveSummary,
+  buildResumeSections,
+  loadResumeDoc,
+  loadSiteDoc,
+  normalizeLanguage,
+  personName,
+  preferredResumeUrl,
+  profileLinks,
+  resumeVariantFromPath,
+  type NormalizedSection,
+  type ProfileLink,
+  type ResumeContent,
+  type SiteContent
+} from './resume.js'
+import { buildJapaneseDocumentContent, matchJapaneseDocument, sendJapaneseDocument } from './japaneseResume.js'
+import { preparePdf } from './pdfFonts.js'
+import { applyResumeVariant, findResumeVariant, localized, type ResumeVariant } from './schema.js'
+import { canonicalSiteUrl } from './siteUrl.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+type ResumeLanguage = 'en' | 'ja'
+
+type ResumePdfContent = {
+  language: ResumeLanguage
+  displayName: string
+  headline: string
+  summary: string[]
+  sections: NormalizedSection[]
+  links: ProfileLink[]
+  updatedAt: string
+  siteUrl: string
+}
+
+const GENERATED_PREFIX = 'resumes/generated'
+// Bump when the layout changes so cached files are regenerated.
+const LAYOUT_VERSION = 1
+
+const COLORS = {
+  text: '#111827',
+  muted: '#4b5563',
+  rule: '#d1d5db'
+}
+
+export function buildResumePdfContent(
+  doc: ResumeContent | null,
+  site: SiteContent | null,
+  language: ResumeLanguage
+): ResumePdfContent {
+  const displayName = personName(site, language)
+  return {
+    language,
+    displayName,
+    headline: doc ? localized(doc.headline, language) : '',
+    summary: buildExecutiveSummary(doc, language),
+    sections: buildResumeSections(language, doc),
+    links: profileLinks(site),
+    updatedAt: doc?.updatedAt ?? '',
+    siteUrl: canonicalSiteUrl()
+  }
+}
+
+function contentHash(content: ResumePdfContent) {
+  return createHash('sha256')
+    .update(JSON.stringify({ version: LAYOUT_VERSION, content }))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+function generatedPath(language: ResumeLanguage, hash: string) {
+  return `${GENERATED_PREFIX}/${language}-${hash}.pdf`
+}
+
+export function renderResumePdf(content: ResumePdfContent): Promise<Buffer> {
+  const ja = content.language === 'ja'
+  const doc = new PDFDocument({
+    size: ja ? 'A4' : 'LETTER',
+    margin: 54,
+    info: {
+      Title: ja ? `${content.displayName} 履歴書` : `${content.displayName} Resume`,
+      Author: content.displayName
+    },
+    lang: content.language
+  })
+  const done = preparePdf(doc)
+
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right
+
+  doc.font('bold').fontSize(20).fillColor(COLORS.text).text(content.displayName)
+  if (content.headline) {
+    doc.font('body').fontSize(12).fillColor(COLORS.muted).text(content.headline, { width })
+  }
+  const contactLine = [content.siteUrl, ...content.links.map(link => link.url)].join('  ·  ')
+  doc.moveDown(0.2).font('body').fontSize(9).fillColor(COLORS.muted).text(contactLine, { width })
+
+  doc.moveDown(0.8).font('body').fontSize(10.5).fillColor(COLORS.text)
+  content.summary.forEach(paragraph => {
+    doc.text(paragraph, { width, lineGap: 2 })
+    doc.moveDown(0.4)
+  })
+
+  content.sections.forEach(section => {
+    doc.moveDown(0.6)
+    if (section.title) {
+      doc.font('bold').fontSize(12).fillColor(COLORS.text).text(section.title, { width })
+      const y = doc.y + 2
+      doc.moveTo(doc.page.margins.left, y).lineTo(doc.page.margins.left + width, y).strokeColor(COLORS.rule).stroke()
+      doc.moveDown(0.4)
+    }
+    doc.font('body').fontSize(10).fillColor(COLORS.text)
+    section.items.forEach(item => {
+      doc.text(`•  ${item}`, { width, indent: 0, lineGap: 1.5 })
+      doc.moveDown(0.2)
+    })
+  })
+
+  if (content.updatedAt) {
+    doc.moveDown(1).font('body').fontSize(8).fillColor(COLORS.muted)
+      .text(ja ? `最終更新: ${content.updatedAt}` : `Updated: ${content.updatedAt}`, { width })
+  }
+
+  doc.end()
+  return done
+}
+
+// Returns the cached PDF for this exact content, rendering and storing it on a
+// miss. Files are content-addressed, so edits to the resume produce a new file.
+export async function ensureResumePdf(content: ResumePdfContent) {
+  const hash = contentHash(content)
+  const file = getStorage().bucket().file(generatedPath(content.language, hash))
+  const [exists] = await file.exists()
+  if (exists) {
+    const [buffer] = await file.download()
+    return { hash, buffer }
+  }
+
+  const buffer = await renderResumePdf(content)
+  await file.save(buffer, {
+    contentType: 'application/pdf',
+    metadata: { cacheControl: 'public, max-age=300' }
+  })
+  return { hash, buffer }
+}
+
+async function pruneGeneratedPdfs(language: ResumeLanguage, keepHashes: string[]) {
+  const bucket = getStorage().bucket()
+  const [files] = await bucket.getFiles({ prefix: `${GENERATED_PREFIX}/${language}-` })
+  const keep = new Set(keepHashes.map(hash => generatedPath(language, hash)))
+  await Promise.all(files.filter(file => !keep.has(file.name)).map(file => file.delete({ ignoreNotFound: true })))
+}
+
+function variantPdfContent(doc: ResumeContent, variant: ResumeVariant, site: SiteContent | null, language: ResumeLanguage) {
+  return buildResumePdfContent(applyResumeVariant(doc, variant), site, language)
+}
+
+// Renders the main resume and every variant without an uploaded PDF, then
+// drops generated files nothing points at any more.
+export async function regenerateResumePdfs() {
+  const [doc, site] = await Promise.all([loadResumeDoc(), loadSiteDoc()])
+  for (const language of ['en', 'ja'] as const) {
+    const contents = [
+      buildResumePdfContent(doc, site, language),
+      ...(doc?.variants ?? [])
+        .filter(variant => !variant.pdfUrls[language])
+        .map(variant => variantPdfContent(doc!, variant, site, language))
+    ]
+    const hashes: string[] = []
+    for (const content of contents) {
+      hashes.push((await ensureResumePdf(content)).hash)
+    }
+    await pruneGeneratedPdfs(language, hashes)
+  }
+}
+
+// The PDFs carry the resume plus the name and links from `public/site`.
+const RESUME_PDF_SOURCES = new Set(['resume', 'site'])
+
+export async function resumePdfSourceChangedHandler(event: { params: { docId: string } }) {
+  if (!RESUME_PDF_SOURCES.has(event.params.docId)) return
+  try {
+    await regenerateResumePdfs()
+  } catch (error) {
+    console.error('resumePdfSourceChangedHandler error:', error)
+    throw error
+  }
+}
+
+// Serves /resume.pdf and, through the `/resume/*.pdf` rewrite, the variant
+// and Japanese document PDFs.
+export async function resumePdfHandler(req: Request, res: Response) {
+  const language = normalizeLanguage(req)
+  const japaneseDocument = matchJapaneseDocument(req.path)
+  const variantPath = japaneseDocument ? null : resumeVariantFromPath(req.path)
+  try {
+    const [resumeDoc, site] = await Promise.all([loadResumeDoc(), loadSiteDoc()])
+    if (japaneseDocument) {
+      const content = buildJapaneseDocumentContent(resumeDoc, site, personName(site, 'ja'))
+      await sendJapaneseDocument(req, res, japaneseDocument, content)
+      return
+    }
+
+    const variant = variantPath ? findResumeVariant(resumeDoc, variantPath.id) : null
+    if (variantPath && !variant) {
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+      res.status(404).send('Resume not found.')
+      return
+    }
+    const doc = resumeDoc && variant ? applyResumeVariant(resumeDoc, variant) : resumeDoc
+
+    if (doc?.pdfOverride[language]) {
+      const url = preferredResumeUrl(doc, language)
+      if (url) {
+        res.setHeader('Cache-Control', 'public, max-age=300')
+        res.redirect(302, url)
+        return
+      }
+    }
+
+    const content = resumeDoc && variant
+      ? variantPdfContent(resumeDoc, variant, site, language)
+      : buildResumePdfContent(doc, site, language)
+    const etag = `"${contentHash(content)}"`
+    res.setHeader('Cache-Control', 'public, max-age=300')
+    res.setHeader('ETag', etag)
+    if (req.get('if-none-match') === etag) {
+      res.status(304).end()
+      return
+    }
+
+    const { buffer } = await ensureResumePdf(content)
+    const filename = `resume${variant ? `-${variant.id}` : ''}${language === 'ja' ? '-ja' : ''}.pdf`
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`)
+    res.status(200).send(buffer)
+  } catch (error) {
+    console.error('resumePdfHandler error:', error)
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+    res.status(500).send('Unable to load resume PDF right now.')
+  }
+}
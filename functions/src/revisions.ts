@@ -0,0 +1,28 @@
+import { FieldValue, type DocumentReference, type Transaction } from 'firebase-admin/firestore'
+import { changedFields } from './schema.js'
+
+export type RevisionAuthor = {
+  uid: string
+  email: string
+}
+
+// Same shape as the revisions the admin panel records on publish, so server
+// writes show up in a project's history next to hand edits.
+export function recordRevision(
+  transaction: Transaction,
+  live: DocumentReference,
+  previous: Record<string, unknown>,
+  next: Record<string, unknown> | null,
+  author: RevisionAuthor
+) {
+  const fields = changedFields(previous, next)
+  if (!fields.length && next) return
+  transaction.set(live.collection('revisions').doc(), {
+    data: previous,
+    changedFields: fields,
+    deleted: next === null,
+    authorUid: author.uid,
+    authorEmail: author.email,
+    createdAt: FieldValue.serverTimestamp()
+  })
+}
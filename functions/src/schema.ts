@@ -0,0 +1,2 @@
+// The content schema is shared with the web app; see /shared.
+export * from '../../shared/src/index.js'
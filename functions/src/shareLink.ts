@@ -0,0 +1,93 @@
+import type { Request, Response } from 'express'
+import { getApps, initializeApp } from 'firebase-admin/app'
+import { FieldValue, Timestamp, getFirestore } from 'firebase-admin/firestore'
+import {
+  SHARE_LINKS_COLLECTION,
+  SHARE_LINK_OPENS_COLLECTION,
+  isLinkPreviewAgent,
+  isValidShareTarget,
+  referrerOrigin,
+  shareLinkState,
+  shareTokenFromPath
+} from './schema.js'
+import { clientKey } from './rateLimit.js'
+
+if (!getApps().length) {
+  initializeApp()
+}
+
+function pick(value: unknown) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function sendUnavailable(res: Response, status: 404 | 410) {
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+  res.status(status).send(status === 404 ? 'Link not found.' : 'This link is no longer available.')
+}
+
+// Counts the open on the link and keeps one document per open. Previews from
+// chat apps and mail scanners are recorded but counted separately so they do
+// not look like a recruiter reading the resume.
+async function recordOpen(token: string, req: Request) {
+  const db = getFirestore()
+  const link = db.collection(SHARE_LINKS_COLLECTION).doc(token)
+  const userAgent = pick(req.get('user-agent')).slice(0, 300)
+  const preview = isLinkPreviewAgent(userAgent)
+  const referrer = referrerOrigin(pick(req.get('referer')))
+
+  const batch = db.batch()
+  batch.create(link.collection(SHARE_LINK_OPENS_COLLECTION).doc(), {
+    openedAt: FieldValue.serverTimestamp(),
+    referrer,
+    userAgent,
+    preview,
+    clientHash: clientKey(req)
+  })
+  batch.update(link, preview
+    ? { previews: FieldValue.increment(1) }
+    : {
+        opens: FieldValue.increment(1),
+        lastOpenedAt: FieldValue.serverTimestamp(),
+        ...(referrer ? { lastReferrer: referrer } : {})
+      })
+  await batch.commit()
+}
+
+export async function shareLinkHandler(req: Request, res: Response) {
+  res.setHeader('Cache-Control', 'no-store')
+  res.setHeader('X-Robots-Tag', 'noindex')
+
+  const token = shareTokenFromPath(req.path)
+  if (!token) {
+    sendUnavailable(res, 404)
+    return
+  }
+
+  try {
+    const snapshot = await getFirestore().collection(SHARE_LINKS_COLLECTION).doc(token).get()
+    const data = snapshot.data()
+    const target = pick(data?.target)
+    if (!data || !isValidShareTarget(target)) {
+      sendUnavailable(res, 404)
+      return
+    }
+
+    const expiresAt = data.expiresAt instanceof Timestamp ? data.expiresAt.toMillis() : null
+    if (shareLinkState({ revoked: data.revoked === true, expiresAt }) !== 'active') {
+      sendUnavailable(res, 410)
+      return
+    }
+
+    // A failed write should not keep the visitor from the resume.
+    try {
+      await recordOpen(token, req)
+    } catch (error) {
+      console.error('shareLinkHandler record error:', error)
+    }
+    res.redirect(302, target)
+  } catch (error) {
+    console.error('shareLinkHandler error:', error)
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+    res.status(500).send('Failed to open link.')
+  }
+}
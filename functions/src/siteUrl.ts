@@ -36,6 +36,11 @@ function normalizeOrigin(raw: string, rejectPlaceholders: boolean) {
   }
 }
 
+// Origin for output cached independently of any request, such as generated PDFs.
+export function canonicalSiteUrl() {
+  return normalizeOrigin(pick(process.env.SITE_URL), true) || DEFAULT_SITE_URL
+}
+
 export function resolveSiteUrl(req: Request) {
   const configured = normalizeOrigin(pick(process.env.SITE_URL), true)
   if (configured) {
@@ -2,6 +2,17 @@ import type { Request, Response } from 'express'
 import { getApps, initializeApp } from 'firebase-admin/app'
 import type { DocumentSnapshot, QueryDocumentSnapshot } from 'firebase-admin/firestore'
 import { getFirestore } from 'firebase-admin/firestore'
+import {
+  POST_FIELDS,
+  PROJECT_FIELDS,
+  RESUME_FIELDS,
+  normalizePostRecord,
+  projectOrder,
+  projectVisibility,
+  readField,
+  sortPosts,
+  type RawDoc
+} from './schema.js'
 import { resolveSiteUrl } from './siteUrl.js'
 
 if (!getApps().length) {
@@ -20,6 +31,14 @@ type SitemapItem = {
   images?: string[]
 }
 
+type SitemapPage = {
+  path: string
+  lastmod: string
+  images?: string[]
+}
+
+const JA_PATH_PREFIX = '/ja'
+
 type PublicDocs = {
   site: DocumentSnapshot
   home: DocumentSnapshot
@@ -124,14 +143,15 @@ async function loadPublicDocs(): Promise<PublicDocs> {
   return { site, home, about, contact, resume }
 }
 
-async function loadProjectItems(base: string, fallbackDate: string): Promise<{
-  items: SitemapItem[]
+async function loadProjectPages(fallbackDate: string): Promise<{
+  pages: SitemapPage[]
   lastmod: string
 }> {
   const snapshot = await getFirestore().collection('projects').get()
   const items = snapshot.docs
+    .filter(doc => projectVisibility(doc.data()) === 'public')
     .map(doc => {
-      const data = doc.data() as Record<string, unknown>
+      const data = doc.data() as RawDoc
       const lastmod = snapshotLastmod(
         doc,
         'updatedAt',
@@ -143,13 +163,13 @@ async function loadProjectItems(base: string, fallbackDate: string): Promise<{
         'createdAt',
         'created_at'
       ) ?? fallbackDate
-      const image = absoluteHttpUrl(data.cover ?? data.image ?? data.thumbnail)
+      const image = absoluteHttpUrl(readField(data, PROJECT_FIELDS.cover))
 
       return {
         id: doc.id,
-        order: Number(data.order ?? 0),
-        item: {
-          loc: `${base}/projects/${encodeURIComponent(doc.id)}`,
+        order: projectOrder(data),
+        page: {
+          path: `/projects/${encodeURIComponent(doc.id)}`,
           lastmod,
           ...(image ? { images: [image] } : {})
         }
@@ -158,12 +178,42 @@ async function loadProjectItems(base: string, fallbackDate: string): Promise<{
     .sort((left, right) => left.order - right.order || left.id.localeCompare(right.id))
 
   return {
-    items: items.map(entry => entry.item),
-    lastmod: maxDate(fallbackDate, ...items.map(entry => entry.item.lastmod))
+    pages: items.map(entry => entry.page),
+    lastmod: maxDate(fallbackDate, ...items.map(entry => entry.page.lastmod))
+  }
+}
+
+async function loadPostPages(fallbackDate: string): Promise<{
+  pages: SitemapPage[]
+  lastmod: string
+}> {
+  const snapshot = await getFirestore().collection('posts').get()
+  const lastmods = new Map(snapshot.docs.map(doc => [
+    doc.id,
+    snapshotLastmod(doc, ...POST_FIELDS.updatedAt.aliases, ...POST_FIELDS.publishedAt.aliases) ?? fallbackDate
+  ]))
+  const posts = sortPosts(snapshot.docs.map(doc => normalizePostRecord({ id: doc.id, ...doc.data() })))
+  const pages = posts.map(post => {
+    const image = absoluteHttpUrl(post.cover)
+    return {
+      path: `/writing/${encodeURIComponent(post.slug)}`,
+      lastmod: lastmods.get(post.slug) ?? fallbackDate,
+      ...(image ? { images: [image] } : {})
+    }
+  })
+
+  return {
+    pages,
+    lastmod: maxDate(fallbackDate, ...pages.map(page => page.lastmod))
   }
 }
 
-function buildStaticItems(base: string, fallbackDate: string, docs: PublicDocs, projectsLastmod: string): SitemapItem[] {
+function buildStaticPages(
+  fallbackDate: string,
+  docs: PublicDocs,
+  projectsLastmod: string,
+  postsLastmod: string
+): SitemapPage[] {
   const siteLastmod = docLastmod(docs.site, 'updatedAt', 'updated_at')
   const homeLastmod = maxDate(fallbackDate, siteLastmod, docLastmod(docs.home, 'updatedAt', 'updated_at'))
   const aboutLastmod = maxDate(fallbackDate, siteLastmod, docLastmod(docs.about, 'updatedAt', 'updated_at'))
@@ -171,25 +221,39 @@ function buildStaticItems(base: string, fallbackDate: string, docs: PublicDocs,
   const resumeLastmod = maxDate(
     fallbackDate,
     siteLastmod,
-    docLastmod(docs.resume, 'updatedAt', 'updated_at', 'ja_eta', 'eta_ja', 'jaTargetDate')
+    docLastmod(docs.resume, ...RESUME_FIELDS.updatedAt.aliases, ...RESUME_FIELDS.jaEta.aliases)
   )
 
   return [
-    { loc: `${base}/`, lastmod: homeLastmod },
-    { loc: `${base}/about`, lastmod: aboutLastmod },
-    { loc: `${base}/projects`, lastmod: maxDate(fallbackDate, siteLastmod, projectsLastmod) },
-    { loc: `${base}/contact`, lastmod: contactLastmod },
-    {
-      loc: `${base}/resume`,
-      lastmod: resumeLastmod,
-      alternates: [
-        { hreflang: 'en', href: `${base}/resume?lang=en` },
-        { hreflang: 'ja', href: `${base}/resume?lang=ja` },
-        { hreflang: 'x-default', href: `${base}/resume` }
-      ]
-    },
-    { loc: `${base}/resume.pdf`, lastmod: resumeLastmod }
+    { path: '/', lastmod: homeLastmod },
+    { path: '/about', lastmod: aboutLastmod },
+    { path: '/projects', lastmod: maxDate(fallbackDate, siteLastmod, projectsLastmod) },
+    { path: '/writing', lastmod: maxDate(fallbackDate, siteLastmod, postsLastmod) },
+    { path: '/contact', lastmod: contactLastmod },
+    { path: '/resume', lastmod: resumeLastmod }
+  ]
+}
+
+function japanesePath(path: string) {
+  return path === '/' ? JA_PATH_PREFIX : `${JA_PATH_PREFIX}${path}`
+}
+
+// Every page exists once per language; both entries carry the full set of
+// hreflang alternates so search engines can pair them.
+function buildLanguageItems(base: string, page: SitemapPage): SitemapItem[] {
+  const en = `${base}${page.path}`
+  const ja = `${base}${japanesePath(page.path)}`
+  const alternates = [
+    { hreflang: 'en', href: en },
+    { hreflang: 'ja', href: ja },
+    { hreflang: 'x-default', href: en }
   ]
+  return [en, ja].map(loc => ({
+    loc,
+    lastmod: page.lastmod,
+    alternates,
+    ...(page.images ? { images: page.images } : {})
+  }))
 }
 
 function renderItem(item: SitemapItem) {
@@ -216,11 +280,21 @@ export async function sitemapHandler(req: Request, res: Response) {
   try {
     const base = resolveSiteUrl(req)
     const today = new Date().toISOString().slice(0, 10)
-    const [docs, projectState] = await Promise.all([
+    const [docs, projectState, postState] = await Promise.all([
       loadPublicDocs(),
-      loadProjectItems(base, today)
+      loadProjectPages(today),
+      loadPostPages(today)
     ])
-    const allItems = [...buildStaticItems(base, today, docs, projectState.lastmod), ...projectState.items]
+    const pages = [
+      ...buildStaticPages(today, docs, projectState.lastmod, postState.lastmod),
+      ...projectState.pages,
+      ...postState.pages
+    ]
+    const resumeLastmod = pages.find(page => page.path === '/resume')?.lastmod ?? today
+    const allItems = [
+      ...pages.flatMap(page => buildLanguageItems(base, page)),
+      { loc: `${base}/resume.pdf`, lastmod: resumeLastmod }
+    ]
 
     const xml = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
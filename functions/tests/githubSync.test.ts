@@ -0,0 +1,129 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { syncLinkedProjects, type LinkedProject } from '../src/githubSync.js'
+
+const SYNCED_AT = '2026-01-02T03:04:05.000Z'
+
+const repos: Record<string, unknown> = {
+  '/repos/octo/widget': {
+    id: 42,
+    name: 'widget',
+    full_name: 'octo/widget',
+    html_url: 'https://github.com/octo/widget',
+    description: 'Widget service',
+    homepage: 'widget.example',
+    language: 'TypeScript',
+    fork: false,
+    archived: false,
+    stargazers_count: 3,
+    updated_at: '2026-01-01T00:00:00Z',
+    pushed_at: '2026-01-01T00:00:00Z',
+    owner: { login: 'octo' },
+    topics: ['api']
+  }
+}
+
+// Stands in for api.github.com: known repositories, a 404, and an outage.
+let server: Server
+const requests: Array<{ url: string; headers: IncomingHttpHeaders }> = []
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push({ url: req.url ?? '', headers: req.headers })
+    if (req.url === '/repos/octo/broken') {
+      res.writeHead(502).end()
+      return
+    }
+    const repo = repos[req.url ?? '']
+    res.writeHead(repo ? 200 : 404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(repo ?? { message: 'Not Found' }))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  process.env.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+  process.env.GITHUB_TOKEN = 'test-token'
+})
+
+afterAll(async () => {
+  delete process.env.GITHUB_API_URL
+  delete process.env.GITHUB_TOKEN
+  await new Promise(resolve => server.close(resolve))
+})
+
+const GITHUB_COVER = 'https://opengraph.githubassets.com/1/octo/old'
+const HAND_PICKED_COVER = 'https://example.com/cover.png'
+
+describe('syncLinkedProjects', () => {
+  it('refreshes linked projects from the GitHub API', async () => {
+    const projects: LinkedProject[] = [
+      { id: 'p1', data: { github_full_name: 'octo/widget', cover: GITHUB_COVER } },
+      { id: 'p2', data: { github_full_name: 'octo/gone' } },
+      { id: 'p3', data: { github_full_name: 'octo/broken' } }
+    ]
+    const writes: Array<{ projectId: string; update: Record<string, unknown> }> = []
+    const results = await syncLinkedProjects(projects, SYNCED_AT, async (projectId, updateFor) => {
+      writes.push({ projectId, update: updateFor(projects.find(project => project.id === projectId)!.data) })
+    })
+
+    expect(results).toEqual([
+      { projectId: 'p1', fullName: 'octo/widget', status: 'updated' },
+      { projectId: 'p2', fullName: 'octo/gone', status: 'not_found' },
+      {
+        projectId: 'p3',
+        fullName: 'octo/broken',
+        status: 'failed',
+        error: 'GitHub request failed for octo/broken (status 502)'
+      }
+    ])
+    expect(writes).toHaveLength(1)
+    expect(writes[0].projectId).toBe('p1')
+    expect(writes[0].update).toMatchObject({
+      title_en: 'widget',
+      description_en: 'Widget service',
+      url: 'https://widget.example',
+      tags_en: ['api', 'TypeScript'],
+      cover: 'https://opengraph.githubassets.com/1/octo/widget',
+      github_synced_at: SYNCED_AT
+    })
+    expect(requests.map(request => request.url)).toEqual(['/repos/octo/widget', '/repos/octo/gone', '/repos/octo/broken'])
+    expect(requests[0].headers.authorization).toBe('Bearer test-token')
+  })
+
+  it('keeps a hand-picked cover', async () => {
+    const data = { github_full_name: 'octo/widget', cover: HAND_PICKED_COVER }
+    const writes: Record<string, unknown>[] = []
+    await syncLinkedProjects([{ id: 'p1', data }], SYNCED_AT, async (_projectId, updateFor) => {
+      writes.push(updateFor(data))
+    })
+    expect(writes[0]).not.toHaveProperty('cover')
+  })
+
+  it('builds the draft update from the draft cover, not the live one', async () => {
+    const live = { github_full_name: 'octo/widget', cover: GITHUB_COVER }
+    const drafts = [
+      { github_full_name: 'octo/widget', cover: HAND_PICKED_COVER },
+      { github_full_name: 'octo/widget', cover: GITHUB_COVER }
+    ]
+    let liveUpdate: Record<string, unknown> = {}
+    let draftUpdates: Record<string, unknown>[] = []
+    await syncLinkedProjects([{ id: 'p1', data: live }], SYNCED_AT, async (_projectId, updateFor) => {
+      liveUpdate = updateFor(live)
+      draftUpdates = drafts.map(updateFor)
+    })
+    expect(liveUpdate.cover).toBe('https://opengraph.githubassets.com/1/octo/widget')
+    expect(draftUpdates[0]).not.toHaveProperty('cover')
+    expect(draftUpdates[0]).toMatchObject({ title_en: 'widget', github_synced_at: SYNCED_AT })
+    expect(draftUpdates[1].cover).toBe('https://opengraph.githubassets.com/1/octo/widget')
+  })
+
+  it('reports a failed write against the project', async () => {
+    const [result] = await syncLinkedProjects(
+      [{ id: 'p1', data: { github_full_name: 'octo/widget' } }],
+      SYNCED_AT,
+      async () => {
+        throw new Error('write rejected')
+      }
+    )
+    expect(result).toMatchObject({ projectId: 'p1', status: 'failed', error: 'write rejected' })
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { buildJapaneseDocumentContent, japaneseDocumentHtml } from '../src/japaneseResume.js'
+
+function contentWith(overrides: Record<string, unknown>) {
+  return { ...buildJapaneseDocumentContent(null, null, '山田 太郎', '2024-04-01'), ...overrides }
+}
+
+describe('japaneseDocumentHtml', () => {
+  it('escapes the address on the rirekisho', () => {
+    const html = japaneseDocumentHtml('rirekisho', contentWith({
+      postalCode: '100-0001<script>',
+      address: '<img src=x onerror=alert(1)>'
+    }))
+    expect(html).not.toContain('<img')
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('〒100-0001&lt;script&gt;<br />&lt;img src=x onerror=alert(1)&gt;')
+  })
+})
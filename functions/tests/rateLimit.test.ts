@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { clientKey } from '../src/rateLimit.js'
+
+function request(forwardedFor: string, ip = '10.0.0.1') {
+  return { get: (name: string) => (name === 'x-forwarded-for' ? forwardedFor : undefined), ip } as never
+}
+
+describe('clientKey', () => {
+  it('keys on the client address Hosting appends, not the CDN hop or what the client sends', () => {
+    const key = clientKey(request('1.1.1.1, 203.0.113.7, 35.191.10.1'))
+    expect(clientKey(request('2.2.2.2, 3.3.3.3, 203.0.113.7, 35.191.20.2'))).toBe(key)
+    expect(clientKey(request('203.0.113.7, 35.191.10.1'))).toBe(key)
+    expect(clientKey(request('203.0.113.8, 35.191.10.1'))).not.toBe(key)
+    expect(clientKey(request('1.1.1.1, 198.51.100.9, 35.191.10.1'))).not.toBe(key)
+  })
+
+  it('falls back to the socket address', () => {
+    expect(clientKey(request('', '10.0.0.1'))).toBe(clientKey(request('10.0.0.1')))
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { renderResumePage } from '../src/resume.js'
+import { applyResumeVariant, normalizeResumeDoc } from '../src/schema.js'
+
+const resume = normalizeResumeDoc({
+  headline_en: 'Support Engineer',
+  description_en: 'Builds and supports API-driven systems.',
+  lead_en: 'Strongest across unclear requirements.',
+  knows_about: ['Python', 'SQL'],
+  summary_en: 'Main summary.',
+  sections: [{ id: 'skills', title_en: 'Skills', items_en: ['Data-rich web products with geospatial layers'] }],
+  variants: [{ id: 'support', headline_en: 'Developer Support <Lead>' }]
+})
+
+function render(doc = resume) {
+  return renderResumePage({ doc, site: null, language: 'en', baseUrl: 'https://example.net' })
+}
+
+describe('renderResumePage', () => {
+  it('renders the heading, description and structured data from the document', () => {
+    const html = render()
+    expect(html).toMatch(/<h1 id="resume-title">[^<]*\| Support Engineer<\/h1>/)
+    expect(html).toContain('<meta name="description" content="Support Engineer — Builds and supports API-driven systems." />')
+    expect(html).toContain('<p class="lead">Strongest across unclear requirements.</p>')
+    expect(html).toContain('"knowsAbout":["Python","SQL"]')
+    expect(html).not.toContain('<p class="supporting-copy">')
+  })
+
+  it('keeps every paragraph and item the admin entered', () => {
+    expect(render()).toContain('Data-rich web products with geospatial layers')
+  })
+
+  it('puts a variant headline in the h1', () => {
+    const html = render(applyResumeVariant(resume, resume.variants[0]))
+    expect(html).toMatch(/<h1 id="resume-title">[^<]*\| Developer Support &lt;Lead&gt;<\/h1>/)
+    expect(html).toContain('<meta name="description" content="Developer Support &lt;Lead&gt; — ')
+    expect(html).not.toContain('Support Engineer')
+  })
+})
@@ -0,0 +1,210 @@
+import {
+  field,
+  isRawDoc,
+  validateFields,
+  type FieldSpecs,
+  type RawDoc,
+  type SchemaIssue
+} from './fields.js'
+import { pickString, type LocalizedText } from './text.js'
+
+// Case studies are an ordered list of typed blocks stored on the project as
+// `blocks`. Each entry is a flat map with a `type` and that type's fields;
+// localized text uses the usual `_en` / `_ja` suffixes.
+
+export const PROJECT_BLOCK_TYPES = ['markdown', 'gallery', 'code', 'diagram', 'metrics', 'quote'] as const
+
+export type ProjectBlockType = typeof PROJECT_BLOCK_TYPES[number]
+
+export const PROJECT_BLOCK_LABELS: Record<ProjectBlockType, string> = {
+  markdown: 'Text (Markdown)',
+  gallery: 'Image gallery',
+  code: 'Code snippet',
+  diagram: 'Architecture diagram',
+  metrics: 'Metrics table',
+  quote: 'Quote'
+}
+
+export type GalleryImage = {
+  url: string
+  caption: LocalizedText
+}
+
+export type MetricRow = {
+  label: LocalizedText
+  value: LocalizedText
+  note: LocalizedText
+}
+
+export type ProjectBlock =
+  | { id: string; type: 'markdown'; body: LocalizedText }
+  | { id: string; type: 'gallery'; images: GalleryImage[] }
+  | { id: string; type: 'code'; language: string; code: string; caption: LocalizedText }
+  | { id: string; type: 'diagram'; url: string; caption: LocalizedText; description: LocalizedText }
+  | { id: string; type: 'metrics'; title: LocalizedText; rows: MetricRow[] }
+  | { id: string; type: 'quote'; text: LocalizedText; attribution: LocalizedText }
+
+const localizedFields = (name: string) => ({
+  [`${name}En`]: field('string', `${name}_en`),
+  [`${name}Ja`]: field('string', `${name}_ja`)
+})
+
+export const PROJECT_BLOCK_FIELDS: Record<ProjectBlockType, FieldSpecs> = {
+  markdown: { ...localizedFields('body') },
+  gallery: { images: field('array', 'images') },
+  code: { language: field('string', 'language'), code: field('string', 'code'), ...localizedFields('caption') },
+  diagram: { url: field('string', 'url'), ...localizedFields('caption'), ...localizedFields('description') },
+  metrics: { ...localizedFields('title'), rows: field('array', 'rows') },
+  quote: { ...localizedFields('text'), ...localizedFields('attribution') }
+}
+
+const GALLERY_IMAGE_FIELDS = {
+  url: field('string', 'url'),
+  ...localizedFields('caption')
+}
+
+const METRIC_ROW_FIELDS = {
+  ...localizedFields('label'),
+  ...localizedFields('value'),
+  ...localizedFields('note')
+}
+
+export function isProjectBlockType(value: unknown): value is ProjectBlockType {
+  return typeof value === 'string' && (PROJECT_BLOCK_TYPES as readonly string[]).includes(value)
+}
+
+function readLocalized(raw: RawDoc, name: string): LocalizedText {
+  return { en: pickString(raw[`${name}_en`]), ja: pickString(raw[`${name}_ja`]) }
+}
+
+// Unlike other text fields, code keeps its leading indentation.
+function readCode(value: unknown) {
+  return typeof value === 'string' ? value.replace(/^\n+|\s+$/g, '') : ''
+}
+
+function readMaps(value: unknown): RawDoc[] {
+  return Array.isArray(value) ? value.filter(isRawDoc) : []
+}
+
+function hasText(value: LocalizedText) {
+  return Boolean(value.en || value.ja)
+}
+
+export function emptyProjectBlock(type: ProjectBlockType, id: string): ProjectBlock {
+  const blank = { en: '', ja: '' }
+  switch (type) {
+    case 'markdown':
+      return { id, type, body: blank }
+    case 'gallery':
+      return { id, type, images: [] }
+    case 'code':
+      return { id, type, language: '', code: '', caption: blank }
+    case 'diagram':
+      return { id, type, url: '', caption: blank, description: blank }
+    case 'metrics':
+      return { id, type, title: blank, rows: [] }
+    case 'quote':
+      return { id, type, text: blank, attribution: blank }
+  }
+}
+
+// Unknown types and blocks with nothing to show are dropped so a half-edited
+// draft never renders an empty frame.
+export function normalizeProjectBlock(raw: RawDoc, index: number): ProjectBlock | null {
+  const type = raw.type
+  if (!isProjectBlockType(type)) return null
+  const id = pickString(raw.id) || `block-${index}`
+
+  switch (type) {
+    case 'markdown': {
+      const body = readLocalized(raw, 'body')
+      return hasText(body) ? { id, type, body } : null
+    }
+    case 'gallery': {
+      const images = readMaps(raw.images)
+        .map(image => ({ url: pickString(image.url), caption: readLocalized(image, 'caption') }))
+        .filter(image => image.url)
+      return images.length ? { id, type, images } : null
+    }
+    case 'code': {
+      const code = readCode(raw.code)
+      return code ? { id, type, language: pickString(raw.language).toLowerCase(), code, caption: readLocalized(raw, 'caption') } : null
+    }
+    case 'diagram': {
+      const url = pickString(raw.url)
+      return url
+        ? { id, type, url, caption: readLocalized(raw, 'caption'), description: readLocalized(raw, 'description') }
+        : null
+    }
+    case 'metrics': {
+      const rows = readMaps(raw.rows)
+        .map(row => ({ label: readLocalized(row, 'label'), value: readLocalized(row, 'value'), note: readLocalized(row, 'note') }))
+        .filter(row => hasText(row.label) || hasText(row.value))
+      return rows.length ? { id, type, title: readLocalized(raw, 'title'), rows } : null
+    }
+    case 'quote': {
+      const text = readLocalized(raw, 'text')
+      return hasText(text) ? { id, type, text, attribution: readLocalized(raw, 'attribution') } : null
+    }
+  }
+}
+
+export function normalizeProjectBlocks(value: unknown): ProjectBlock[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map((block, index) => (isRawDoc(block) ? normalizeProjectBlock(block, index) : null))
+    .filter((block): block is ProjectBlock => block !== null)
+}
+
+function writeLocalized(name: string, value: LocalizedText): RawDoc {
+  return { [`${name}_en`]: value.en, [`${name}_ja`]: value.ja }
+}
+
+// The inverse of normalizeProjectBlock, used by the admin editor when saving.
+export function serializeProjectBlock(block: ProjectBlock): RawDoc {
+  const base = { id: block.id, type: block.type }
+  switch (block.type) {
+    case 'markdown':
+      return { ...base, ...writeLocalized('body', block.body) }
+    case 'gallery':
+      return { ...base, images: block.images.map(image => ({ url: image.url, ...writeLocalized('caption', image.caption) })) }
+    case 'code':
+      return { ...base, language: block.language, code: block.code, ...writeLocalized('caption', block.caption) }
+    case 'diagram':
+      return { ...base, url: block.url, ...writeLocalized('caption', block.caption), ...writeLocalized('description', block.description) }
+    case 'metrics':
+      return {
+        ...base,
+        ...writeLocalized('title', block.title),
+        rows: block.rows.map(row => ({
+          ...writeLocalized('label', row.label),
+          ...writeLocalized('value', row.value),
+          ...writeLocalized('note', row.note)
+        }))
+      }
+    case 'quote':
+      return { ...base, ...writeLocalized('text', block.text), ...writeLocalized('attribution', block.attribution) }
+  }
+}
+
+function validateNested(value: unknown, specs: FieldSpecs, prefix: string): SchemaIssue[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((entry, index) => isRawDoc(entry)
+    ? validateFields(entry, specs, `${prefix}[${index}].`)
+    : [{ field: `${prefix}[${index}]`, message: 'Expected an object.' }])
+}
+
+export function validateProjectBlocks(value: unknown, prefix = 'blocks'): SchemaIssue[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((block, index): SchemaIssue[] => {
+    const path = `${prefix}[${index}]`
+    if (!isRawDoc(block)) return [{ field: path, message: 'Expected an object.' }]
+    if (!isProjectBlockType(block.type)) {
+      return [{ field: `${path}.type`, message: `Expected one of ${PROJECT_BLOCK_TYPES.join(', ')}.` }]
+    }
+    const issues = validateFields(block, PROJECT_BLOCK_FIELDS[block.type], `${path}.`)
+    if (block.type === 'gallery') issues.push(...validateNested(block.images, GALLERY_IMAGE_FIELDS, `${path}.images`))
+    if (block.type === 'metrics') issues.push(...validateNested(block.rows, METRIC_ROW_FIELDS, `${path}.rows`))
+    return issues
+  })
+}
@@ -0,0 +1,117 @@
+import { canonicalName, isRawDoc, readField, type FieldSpecs, type RawDoc } from './fields.js'
+import { JAPANESE_CAREER_FIELDS, JAPANESE_HISTORY_FIELDS } from './japaneseResume.js'
+import { ABOUT_FIELDS, CONTACT_FIELDS, HOME_FIELDS } from './pageCopy.js'
+import { PROJECT_FIELDS, projectVisibility } from './project.js'
+import { RESUME_FIELDS, RESUME_HIGHLIGHT_FIELDS, RESUME_SECTION_FIELDS } from './resume.js'
+import { RESUME_VARIANT_FIELDS } from './resumeVariant.js'
+import { SITE_FIELDS } from './site.js'
+
+export type FieldChange =
+  | { action: 'set'; field: string; from: string; value: unknown }
+  | { action: 'delete'; field: string }
+
+export type CanonicalizePlan = {
+  set: RawDoc
+  remove: string[]
+  changes: FieldChange[]
+}
+
+function sameValue(left: unknown, right: unknown) {
+  return JSON.stringify(left) === JSON.stringify(right)
+}
+
+function sourceAlias(raw: RawDoc, aliases: readonly string[]) {
+  return aliases.find(alias => raw[alias] !== undefined && raw[alias] !== null) ?? aliases[0]
+}
+
+// Moves every value to its canonical field and drops the legacy aliases.
+// Reading the result yields the same values as reading `raw`, and running it
+// on its own output plans nothing, so migrations can be re-run safely.
+export function canonicalizeFields(raw: RawDoc, specs: FieldSpecs): CanonicalizePlan {
+  const plan: CanonicalizePlan = { set: {}, remove: [], changes: [] }
+  const canonical = new Set(Object.values(specs).map(canonicalName))
+
+  Object.values(specs).forEach(spec => {
+    const target = canonicalName(spec)
+    const value = readField(raw, spec)
+    if (value === undefined || sameValue(raw[target], value)) return
+    plan.set[target] = value
+    plan.changes.push({ action: 'set', field: target, from: sourceAlias(raw, spec.aliases), value })
+  })
+
+  const legacy = new Set(Object.values(specs).flatMap(spec => spec.aliases.slice(1)))
+  legacy.forEach(alias => {
+    if (canonical.has(alias) || !(alias in raw)) return
+    plan.remove.push(alias)
+    plan.changes.push({ action: 'delete', field: alias })
+  })
+
+  return plan
+}
+
+export function canonicalizeSiteDoc(raw: RawDoc) {
+  return canonicalizeFields(raw, SITE_FIELDS)
+}
+
+export function canonicalizeHomeDoc(raw: RawDoc) {
+  return canonicalizeFields(raw, HOME_FIELDS)
+}
+
+export function canonicalizeAboutDoc(raw: RawDoc) {
+  return canonicalizeFields(raw, ABOUT_FIELDS)
+}
+
+export function canonicalizeContactDoc(raw: RawDoc) {
+  return canonicalizeFields(raw, CONTACT_FIELDS)
+}
+
+// Public listings query `visibility == 'public'`, so older projects get the
+// field written out as well.
+export function canonicalizeProjectDoc(raw: RawDoc) {
+  const plan = canonicalizeFields(raw, PROJECT_FIELDS)
+  if (readField(raw, PROJECT_FIELDS.visibility) === undefined) {
+    plan.set.visibility = projectVisibility(raw)
+    plan.changes.push({ action: 'set', field: 'visibility', from: 'visibility', value: plan.set.visibility })
+  }
+  return plan
+}
+
+// Highlights, sections, variants and the Japanese histories live in arrays, so each array is rewritten as a
+// whole when any of its entries changes.
+function canonicalizeEntries(raw: RawDoc, key: string, specs: FieldSpecs, plan: CanonicalizePlan) {
+  const entries = raw[key]
+  if (!Array.isArray(entries)) return
+
+  let changed = false
+  const next = entries.map((entry, index) => {
+    if (!isRawDoc(entry)) return entry
+    const entryPlan = canonicalizeFields(entry, specs)
+    if (!entryPlan.changes.length) return entry
+    changed = true
+    entryPlan.changes.forEach(change => {
+      plan.changes.push({ ...change, field: `${key}[${index}].${change.field}` })
+    })
+    return applyCanonicalizePlan(entry, entryPlan)
+  })
+
+  if (changed) {
+    plan.set[key] = next
+  }
+}
+
+export function canonicalizeResumeDoc(raw: RawDoc): CanonicalizePlan {
+  const plan = canonicalizeFields(raw, RESUME_FIELDS)
+  canonicalizeEntries(raw, 'highlights', RESUME_HIGHLIGHT_FIELDS, plan)
+  canonicalizeEntries(raw, 'sections', RESUME_SECTION_FIELDS, plan)
+  canonicalizeEntries(raw, 'variants', RESUME_VARIANT_FIELDS, plan)
+  canonicalizeEntries(raw, 'education_history', JAPANESE_HISTORY_FIELDS, plan)
+  canonicalizeEntries(raw, 'careers', JAPANESE_CAREER_FIELDS, plan)
+  canonicalizeEntries(raw, 'qualifications', JAPANESE_HISTORY_FIELDS, plan)
+  return plan
+}
+
+export function applyCanonicalizePlan(raw: RawDoc, plan: CanonicalizePlan): RawDoc {
+  const next: RawDoc = { ...raw, ...plan.set }
+  plan.remove.forEach(alias => delete next[alias])
+  return next
+}
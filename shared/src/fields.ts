@@ -0,0 +1,84 @@
+export type FieldKind = 'string' | 'list' | 'number' | 'boolean' | 'array' | 'map'
+
+// The first alias is the canonical field name; the rest are legacy names that
+// older documents may still use, in the order they are consulted.
+export type FieldSpec = {
+  kind: FieldKind
+  aliases: readonly [string, ...string[]]
+}
+
+export type FieldSpecs = Record<string, FieldSpec>
+
+export type SchemaIssue = {
+  field: string
+  message: string
+}
+
+export type RawDoc = Record<string, unknown>
+
+export function field(kind: FieldKind, ...aliases: [string, ...string[]]): FieldSpec {
+  return { kind, aliases }
+}
+
+export function canonicalName(spec: FieldSpec) {
+  return spec.aliases[0]
+}
+
+// Mirrors the `a ?? b ?? c` chains the parsers used before: null and
+// undefined fall through to the next alias, anything else wins.
+export function readField(raw: RawDoc | null | undefined, spec: FieldSpec): unknown {
+  if (!raw) return undefined
+  for (const alias of spec.aliases) {
+    const value = raw[alias]
+    if (value !== undefined && value !== null) return value
+  }
+  return undefined
+}
+
+function matchesKind(value: unknown, kind: FieldKind) {
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string'
+    case 'list':
+      return typeof value === 'string' ||
+        (Array.isArray(value) && value.every(item => typeof item === 'string'))
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'array':
+      return Array.isArray(value)
+    case 'map':
+      return isRawDoc(value)
+  }
+}
+
+const KIND_LABELS: Record<FieldKind, string> = {
+  string: 'a string',
+  list: 'a string or a list of strings',
+  number: 'a number',
+  boolean: 'true or false',
+  array: 'an array',
+  map: 'a map'
+}
+
+export function validateFields(raw: RawDoc, specs: FieldSpecs, prefix = ''): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  const checked = new Set<string>()
+  Object.values(specs).forEach(spec => {
+    spec.aliases.forEach(alias => {
+      if (checked.has(alias)) return
+      checked.add(alias)
+      const value = raw[alias]
+      if (value === undefined || value === null) return
+      if (!matchesKind(value, spec.kind)) {
+        issues.push({ field: `${prefix}${alias}`, message: `Expected ${KIND_LABELS[spec.kind]}.` })
+      }
+    })
+  })
+  return issues
+}
+
+export function isRawDoc(value: unknown): value is RawDoc {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
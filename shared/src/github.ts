@@ -0,0 +1,119 @@
+// Projects imported from GitHub. The admin panel imports and refreshes them by
+// hand and the `githubSync` function refreshes linked projects nightly; both
+// build their Firestore payloads here so the two stay in step.
+
+export type GitHubRepo = {
+  id: number
+  name: string
+  full_name: string
+  html_url: string
+  description: string | null
+  homepage: string | null
+  language: string | null
+  fork: boolean
+  archived: boolean
+  stargazers_count: number
+  updated_at: string
+  pushed_at: string
+  owner: { login: string }
+  topics?: string[]
+}
+
+export const GITHUB_API_URL = 'https://api.github.com'
+
+export const GITHUB_API_HEADERS: Readonly<Record<string, string>> = {
+  Accept: 'application/vnd.github+json',
+  'X-GitHub-Api-Version': '2022-11-28'
+}
+
+const GITHUB_COVER = /^https:\/\/opengraph\.githubassets\.com\//i
+
+function normalizeUrl(value?: string | null) {
+  if (!value) return ''
+  const trimmed = value.trim()
+  if (!trimmed) return ''
+  if (/^https?:\/\//i.test(trimmed)) return trimmed
+  return `https://${trimmed}`
+}
+
+function buildTags(repo: GitHubRepo) {
+  const tags = []
+  if (Array.isArray(repo.topics)) tags.push(...repo.topics)
+  if (repo.language) tags.push(repo.language)
+  return Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)))
+}
+
+export function buildGitHubCover(repo: GitHubRepo) {
+  return `https://opengraph.githubassets.com/1/${repo.full_name}`
+}
+
+export function isGitHubCover(value: unknown) {
+  return typeof value === 'string' && GITHUB_COVER.test(value.trim())
+}
+
+function githubFields(repo: GitHubRepo, syncedAt: string) {
+  return {
+    github_id: repo.id,
+    github_full_name: repo.full_name,
+    github_owner: repo.owner.login,
+    github_repo: repo.name,
+    github_updated_at: repo.updated_at,
+    github_pushed_at: repo.pushed_at,
+    github_language: repo.language || null,
+    github_topics: Array.isArray(repo.topics) ? repo.topics : [],
+    github_synced_at: syncedAt
+  }
+}
+
+// A new project: every field is set, so the Japanese copy starts empty.
+export function buildProjectPayloadFromRepo(
+  repo: GitHubRepo,
+  order: number,
+  useGithubCover: boolean,
+  syncedAt = new Date().toISOString()
+) {
+  const cover = useGithubCover ? buildGitHubCover(repo) : ''
+  return {
+    title_en: repo.name,
+    title_ja: '',
+    description_en: repo.description?.trim() ?? '',
+    description_ja: '',
+    order,
+    url: normalizeUrl(repo.homepage) || null,
+    repo: repo.html_url,
+    tags_en: buildTags(repo),
+    tags_ja: [],
+    cover: cover || null,
+    ...githubFields(repo, syncedAt)
+  }
+}
+
+// An existing project: only fields GitHub has a value for are overwritten, so
+// a hand-written description or homepage survives an empty one on GitHub.
+export function buildProjectUpdateFromRepo(
+  repo: GitHubRepo,
+  useGithubCover: boolean,
+  syncedAt = new Date().toISOString()
+) {
+  const payload: Record<string, unknown> = {
+    title_en: repo.name,
+    repo: repo.html_url,
+    ...githubFields(repo, syncedAt)
+  }
+  const description = repo.description?.trim()
+  if (description) {
+    payload.description_en = description
+  }
+  const homepage = normalizeUrl(repo.homepage)
+  if (homepage) {
+    payload.url = homepage
+  }
+  const tags = buildTags(repo)
+  if (tags.length) {
+    payload.tags_en = tags
+  }
+  if (useGithubCover) {
+    payload.cover = buildGitHubCover(repo)
+  }
+  return payload
+}
@@ -0,0 +1,193 @@
+// A small lexical highlighter for code snippets: comments, strings, numbers
+// and keywords. It does not parse, so it never fails on partial snippets;
+// unknown languages come back as a single plain token.
+
+export type CodeTokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword'
+
+export type CodeToken = {
+  type: CodeTokenType
+  text: string
+}
+
+type Grammar = {
+  lineComments: string[]
+  blockComment?: [string, string]
+  quotes: string[]
+  keywords: Set<string>
+  caseInsensitive?: boolean
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean))
+
+const C_LIKE_KEYWORDS = `
+  break case catch class const continue default do else enum export extends false finally for if import in
+  new null return static super switch this throw true try void while`
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: {
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: words(`${C_LIKE_KEYWORDS} as async await declare delete from function get instanceof interface
+      keyof let of readonly set type typeof undefined var yield implements private protected public satisfies`)
+  },
+  go: {
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: words(`break case chan const continue default defer else fallthrough for func go goto if import
+      interface map nil package range return select struct switch true false type var`)
+  },
+  rust: {
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+    keywords: words(`as async await break const continue crate dyn else enum extern false fn for if impl in let
+      loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while`)
+  },
+  c: {
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: words(`${C_LIKE_KEYWORDS} abstract auto bool char double final float fun inline int interface internal
+      let long namespace nullptr object override package private protected public sealed short signed sizeof
+      struct template typedef typename union unsigned using val var virtual when`)
+  },
+  python: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: words(`and as assert async await break class continue def del elif else except False finally for
+      from global if import in is lambda None nonlocal not or pass raise return True try while with yield`)
+  },
+  ruby: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: words(`alias and begin break case class def do else elsif end ensure false for if in module next nil
+      not or redo rescue retry return self super then true unless until when while yield`)
+  },
+  shell: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: words('case do done elif else esac export fi for function if in local return then until while')
+  },
+  yaml: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: words('true false null yes no on off')
+  },
+  sql: {
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    caseInsensitive: true,
+    keywords: words(`add alter and as asc begin by case commit create delete desc distinct drop else end exists from
+      group having if in index inner insert into is join key left limit not null on or order outer primary
+      references returning right rollback select set table then union unique update values when where with`)
+  },
+  json: {
+    lineComments: [],
+    quotes: ['"'],
+    keywords: words('true false null')
+  }
+}
+
+const ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', mjs: 'js', cjs: 'js', ts: 'js', tsx: 'js', typescript: 'js',
+  golang: 'go',
+  rs: 'rust',
+  cpp: 'c', 'c++': 'c', h: 'c', java: 'c', kotlin: 'c', kt: 'c', cs: 'c', csharp: 'c', swift: 'c', dart: 'c',
+  py: 'python',
+  rb: 'ruby',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell',
+  yml: 'yaml', toml: 'yaml',
+  postgres: 'sql', postgresql: 'sql', mysql: 'sql', sqlite: 'sql'
+}
+
+function grammarFor(language: string): Grammar | undefined {
+  const key = language.trim().toLowerCase()
+  return GRAMMARS[key] ?? GRAMMARS[ALIASES[key] ?? '']
+}
+
+const NUMBER = /^(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/i
+const IDENTIFIER = /^[A-Za-z_$][\w$]*/
+
+function push(tokens: CodeToken[], type: CodeTokenType, text: string) {
+  const last = tokens[tokens.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    tokens.push({ type, text })
+  }
+}
+
+// Finds the end of a string starting at `start`, honoring backslash escapes.
+// Unterminated strings run to the end of the line.
+function stringEnd(code: string, start: number, quote: string) {
+  let index = start + 1
+  while (index < code.length) {
+    const char = code[index]
+    if (char === '\\') {
+      index += 2
+      continue
+    }
+    if (char === quote) return index + 1
+    if (char === '\n' && quote !== '`') return index
+    index += 1
+  }
+  return code.length
+}
+
+export function highlightCode(code: string, language: string): CodeToken[] {
+  const grammar = grammarFor(language)
+  if (!grammar) return code ? [{ type: 'plain', text: code }] : []
+
+  const tokens: CodeToken[] = []
+  let index = 0
+  while (index < code.length) {
+    const rest = code.slice(index)
+
+    const lineComment = grammar.lineComments.find(marker => rest.startsWith(marker))
+    if (lineComment) {
+      const end = code.indexOf('\n', index)
+      const stop = end === -1 ? code.length : end
+      push(tokens, 'comment', code.slice(index, stop))
+      index = stop
+      continue
+    }
+
+    if (grammar.blockComment && rest.startsWith(grammar.blockComment[0])) {
+      const end = code.indexOf(grammar.blockComment[1], index + grammar.blockComment[0].length)
+      const stop = end === -1 ? code.length : end + grammar.blockComment[1].length
+      push(tokens, 'comment', code.slice(index, stop))
+      index = stop
+      continue
+    }
+
+    if (grammar.quotes.includes(rest[0])) {
+      const stop = stringEnd(code, index, rest[0])
+      push(tokens, 'string', code.slice(index, stop))
+      index = stop
+      continue
+    }
+
+    const previous = index > 0 ? code[index - 1] : ''
+    const number = /[\w$]/.test(previous) ? null : NUMBER.exec(rest)
+    if (number) {
+      push(tokens, 'number', number[0])
+      index += number[0].length
+      continue
+    }
+
+    const identifier = IDENTIFIER.exec(rest)
+    if (identifier) {
+      const word = grammar.caseInsensitive ? identifier[0].toLowerCase() : identifier[0]
+      push(tokens, grammar.keywords.has(word) ? 'keyword' : 'plain', identifier[0])
+      index += identifier[0].length
+      continue
+    }
+
+    push(tokens, 'plain', rest[0])
+    index += 1
+  }
+  return tokens
+}
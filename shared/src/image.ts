@@ -0,0 +1,89 @@
+import { isRawDoc } from './fields.js'
+import { pickString } from './text.js'
+
+// Uploaded covers are resized by the `projectCoverUploaded` function into
+// these widths, once per format, and stored on the project as `cover_image`.
+export const COVER_WIDTHS = [480, 960, 1600] as const
+
+export const COVER_FORMATS = ['avif', 'webp'] as const
+
+export type CoverFormat = typeof COVER_FORMATS[number]
+
+export type CoverVariant = {
+  url: string
+  width: number
+}
+
+export type ProjectCoverImage = {
+  // Storage path of the uploaded original the variants were made from.
+  source: string
+  width: number
+  height: number
+  // Tiny inline WebP shown while the real image loads.
+  placeholder: string
+  // JPEG for browsers without AVIF/WebP and for link previews; also written
+  // to `cover` so older readers keep working.
+  fallback: string
+  avif: CoverVariant[]
+  webp: CoverVariant[]
+}
+
+export const COVER_UPLOAD_PREFIX = 'project-covers'
+
+export function coverOriginalPath(projectId: string, fileName: string) {
+  return `${COVER_UPLOAD_PREFIX}/${projectId}/original/${fileName}`
+}
+
+export function coverVariantPath(projectId: string, base: string, width: number, extension: CoverFormat | 'jpg') {
+  return `${COVER_UPLOAD_PREFIX}/${projectId}/variants/${base}-${width}.${extension}`
+}
+
+// Returns the project id and file name for an uploaded original, or null for
+// any other path (including the variants the function writes itself).
+export function parseCoverOriginalPath(path: string): { projectId: string; fileName: string } | null {
+  const match = new RegExp(`^${COVER_UPLOAD_PREFIX}/([^/]+)/original/([^/]+)$`).exec(path)
+  return match ? { projectId: match[1], fileName: match[2] } : null
+}
+
+function isImageUrl(value: string) {
+  return /^https?:\/\//i.test(value) || value.startsWith('/')
+}
+
+function parseVariants(value: unknown): CoverVariant[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(isRawDoc)
+    .map(entry => ({ url: pickString(entry.url), width: Number(entry.width) }))
+    .filter(entry => isImageUrl(entry.url) && Number.isFinite(entry.width) && entry.width > 0)
+    .sort((left, right) => left.width - right.width)
+}
+
+export function parseCoverImage(value: unknown): ProjectCoverImage | undefined {
+  if (!isRawDoc(value)) return undefined
+  const fallback = pickString(value.fallback)
+  const width = Number(value.width)
+  const height = Number(value.height)
+  if (!isImageUrl(fallback) || !(width > 0) || !(height > 0)) return undefined
+  const placeholder = pickString(value.placeholder)
+  return {
+    source: pickString(value.source),
+    width,
+    height,
+    placeholder: placeholder.startsWith('data:image/') ? placeholder : '',
+    fallback,
+    avif: parseVariants(value.avif),
+    webp: parseVariants(value.webp)
+  }
+}
+
+export function buildSrcSet(variants: CoverVariant[]) {
+  return variants.map(variant => `${variant.url} ${variant.width}w`).join(', ')
+}
+
+// Never upscale: widths above the original collapse into one variant at the
+// original width.
+export function coverWidthsFor(originalWidth: number) {
+  const widths: number[] = COVER_WIDTHS.filter(width => width < originalWidth)
+  if (widths.length < COVER_WIDTHS.length) widths.push(originalWidth)
+  return widths
+}
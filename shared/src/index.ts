@@ -0,0 +1,21 @@
+export * from './blocks.js'
+export * from './canonicalize.js'
+export * from './fields.js'
+export * from './github.js'
+export * from './highlight.js'
+export * from './image.js'
+export * from './japaneseResume.js'
+export * from './jsonResume.js'
+export * from './markdown.js'
+export * from './pageCopy.js'
+export * from './portal.js'
+export * from './post.js'
+export * from './project.js'
+export * from './projectQuery.js'
+export * from './resume.js'
+export * from './resumeVariant.js'
+export * from './revision.js'
+export * from './roles.js'
+export * from './shareLink.js'
+export * from './site.js'
+export * from './text.js'
@@ -0,0 +1,250 @@
+import { field, isRawDoc, readField, type FieldSpec, type RawDoc } from './fields.js'
+import { pickString, toList } from './text.js'
+
+// Structured data for the two Japanese application documents: the JIS-style
+// 履歴書 (rirekisho) and the 職務経歴書 (shokumu-keirekisho). It lives on
+// public/resume next to the bilingual content; the name comes from the site
+// settings and the summary and skills from the Japanese resume sections.
+// Dates are `YYYY-MM` (`YYYY-MM-DD` for the birth date).
+
+export type JapaneseHistoryEntry = {
+  id: string
+  date: string
+  text: string
+}
+
+export type JapaneseCareer = {
+  id: string
+  company: string
+  start: string
+  end: string
+  employment: string
+  role: string
+  description: string
+  items: string[]
+}
+
+export type JapaneseResumeContent = {
+  nameKana: string
+  birthDate: string
+  postalCode: string
+  address: string
+  addressKana: string
+  phone: string
+  education: JapaneseHistoryEntry[]
+  careers: JapaneseCareer[]
+  qualifications: JapaneseHistoryEntry[]
+  selfPr: string
+  personalRequests: string
+}
+
+export type RirekishoRow = {
+  year: string
+  month: string
+  text: string
+  align?: 'center' | 'right'
+}
+
+export const JAPANESE_RESUME_FIELDS = {
+  nameKana: field('string', 'name_kana', 'furigana'),
+  birthDate: field('string', 'birth_date'),
+  postalCode: field('string', 'postal_code'),
+  address: field('string', 'address'),
+  addressKana: field('string', 'address_kana'),
+  phone: field('string', 'phone'),
+  education: field('array', 'education_history'),
+  careers: field('array', 'careers'),
+  qualifications: field('array', 'qualifications'),
+  selfPr: field('string', 'self_pr'),
+  personalRequests: field('string', 'personal_requests')
+} as const
+
+export const JAPANESE_HISTORY_FIELDS = {
+  id: field('string', 'id'),
+  date: field('string', 'date'),
+  text: field('string', 'text')
+} as const
+
+export const JAPANESE_CAREER_FIELDS = {
+  id: field('string', 'id'),
+  company: field('string', 'company'),
+  start: field('string', 'start'),
+  end: field('string', 'end'),
+  employment: field('string', 'employment'),
+  role: field('string', 'role'),
+  description: field('string', 'description'),
+  items: field('list', 'items')
+} as const
+
+export const EMPTY_JAPANESE_RESUME: JapaneseResumeContent = {
+  nameKana: '',
+  birthDate: '',
+  postalCode: '',
+  address: '',
+  addressKana: '',
+  phone: '',
+  education: [],
+  careers: [],
+  qualifications: [],
+  selfPr: '',
+  personalRequests: ''
+}
+
+function normalizeHistoryEntry(raw: RawDoc, index: number, prefix: string): JapaneseHistoryEntry {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  return {
+    id: pickString(read(JAPANESE_HISTORY_FIELDS.id)) || `${prefix}-${index}`,
+    date: pickString(read(JAPANESE_HISTORY_FIELDS.date)),
+    text: pickString(read(JAPANESE_HISTORY_FIELDS.text))
+  }
+}
+
+function normalizeCareer(raw: RawDoc, index: number): JapaneseCareer {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  return {
+    id: pickString(read(JAPANESE_CAREER_FIELDS.id)) || `career-${index}`,
+    company: pickString(read(JAPANESE_CAREER_FIELDS.company)),
+    start: pickString(read(JAPANESE_CAREER_FIELDS.start)),
+    end: pickString(read(JAPANESE_CAREER_FIELDS.end)),
+    employment: pickString(read(JAPANESE_CAREER_FIELDS.employment)),
+    role: pickString(read(JAPANESE_CAREER_FIELDS.role)),
+    description: pickString(read(JAPANESE_CAREER_FIELDS.description)),
+    items: toList(read(JAPANESE_CAREER_FIELDS.items))
+  }
+}
+
+function normalizeEntries<T>(value: unknown, normalize: (raw: RawDoc, index: number) => T): T[] {
+  return Array.isArray(value) ? value.map((entry, index) => normalize(isRawDoc(entry) ? entry : {}, index)) : []
+}
+
+export function normalizeJapaneseResume(raw: RawDoc | null | undefined): JapaneseResumeContent {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  return {
+    nameKana: pickString(read(JAPANESE_RESUME_FIELDS.nameKana)),
+    birthDate: pickString(read(JAPANESE_RESUME_FIELDS.birthDate)),
+    postalCode: pickString(read(JAPANESE_RESUME_FIELDS.postalCode)),
+    address: pickString(read(JAPANESE_RESUME_FIELDS.address)),
+    addressKana: pickString(read(JAPANESE_RESUME_FIELDS.addressKana)),
+    phone: pickString(read(JAPANESE_RESUME_FIELDS.phone)),
+    education: normalizeEntries(read(JAPANESE_RESUME_FIELDS.education), (entry, index) =>
+      normalizeHistoryEntry(entry, index, 'education')),
+    careers: normalizeEntries(read(JAPANESE_RESUME_FIELDS.careers), normalizeCareer),
+    qualifications: normalizeEntries(read(JAPANESE_RESUME_FIELDS.qualifications), (entry, index) =>
+      normalizeHistoryEntry(entry, index, 'qualification')),
+    selfPr: pickString(read(JAPANESE_RESUME_FIELDS.selfPr)),
+    personalRequests: pickString(read(JAPANESE_RESUME_FIELDS.personalRequests))
+  }
+}
+
+// The inverse of normalizeJapaneseResume, used by the admin editor when saving.
+export function serializeJapaneseResume(content: JapaneseResumeContent): RawDoc {
+  const history = (entry: JapaneseHistoryEntry) => ({ id: entry.id, date: entry.date.trim(), text: entry.text.trim() })
+  return {
+    name_kana: content.nameKana.trim(),
+    birth_date: content.birthDate.trim(),
+    postal_code: content.postalCode.trim(),
+    address: content.address.trim(),
+    address_kana: content.addressKana.trim(),
+    phone: content.phone.trim(),
+    education_history: content.education.map(history),
+    careers: content.careers.map(career => ({
+      id: career.id,
+      company: career.company.trim(),
+      start: career.start.trim(),
+      end: career.end.trim(),
+      employment: career.employment.trim(),
+      role: career.role.trim(),
+      description: career.description.trim(),
+      items: career.items.map(item => item.trim()).filter(Boolean)
+    })),
+    qualifications: content.qualifications.map(history),
+    self_pr: content.selfPr.trim(),
+    personal_requests: content.personalRequests.trim()
+  }
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/
+
+export function parseJapaneseDate(value: string) {
+  const match = DATE_PATTERN.exec(value.trim())
+  if (!match) return null
+  const month = Number(match[2])
+  const day = match[3] ? Number(match[3]) : undefined
+  if (month < 1 || month > 12 || (day !== undefined && (day < 1 || day > 31))) return null
+  return { year: Number(match[1]), month, day }
+}
+
+// 2021-04 → 2021年4月, 1990-01-02 → 1990年1月2日. Anything else is shown as entered.
+export function formatJapaneseDate(value: string) {
+  const date = parseJapaneseDate(value)
+  if (!date) return value.trim()
+  return `${date.year}年${date.month}月${date.day ? `${date.day}日` : ''}`
+}
+
+export function formatJapanesePeriod(start: string, end: string) {
+  return `${formatJapaneseDate(start)} 〜 ${end ? formatJapaneseDate(end) : '現在'}`
+}
+
+// 満年齢 on the given `YYYY-MM-DD` date.
+export function japaneseAge(birthDate: string, on: string) {
+  const birth = parseJapaneseDate(birthDate)
+  const today = parseJapaneseDate(on)
+  if (!birth?.day || !today?.day) return null
+  const hadBirthday = today.month > birth.month || (today.month === birth.month && today.day >= birth.day)
+  const age = today.year - birth.year - (hadBirthday ? 0 : 1)
+  return age >= 0 ? age : null
+}
+
+function sortByDate<T>(entries: T[], date: (entry: T) => string) {
+  return [...entries].sort((left, right) => date(left).localeCompare(date(right)))
+}
+
+function historyRow(date: string, text: string): RirekishoRow {
+  const parsed = parseJapaneseDate(date)
+  return parsed
+    ? { year: String(parsed.year), month: String(parsed.month), text }
+    : { year: '', month: '', text }
+}
+
+// The 学歴・職歴 column of the JIS form: education, then each employment as
+// 入社 / 退社 lines in date order, closed by 現在に至る and a right-aligned 以上.
+export function rirekishoHistoryRows(content: JapaneseResumeContent): RirekishoRow[] {
+  const rows: RirekishoRow[] = [{ year: '', month: '', text: '学歴', align: 'center' }]
+  sortByDate(content.education.filter(entry => entry.text), entry => entry.date)
+    .forEach(entry => rows.push(historyRow(entry.date, entry.text)))
+
+  rows.push({ year: '', month: '', text: '職歴', align: 'center' })
+  const careers = sortByDate(content.careers.filter(career => career.company), career => career.start)
+  if (!careers.length) {
+    rows.push({ year: '', month: '', text: 'なし' })
+  }
+  careers.forEach(career => {
+    const joined = [career.company, '入社', career.employment ? `（${career.employment}）` : ''].join(' ').trim()
+    rows.push(historyRow(career.start, joined))
+    if (career.role) rows.push({ year: '', month: '', text: `　${career.role}` })
+    if (career.end) rows.push(historyRow(career.end, `${career.company} 退社`))
+  })
+  if (careers.some(career => !career.end)) {
+    rows.push({ year: '', month: '', text: '現在に至る' })
+  }
+
+  rows.push({ year: '', month: '', text: '以上', align: 'right' })
+  return rows
+}
+
+export function rirekishoQualificationRows(content: JapaneseResumeContent): RirekishoRow[] {
+  const entries = sortByDate(content.qualifications.filter(entry => entry.text), entry => entry.date)
+  return entries.length
+    ? entries.map(entry => historyRow(entry.date, entry.text))
+    : [{ year: '', month: '', text: '特になし' }]
+}
+
+// The documents are only linked from the resume once there is a history to show.
+export function hasJapaneseHistory(content: JapaneseResumeContent) {
+  return content.education.some(entry => entry.text) || content.careers.some(career => career.company)
+}
+
+// 職務経歴書 lists the most recent employment first.
+export function shokumuCareers(content: JapaneseResumeContent) {
+  return sortByDate(content.careers.filter(career => career.company), career => career.start).reverse()
+}
@@ -0,0 +1,271 @@
+import { isRawDoc, type RawDoc } from './fields.js'
+import type { ResumeContent, ResumeSectionContent, ResumeSectionKind } from './resume.js'
+import type { ProfileLink } from './site.js'
+import { localized, pickString, toList, toParagraphs, type SupportedLanguage } from './text.js'
+
+// Maps the resume to and from JSON Resume (https://jsonresume.org/schema).
+// Sections only hold a title and bullets, so work, education and skills are
+// flattened into text on import and parsed back out on export:
+//   work       title "Position — Company (2021-04 – present)", bullets = summary + highlights
+//   education  one bullet per entry, "Study type, area — Institution (2016 – 2020)"
+//   skills     one bullet per entry, "Name: keyword, keyword"
+// Hand-written sections have no JSON Resume counterpart and are exported as
+// `projects` entries (name and highlights).
+
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json'
+
+export type JsonResumeWork = {
+  name?: string
+  position?: string
+  startDate?: string
+  endDate?: string
+  summary?: string
+  highlights?: string[]
+}
+
+export type JsonResumeEducation = {
+  institution?: string
+  area?: string
+  studyType?: string
+  startDate?: string
+  endDate?: string
+}
+
+export type JsonResumeSkill = {
+  name?: string
+  keywords?: string[]
+}
+
+export type JsonResumeProject = {
+  name?: string
+  highlights?: string[]
+}
+
+export type JsonResume = {
+  $schema?: string
+  basics?: {
+    name?: string
+    label?: string
+    email?: string
+    url?: string
+    summary?: string
+    profiles?: Array<{ network?: string; url?: string }>
+  }
+  work?: JsonResumeWork[]
+  education?: JsonResumeEducation[]
+  skills?: JsonResumeSkill[]
+  projects?: JsonResumeProject[]
+  meta?: {
+    canonical?: string
+    lastModified?: string
+  }
+}
+
+export type JsonResumeExportInput = {
+  resume: ResumeContent
+  language: SupportedLanguage
+  name: string
+  email?: string
+  url?: string
+  profiles?: ProfileLink[]
+}
+
+export type ImportedJsonResume = {
+  headline: string
+  summary: string[]
+  knowsAbout: string[]
+  sections: ResumeSectionContent[]
+}
+
+const SEPARATOR = ' — '
+const PRESENT: Record<SupportedLanguage, string> = { en: 'present', ja: '現在' }
+const DATE = String.raw`\d{4}(?:-\d{2}){0,2}`
+const PERIOD = new RegExp(String.raw`^(.*?)\s*\((${DATE})?\s*–\s*(${DATE}|present|現在)?\)$`)
+const SECTION_TITLES: Record<'education' | 'skills', Record<SupportedLanguage, string>> = {
+  education: { en: 'Education', ja: '学歴' },
+  skills: { en: 'Skills', ja: 'スキル' }
+}
+
+function withPeriod(text: string, start: string, end: string, language: SupportedLanguage) {
+  if (!start && !end) return text
+  return `${text} (${start} – ${end || PRESENT[language]})`
+}
+
+function splitPeriod(value: string) {
+  const match = PERIOD.exec(value)
+  if (!match) return { text: value, startDate: '', endDate: '' }
+  const end = match[3] ?? ''
+  return {
+    text: match[1],
+    startDate: match[2] ?? '',
+    endDate: end === 'present' || end === '現在' ? '' : end
+  }
+}
+
+function splitPair(value: string): [string, string] {
+  const index = value.lastIndexOf(SEPARATOR)
+  return index === -1 ? ['', value] : [value.slice(0, index), value.slice(index + SEPARATOR.length)]
+}
+
+// Drops empty strings, empty arrays and empty objects so the output only
+// carries what the resume actually has.
+function compact<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(compact).filter(entry => !isEmpty(entry)) as T
+  }
+  if (isRawDoc(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, entry]) => [key, compact(entry)])
+        .filter(([, entry]) => !isEmpty(entry))
+    ) as T
+  }
+  return value
+}
+
+function isEmpty(value: unknown) {
+  if (value === undefined || value === null || value === '') return true
+  if (Array.isArray(value)) return value.length === 0
+  return isRawDoc(value) && Object.keys(value).length === 0
+}
+
+export function toJsonResume({ resume, language, name, email, url, profiles = [] }: JsonResumeExportInput): JsonResume {
+  const work: JsonResumeWork[] = []
+  const education: JsonResumeEducation[] = []
+  const skills: JsonResumeSkill[] = []
+  const projects: JsonResumeProject[] = []
+
+  resume.sections.forEach(section => {
+    const title = localized(section.title, language)
+    const items = localized(section.items, language)
+    if (section.kind === 'work') {
+      const { text, startDate, endDate } = splitPeriod(title)
+      const [position, company] = splitPair(text)
+      work.push({ name: company, position, startDate, endDate, highlights: items })
+    } else if (section.kind === 'education') {
+      items.forEach(item => {
+        const { text, startDate, endDate } = splitPeriod(item)
+        const [area, institution] = splitPair(text)
+        education.push({ institution, area, startDate, endDate })
+      })
+    } else if (section.kind === 'skills') {
+      items.forEach(item => {
+        const index = item.indexOf(':')
+        skills.push(index === -1
+          ? { name: item }
+          : { name: item.slice(0, index).trim(), keywords: item.slice(index + 1).split(',').map(word => word.trim()) })
+      })
+    } else {
+      projects.push({ name: title, highlights: items })
+    }
+  })
+
+  return compact({
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name,
+      label: localized(resume.headline, language),
+      email,
+      url,
+      summary: localized(resume.summary, language).join('\n\n'),
+      profiles: profiles.map(profile => ({ network: profile.label, url: profile.url }))
+    },
+    work,
+    education,
+    skills,
+    projects,
+    meta: {
+      canonical: url ? `${url}/resume.json${language === 'ja' ? '?lang=ja' : ''}` : undefined,
+      lastModified: resume.updatedAt
+    }
+  })
+}
+
+function entries(raw: RawDoc, key: string): RawDoc[] {
+  const value = raw[key]
+  return Array.isArray(value) ? value.filter(isRawDoc) : []
+}
+
+function section(id: string, kind: ResumeSectionKind, title: string, items: string[], language: SupportedLanguage): ResumeSectionContent {
+  const entry: ResumeSectionContent = { id, kind, title: { en: '', ja: '' }, items: { en: [], ja: [] } }
+  entry.title[language] = title
+  entry.items[language] = items
+  return entry
+}
+
+// Reads a JSON Resume document into the given language. Unknown keys are
+// ignored; `basics.label` is the headline, skill keywords are the `knowsAbout`
+// topics, and name, email and profiles stay with the site settings.
+export function fromJsonResume(value: unknown, language: SupportedLanguage): ImportedJsonResume {
+  if (!isRawDoc(value)) {
+    throw new Error('Expected a JSON Resume object.')
+  }
+  const basics = isRawDoc(value.basics) ? value.basics : {}
+  const summary = toParagraphs(basics.summary)
+  const sections: ResumeSectionContent[] = []
+
+  entries(value, 'work').forEach((entry, index) => {
+    const heading = [pickString(entry.position), pickString(entry.name)].filter(Boolean).join(SEPARATOR)
+    const title = withPeriod(heading, pickString(entry.startDate), pickString(entry.endDate), language)
+    const items = [...toParagraphs(entry.summary), ...toList(entry.highlights)]
+    if (title || items.length) sections.push(section(`work-${index + 1}`, 'work', title, items, language))
+  })
+
+  const education = entries(value, 'education')
+    .map(entry => {
+      const study = [pickString(entry.studyType), pickString(entry.area)].filter(Boolean).join(', ')
+      const heading = [study, pickString(entry.institution)].filter(Boolean).join(SEPARATOR)
+      return withPeriod(heading, pickString(entry.startDate), pickString(entry.endDate), language)
+    })
+    .filter(Boolean)
+  if (education.length) {
+    sections.push(section('education', 'education', SECTION_TITLES.education[language], education, language))
+  }
+
+  const skills = entries(value, 'skills')
+    .map(entry => {
+      const name = pickString(entry.name)
+      const keywords = toList(entry.keywords).join(', ')
+      return name && keywords ? `${name}: ${keywords}` : name || keywords
+    })
+    .filter(Boolean)
+  if (skills.length) {
+    sections.push(section('skills', 'skills', SECTION_TITLES.skills[language], skills, language))
+  }
+
+  const knowsAbout = Array.from(new Set(entries(value, 'skills').flatMap(entry => toList(entry.keywords))))
+
+  return { headline: pickString(basics.label), summary, knowsAbout, sections }
+}
+
+type MergedJsonResume = Pick<ResumeContent, 'headline' | 'summary' | 'knowsAbout' | 'sections'>
+
+// Imported sections replace the same language of a section with the same id
+// and keep its other translation; new ones are appended. The summary is only
+// replaced when the file has one. The headline and `knowsAbout` are defaults:
+// they only fill fields that are still empty.
+export function mergeJsonResume(
+  current: MergedJsonResume,
+  imported: ImportedJsonResume,
+  language: SupportedLanguage
+): MergedJsonResume {
+  const incoming = new Map(imported.sections.map(entry => [entry.id, entry]))
+  const sections = current.sections.map(existing => {
+    const next = incoming.get(existing.id)
+    if (!next) return existing
+    incoming.delete(existing.id)
+    return {
+      ...existing,
+      kind: next.kind,
+      title: { ...existing.title, [language]: next.title[language] },
+      items: { ...existing.items, [language]: next.items[language] }
+    }
+  })
+
+  return {
+    headline: current.headline[language] ? current.headline : { ...current.headline, [language]: imported.headline },
+    summary: imported.summary.length ? { ...current.summary, [language]: imported.summary } : current.summary,
+    knowsAbout: current.knowsAbout.length ? current.knowsAbout : imported.knowsAbout,
+    sections: [...sections, ...incoming.values()]
+  }
+}
@@ -0,0 +1,281 @@
+// A deliberately small Markdown dialect for posts: headings, paragraphs,
+// lists, block quotes, fenced code, rules, and inline emphasis, code, links
+// and images. Raw HTML is not supported; it renders as text.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' }
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'rule' }
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#.-]*)\s*$/
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/
+const QUOTE = /^\s*>/
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/
+
+function isBlockStart(line: string) {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+}
+
+// Links may be relative, http(s) or mailto; anything else (javascript:,
+// data:, ...) is dropped so stored content cannot inject script URLs.
+export function safeMarkdownUrl(value: string) {
+  const trimmed = value.trim()
+  if (!trimmed) return ''
+  const scheme = trimmed.match(/^([a-z][a-z0-9+.-]*):/i)
+  if (!scheme) return trimmed
+  return ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase()) ? trimmed : ''
+}
+
+function pushText(nodes: MarkdownInline[], text: string) {
+  const last = nodes[nodes.length - 1]
+  if (last?.type === 'text') {
+    last.text += text
+  } else {
+    nodes.push({ type: 'text', text })
+  }
+}
+
+export function parseInline(source: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  let rest = source
+  let previous = ''
+
+  while (rest) {
+    let match: RegExpMatchArray | null
+
+    if ((match = rest.match(/^\\([\\`*_[\]()#+\-.!>])/))) {
+      pushText(nodes, match[1])
+    } else if ((match = rest.match(/^(?: {2,}|\\)\n/))) {
+      nodes.push({ type: 'break' })
+    } else if ((match = rest.match(/^(`+)([\s\S]*?[^`])\1(?!`)/))) {
+      nodes.push({ type: 'code', text: match[2].trim() })
+    } else if ((match = rest.match(/^!\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/))) {
+      const src = safeMarkdownUrl(match[2])
+      if (src) {
+        nodes.push({ type: 'image', src, alt: match[1] })
+      } else {
+        pushText(nodes, match[1])
+      }
+    } else if ((match = rest.match(/^\[([^\]]+)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/))) {
+      const href = safeMarkdownUrl(match[2])
+      const children = parseInline(match[1])
+      if (href) {
+        nodes.push({ type: 'link', href, children })
+      } else {
+        children.forEach(child => (child.type === 'text' ? pushText(nodes, child.text) : nodes.push(child)))
+      }
+    } else if ((match = rest.match(/^<((?:https?:\/\/|mailto:)[^>\s]+)>/))) {
+      nodes.push({ type: 'link', href: match[1], children: [{ type: 'text', text: match[1].replace(/^mailto:/, '') }] })
+    } else if ((match = rest.match(/^(\*\*|__)(?=\S)([\s\S]*?\S)\1/)) && !(match[1] === '__' && /\w/.test(previous))) {
+      nodes.push({ type: 'strong', children: parseInline(match[2]) })
+    } else if ((match = rest.match(/^(\*|_)(?=\S)([\s\S]*?\S)\1(?!\1)/)) && !(match[1] === '_' && /\w/.test(previous))) {
+      nodes.push({ type: 'em', children: parseInline(match[2]) })
+    } else {
+      match = rest.match(/^[^\\`*_![<\n ]+/) ?? [rest[0]]
+      pushText(nodes, match[0])
+    }
+
+    previous = match[0].slice(-1)
+    rest = rest.slice(match[0].length)
+  }
+  return nodes
+}
+
+function parseList(lines: string[], start: number) {
+  const first = lines[start].match(LIST_ITEM)!
+  const ordered = Boolean(first[2])
+  const items: string[][] = []
+  let index = start
+
+  while (index < lines.length) {
+    const line = lines[index]
+    const item = line.match(LIST_ITEM)
+    if (item && Boolean(item[2]) === ordered) {
+      items.push([item[3]])
+      index += 1
+      continue
+    }
+    if (!line.trim()) {
+      const next = lines[index + 1]?.match(LIST_ITEM)
+      if (next && Boolean(next[2]) === ordered) {
+        index += 1
+        continue
+      }
+      break
+    }
+    if (isBlockStart(line)) break
+    items[items.length - 1].push(line.trim())
+    index += 1
+  }
+
+  return {
+    block: {
+      type: 'list' as const,
+      ordered,
+      start: ordered ? Number(first[2]) : 1,
+      items: items.map(item => parseInline(item.join('\n')))
+    },
+    next: index
+  }
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index]
+    let match: RegExpMatchArray | null
+
+    if (!line.trim()) {
+      index += 1
+    } else if ((match = line.match(FENCE))) {
+      const fence = match[1]
+      const body: string[] = []
+      index += 1
+      while (index < lines.length && !lines[index].trim().startsWith(fence)) {
+        body.push(lines[index])
+        index += 1
+      }
+      blocks.push({ type: 'code', language: match[2], text: body.join('\n') })
+      index += 1
+    } else if ((match = line.match(HEADING))) {
+      const level = match[1].length as 1 | 2 | 3 | 4 | 5 | 6
+      blocks.push({ type: 'heading', level, children: parseInline(match[2]) })
+      index += 1
+    } else if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      index += 1
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].replace(/^\s*> ?/, ''))
+        index += 1
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) })
+    } else if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, index)
+      blocks.push(block)
+      index = next
+    } else {
+      const paragraph: string[] = []
+      while (index < lines.length && lines[index].trim() && (!paragraph.length || !isBlockStart(lines[index]))) {
+        paragraph.push(lines[index].replace(/^\s+/, ''))
+        index += 1
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+    }
+  }
+  return blocks
+}
+
+function inlineText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text
+        case 'image':
+          return node.alt
+        case 'break':
+          return '\n'
+        default:
+          return inlineText(node.children)
+      }
+    })
+    .join('')
+}
+
+// Used for feed summaries and meta descriptions when a post has no summary.
+export function markdownPlainText(blocks: MarkdownBlock[]): string {
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+          return inlineText(block.children)
+        case 'list':
+          return block.items.map(item => inlineText(item)).join('\n')
+        case 'blockquote':
+          return markdownPlainText(block.children)
+        case 'code':
+          return block.text
+        case 'rule':
+          return ''
+      }
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function inlineHtml(nodes: MarkdownInline[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text)
+        case 'strong':
+          return `<strong>${inlineHtml(node.children)}</strong>`
+        case 'em':
+          return `<em>${inlineHtml(node.children)}</em>`
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`
+        case 'link':
+          return `<a href="${escapeHtml(node.href)}">${inlineHtml(node.children)}</a>`
+        case 'image':
+          return `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}" />`
+        case 'break':
+          return '<br />'
+      }
+    })
+    .join('')
+}
+
+// Static HTML for consumers that cannot render React, such as feed readers.
+export function renderMarkdownHtml(blocks: MarkdownBlock[]): string {
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `<h${block.level}>${inlineHtml(block.children)}</h${block.level}>`
+        case 'paragraph':
+          return `<p>${inlineHtml(block.children)}</p>`
+        case 'list': {
+          const tag = block.ordered ? 'ol' : 'ul'
+          const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : ''
+          return `<${tag}${start}>${block.items.map(item => `<li>${inlineHtml(item)}</li>`).join('')}</${tag}>`
+        }
+        case 'blockquote':
+          return `<blockquote>${renderMarkdownHtml(block.children)}</blockquote>`
+        case 'code':
+          return `<pre><code>${escapeHtml(block.text)}</code></pre>`
+        case 'rule':
+          return '<hr />'
+      }
+    })
+    .join('\n')
+}
@@ -0,0 +1,138 @@
+import { field, readField, validateFields, type FieldSpec, type RawDoc, type SchemaIssue } from './fields.js'
+import { pickString, toList, type LocalizedText } from './text.js'
+
+// The copy documents behind the Home, About and Contact pages
+// (`public/home`, `public/about`, `public/contact`). Older documents stored a
+// single language-neutral value, which both languages fall back to.
+
+export type HomeCopyContent = {
+  headline: LocalizedText
+  supporting: LocalizedText
+  secondary: LocalizedText
+  // `Label | url` per line.
+  links: LocalizedText
+  featuredProjectIds: string[]
+}
+
+export const ABOUT_SECTION_KEYS = ['what_i_do', 'what_ive_shipped', 'what_i_work_well_on'] as const
+
+export type AboutSectionKey = typeof ABOUT_SECTION_KEYS[number]
+
+export type AboutSectionCopy = {
+  title: LocalizedText
+  // One item per line.
+  items: LocalizedText
+}
+
+export type AboutCopyContent = {
+  headline: LocalizedText
+  intro: LocalizedText
+  links: LocalizedText
+  sections: Record<AboutSectionKey, AboutSectionCopy>
+}
+
+export type ContactCopyContent = {
+  intro: LocalizedText
+  availability: LocalizedText
+  links: LocalizedText
+}
+
+export const HOME_FIELDS = {
+  headlineEn: field('string', 'headline_en', 'headline'),
+  headlineJa: field('string', 'headline_ja', 'headline'),
+  supportingEn: field('string', 'supporting_en', 'blurb_en', 'supporting', 'blurb'),
+  supportingJa: field('string', 'supporting_ja', 'blurb_ja', 'supporting', 'blurb'),
+  secondaryEn: field('string', 'secondary_en', 'secondary_specialization_en', 'secondary', 'secondary_specialization'),
+  secondaryJa: field('string', 'secondary_ja', 'secondary_specialization_ja', 'secondary', 'secondary_specialization'),
+  linksEn: field('string', 'links_en'),
+  linksJa: field('string', 'links_ja'),
+  featuredProjectIds: field('list', 'featured_project_ids', 'featured_projects_en')
+} as const
+
+export const ABOUT_FIELDS = {
+  headlineEn: field('string', 'headline_en', 'headline'),
+  headlineJa: field('string', 'headline_ja', 'headline'),
+  introEn: field('string', 'intro_en', 'intro'),
+  introJa: field('string', 'intro_ja', 'intro'),
+  linksEn: field('list', 'links_en', 'links', 'profile_links', 'sameAs', 'same_as'),
+  linksJa: field('list', 'links_ja', 'links', 'profile_links', 'sameAs', 'same_as')
+} as const
+
+export type AboutSectionFields = Record<'titleEn' | 'titleJa' | 'itemsEn' | 'itemsJa', FieldSpec>
+
+export const ABOUT_SECTION_FIELDS = Object.fromEntries(ABOUT_SECTION_KEYS.map(key => [key, {
+  titleEn: field('string', `${key}_title_en`),
+  titleJa: field('string', `${key}_title_ja`),
+  itemsEn: field('string', `${key}_en`),
+  itemsJa: field('string', `${key}_ja`)
+}])) as Record<AboutSectionKey, AboutSectionFields>
+
+export const CONTACT_FIELDS = {
+  introEn: field('string', 'intro_en', 'intro'),
+  introJa: field('string', 'intro_ja', 'intro'),
+  availabilityEn: field('string', 'availability_en', 'availability'),
+  availabilityJa: field('string', 'availability_ja', 'availability'),
+  linksEn: field('list', 'links_en', 'links', 'profile_links', 'sameAs', 'same_as'),
+  linksJa: field('list', 'links_ja', 'links', 'profile_links', 'sameAs', 'same_as')
+} as const
+
+function reader(raw: RawDoc | null | undefined) {
+  return (spec: FieldSpec) => pickString(readField(raw, spec))
+}
+
+// Link lists may be stored as an array or as text; both come back as lines.
+function readLines(raw: RawDoc | null | undefined, spec: FieldSpec) {
+  return toList(readField(raw, spec)).join('\n')
+}
+
+export function normalizeHomeDoc(raw: RawDoc | null | undefined): HomeCopyContent {
+  const read = reader(raw)
+  return {
+    headline: { en: read(HOME_FIELDS.headlineEn), ja: read(HOME_FIELDS.headlineJa) },
+    supporting: { en: read(HOME_FIELDS.supportingEn), ja: read(HOME_FIELDS.supportingJa) },
+    secondary: { en: read(HOME_FIELDS.secondaryEn), ja: read(HOME_FIELDS.secondaryJa) },
+    links: { en: read(HOME_FIELDS.linksEn), ja: read(HOME_FIELDS.linksJa) },
+    featuredProjectIds: toList(readField(raw, HOME_FIELDS.featuredProjectIds))
+  }
+}
+
+export function normalizeAboutDoc(raw: RawDoc | null | undefined): AboutCopyContent {
+  const read = reader(raw)
+  const sections = Object.fromEntries(ABOUT_SECTION_KEYS.map(key => {
+    const fields = ABOUT_SECTION_FIELDS[key]
+    return [key, {
+      title: { en: read(fields.titleEn), ja: read(fields.titleJa) },
+      items: { en: read(fields.itemsEn), ja: read(fields.itemsJa) }
+    }]
+  })) as Record<AboutSectionKey, AboutSectionCopy>
+  return {
+    headline: { en: read(ABOUT_FIELDS.headlineEn), ja: read(ABOUT_FIELDS.headlineJa) },
+    intro: { en: read(ABOUT_FIELDS.introEn), ja: read(ABOUT_FIELDS.introJa) },
+    links: { en: readLines(raw, ABOUT_FIELDS.linksEn), ja: readLines(raw, ABOUT_FIELDS.linksJa) },
+    sections
+  }
+}
+
+export function normalizeContactDoc(raw: RawDoc | null | undefined): ContactCopyContent {
+  const read = reader(raw)
+  return {
+    intro: { en: read(CONTACT_FIELDS.introEn), ja: read(CONTACT_FIELDS.introJa) },
+    availability: { en: read(CONTACT_FIELDS.availabilityEn), ja: read(CONTACT_FIELDS.availabilityJa) },
+    links: { en: readLines(raw, CONTACT_FIELDS.linksEn), ja: readLines(raw, CONTACT_FIELDS.linksJa) }
+  }
+}
+
+export function validateHomeDoc(raw: RawDoc): SchemaIssue[] {
+  return validateFields(raw, HOME_FIELDS)
+}
+
+export function validateAboutDoc(raw: RawDoc): SchemaIssue[] {
+  return [
+    ...validateFields(raw, ABOUT_FIELDS),
+    ...ABOUT_SECTION_KEYS.flatMap(key => validateFields(raw, ABOUT_SECTION_FIELDS[key]))
+  ]
+}
+
+export function validateContactDoc(raw: RawDoc): SchemaIssue[] {
+  return validateFields(raw, CONTACT_FIELDS)
+}
@@ -0,0 +1,59 @@
+import type { ProjectRecord } from './project.js'
+
+// The recruiter portal at /portal: protected case studies and the files under
+// `protected/` in Storage, unlocked by an access code created in
+// /admin/portal. Codes live in `portal_codes/<code>` and the `portal` function
+// checks them; share a code directly or as `/portal?code=<code>`.
+
+export const PORTAL_CODES_COLLECTION = 'portal_codes'
+export const PROTECTED_STORAGE_PREFIX = 'protected/'
+// Files directly under `protected/` are shown with every project.
+export const PORTAL_SHARED_FILES = ''
+
+// A file as the portal function hands it out, with a short-lived signed URL.
+export type PortalFile = {
+  name: string
+  path: string
+  projectId: string
+  contentType: string
+  size: number
+  url: string
+}
+
+const ACCESS_CODE = /^[A-Z0-9]{8,32}$/
+
+// Codes are shown in groups of four; case, spaces and dashes are ignored.
+export function normalizeAccessCode(input: string) {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+export function isValidAccessCode(code: string) {
+  return ACCESS_CODE.test(code)
+}
+
+export function formatAccessCode(code: string) {
+  return normalizeAccessCode(code).match(/.{1,4}/g)?.join('-') ?? ''
+}
+
+// `protected/<projectId>/<file>` belongs to that project; anything directly
+// under `protected/` is shared.
+export function protectedFileProjectId(path: string) {
+  const rest = path.startsWith(PROTECTED_STORAGE_PREFIX) ? path.slice(PROTECTED_STORAGE_PREFIX.length) : ''
+  const slash = rest.indexOf('/')
+  return slash === -1 ? PORTAL_SHARED_FILES : rest.slice(0, slash)
+}
+
+// An empty project list opens every protected project.
+export function isPortalProjectAllowed(projectId: string, projectIds: string[]) {
+  return projectIds.length === 0 || projectIds.includes(projectId)
+}
+
+export function isPortalFileVisible(path: string, projectIds: string[]) {
+  if (!path.startsWith(PROTECTED_STORAGE_PREFIX) || path.endsWith('/')) return false
+  const projectId = protectedFileProjectId(path)
+  return projectId === PORTAL_SHARED_FILES || isPortalProjectAllowed(projectId, projectIds)
+}
+
+export function portalProjects(projects: ProjectRecord[], projectIds: string[]) {
+  return projects.filter(project => project.visibility === 'protected' && isPortalProjectAllowed(project.id, projectIds))
+}
@@ -0,0 +1,79 @@
+import { field, readField, validateFields, type FieldSpec, type RawDoc, type SchemaIssue } from './fields.js'
+import { pickString, toList, type LocalizedList, type LocalizedText } from './text.js'
+
+export type PostRecord = {
+  slug: string
+  title: LocalizedText
+  summary: LocalizedText
+  body: LocalizedText
+  tags: LocalizedList
+  cover?: string
+  publishedAt: string
+  updatedAt: string
+}
+
+// Post documents are keyed by slug; `body_*` holds Markdown.
+export const POST_FIELDS = {
+  titleEn: field('string', 'title_en'),
+  titleJa: field('string', 'title_ja'),
+  summaryEn: field('string', 'summary_en'),
+  summaryJa: field('string', 'summary_ja'),
+  bodyEn: field('string', 'body_en'),
+  bodyJa: field('string', 'body_ja'),
+  tagsEn: field('list', 'tags_en'),
+  tagsJa: field('list', 'tags_ja'),
+  cover: field('string', 'cover'),
+  publishedAt: field('string', 'publishedAt'),
+  updatedAt: field('string', 'updatedAt')
+} as const
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+export function isPostSlug(value: string) {
+  return SLUG_PATTERN.test(value)
+}
+
+export function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/, '')
+}
+
+export function normalizePostRecord(raw: RawDoc): PostRecord {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  const text = (spec: FieldSpec) => pickString(read(spec))
+  const cover = text(POST_FIELDS.cover)
+  const publishedAt = text(POST_FIELDS.publishedAt)
+
+  return {
+    slug: String(raw.id ?? ''),
+    title: { en: text(POST_FIELDS.titleEn), ja: text(POST_FIELDS.titleJa) },
+    summary: { en: text(POST_FIELDS.summaryEn), ja: text(POST_FIELDS.summaryJa) },
+    body: { en: text(POST_FIELDS.bodyEn), ja: text(POST_FIELDS.bodyJa) },
+    tags: { en: toList(read(POST_FIELDS.tagsEn)), ja: toList(read(POST_FIELDS.tagsJa)) },
+    cover: cover || undefined,
+    publishedAt,
+    updatedAt: text(POST_FIELDS.updatedAt) || publishedAt
+  }
+}
+
+// Newest first; ISO dates compare correctly as strings.
+export function sortPosts(posts: PostRecord[]) {
+  return [...posts].sort(
+    (left, right) => right.publishedAt.localeCompare(left.publishedAt) || left.slug.localeCompare(right.slug)
+  )
+}
+
+export function validatePostDoc(raw: RawDoc): SchemaIssue[] {
+  const issues = validateFields(raw, POST_FIELDS)
+  const publishedAt = readField(raw, POST_FIELDS.publishedAt)
+  if (typeof publishedAt === 'string' && publishedAt && Number.isNaN(Date.parse(publishedAt))) {
+    issues.push({ field: 'publishedAt', message: 'Expected an ISO date.' })
+  }
+  return issues
+}
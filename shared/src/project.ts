@@ -0,0 +1,155 @@
+import { normalizeProjectBlocks, validateProjectBlocks, type ProjectBlock } from './blocks.js'
+import { field, readField, validateFields, type FieldSpec, type RawDoc, type SchemaIssue } from './fields.js'
+import { parseCoverImage, type ProjectCoverImage } from './image.js'
+import { pickString, toList, type LocalizedText } from './text.js'
+
+// Protected projects are left out of every public listing and only shown in
+// the recruiter portal; see portal.ts.
+export const PROJECT_VISIBILITIES = ['public', 'protected'] as const
+
+export type ProjectVisibility = typeof PROJECT_VISIBILITIES[number]
+
+export type ProjectRecord = {
+  id: string
+  visibility: ProjectVisibility
+  title: LocalizedText
+  description: LocalizedText
+  summary: LocalizedText
+  problem: LocalizedText
+  systems: LocalizedText
+  owned: LocalizedText
+  architecture: LocalizedText
+  result: LocalizedText
+  impact: LocalizedText
+  url?: string
+  repo?: string
+  tags: { en: string[]; ja: string[] }
+  cover?: string
+  coverImage?: ProjectCoverImage
+  blocks: ProjectBlock[]
+  // Lower sorts first; unset projects sort after every prioritized one.
+  priority?: number
+  featured: boolean
+  githubFullName?: string
+  githubOwner?: string
+  githubRepo?: string
+  githubUpdatedAt?: string
+  githubPushedAt?: string
+  githubLanguage?: string
+  githubTopics: string[]
+}
+
+type LocalizedProjectField =
+  | 'title'
+  | 'description'
+  | 'summary'
+  | 'problem'
+  | 'systems'
+  | 'owned'
+  | 'architecture'
+  | 'result'
+  | 'impact'
+
+export const PROJECT_FIELDS = {
+  titleEn: field('string', 'title_en', 'title'),
+  titleJa: field('string', 'title_ja'),
+  descriptionEn: field('string', 'description_en', 'description'),
+  descriptionJa: field('string', 'description_ja'),
+  summaryEn: field('string', 'summary_en'),
+  summaryJa: field('string', 'summary_ja'),
+  problemEn: field('string', 'problem_en', 'problem'),
+  problemJa: field('string', 'problem_ja'),
+  systemsEn: field('string', 'systems_en'),
+  systemsJa: field('string', 'systems_ja'),
+  ownedEn: field('string', 'owned_en', 'owned'),
+  ownedJa: field('string', 'owned_ja'),
+  architectureEn: field('string', 'architecture_en', 'architecture'),
+  architectureJa: field('string', 'architecture_ja'),
+  resultEn: field('string', 'result_en', 'result'),
+  resultJa: field('string', 'result_ja'),
+  impactEn: field('string', 'impact_en', 'impact'),
+  impactJa: field('string', 'impact_ja'),
+  url: field('string', 'url'),
+  repo: field('string', 'repo', 'source', 'github'),
+  cover: field('string', 'cover', 'image', 'thumbnail'),
+  coverImage: field('map', 'cover_image'),
+  blocks: field('array', 'blocks'),
+  tagsEn: field('list', 'tags_en', 'tags'),
+  tagsJa: field('list', 'tags_ja'),
+  order: field('number', 'order'),
+  priority: field('number', 'priority'),
+  featured: field('boolean', 'featured'),
+  githubFullName: field('string', 'github_full_name'),
+  githubOwner: field('string', 'github_owner'),
+  githubRepo: field('string', 'github_repo'),
+  githubUpdatedAt: field('string', 'github_updated_at'),
+  githubPushedAt: field('string', 'github_pushed_at'),
+  githubLanguage: field('string', 'github_language'),
+  githubTopics: field('list', 'github_topics'),
+  visibility: field('string', 'visibility')
+} as const
+
+export function projectVisibility(raw: RawDoc): ProjectVisibility {
+  return readField(raw, PROJECT_FIELDS.visibility) === 'protected' ? 'protected' : 'public'
+}
+
+export function normalizeProjectRecord(raw: RawDoc): ProjectRecord {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  const localizedText = (name: LocalizedProjectField): LocalizedText => ({
+    en: pickString(read(PROJECT_FIELDS[`${name}En`])),
+    ja: pickString(read(PROJECT_FIELDS[`${name}Ja`]))
+  })
+  const url = pickString(read(PROJECT_FIELDS.url))
+  const repo = pickString(read(PROJECT_FIELDS.repo))
+  const cover = pickString(read(PROJECT_FIELDS.cover))
+  // A cover URL typed in after an upload wins over the stale variants.
+  const coverImage = parseCoverImage(read(PROJECT_FIELDS.coverImage))
+  const priority = read(PROJECT_FIELDS.priority)
+
+  return {
+    id: String(raw.id ?? ''),
+    visibility: projectVisibility(raw),
+    title: localizedText('title'),
+    description: localizedText('description'),
+    summary: localizedText('summary'),
+    problem: localizedText('problem'),
+    systems: localizedText('systems'),
+    owned: localizedText('owned'),
+    architecture: localizedText('architecture'),
+    result: localizedText('result'),
+    impact: localizedText('impact'),
+    url: url || undefined,
+    repo: repo || undefined,
+    tags: {
+      en: toList(read(PROJECT_FIELDS.tagsEn)),
+      ja: toList(read(PROJECT_FIELDS.tagsJa))
+    },
+    cover: cover || undefined,
+    coverImage: coverImage && coverImage.fallback === cover ? coverImage : undefined,
+    blocks: normalizeProjectBlocks(read(PROJECT_FIELDS.blocks)),
+    priority: typeof priority === 'number' && Number.isFinite(priority) ? priority : undefined,
+    featured: read(PROJECT_FIELDS.featured) === true,
+    githubFullName: pickString(read(PROJECT_FIELDS.githubFullName)),
+    githubOwner: pickString(read(PROJECT_FIELDS.githubOwner)),
+    githubRepo: pickString(read(PROJECT_FIELDS.githubRepo)),
+    githubUpdatedAt: pickString(read(PROJECT_FIELDS.githubUpdatedAt)),
+    githubPushedAt: pickString(read(PROJECT_FIELDS.githubPushedAt)),
+    githubLanguage: pickString(read(PROJECT_FIELDS.githubLanguage)) || undefined,
+    githubTopics: toList(read(PROJECT_FIELDS.githubTopics))
+  }
+}
+
+export function projectOrder(raw: RawDoc) {
+  return Number(readField(raw, PROJECT_FIELDS.order) ?? 0)
+}
+
+function validateVisibility(raw: RawDoc): SchemaIssue[] {
+  const value = readField(raw, PROJECT_FIELDS.visibility)
+  return typeof value === 'string' && !(PROJECT_VISIBILITIES as readonly string[]).includes(value)
+    ? [{ field: 'visibility', message: 'Expected "public" or "protected".' }]
+    : []
+}
+
+export function validateProjectDoc(raw: RawDoc): SchemaIssue[] {
+  return [...validateFields(raw, PROJECT_FIELDS), ...validateVisibility(raw), ...validateProjectBlocks(raw.blocks)]
+}
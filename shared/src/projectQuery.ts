@@ -0,0 +1,201 @@
+import type { ProjectRecord } from './project.js'
+import { localized, type SupportedLanguage } from './text.js'
+
+// Search, facets and sorting for the Case Studies page. The query round-trips
+// through the URL (`?q=&tag=&language=&sort=`), so a filtered list can be
+// linked to and survives a reload.
+
+export const PROJECT_SORTS = ['priority', 'recent', 'title'] as const
+
+export type ProjectSort = (typeof PROJECT_SORTS)[number]
+
+export type ProjectQuery = {
+  search: string
+  tags: string[]
+  languages: string[]
+  sort: ProjectSort
+}
+
+export type ProjectFacet = {
+  value: string
+  count: number
+}
+
+export type ProjectFacets = {
+  tags: ProjectFacet[]
+  languages: ProjectFacet[]
+}
+
+export const EMPTY_PROJECT_QUERY: ProjectQuery = { search: '', tags: [], languages: [], sort: 'priority' }
+
+// `lang` already switches the site language, hence `language` here.
+const PARAMS = { search: 'q', tag: 'tag', language: 'language', sort: 'sort' } as const
+
+const TEXT_FIELDS = [
+  'title',
+  'description',
+  'summary',
+  'problem',
+  'systems',
+  'owned',
+  'architecture',
+  'result',
+  'impact'
+] as const
+
+// NFKC folds full-width letters and the ideographic space, so Japanese input
+// methods match the same text as plain ASCII.
+function fold(value: string) {
+  return value.normalize('NFKC').toLowerCase().trim()
+}
+
+function uniqueBy(values: string[], key: (value: string) => string) {
+  const seen = new Set<string>()
+  return values.filter(value => {
+    const folded = key(value)
+    if (!folded || seen.has(folded)) return false
+    seen.add(folded)
+    return true
+  })
+}
+
+function cleanValues(values: string[]) {
+  return uniqueBy(values.map(value => value.trim()), fold)
+}
+
+export function parseProjectQuery(params: URLSearchParams): ProjectQuery {
+  const sort = params.get(PARAMS.sort) as ProjectSort | null
+  return {
+    search: (params.get(PARAMS.search) ?? '').trim(),
+    tags: cleanValues(params.getAll(PARAMS.tag)),
+    languages: cleanValues(params.getAll(PARAMS.language)),
+    sort: sort && PROJECT_SORTS.includes(sort) ? sort : EMPTY_PROJECT_QUERY.sort
+  }
+}
+
+// Defaults are left out so the unfiltered page keeps its bare URL.
+export function projectQueryParams(query: ProjectQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.search.trim()) params.set(PARAMS.search, query.search.trim())
+  cleanValues(query.tags).forEach(tag => params.append(PARAMS.tag, tag))
+  cleanValues(query.languages).forEach(language => params.append(PARAMS.language, language))
+  if (query.sort !== EMPTY_PROJECT_QUERY.sort) params.set(PARAMS.sort, query.sort)
+  return params
+}
+
+export function isProjectQueryActive(query: ProjectQuery) {
+  return projectQueryParams(query).toString() !== ''
+}
+
+export function isFacetSelected(selected: string[], value: string) {
+  return selected.some(entry => fold(entry) === fold(value))
+}
+
+export function toggleFacetValue(selected: string[], value: string) {
+  return isFacetSelected(selected, value)
+    ? selected.filter(entry => fold(entry) !== fold(value))
+    : [...selected, value]
+}
+
+// Tags in the page language (falling back to the other one) plus the GitHub
+// topics, without case-only duplicates.
+export function projectTags(project: ProjectRecord, language: SupportedLanguage) {
+  return uniqueBy([...localized(project.tags, language), ...project.githubTopics], fold)
+}
+
+function searchText(project: ProjectRecord) {
+  return fold([
+    ...TEXT_FIELDS.flatMap(name => [project[name].en, project[name].ja]),
+    ...project.tags.en,
+    ...project.tags.ja,
+    ...project.githubTopics,
+    project.githubLanguage ?? ''
+  ].join('\n'))
+}
+
+// Every whitespace-separated term has to appear somewhere in either language.
+export function matchesProjectSearch(project: ProjectRecord, search: string) {
+  const terms = fold(search).split(/\s+/).filter(Boolean)
+  if (!terms.length) return true
+  const text = searchText(project)
+  return terms.every(term => text.includes(term))
+}
+
+function matchesAny(values: string[], selected: string[]) {
+  if (!selected.length) return true
+  const folded = new Set(values.map(fold))
+  return selected.some(value => folded.has(fold(value)))
+}
+
+function matchesTags(project: ProjectRecord, tags: string[], language: SupportedLanguage) {
+  return matchesAny(projectTags(project, language), tags)
+}
+
+function matchesLanguages(project: ProjectRecord, languages: string[]) {
+  return matchesAny(project.githubLanguage ? [project.githubLanguage] : [], languages)
+}
+
+// Selected values within a facet are alternatives; the search and the two
+// facets narrow each other.
+export function filterProjects(projects: ProjectRecord[], query: ProjectQuery, language: SupportedLanguage) {
+  return projects.filter(project =>
+    matchesProjectSearch(project, query.search)
+    && matchesTags(project, query.tags, language)
+    && matchesLanguages(project, query.languages))
+}
+
+function countFacet(projects: ProjectRecord[], values: (project: ProjectRecord) => string[], selected: string[]) {
+  const counts = new Map<string, ProjectFacet>()
+  projects.forEach(project => {
+    values(project).forEach(value => {
+      const key = fold(value)
+      const facet = counts.get(key)
+      if (facet) {
+        facet.count += 1
+      } else {
+        counts.set(key, { value, count: 1 })
+      }
+    })
+  })
+  // Selected values stay listed at zero so they can still be cleared.
+  selected.forEach(value => {
+    if (!counts.has(fold(value))) counts.set(fold(value), { value, count: 0 })
+  })
+  return [...counts.values()].sort((left, right) =>
+    right.count - left.count || left.value.localeCompare(right.value))
+}
+
+// Each facet counts the projects the other filters leave, so picking a tag
+// never hides the alternatives next to it.
+export function projectFacets(projects: ProjectRecord[], query: ProjectQuery, language: SupportedLanguage): ProjectFacets {
+  const searched = projects.filter(project => matchesProjectSearch(project, query.search))
+  return {
+    tags: countFacet(
+      searched.filter(project => matchesLanguages(project, query.languages)),
+      project => projectTags(project, language),
+      query.tags
+    ),
+    languages: countFacet(
+      searched.filter(project => matchesTags(project, query.tags, language)),
+      project => (project.githubLanguage ? [project.githubLanguage] : []),
+      query.languages
+    )
+  }
+}
+
+function activityDate(project: ProjectRecord) {
+  return project.githubPushedAt || project.githubUpdatedAt || ''
+}
+
+// `priority` keeps the order it is given, which callers take from
+// prioritizeProjects. Projects without GitHub activity sort last under `recent`.
+export function sortProjects(projects: ProjectRecord[], sort: ProjectSort, language: SupportedLanguage) {
+  const sorted = [...projects]
+  if (sort === 'recent') {
+    sorted.sort((left, right) => activityDate(right).localeCompare(activityDate(left)))
+  } else if (sort === 'title') {
+    sorted.sort((left, right) =>
+      (localized(left.title, language) || left.id).localeCompare(localized(right.title, language) || right.id, language))
+  }
+  return sorted
+}
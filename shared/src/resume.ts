@@ -0,0 +1,219 @@
+import {
+  field,
+  isRawDoc,
+  readField,
+  validateFields,
+  type FieldSpec,
+  type FieldSpecs,
+  type RawDoc,
+  type SchemaIssue
+} from './fields.js'
+import {
+  JAPANESE_CAREER_FIELDS,
+  JAPANESE_HISTORY_FIELDS,
+  JAPANESE_RESUME_FIELDS,
+  normalizeJapaneseResume,
+  type JapaneseResumeContent
+} from './japaneseResume.js'
+import { RESUME_VARIANT_FIELDS, normalizeResumeVariant, type ResumeVariant } from './resumeVariant.js'
+import {
+  localized,
+  pickString,
+  toList,
+  toParagraphs,
+  type LocalizedList,
+  type LocalizedText,
+  type SupportedLanguage
+} from './text.js'
+
+// Sections imported from JSON Resume remember what they came from, so the
+// export can put them back under the same key. Hand-written sections have none.
+export const RESUME_SECTION_KINDS = ['work', 'education', 'skills'] as const
+
+export type ResumeSectionKind = (typeof RESUME_SECTION_KINDS)[number]
+
+export type ResumeSectionContent = {
+  id: string
+  kind?: ResumeSectionKind
+  title: LocalizedText
+  items: LocalizedList
+}
+
+// The short cards shown above the summary on /resume.
+export type ResumeHighlight = {
+  id: string
+  title: LocalizedText
+  body: LocalizedText
+}
+
+export type ResumeContent = {
+  urls: LocalizedText
+  pdfOverride: { en: boolean; ja: boolean }
+  // The role shown in the page heading, title and structured data.
+  headline: LocalizedText
+  // Search and link preview text; the summary's first paragraph stands in.
+  description: LocalizedText
+  // The two lines under the heading on /resume.
+  lead: LocalizedText
+  supporting: LocalizedText
+  summary: LocalizedList
+  // Topics listed as `knowsAbout` in the page's structured data.
+  knowsAbout: string[]
+  updatedAt: string
+  jaEta: string
+  highlights: ResumeHighlight[]
+  sections: ResumeSectionContent[]
+  variants: ResumeVariant[]
+  japanese: JapaneseResumeContent
+}
+
+export const RESUME_FIELDS = {
+  urlEn: field('string', 'url_en', 'url'),
+  urlJa: field('string', 'url_ja', 'url'),
+  pdfOverrideEn: field('boolean', 'pdf_override_en'),
+  pdfOverrideJa: field('boolean', 'pdf_override_ja'),
+  headlineEn: field('string', 'headline_en', 'headline'),
+  headlineJa: field('string', 'headline_ja', 'headline'),
+  descriptionEn: field('string', 'description_en', 'description'),
+  descriptionJa: field('string', 'description_ja', 'description'),
+  leadEn: field('string', 'lead_en', 'lead'),
+  leadJa: field('string', 'lead_ja', 'lead'),
+  supportingEn: field('string', 'supporting_en', 'supporting'),
+  supportingJa: field('string', 'supporting_ja', 'supporting'),
+  summaryEn: field('string', 'summary_en', 'summary'),
+  summaryJa: field('string', 'summary_ja', 'summary'),
+  knowsAbout: field('list', 'knows_about'),
+  updatedAt: field('string', 'updatedAt', 'updated_at'),
+  jaEta: field('string', 'ja_eta', 'eta_ja', 'jaTargetDate'),
+  highlights: field('array', 'highlights'),
+  sections: field('array', 'sections'),
+  variants: field('array', 'variants'),
+  ...JAPANESE_RESUME_FIELDS
+} as const
+
+export const RESUME_HIGHLIGHT_FIELDS = {
+  id: field('string', 'id'),
+  titleEn: field('string', 'title_en', 'title'),
+  titleJa: field('string', 'title_ja', 'title'),
+  bodyEn: field('string', 'body_en', 'body'),
+  bodyJa: field('string', 'body_ja', 'body')
+} as const
+
+export const RESUME_SECTION_FIELDS = {
+  id: field('string', 'id'),
+  kind: field('string', 'kind'),
+  titleEn: field('string', 'title_en', 'title'),
+  titleJa: field('string', 'title_ja', 'title'),
+  itemsEn: field('list', 'items_en', 'items'),
+  itemsJa: field('list', 'items_ja', 'items')
+} as const
+
+export function normalizeResumeSection(raw: RawDoc, index: number): ResumeSectionContent {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  const kind = pickString(read(RESUME_SECTION_FIELDS.kind)) as ResumeSectionKind
+  return {
+    id: pickString(read(RESUME_SECTION_FIELDS.id)) || `section-${index}`,
+    ...(RESUME_SECTION_KINDS.includes(kind) ? { kind } : {}),
+    title: {
+      en: pickString(read(RESUME_SECTION_FIELDS.titleEn)),
+      ja: pickString(read(RESUME_SECTION_FIELDS.titleJa))
+    },
+    items: {
+      en: toList(read(RESUME_SECTION_FIELDS.itemsEn)),
+      ja: toList(read(RESUME_SECTION_FIELDS.itemsJa))
+    }
+  }
+}
+
+export function normalizeResumeHighlight(raw: RawDoc, index: number): ResumeHighlight {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  return {
+    id: pickString(read(RESUME_HIGHLIGHT_FIELDS.id)) || `highlight-${index}`,
+    title: {
+      en: pickString(read(RESUME_HIGHLIGHT_FIELDS.titleEn)),
+      ja: pickString(read(RESUME_HIGHLIGHT_FIELDS.titleJa))
+    },
+    body: {
+      en: pickString(read(RESUME_HIGHLIGHT_FIELDS.bodyEn)),
+      ja: pickString(read(RESUME_HIGHLIGHT_FIELDS.bodyJa))
+    }
+  }
+}
+
+export function normalizeResumeDoc(raw: RawDoc | null | undefined): ResumeContent {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  const highlights = read(RESUME_FIELDS.highlights)
+  const sections = read(RESUME_FIELDS.sections)
+  const variants = read(RESUME_FIELDS.variants)
+
+  return {
+    urls: {
+      en: pickString(read(RESUME_FIELDS.urlEn)),
+      ja: pickString(read(RESUME_FIELDS.urlJa))
+    },
+    pdfOverride: {
+      en: read(RESUME_FIELDS.pdfOverrideEn) === true,
+      ja: read(RESUME_FIELDS.pdfOverrideJa) === true
+    },
+    headline: {
+      en: pickString(read(RESUME_FIELDS.headlineEn)),
+      ja: pickString(read(RESUME_FIELDS.headlineJa))
+    },
+    description: {
+      en: pickString(read(RESUME_FIELDS.descriptionEn)),
+      ja: pickString(read(RESUME_FIELDS.descriptionJa))
+    },
+    lead: {
+      en: pickString(read(RESUME_FIELDS.leadEn)),
+      ja: pickString(read(RESUME_FIELDS.leadJa))
+    },
+    supporting: {
+      en: pickString(read(RESUME_FIELDS.supportingEn)),
+      ja: pickString(read(RESUME_FIELDS.supportingJa))
+    },
+    summary: {
+      en: toParagraphs(read(RESUME_FIELDS.summaryEn)),
+      ja: toParagraphs(read(RESUME_FIELDS.summaryJa))
+    },
+    knowsAbout: toList(read(RESUME_FIELDS.knowsAbout)),
+    updatedAt: pickString(read(RESUME_FIELDS.updatedAt)),
+    jaEta: pickString(read(RESUME_FIELDS.jaEta)),
+    highlights: Array.isArray(highlights)
+      ? highlights.map((highlight, index) => normalizeResumeHighlight(isRawDoc(highlight) ? highlight : {}, index))
+      : [],
+    sections: Array.isArray(sections)
+      ? sections.map((section, index) => normalizeResumeSection(isRawDoc(section) ? section : {}, index))
+      : [],
+    variants: Array.isArray(variants)
+      ? variants.map((variant, index) => normalizeResumeVariant(isRawDoc(variant) ? variant : {}, index))
+      : [],
+    japanese: normalizeJapaneseResume(raw)
+  }
+}
+
+// The meta description of a resume page: the headline, then the description
+// or, without one, the first summary paragraph.
+export function resumePageDescription(resume: ResumeContent, language: SupportedLanguage) {
+  const text = localized(resume.description, language) || localized(resume.summary, language)[0] || ''
+  return [localized(resume.headline, language), text].filter(Boolean).join(' — ')
+}
+
+function validateEntries(raw: RawDoc, key: string, specs: FieldSpecs): SchemaIssue[] {
+  const entries = raw[key]
+  if (!Array.isArray(entries)) return []
+  return entries.flatMap((entry, index) => isRawDoc(entry)
+    ? validateFields(entry, specs, `${key}[${index}].`)
+    : [{ field: `${key}[${index}]`, message: 'Expected an object.' }])
+}
+
+export function validateResumeDoc(raw: RawDoc): SchemaIssue[] {
+  return [
+    ...validateFields(raw, RESUME_FIELDS),
+    ...validateEntries(raw, 'highlights', RESUME_HIGHLIGHT_FIELDS),
+    ...validateEntries(raw, 'sections', RESUME_SECTION_FIELDS),
+    ...validateEntries(raw, 'variants', RESUME_VARIANT_FIELDS),
+    ...validateEntries(raw, 'education_history', JAPANESE_HISTORY_FIELDS),
+    ...validateEntries(raw, 'careers', JAPANESE_CAREER_FIELDS),
+    ...validateEntries(raw, 'qualifications', JAPANESE_HISTORY_FIELDS)
+  ]
+}
@@ -0,0 +1,101 @@
+import { field, readField, type FieldSpec, type RawDoc } from './fields.js'
+import type { ResumeContent } from './resume.js'
+import { pickString, toList, toParagraphs, type LocalizedList, type LocalizedText } from './text.js'
+
+// Named, targeted versions of the resume served at /resume/<id> and
+// /resume/<id>.pdf. A variant picks and orders the shared sections and can
+// swap the headline and summary; anything it leaves empty falls back to the
+// main resume. Variants are stored in the `variants` array on public/resume.
+
+export type ResumeVariant = {
+  id: string
+  label: string
+  headline: LocalizedText
+  summary: LocalizedList
+  sectionIds: string[]
+  pdfUrls: LocalizedText
+}
+
+export const RESUME_VARIANT_FIELDS = {
+  id: field('string', 'id'),
+  label: field('string', 'label'),
+  headlineEn: field('string', 'headline_en', 'headline'),
+  headlineJa: field('string', 'headline_ja', 'headline'),
+  summaryEn: field('string', 'summary_en', 'summary'),
+  summaryJa: field('string', 'summary_ja', 'summary'),
+  sectionIds: field('list', 'section_ids'),
+  pdfUrlEn: field('string', 'pdf_url_en'),
+  pdfUrlJa: field('string', 'pdf_url_ja')
+} as const
+
+// Paths under /resume/ that are already taken by other documents.
+export const RESERVED_RESUME_VARIANT_IDS = ['rirekisho', 'shokumu-keirekisho'] as const
+
+const VARIANT_ID = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+export function isValidResumeVariantId(id: string) {
+  return VARIANT_ID.test(id) && !(RESERVED_RESUME_VARIANT_IDS as readonly string[]).includes(id)
+}
+
+export function normalizeResumeVariant(raw: RawDoc, index: number): ResumeVariant {
+  const read = (spec: FieldSpec) => readField(raw, spec)
+  return {
+    id: pickString(read(RESUME_VARIANT_FIELDS.id)) || `variant-${index}`,
+    label: pickString(read(RESUME_VARIANT_FIELDS.label)),
+    headline: {
+      en: pickString(read(RESUME_VARIANT_FIELDS.headlineEn)),
+      ja: pickString(read(RESUME_VARIANT_FIELDS.headlineJa))
+    },
+    summary: {
+      en: toParagraphs(read(RESUME_VARIANT_FIELDS.summaryEn)),
+      ja: toParagraphs(read(RESUME_VARIANT_FIELDS.summaryJa))
+    },
+    sectionIds: toList(read(RESUME_VARIANT_FIELDS.sectionIds)),
+    pdfUrls: {
+      en: pickString(read(RESUME_VARIANT_FIELDS.pdfUrlEn)),
+      ja: pickString(read(RESUME_VARIANT_FIELDS.pdfUrlJa))
+    }
+  }
+}
+
+export function serializeResumeVariant(variant: ResumeVariant): RawDoc {
+  return {
+    id: variant.id.trim(),
+    label: variant.label.trim(),
+    headline_en: variant.headline.en.trim(),
+    headline_ja: variant.headline.ja.trim(),
+    summary_en: variant.summary.en.join('\n\n'),
+    summary_ja: variant.summary.ja.join('\n\n'),
+    section_ids: variant.sectionIds,
+    pdf_url_en: variant.pdfUrls.en.trim(),
+    pdf_url_ja: variant.pdfUrls.ja.trim()
+  }
+}
+
+export function findResumeVariant(resume: ResumeContent | null, id: string) {
+  return resume?.variants.find(variant => variant.id === id) ?? null
+}
+
+// The resume as the variant presents it. Section ids that no longer exist are
+// skipped, an uploaded variant PDF replaces the main one, and without one the
+// PDF is generated from the variant's content.
+export function applyResumeVariant(resume: ResumeContent, variant: ResumeVariant): ResumeContent {
+  const byId = new Map(resume.sections.map(section => [section.id, section]))
+  const sections = variant.sectionIds.length
+    ? variant.sectionIds.flatMap(id => byId.get(id) ?? [])
+    : resume.sections
+  return {
+    ...resume,
+    urls: variant.pdfUrls,
+    pdfOverride: { en: Boolean(variant.pdfUrls.en), ja: Boolean(variant.pdfUrls.ja) },
+    headline: {
+      en: variant.headline.en || resume.headline.en,
+      ja: variant.headline.ja || resume.headline.ja
+    },
+    summary: {
+      en: variant.summary.en.length ? variant.summary.en : resume.summary.en,
+      ja: variant.summary.ja.length ? variant.summary.ja : resume.summary.ja
+    },
+    sections
+  }
+}
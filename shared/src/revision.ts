@@ -0,0 +1,34 @@
+// Revisions snapshot a live document just before it is replaced, under
+// `<collection>/<id>/revisions`. The admin panel records them on publish and
+// the GitHub sync when it refreshes a project.
+
+export type FieldDiff = {
+  field: string
+  before: string
+  after: string
+}
+
+type RevisionDoc = Record<string, unknown>
+
+function serializeValue(value: unknown) {
+  if (value === undefined) return ''
+  if (typeof value === 'string') return value
+  return JSON.stringify(value, null, 2)
+}
+
+export function changedFields(before: RevisionDoc, after: RevisionDoc | null) {
+  const next = after ?? {}
+  const keys = new Set([...Object.keys(before), ...Object.keys(next)])
+  return Array.from(keys)
+    .filter(key => serializeValue(before[key]) !== serializeValue(next[key]))
+    .sort()
+}
+
+export function diffFields(before: RevisionDoc, after: RevisionDoc | null): FieldDiff[] {
+  const next = after ?? {}
+  return changedFields(before, after).map(field => ({
+    field,
+    before: serializeValue(before[field]),
+    after: serializeValue(next[field])
+  }))
+}
@@ -0,0 +1,40 @@
+// Admin roles are stored as the `role` custom claim on Firebase Auth users and
+// enforced again in firestore.rules and storage.rules; this table only
+// decides what the admin panel offers.
+export const ADMIN_ROLES = ['owner', 'editor', 'translator'] as const
+
+export type AdminRole = typeof ADMIN_ROLES[number]
+
+export type AdminCapability =
+  | 'editDrafts'
+  | 'uploadFiles'
+  | 'publish'
+  | 'inbox'
+  | 'shareLinks'
+  | 'portal'
+  | 'manageUsers'
+
+const ROLE_CAPABILITIES: Record<AdminRole, readonly AdminCapability[]> = {
+  owner: ['editDrafts', 'uploadFiles', 'publish', 'inbox', 'shareLinks', 'portal', 'manageUsers'],
+  editor: ['editDrafts', 'uploadFiles', 'publish', 'inbox', 'shareLinks', 'portal'],
+  translator: ['editDrafts']
+}
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  translator: 'Translator'
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value)
+}
+
+export function roleFromClaims(claims: Record<string, unknown> | null | undefined): AdminRole | null {
+  const role = claims?.role
+  return isAdminRole(role) ? role : null
+}
+
+export function roleCan(role: AdminRole | null | undefined, capability: AdminCapability) {
+  return role ? ROLE_CAPABILITIES[role].includes(capability) : false
+}
@@ -0,0 +1,59 @@
+// Tracked share links: `/s/<token>` redirects to the resume or a case study
+// and records each open on `share_links/<token>`. Links are created in
+// /admin/share-links and answered by the `shareLink` function.
+
+export type ShareLinkState = 'active' | 'expired' | 'revoked'
+
+export const SHARE_LINKS_COLLECTION = 'share_links'
+export const SHARE_LINK_OPENS_COLLECTION = 'opens'
+
+const TOKEN = /^[A-Za-z0-9]{6,32}$/
+const TOKEN_PATH = /^\/s\/([^/]+)\/?$/
+
+// Only pages on this site; `?lang=ja` is kept for the PDFs, which have no /ja path.
+const TARGETS = [
+  /^(?:\/ja)?\/resume(?:\/[a-z0-9-]+)?$/,
+  /^\/resume(?:\/[a-z0-9-]+)?\.pdf(?:\?lang=ja)?$/,
+  /^(?:\/ja)?\/projects\/[A-Za-z0-9_-]+$/
+]
+
+// Link unfurlers and mail scanners fetch the URL before anyone reads it.
+const PREVIEW_AGENT = /bot\b|crawler|spider|preview|facebookexternalhit|slack|whatsapp|skypeuripreview|embedly|outlook|google-safety/i
+
+export function isValidShareToken(token: string) {
+  return TOKEN.test(token)
+}
+
+export function shareTokenFromPath(path: string) {
+  const token = TOKEN_PATH.exec(path)?.[1] ?? ''
+  return isValidShareToken(token) ? token : null
+}
+
+export function isValidShareTarget(target: string) {
+  return TARGETS.some(pattern => pattern.test(target))
+}
+
+export function shareLinkState(
+  link: { revoked: boolean; expiresAt: number | null },
+  now = Date.now()
+): ShareLinkState {
+  if (link.revoked) return 'revoked'
+  if (link.expiresAt !== null && link.expiresAt <= now) return 'expired'
+  return 'active'
+}
+
+export function isLinkPreviewAgent(userAgent: string) {
+  return !userAgent || PREVIEW_AGENT.test(userAgent)
+}
+
+// Keeps where the visitor came from without the query string, which often
+// carries mail or tracking ids.
+export function referrerOrigin(referrer: string) {
+  try {
+    const url = new URL(referrer.trim())
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return ''
+    return `${url.origin}${url.pathname === '/' ? '' : url.pathname}`.slice(0, 300)
+  } catch {
+    return ''
+  }
+}
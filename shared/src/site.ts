@@ -0,0 +1,127 @@
+import { field, readField, validateFields, type FieldSpec, type RawDoc, type SchemaIssue } from './fields.js'
+import { normalizeExternalUrl, pickString, type LocalizedText, type SupportedLanguage } from './text.js'
+
+export type ProfileLink = {
+  label: string
+  url: string
+}
+
+export type ProfileKey = 'github' | 'linkedin' | 'x' | 'youtube' | 'blog' | 'website'
+
+export type SiteContent = {
+  name: LocalizedText
+  footerNote: string
+  contactEmail: string
+  profiles: Record<ProfileKey, string>
+  sameAs: string[]
+  resume: {
+    enUrl: string
+    jaUrl: string
+    jaStatus: string
+  }
+}
+
+export const SITE_FIELDS = {
+  nameEn: field('string', 'name_en', 'name'),
+  nameJa: field('string', 'name_ja', 'name'),
+  footerNote: field('string', 'footerNote', 'footer_note'),
+  contactEmail: field('string', 'contactEmail', 'contact_email', 'email'),
+  github: field('string', 'github_url', 'githubUrl', 'github'),
+  linkedin: field('string', 'linkedin_url', 'linkedinUrl', 'linkedin'),
+  x: field('string', 'x_url', 'xUrl', 'twitterUrl', 'twitter_url', 'twitter'),
+  youtube: field('string', 'youtube_url', 'youtubeUrl', 'youtube'),
+  blog: field('string', 'blog_url', 'blogUrl', 'blog'),
+  website: field('string', 'website_url', 'websiteUrl', 'website'),
+  sameAs: field('list', 'sameAs', 'same_as', 'profileLinks', 'profile_links'),
+  resumeUrlEn: field('string', 'resume_url_en', 'resume_url'),
+  resumeUrlJa: field('string', 'resume_url_ja'),
+  resumeJaStatus: field('string', 'resume_ja_status')
+} as const
+
+const PROFILE_LABELS: Array<{ key: ProfileKey; label: string }> = [
+  { key: 'github', label: 'GitHub' },
+  { key: 'linkedin', label: 'LinkedIn' },
+  { key: 'x', label: 'X' },
+  { key: 'youtube', label: 'YouTube' },
+  { key: 'blog', label: 'Blog' },
+  { key: 'website', label: 'Website' }
+]
+
+export function normalizeSiteDoc(raw: RawDoc | null | undefined): SiteContent {
+  const read = (spec: FieldSpec) => pickString(readField(raw, spec))
+  const sameAs = readField(raw, SITE_FIELDS.sameAs)
+
+  return {
+    name: { en: read(SITE_FIELDS.nameEn), ja: read(SITE_FIELDS.nameJa) },
+    footerNote: read(SITE_FIELDS.footerNote),
+    contactEmail: read(SITE_FIELDS.contactEmail),
+    profiles: {
+      github: read(SITE_FIELDS.github),
+      linkedin: read(SITE_FIELDS.linkedin),
+      x: read(SITE_FIELDS.x),
+      youtube: read(SITE_FIELDS.youtube),
+      blog: read(SITE_FIELDS.blog),
+      website: read(SITE_FIELDS.website)
+    },
+    sameAs: Array.isArray(sameAs)
+      ? sameAs.map(item => pickString(item)).filter(Boolean)
+      : pickString(sameAs).split(/\n|,/).map(part => part.trim()).filter(Boolean),
+    resume: {
+      enUrl: read(SITE_FIELDS.resumeUrlEn),
+      jaUrl: read(SITE_FIELDS.resumeUrlJa),
+      jaStatus: read(SITE_FIELDS.resumeJaStatus)
+    }
+  }
+}
+
+export function validateSiteDoc(raw: RawDoc): SchemaIssue[] {
+  return validateFields(raw, SITE_FIELDS)
+}
+
+export function dedupeProfileLinks(links: ProfileLink[]) {
+  const deduped = new Map<string, ProfileLink>()
+  links.forEach(link => {
+    if (link.url && !deduped.has(link.url)) {
+      deduped.set(link.url, link)
+    }
+  })
+  return Array.from(deduped.values())
+}
+
+// Accepts `Label | url` or a bare url, which gets the fallback label.
+export function parseProfileLinkEntry(entry: string, fallbackLabel: string): ProfileLink | null {
+  if (!entry) return null
+
+  const [rawLabel, rawUrl] = entry.includes('|')
+    ? entry.split('|', 2).map(part => part.trim())
+    : [fallbackLabel, entry.trim()]
+  const url = normalizeExternalUrl(rawUrl)
+
+  if (!url) return null
+
+  return {
+    label: rawLabel || fallbackLabel,
+    url
+  }
+}
+
+export function siteProfileLinks(site: SiteContent): ProfileLink[] {
+  const known = PROFILE_LABELS
+    .map(({ key, label }) => {
+      const url = normalizeExternalUrl(site.profiles[key])
+      return url ? { label, url } : null
+    })
+    .filter((entry): entry is ProfileLink => Boolean(entry))
+
+  const extra = site.sameAs
+    .map((entry, index) => parseProfileLinkEntry(entry, `Profile ${index + 1}`))
+    .filter((entry): entry is ProfileLink => Boolean(entry))
+
+  return dedupeProfileLinks([...known, ...extra])
+}
+
+export function siteDisplayName(site: SiteContent, language: SupportedLanguage, fallback: string) {
+  return language === 'ja'
+    ? site.name.ja || site.name.en || fallback
+    : site.name.en || site.name.ja || fallback
+}
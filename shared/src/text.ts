@@ -0,0 +1,60 @@
+export type SupportedLanguage = 'en' | 'ja'
+
+export type LocalizedText = {
+  en: string
+  ja: string
+}
+
+export type LocalizedList = {
+  en: string[]
+  ja: string[]
+}
+
+export function pickString(value: unknown) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+// Accepts either a string array or newline-separated text.
+export function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => pickString(item)).filter(Boolean)
+  }
+  return pickString(value)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+}
+
+export function toParagraphs(value: unknown): string[] {
+  return pickString(value)
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+}
+
+export function localized<T extends string | string[]>(value: { en: T; ja: T }, language: SupportedLanguage): T {
+  const primary = language === 'ja' ? value.ja : value.en
+  const fallback = language === 'ja' ? value.en : value.ja
+  return primary.length > 0 ? primary : fallback
+}
+
+export function isInternalHref(value: string) {
+  return value.startsWith('/')
+}
+
+export function normalizeExternalUrl(value: string): string | null {
+  const trimmed = value.trim()
+  if (!trimmed || isInternalHref(trimmed)) return null
+
+  const withProtocol = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+
+  try {
+    const parsed = new URL(withProtocol)
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null
+    }
+    return parsed.toString()
+  } catch {
+    return null
+  }
+}
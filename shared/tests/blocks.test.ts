@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PROJECT_BLOCK_TYPES,
+  emptyProjectBlock,
+  normalizeProjectBlocks,
+  normalizeProjectRecord,
+  serializeProjectBlock,
+  validateProjectDoc,
+  type ProjectBlock
+} from '../src/index.js'
+
+describe('normalizeProjectBlocks', () => {
+  it('keeps block order and reads localized fields', () => {
+    const blocks = normalizeProjectBlocks([
+      { id: 'intro', type: 'markdown', body_en: ' # Intro ', body_ja: '' },
+      { type: 'quote', text_en: 'It just works.', attribution_en: 'A customer' },
+      { type: 'metrics', title_en: 'Results', rows: [{ label_en: 'Latency', value_en: '-40%' }, { note_en: 'empty row' }] }
+    ])
+    expect(blocks.map(block => block.type)).toEqual(['markdown', 'quote', 'metrics'])
+    expect(blocks[0]).toEqual({ id: 'intro', type: 'markdown', body: { en: '# Intro', ja: '' } })
+    expect(blocks[1].id).toBe('block-1')
+    expect(blocks[2].type === 'metrics' && blocks[2].rows).toHaveLength(1)
+  })
+
+  it('drops unknown types and blocks with nothing to show', () => {
+    expect(normalizeProjectBlocks([
+      { type: 'video', url: 'https://example.com' },
+      { type: 'gallery', images: [{ caption_en: 'no url' }] },
+      { type: 'code', code: '   ' },
+      'not a block'
+    ])).toEqual([])
+    expect(normalizeProjectBlocks('blocks')).toEqual([])
+  })
+
+  it('keeps code indentation but trims surrounding blank lines', () => {
+    const [block] = normalizeProjectBlocks([{ type: 'code', language: 'TS', code: '\n  const a = 1\n\n' }])
+    expect(block).toMatchObject({ language: 'ts', code: '  const a = 1' })
+  })
+
+  it('is read by normalizeProjectRecord', () => {
+    expect(normalizeProjectRecord({ id: 'p' }).blocks).toEqual([])
+    expect(normalizeProjectRecord({ id: 'p', blocks: [{ type: 'diagram', url: '/d.svg' }] }).blocks).toHaveLength(1)
+  })
+})
+
+describe('serializeProjectBlock', () => {
+  it('round-trips every block type', () => {
+    const text = { en: 'English', ja: '日本語' }
+    const blocks: ProjectBlock[] = [
+      { id: 'm', type: 'markdown', body: text },
+      { id: 'g', type: 'gallery', images: [{ url: 'https://example.com/a.png', caption: text }] },
+      { id: 'c', type: 'code', language: 'go', code: 'func main() {}', caption: text },
+      { id: 'd', type: 'diagram', url: '/diagram.svg', caption: text, description: text },
+      { id: 't', type: 'metrics', title: text, rows: [{ label: text, value: text, note: text }] },
+      { id: 'q', type: 'quote', text, attribution: text }
+    ]
+    expect(normalizeProjectBlocks(blocks.map(serializeProjectBlock))).toEqual(blocks)
+  })
+
+  it('starts every type from an empty block', () => {
+    PROJECT_BLOCK_TYPES.forEach(type => {
+      expect(serializeProjectBlock(emptyProjectBlock(type, 'new'))).toMatchObject({ id: 'new', type })
+    })
+  })
+})
+
+describe('validateProjectDoc blocks', () => {
+  it('reports bad block types and field kinds', () => {
+    expect(validateProjectDoc({
+      blocks: [
+        { type: 'video' },
+        { type: 'code', code: 42 },
+        { type: 'gallery', images: ['a.png', { url: 3 }] },
+        'x'
+      ]
+    })).toEqual([
+      { field: 'blocks[0].type', message: 'Expected one of markdown, gallery, code, diagram, metrics, quote.' },
+      { field: 'blocks[1].code', message: 'Expected a string.' },
+      { field: 'blocks[2].images[0]', message: 'Expected an object.' },
+      { field: 'blocks[2].images[1].url', message: 'Expected a string.' },
+      { field: 'blocks[3]', message: 'Expected an object.' }
+    ])
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyCanonicalizePlan,
+  canonicalizeAboutDoc,
+  canonicalizeContactDoc,
+  canonicalizeHomeDoc,
+  canonicalizeProjectDoc,
+  canonicalizeResumeDoc,
+  canonicalizeSiteDoc,
+  normalizeAboutDoc,
+  normalizeContactDoc,
+  normalizeHomeDoc,
+  normalizeProjectRecord,
+  normalizeResumeDoc,
+  normalizeSiteDoc
+} from '../src/index.js'
+
+const legacySite = {
+  name: 'Jaron Rosenau',
+  footer_note: 'Footer',
+  email: 'me@example.net',
+  githubUrl: 'github.com/me',
+  twitter: 'x.com/me',
+  youtube: 'youtube.com/@me',
+  website: 'example.net',
+  profile_links: ['https://mastodon.example/@me'],
+  resume_url: 'https://example.net/resume.pdf'
+}
+
+const legacyResume = {
+  url: 'https://example.net/resume.pdf',
+  summary: 'Summary',
+  updated_at: '2026-05-01',
+  jaTargetDate: '2026-06-01',
+  sections: [{ id: 'skills', title: 'Skills', items: ['A', 'B'] }]
+}
+
+const legacyProject = {
+  title: 'Project',
+  description: 'Description',
+  tags: ['TypeScript'],
+  image: 'https://example.net/cover.png',
+  thumbnail: 'https://example.net/thumb.png',
+  github: 'https://github.com/me/project',
+  order: 2
+}
+
+describe('canonicalizeSiteDoc', () => {
+  it('moves legacy aliases to canonical fields and removes them', () => {
+    const plan = canonicalizeSiteDoc(legacySite)
+    expect(plan.set).toEqual({
+      name_en: 'Jaron Rosenau',
+      name_ja: 'Jaron Rosenau',
+      footerNote: 'Footer',
+      contactEmail: 'me@example.net',
+      github_url: 'github.com/me',
+      x_url: 'x.com/me',
+      youtube_url: 'youtube.com/@me',
+      website_url: 'example.net',
+      sameAs: ['https://mastodon.example/@me'],
+      resume_url_en: 'https://example.net/resume.pdf'
+    })
+    expect(plan.remove.sort()).toEqual(
+      ['email', 'footer_note', 'githubUrl', 'name', 'profile_links', 'resume_url', 'twitter', 'website', 'youtube'].sort()
+    )
+    expect(plan.changes).toContainEqual({ action: 'set', field: 'x_url', from: 'twitter', value: 'x.com/me' })
+  })
+
+  it('reads the same content before and after', () => {
+    const next = applyCanonicalizePlan(legacySite, canonicalizeSiteDoc(legacySite))
+    expect(normalizeSiteDoc(next)).toEqual(normalizeSiteDoc(legacySite))
+  })
+
+  it('keeps the canonical value when both are present', () => {
+    const plan = canonicalizeSiteDoc({ github_url: 'github.com/new', githubUrl: 'github.com/old' })
+    expect(plan.set).toEqual({})
+    expect(plan.remove).toEqual(['githubUrl'])
+  })
+
+  it('is idempotent', () => {
+    const next = applyCanonicalizePlan(legacySite, canonicalizeSiteDoc(legacySite))
+    expect(canonicalizeSiteDoc(next).changes).toEqual([])
+  })
+})
+
+describe('canonicalizeResumeDoc', () => {
+  it('rewrites top-level fields and sections', () => {
+    const next = applyCanonicalizePlan(legacyResume, canonicalizeResumeDoc(legacyResume))
+    expect(next).toEqual({
+      url_en: 'https://example.net/resume.pdf',
+      url_ja: 'https://example.net/resume.pdf',
+      summary_en: 'Summary',
+      summary_ja: 'Summary',
+      updatedAt: '2026-05-01',
+      ja_eta: '2026-06-01',
+      sections: [{ id: 'skills', title_en: 'Skills', title_ja: 'Skills', items_en: ['A', 'B'], items_ja: ['A', 'B'] }]
+    })
+    expect(normalizeResumeDoc(next)).toEqual(normalizeResumeDoc(legacyResume))
+    expect(canonicalizeResumeDoc(next).changes).toEqual([])
+  })
+
+  it('reports section changes with their index', () => {
+    const plan = canonicalizeResumeDoc({ sections: [{ title_en: 'Ok' }, { items: ['A'] }] })
+    expect(plan.changes.map(change => `${change.action} ${change.field}`)).toEqual([
+      'set sections[1].items_en',
+      'set sections[1].items_ja',
+      'delete sections[1].items'
+    ])
+  })
+
+  it('rewrites highlights like sections', () => {
+    const raw = { highlights: [{ id: 'focus', title: 'Focus', body_en: 'APIs', body_ja: 'API' }] }
+    const next = applyCanonicalizePlan(raw, canonicalizeResumeDoc(raw))
+    expect(next.highlights).toEqual([{ id: 'focus', title_en: 'Focus', title_ja: 'Focus', body_en: 'APIs', body_ja: 'API' }])
+    expect(normalizeResumeDoc(next)).toEqual(normalizeResumeDoc(raw))
+  })
+})
+
+describe('canonicalizeProjectDoc', () => {
+  it('keeps the highest-priority cover and drops the others', () => {
+    const plan = canonicalizeProjectDoc(legacyProject)
+    expect(plan.set).toMatchObject({
+      title_en: 'Project',
+      description_en: 'Description',
+      tags_en: ['TypeScript'],
+      cover: 'https://example.net/cover.png',
+      repo: 'https://github.com/me/project'
+    })
+    expect(plan.remove.sort()).toEqual(['description', 'github', 'image', 'tags', 'thumbnail', 'title'])
+  })
+
+  it('writes out the default visibility and keeps a protected one', () => {
+    expect(canonicalizeProjectDoc(legacyProject).set.visibility).toBe('public')
+    expect(canonicalizeProjectDoc({ title_en: 'Project', visibility: 'protected' }).changes).toEqual([])
+  })
+
+  it('reads the same project before and after, and is idempotent', () => {
+    const next = applyCanonicalizePlan(legacyProject, canonicalizeProjectDoc(legacyProject))
+    expect(normalizeProjectRecord({ id: 'p', ...next })).toEqual(normalizeProjectRecord({ id: 'p', ...legacyProject }))
+    expect(canonicalizeProjectDoc(next).changes).toEqual([])
+  })
+})
+
+describe('page copy documents', () => {
+  const legacyHome = {
+    headline: 'Integration engineer',
+    blurb: 'Legacy blurb',
+    supporting_ja: '連携エンジニア',
+    secondary_specialization: 'Support',
+    featured_projects_en: 'one\ntwo'
+  }
+  const legacyAbout = {
+    headline_en: 'About me',
+    intro: 'Legacy intro',
+    same_as: ['https://github.com/me'],
+    what_i_do_en: 'Integrations'
+  }
+  const legacyContact = {
+    intro: 'Say hello',
+    availability_ja: '対応可能',
+    availability: 'Open to roles',
+    links: 'GitHub | https://github.com/me'
+  }
+
+  it('moves the neutral legacy values onto both languages', () => {
+    const plan = canonicalizeHomeDoc(legacyHome)
+    expect(plan.set).toEqual({
+      headline_en: 'Integration engineer',
+      headline_ja: 'Integration engineer',
+      supporting_en: 'Legacy blurb',
+      secondary_en: 'Support',
+      secondary_ja: 'Support',
+      featured_project_ids: 'one\ntwo'
+    })
+    expect(plan.remove.sort()).toEqual(['blurb', 'featured_projects_en', 'headline', 'secondary_specialization'])
+  })
+
+  it('reads the same copy before and after, and is idempotent', () => {
+    const cases = [
+      [legacyHome, canonicalizeHomeDoc, normalizeHomeDoc],
+      [legacyAbout, canonicalizeAboutDoc, normalizeAboutDoc],
+      [legacyContact, canonicalizeContactDoc, normalizeContactDoc]
+    ] as const
+    cases.forEach(([raw, canonicalize, normalize]) => {
+      const next = applyCanonicalizePlan(raw, canonicalize(raw))
+      expect(normalize(next)).toEqual(normalize(raw))
+      expect(canonicalize(next).changes).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,233 @@
+import { readFileSync } from 'node:fs'
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest'
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment
+} from '@firebase/rules-unit-testing'
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  type Firestore
+} from 'firebase/firestore'
+import type { AdminRole } from '../src/index.js'
+
+// Needs the Firestore emulator: `npm run test:rules` starts it and sets
+// FIRESTORE_EMULATOR_HOST. Plain `npm test` skips this file.
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST
+
+describe.skipIf(!emulatorHost)('firestore.rules', () => {
+  let env: RulesTestEnvironment
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'demo-personal-site',
+      firestore: { rules: readFileSync(new URL('../../firestore.rules', import.meta.url), 'utf8') }
+    })
+  })
+
+  afterAll(async () => {
+    await env?.cleanup()
+  })
+
+  beforeEach(async () => {
+    await env.clearFirestore()
+  })
+
+  function db(role?: AdminRole | 'none'): Firestore {
+    if (!role) return env.unauthenticatedContext().firestore() as unknown as Firestore
+    return env.authenticatedContext(`${role}-uid`, role === 'none' ? {} : { role }).firestore() as unknown as Firestore
+  }
+
+  async function seed(path: string, data: Record<string, unknown>) {
+    await env.withSecurityRulesDisabled(async context => {
+      await setDoc(doc(context.firestore() as unknown as Firestore, path), data)
+    })
+  }
+
+  describe('roles', () => {
+    it('lets anyone read live content but only publishers write it', async () => {
+      await seed('public/site', { name_en: 'Site' })
+      await assertSucceeds(getDoc(doc(db(), 'public/site')))
+      await assertFails(setDoc(doc(db(), 'public/site'), { name_en: 'Anon' }))
+      await assertFails(setDoc(doc(db('none'), 'public/site'), { name_en: 'Signed in' }))
+      await assertFails(setDoc(doc(db('translator'), 'public/site'), { name_en: 'Translator' }))
+      await assertSucceeds(setDoc(doc(db('editor'), 'public/site'), { name_en: 'Editor' }))
+      await assertSucceeds(deleteDoc(doc(db('owner'), 'public/site')))
+    })
+
+    it('lets every role edit drafts', async () => {
+      await assertSucceeds(setDoc(doc(db('translator'), 'drafts_public/site'), { name_ja: 'サイト' }))
+      await assertSucceeds(getDoc(doc(db('translator'), 'drafts_public/site')))
+      await assertFails(getDoc(doc(db('none'), 'drafts_public/site')))
+    })
+
+    it('keeps the inbox and sync reports away from translators', async () => {
+      await seed('messages/m1', { status: 'new' })
+      await assertFails(getDoc(doc(db('translator'), 'messages/m1')))
+      await assertSucceeds(getDoc(doc(db('editor'), 'messages/m1')))
+      await assertSucceeds(updateDoc(doc(db('editor'), 'messages/m1'), { status: 'handled' }))
+      await assertFails(getDoc(doc(db('translator'), 'github_sync_runs/r1')))
+    })
+
+    it('lets publishers manage share links but leaves the counters to the function', async () => {
+      const link = { target: '/resume', label: 'Recruiter', createdAt: serverTimestamp(), revoked: false }
+      await assertFails(setDoc(doc(db('translator'), 'share_links/Ab12Cd34Ef'), link))
+      await assertFails(setDoc(doc(db('editor'), 'share_links/bad-token'), link))
+      await assertFails(setDoc(doc(db('editor'), 'share_links/Ab12Cd34Ef'), { ...link, opens: 10 }))
+      await assertSucceeds(setDoc(doc(db('editor'), 'share_links/Ab12Cd34Ef'), link))
+      await assertSucceeds(updateDoc(doc(db('editor'), 'share_links/Ab12Cd34Ef'), { revoked: true, revokedAt: serverTimestamp() }))
+      await assertFails(updateDoc(doc(db('editor'), 'share_links/Ab12Cd34Ef'), { target: '/admin' }))
+      await assertFails(setDoc(doc(db('owner'), 'share_links/Ab12Cd34Ef/opens/o1'), { referrer: '' }))
+      await assertFails(getDoc(doc(db('translator'), 'share_links/Ab12Cd34Ef')))
+    })
+
+    it('keeps portal codes to publishers', async () => {
+      const code = { label: 'Acme', projectIds: ['billing'], createdAt: serverTimestamp(), revoked: false }
+      await assertFails(setDoc(doc(db('translator'), 'portal_codes/ABCD2345EFGH'), code))
+      await assertFails(setDoc(doc(db('editor'), 'portal_codes/abcd-2345'), code))
+      await assertFails(setDoc(doc(db('editor'), 'portal_codes/ABCD2345EFGH'), { ...code, uses: 3 }))
+      await assertSucceeds(setDoc(doc(db('editor'), 'portal_codes/ABCD2345EFGH'), code))
+      await assertSucceeds(updateDoc(doc(db('editor'), 'portal_codes/ABCD2345EFGH'), { revoked: true }))
+      await assertFails(getDoc(doc(db(), 'portal_codes/ABCD2345EFGH')))
+    })
+
+    it('ignores the retired admin claim', async () => {
+      const legacy = env.authenticatedContext('legacy', { admin: true }).firestore() as unknown as Firestore
+      await assertFails(setDoc(doc(legacy, 'public/site'), { name_en: 'Legacy' }))
+    })
+  })
+
+  describe('public documents', () => {
+    it('only accepts the known document ids', async () => {
+      await assertFails(setDoc(doc(db('owner'), 'public/anything'), { name_en: 'x' }))
+      await assertFails(setDoc(doc(db('owner'), 'drafts_public/anything'), { name_en: 'x' }))
+    })
+
+    it('checks site field types and lengths', async () => {
+      const editor = db('editor')
+      await assertSucceeds(setDoc(doc(editor, 'public/site'), {
+        name_en: 'Jane Doe',
+        name_ja: 'ジェーン',
+        contactEmail: null,
+        github_url: 'https://github.com/jane',
+        sameAs: ['https://example.com'],
+        legacy_field: 42
+      }))
+      await assertFails(setDoc(doc(editor, 'public/site'), { name_en: 7 }))
+      await assertFails(setDoc(doc(editor, 'public/site'), { footerNote: 'x'.repeat(501) }))
+      await assertFails(setDoc(doc(editor, 'public/site'), { sameAs: { url: 'https://example.com' } }))
+    })
+
+    it('checks home, about and contact copy', async () => {
+      const editor = db('editor')
+      await assertSucceeds(setDoc(doc(editor, 'public/home'), {
+        headline_en: 'Hello',
+        links_en: 'Resume | /resume',
+        featured_project_ids: ['a', 'b']
+      }))
+      await assertSucceeds(setDoc(doc(editor, 'public/home'), { featured_project_ids: 'a, b' }))
+      await assertFails(setDoc(doc(editor, 'public/home'), { featured_project_ids: Array(51).fill('id') }))
+      await assertFails(setDoc(doc(editor, 'public/about'), { what_i_do_en: ['not', 'a', 'string'] }))
+      await assertFails(setDoc(doc(editor, 'public/about'), { what_ive_shipped_title_ja: 'x'.repeat(201) }))
+      await assertFails(setDoc(doc(editor, 'public/contact'), { availability_ja: 'x'.repeat(2001) }))
+    })
+
+    it('checks resume fields', async () => {
+      const editor = db('editor')
+      await assertSucceeds(setDoc(doc(editor, 'public/resume'), {
+        url_en: 'https://example.com/resume.pdf',
+        pdf_override_en: true,
+        highlights: [{ id: 'focus', title_en: 'Focus', body_en: 'APIs' }],
+        sections: [{ id: 'skills', title_en: 'Skills', items_en: ['TypeScript'] }],
+        name_kana: 'さんぷる たろう',
+        careers: [{ id: 'current', company: 'Example', start: '2019-04' }]
+      }))
+      await assertFails(setDoc(doc(editor, 'public/resume'), { pdf_override_ja: 'yes' }))
+      await assertFails(setDoc(doc(editor, 'public/resume'), { sections: 'Skills' }))
+      await assertFails(setDoc(doc(editor, 'public/resume'), { highlights: Array(21).fill({ id: 'card' }) }))
+      await assertFails(setDoc(doc(editor, 'public/resume'), { birth_date: 19900615 }))
+      await assertFails(setDoc(doc(editor, 'public/resume'), { variants: Array(21).fill({ id: 'variant' }) }))
+    })
+  })
+
+  describe('projects', () => {
+    it('checks project fields including order and GitHub metadata', async () => {
+      const editor = db('editor')
+      await assertSucceeds(setDoc(doc(editor, 'projects/p1'), {
+        title_en: 'Project',
+        order: 3,
+        tags_en: ['react'],
+        cover: null,
+        github_id: 12345,
+        github_full_name: 'jane/project',
+        github_topics: ['web'],
+        github_synced_at: '2026-01-01T00:00:00.000Z',
+        summary_en: 'Summary',
+        systems_ja: 'システム',
+        priority: 1,
+        featured: true
+      }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { order: '3' }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { featured: 'yes' }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { priority: '1' }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { order: NaN }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { order: 1e9 }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { github_full_name: 12 }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { github_topics: 'web' }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { cover_image: 'https://example.com/cover.png' }))
+      await assertSucceeds(setDoc(doc(editor, 'projects/p1'), { blocks: [{ id: 'b1', type: 'quote', text_en: 'Hi' }] }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { blocks: { type: 'quote' } }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { description_ja: 'x'.repeat(5001) }))
+      await assertFails(setDoc(doc(editor, 'projects/p1'), { visibility: 'secret' }))
+    })
+
+    it('hides protected projects from visitors', async () => {
+      await seed('projects/open', { title_en: 'Open', visibility: 'public', order: 1 })
+      await seed('projects/legacy', { title_en: 'Legacy', order: 2 })
+      await seed('projects/private', { title_en: 'Private', visibility: 'protected', order: 3 })
+      await assertSucceeds(getDoc(doc(db(), 'projects/open')))
+      await assertSucceeds(getDoc(doc(db(), 'projects/legacy')))
+      await assertSucceeds(getDoc(doc(db(), 'projects/missing')))
+      await assertFails(getDoc(doc(db(), 'projects/private')))
+      await assertSucceeds(getDoc(doc(db('translator'), 'projects/private')))
+      await assertSucceeds(getDocs(query(collection(db(), 'projects'), where('visibility', '==', 'public'))))
+      await assertFails(getDocs(collection(db(), 'projects')))
+      await assertSucceeds(getDocs(collection(db('editor'), 'projects')))
+    })
+
+    it('applies the same checks to drafts and their bookkeeping fields', async () => {
+      const translator = db('translator')
+      await assertSucceeds(setDoc(doc(translator, 'drafts_projects/p1'), {
+        title_ja: 'プロジェクト',
+        draftUpdatedAt: serverTimestamp()
+      }))
+      await assertSucceeds(setDoc(doc(translator, 'drafts_projects/p2'), { draftDeleted: true }))
+      await assertFails(setDoc(doc(translator, 'drafts_projects/p1'), { order: 'first' }))
+      await assertFails(setDoc(doc(translator, 'drafts_projects/p1'), { draftDeleted: 'yes' }))
+      await assertFails(setDoc(doc(translator, 'drafts_projects/p1'), { draftUpdatedAt: 'today' }))
+    })
+  })
+
+  describe('posts', () => {
+    it('checks post fields in drafts and live documents', async () => {
+      await assertSucceeds(setDoc(doc(db('translator'), 'drafts_posts/hello'), {
+        title_en: 'Hello',
+        body_en: '# Hello',
+        tags_en: ['notes'],
+        publishedAt: '2026-01-01'
+      }))
+      await assertFails(setDoc(doc(db('translator'), 'drafts_posts/hello'), { body_ja: 'x'.repeat(200001) }))
+      await assertFails(setDoc(doc(db('editor'), 'posts/hello'), { publishedAt: 20260101 }))
+    })
+  })
+})
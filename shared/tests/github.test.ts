@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildProjectPayloadFromRepo,
+  buildProjectUpdateFromRepo,
+  isGitHubCover,
+  type GitHubRepo
+} from '../src/index.js'
+
+const SYNCED_AT = '2026-01-02T03:04:05.000Z'
+
+function repo(overrides: Partial<GitHubRepo> = {}): GitHubRepo {
+  return {
+    id: 42,
+    name: 'widget',
+    full_name: 'octo/widget',
+    html_url: 'https://github.com/octo/widget',
+    description: '  Widget service  ',
+    homepage: 'widget.example',
+    language: 'TypeScript',
+    fork: false,
+    archived: false,
+    stargazers_count: 3,
+    updated_at: '2026-01-01T00:00:00Z',
+    pushed_at: '2026-01-01T00:00:00Z',
+    owner: { login: 'octo' },
+    topics: ['api', 'TypeScript'],
+    ...overrides
+  }
+}
+
+describe('buildProjectPayloadFromRepo', () => {
+  it('fills a new project from the repository', () => {
+    expect(buildProjectPayloadFromRepo(repo(), 4, true, SYNCED_AT)).toMatchObject({
+      title_en: 'widget',
+      description_en: 'Widget service',
+      order: 4,
+      url: 'https://widget.example',
+      repo: 'https://github.com/octo/widget',
+      tags_en: ['api', 'TypeScript'],
+      cover: 'https://opengraph.githubassets.com/1/octo/widget',
+      github_full_name: 'octo/widget',
+      github_synced_at: SYNCED_AT
+    })
+  })
+
+  it('leaves the homepage and cover empty when there are none', () => {
+    const payload = buildProjectPayloadFromRepo(repo({ homepage: ' ' }), 1, false, SYNCED_AT)
+    expect(payload.url).toBeNull()
+    expect(payload.cover).toBeNull()
+  })
+})
+
+describe('buildProjectUpdateFromRepo', () => {
+  it('only overwrites fields GitHub has a value for', () => {
+    const update = buildProjectUpdateFromRepo(
+      repo({ description: null, homepage: null, language: null, topics: [] }),
+      false,
+      SYNCED_AT
+    )
+    expect(update).not.toHaveProperty('description_en')
+    expect(update).not.toHaveProperty('url')
+    expect(update).not.toHaveProperty('tags_en')
+    expect(update).not.toHaveProperty('cover')
+    expect(update).toMatchObject({ title_en: 'widget', github_synced_at: SYNCED_AT })
+  })
+
+  it('replaces the cover only when asked to', () => {
+    expect(buildProjectUpdateFromRepo(repo(), true, SYNCED_AT).cover).toBe('https://opengraph.githubassets.com/1/octo/widget')
+  })
+})
+
+describe('isGitHubCover', () => {
+  it('recognises GitHub social previews', () => {
+    expect(isGitHubCover(' https://opengraph.githubassets.com/1/octo/widget ')).toBe(true)
+    expect(isGitHubCover('https://example.com/cover.png')).toBe(false)
+    expect(isGitHubCover(null)).toBe(false)
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { highlightCode } from '../src/index.js'
+
+const typed = (code: string, language: string) =>
+  highlightCode(code, language).filter(token => token.type !== 'plain').map(token => [token.type, token.text])
+
+describe('highlightCode', () => {
+  it('marks keywords, strings, numbers and comments', () => {
+    expect(typed('const n = 42 // answer\nreturn "a\\"b"', 'ts')).toEqual([
+      ['keyword', 'const'],
+      ['number', '42'],
+      ['comment', '// answer'],
+      ['keyword', 'return'],
+      ['string', '"a\\"b"']
+    ])
+  })
+
+  it('uses the comment syntax of the language', () => {
+    expect(typed('# note\nselect 1 -- done', 'sql')).toEqual([['keyword', 'select'], ['number', '1'], ['comment', '-- done']])
+    expect(typed('# note', 'python')).toEqual([['comment', '# note']])
+    expect(typed('/* a\nb */ x', 'go')).toEqual([['comment', '/* a\nb */']])
+  })
+
+  it('does not treat digits inside identifiers as numbers', () => {
+    expect(typed('utf8 = v2', 'js')).toEqual([])
+  })
+
+  it('returns unknown languages as plain text that joins back to the source', () => {
+    const code = 'some {weird} code'
+    expect(highlightCode(code, 'brainfuck')).toEqual([{ type: 'plain', text: code }])
+    expect(highlightCode('a "b', 'js').map(token => token.text).join('')).toBe('a "b')
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildSrcSet,
+  coverWidthsFor,
+  normalizeProjectRecord,
+  parseCoverImage,
+  parseCoverOriginalPath
+} from '../src/index.js'
+
+const coverImage = {
+  source: 'project-covers/p/original/1700000000000-cover.png',
+  width: 2000,
+  height: 1000,
+  placeholder: 'data:image/webp;base64,AAAA',
+  fallback: 'https://cdn.example.com/cover-1600.jpg',
+  avif: [
+    { url: 'https://cdn.example.com/cover-960.avif', width: 960 },
+    { url: 'https://cdn.example.com/cover-480.avif', width: 480 }
+  ],
+  webp: [{ url: 'javascript:alert(1)', width: 480 }, { url: 'https://cdn.example.com/cover-480.webp', width: 480 }]
+}
+
+describe('parseCoverImage', () => {
+  it('sorts variants by width and drops unusable entries', () => {
+    const parsed = parseCoverImage(coverImage)
+    expect(parsed?.avif.map(variant => variant.width)).toEqual([480, 960])
+    expect(parsed?.webp).toEqual([{ url: 'https://cdn.example.com/cover-480.webp', width: 480 }])
+  })
+
+  it('rejects maps without a fallback or dimensions', () => {
+    expect(parseCoverImage({ ...coverImage, fallback: '' })).toBeUndefined()
+    expect(parseCoverImage({ ...coverImage, height: 0 })).toBeUndefined()
+    expect(parseCoverImage('https://cdn.example.com/cover.jpg')).toBeUndefined()
+  })
+
+  it('ignores placeholders that are not inline images', () => {
+    expect(parseCoverImage({ ...coverImage, placeholder: 'https://cdn.example.com/blur.webp' })?.placeholder).toBe('')
+  })
+})
+
+describe('normalizeProjectRecord cover images', () => {
+  it('uses the variants only while cover still points at their fallback', () => {
+    expect(normalizeProjectRecord({ id: 'p', cover: coverImage.fallback, cover_image: coverImage }).coverImage?.width).toBe(2000)
+    expect(normalizeProjectRecord({ id: 'p', cover: 'https://example.com/other.png', cover_image: coverImage }).coverImage).toBeUndefined()
+  })
+})
+
+describe('cover helpers', () => {
+  it('builds srcset strings', () => {
+    expect(buildSrcSet(parseCoverImage(coverImage)!.avif)).toBe(
+      'https://cdn.example.com/cover-480.avif 480w, https://cdn.example.com/cover-960.avif 960w'
+    )
+  })
+
+  it('never upscales small originals', () => {
+    expect(coverWidthsFor(3000)).toEqual([480, 960, 1600])
+    expect(coverWidthsFor(1200)).toEqual([480, 960, 1200])
+    expect(coverWidthsFor(300)).toEqual([300])
+  })
+
+  it('recognizes uploaded originals only', () => {
+    expect(parseCoverOriginalPath('project-covers/p1/original/cover.png')).toEqual({ projectId: 'p1', fileName: 'cover.png' })
+    expect(parseCoverOriginalPath('project-covers/p1/variants/cover-480.webp')).toBeNull()
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatJapaneseDate,
+  formatJapanesePeriod,
+  hasJapaneseHistory,
+  japaneseAge,
+  normalizeJapaneseResume,
+  rirekishoHistoryRows,
+  rirekishoQualificationRows,
+  serializeJapaneseResume,
+  shokumuCareers
+} from '../src/index.js'
+
+const raw = {
+  furigana: 'さんぷる たろう',
+  birth_date: '1990-06-15',
+  education_history: [
+    { id: 'graduated', date: '2013-03', text: 'サンプル大学 工学部 卒業' },
+    { id: 'entered', date: '2009-04', text: 'サンプル大学 工学部 入学' }
+  ],
+  careers: [
+    {
+      id: 'current',
+      company: 'Example株式会社',
+      start: '2019-04',
+      employment: '正社員',
+      role: 'バックエンドエンジニア',
+      items: 'API 設計\n運用改善'
+    },
+    { id: 'first', company: '株式会社サンプル', start: '2013-04', end: '2019-03' },
+    'not a career'
+  ],
+  qualifications: [{ date: '2015-08', text: '基本情報技術者試験 合格' }]
+}
+
+describe('normalizeJapaneseResume', () => {
+  it('reads entries, fills missing ids and round-trips through serializeJapaneseResume', () => {
+    const content = normalizeJapaneseResume(raw)
+    expect(content.nameKana).toBe('さんぷる たろう')
+    expect(content.careers[0].items).toEqual(['API 設計', '運用改善'])
+    expect(content.careers[2]).toMatchObject({ id: 'career-2', company: '' })
+    expect(content.qualifications[0].id).toBe('qualification-0')
+    expect(normalizeJapaneseResume(serializeJapaneseResume(content))).toEqual(content)
+  })
+})
+
+describe('Japanese dates', () => {
+  it('formats months, days and open periods', () => {
+    expect(formatJapaneseDate('2021-04')).toBe('2021年4月')
+    expect(formatJapaneseDate('1990-01-02')).toBe('1990年1月2日')
+    expect(formatJapaneseDate('平成25年')).toBe('平成25年')
+    expect(formatJapanesePeriod('2019-04', '')).toBe('2019年4月 〜 現在')
+  })
+
+  it('computes the age on a given day', () => {
+    expect(japaneseAge('1990-06-15', '2026-06-14')).toBe(35)
+    expect(japaneseAge('1990-06-15', '2026-06-15')).toBe(36)
+    expect(japaneseAge('1990-06', '2026-06-15')).toBeNull()
+  })
+})
+
+describe('rirekishoHistoryRows', () => {
+  it('lists education and employment in date order', () => {
+    expect(rirekishoHistoryRows(normalizeJapaneseResume(raw))).toEqual([
+      { year: '', month: '', text: '学歴', align: 'center' },
+      { year: '2009', month: '4', text: 'サンプル大学 工学部 入学' },
+      { year: '2013', month: '3', text: 'サンプル大学 工学部 卒業' },
+      { year: '', month: '', text: '職歴', align: 'center' },
+      { year: '2013', month: '4', text: '株式会社サンプル 入社' },
+      { year: '2019', month: '3', text: '株式会社サンプル 退社' },
+      { year: '2019', month: '4', text: 'Example株式会社 入社 （正社員）' },
+      { year: '', month: '', text: '　バックエンドエンジニア' },
+      { year: '', month: '', text: '現在に至る' },
+      { year: '', month: '', text: '以上', align: 'right' }
+    ])
+  })
+
+  it('fills the empty parts of the form', () => {
+    const content = normalizeJapaneseResume({})
+    expect(rirekishoHistoryRows(content).map(row => row.text)).toEqual(['学歴', '職歴', 'なし', '以上'])
+    expect(rirekishoQualificationRows(content)).toEqual([{ year: '', month: '', text: '特になし' }])
+    expect(hasJapaneseHistory(content)).toBe(false)
+    expect(hasJapaneseHistory(normalizeJapaneseResume(raw))).toBe(true)
+  })
+})
+
+describe('shokumuCareers', () => {
+  it('puts the latest employment first', () => {
+    expect(shokumuCareers(normalizeJapaneseResume(raw)).map(career => career.id)).toEqual(['current', 'first'])
+  })
+})
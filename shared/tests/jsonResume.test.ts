@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest'
+import {
+  JSON_RESUME_SCHEMA_URL,
+  fromJsonResume,
+  mergeJsonResume,
+  normalizeResumeDoc,
+  toJsonResume
+} from '../src/index.js'
+
+const file = {
+  basics: {
+    name: 'Sample Person',
+    label: 'Full-stack engineer',
+    summary: 'Builds web platforms.\n\nRuns them too.',
+    profiles: [{ network: 'GitHub', url: 'https://github.com/sample' }]
+  },
+  work: [
+    {
+      name: 'Example Co',
+      position: 'Lead Engineer',
+      startDate: '2021-04',
+      summary: 'Owned the ingest pipeline.',
+      highlights: ['Cut deploy time in half']
+    }
+  ],
+  education: [
+    { institution: 'Sample University', studyType: 'BSc', area: 'Computer Science', startDate: '2016', endDate: '2020' }
+  ],
+  skills: [
+    { name: 'Backend', keywords: ['TypeScript', 'PostgreSQL'] },
+    { name: 'Writing' }
+  ],
+  awards: [{ title: 'Ignored' }]
+}
+
+describe('fromJsonResume', () => {
+  it('maps basics, work, education and skills into one language', () => {
+    const imported = fromJsonResume(file, 'en')
+    expect(imported.headline).toBe('Full-stack engineer')
+    expect(imported.summary).toEqual(['Builds web platforms.', 'Runs them too.'])
+    expect(imported.knowsAbout).toEqual(['TypeScript', 'PostgreSQL'])
+    expect(imported.sections).toEqual([
+      {
+        id: 'work-1',
+        kind: 'work',
+        title: { en: 'Lead Engineer — Example Co (2021-04 – present)', ja: '' },
+        items: { en: ['Owned the ingest pipeline.', 'Cut deploy time in half'], ja: [] }
+      },
+      {
+        id: 'education',
+        kind: 'education',
+        title: { en: 'Education', ja: '' },
+        items: { en: ['BSc, Computer Science — Sample University (2016 – 2020)'], ja: [] }
+      },
+      {
+        id: 'skills',
+        kind: 'skills',
+        title: { en: 'Skills', ja: '' },
+        items: { en: ['Backend: TypeScript, PostgreSQL', 'Writing'], ja: [] }
+      }
+    ])
+    expect(fromJsonResume(file, 'ja').sections[0].title.ja).toBe('Lead Engineer — Example Co (2021-04 – 現在)')
+  })
+
+  it('rejects anything that is not an object', () => {
+    expect(() => fromJsonResume([], 'en')).toThrow('Expected a JSON Resume object.')
+    expect(fromJsonResume({}, 'en')).toEqual({ headline: '', summary: [], knowsAbout: [], sections: [] })
+  })
+})
+
+describe('mergeJsonResume', () => {
+  it('replaces one language of matching sections and appends the rest', () => {
+    const current = normalizeResumeDoc({
+      summary_ja: '既存の概要。',
+      sections: [
+        { id: 'skills', title: 'スキル', title_en: 'Old skills', items: ['旧'], items_en: ['Old'] },
+        { id: 'how-i-work', title_en: 'How I work', items_en: ['Small PRs'] }
+      ]
+    })
+    const merged = mergeJsonResume(current, fromJsonResume(file, 'en'), 'en')
+    expect(merged.summary.ja).toEqual(['既存の概要。'])
+    expect(merged.summary.en[0]).toBe('Builds web platforms.')
+    expect(merged.headline).toEqual({ en: 'Full-stack engineer', ja: '' })
+    expect(merged.knowsAbout).toEqual(['TypeScript', 'PostgreSQL'])
+    expect(merged.sections.map(section => section.id)).toEqual(['skills', 'how-i-work', 'work-1', 'education'])
+    expect(merged.sections[0]).toMatchObject({
+      kind: 'skills',
+      title: { en: 'Skills', ja: 'スキル' },
+      items: { ja: ['旧'] }
+    })
+  })
+
+  it('only fills an empty headline and topic list', () => {
+    const current = normalizeResumeDoc({ headline_en: 'Support Engineer', knows_about: ['APIs'] })
+    const merged = mergeJsonResume(current, fromJsonResume(file, 'en'), 'en')
+    expect(merged.headline.en).toBe('Support Engineer')
+    expect(merged.knowsAbout).toEqual(['APIs'])
+  })
+
+  it('keeps the summary when the file has none', () => {
+    const current = normalizeResumeDoc({ summary_en: 'Kept.' })
+    expect(mergeJsonResume(current, fromJsonResume({ skills: [] }, 'en'), 'en').summary.en).toEqual(['Kept.'])
+  })
+})
+
+describe('toJsonResume', () => {
+  it('round-trips imported sections and exports the rest as projects', () => {
+    const imported = fromJsonResume(file, 'en')
+    const resume = normalizeResumeDoc({
+      updated_at: '2026-05-01',
+      headline_en: imported.headline,
+      summary_en: imported.summary.join('\n\n'),
+      sections: [
+        ...imported.sections.map(section => ({
+          id: section.id,
+          kind: section.kind,
+          title_en: section.title.en,
+          items_en: section.items.en
+        })),
+        { id: 'how-i-work', title_en: 'How I work', items_en: ['Small PRs'] }
+      ]
+    })
+    const json = toJsonResume({
+      resume,
+      language: 'en',
+      name: 'Sample Person',
+      url: 'https://example.net',
+      profiles: [{ label: 'GitHub', url: 'https://github.com/sample' }]
+    })
+    expect(json).toEqual({
+      $schema: JSON_RESUME_SCHEMA_URL,
+      basics: {
+        name: 'Sample Person',
+        label: 'Full-stack engineer',
+        url: 'https://example.net',
+        summary: 'Builds web platforms.\n\nRuns them too.',
+        profiles: [{ network: 'GitHub', url: 'https://github.com/sample' }]
+      },
+      work: [{
+        name: 'Example Co',
+        position: 'Lead Engineer',
+        startDate: '2021-04',
+        highlights: ['Owned the ingest pipeline.', 'Cut deploy time in half']
+      }],
+      education: [{ institution: 'Sample University', area: 'BSc, Computer Science', startDate: '2016', endDate: '2020' }],
+      skills: [{ name: 'Backend', keywords: ['TypeScript', 'PostgreSQL'] }, { name: 'Writing' }],
+      projects: [{ name: 'How I work', highlights: ['Small PRs'] }],
+      meta: { canonical: 'https://example.net/resume.json', lastModified: '2026-05-01' }
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { markdownPlainText, parseInline, parseMarkdown, renderMarkdownHtml, safeMarkdownUrl } from '../src/index.js'
+
+describe('parseMarkdown', () => {
+  it('parses headings, paragraphs, rules and fenced code', () => {
+    expect(parseMarkdown('# Title\n\nFirst line\nsecond line\n\n---\n\n```ts\nconst a = 1\n```')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'First line\nsecond line' }] },
+      { type: 'rule' },
+      { type: 'code', language: 'ts', text: 'const a = 1' }
+    ])
+  })
+
+  it('groups list items and keeps the ordered start', () => {
+    expect(parseMarkdown('3. three\n4. four\n\n- a\n  continued\n- b')).toEqual([
+      { type: 'list', ordered: true, start: 3, items: [[{ type: 'text', text: 'three' }], [{ type: 'text', text: 'four' }]] },
+      { type: 'list', ordered: false, start: 1, items: [[{ type: 'text', text: 'a\ncontinued' }], [{ type: 'text', text: 'b' }]] }
+    ])
+  })
+
+  it('parses nested blocks inside quotes', () => {
+    expect(parseMarkdown('> ## Quote\n> - item')).toEqual([
+      {
+        type: 'blockquote',
+        children: [
+          { type: 'heading', level: 2, children: [{ type: 'text', text: 'Quote' }] },
+          { type: 'list', ordered: false, start: 1, items: [[{ type: 'text', text: 'item' }]] }
+        ]
+      }
+    ])
+  })
+
+  it('keeps an unterminated fence open to the end', () => {
+    expect(parseMarkdown('```\n# not a heading')).toEqual([{ type: 'code', language: '', text: '# not a heading' }])
+  })
+})
+
+describe('parseInline', () => {
+  it('parses emphasis, code, links and images', () => {
+    expect(parseInline('**bold** *em* `x*y` [site](https://example.net) ![alt](/a.png)')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'em' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'x*y' },
+      { type: 'text', text: ' ' },
+      { type: 'link', href: 'https://example.net', children: [{ type: 'text', text: 'site' }] },
+      { type: 'text', text: ' ' },
+      { type: 'image', src: '/a.png', alt: 'alt' }
+    ])
+  })
+
+  it('leaves intraword underscores alone', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }])
+  })
+
+  it('drops unsafe link targets but keeps the text', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', text: 'click)' }])
+    expect(safeMarkdownUrl('data:text/html,x')).toBe('')
+    expect(safeMarkdownUrl('mailto:me@example.net')).toBe('mailto:me@example.net')
+  })
+
+  it('turns trailing double spaces into line breaks', () => {
+    expect(parseInline('a  \nb')).toEqual([{ type: 'text', text: 'a' }, { type: 'break' }, { type: 'text', text: 'b' }])
+  })
+})
+
+describe('renderMarkdownHtml', () => {
+  it('escapes text and attributes', () => {
+    expect(renderMarkdownHtml(parseMarkdown('<script>x</script> [a"b](/p?q="1")'))).toBe(
+      '<p>&lt;script&gt;x&lt;/script&gt; <a href="/p?q=&quot;1&quot;">a&quot;b</a></p>'
+    )
+  })
+})
+
+describe('markdownPlainText', () => {
+  it('strips formatting', () => {
+    expect(markdownPlainText(parseMarkdown('## Hi\n\nSome **bold** [link](/x).\n\n- one\n- two'))).toBe('Hi\n\nSome bold link.\n\none\ntwo')
+  })
+})
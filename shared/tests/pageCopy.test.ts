@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ABOUT_FIELDS,
+  CONTACT_FIELDS,
+  HOME_FIELDS,
+  normalizeAboutDoc,
+  normalizeContactDoc,
+  normalizeHomeDoc,
+  validateAboutDoc,
+  validateContactDoc,
+  validateHomeDoc,
+  type AboutCopyContent,
+  type ContactCopyContent,
+  type FieldSpec,
+  type HomeCopyContent,
+  type RawDoc
+} from '../src/index.js'
+
+const homeReaders: Record<keyof typeof HOME_FIELDS, (home: HomeCopyContent) => unknown> = {
+  headlineEn: home => home.headline.en,
+  headlineJa: home => home.headline.ja,
+  supportingEn: home => home.supporting.en,
+  supportingJa: home => home.supporting.ja,
+  secondaryEn: home => home.secondary.en,
+  secondaryJa: home => home.secondary.ja,
+  linksEn: home => home.links.en,
+  linksJa: home => home.links.ja,
+  // List fields are compared as lines.
+  featuredProjectIds: home => home.featuredProjectIds.join('\n')
+}
+
+const aboutReaders: Record<keyof typeof ABOUT_FIELDS, (about: AboutCopyContent) => unknown> = {
+  headlineEn: about => about.headline.en,
+  headlineJa: about => about.headline.ja,
+  introEn: about => about.intro.en,
+  introJa: about => about.intro.ja,
+  linksEn: about => about.links.en,
+  linksJa: about => about.links.ja
+}
+
+const contactReaders: Record<keyof typeof CONTACT_FIELDS, (contact: ContactCopyContent) => unknown> = {
+  introEn: contact => contact.intro.en,
+  introJa: contact => contact.intro.ja,
+  availabilityEn: contact => contact.availability.en,
+  availabilityJa: contact => contact.availability.ja,
+  linksEn: contact => contact.links.en,
+  linksJa: contact => contact.links.ja
+}
+
+function coversEveryAlias<T>(
+  specs: Record<string, FieldSpec>,
+  readers: Record<string, (content: T) => unknown>,
+  normalize: (raw: RawDoc) => T
+) {
+  Object.entries(specs).forEach(([key, spec]) => {
+    spec.aliases.forEach(alias => {
+      it(`reads ${key} from "${alias}"`, () => {
+        const value = spec.kind === 'list' ? ['one', 'two'] : '  value  '
+        const expected = spec.kind === 'list' ? 'one\ntwo' : 'value'
+        expect(readers[key](normalize({ [alias]: value }))).toEqual(expected)
+      })
+    })
+  })
+}
+
+describe('normalizeHomeDoc', () => {
+  coversEveryAlias(HOME_FIELDS, homeReaders, normalizeHomeDoc)
+
+  it('prefers the localized field over the neutral legacy value', () => {
+    const home = normalizeHomeDoc({ supporting_ja: '日本語', blurb: 'Legacy' })
+    expect(home.supporting).toEqual({ en: 'Legacy', ja: '日本語' })
+  })
+
+  it('splits featured project ids stored as text', () => {
+    expect(normalizeHomeDoc({ featured_projects_en: 'one\n two \n' }).featuredProjectIds).toEqual(['one', 'two'])
+  })
+})
+
+describe('normalizeAboutDoc', () => {
+  coversEveryAlias(ABOUT_FIELDS, aboutReaders, normalizeAboutDoc)
+
+  it('reads the section copy', () => {
+    const about = normalizeAboutDoc({ what_i_do_title_en: 'What I do', what_i_do_ja: '連携\n運用' })
+    expect(about.sections.what_i_do).toEqual({
+      title: { en: 'What I do', ja: '' },
+      items: { en: '', ja: '連携\n運用' }
+    })
+    expect(about.sections.what_ive_shipped.title).toEqual({ en: '', ja: '' })
+  })
+
+  it('joins link arrays into lines', () => {
+    expect(normalizeAboutDoc({ same_as: ['https://a.example', 'B | https://b.example'] }).links.en)
+      .toBe('https://a.example\nB | https://b.example')
+  })
+})
+
+describe('normalizeContactDoc', () => {
+  coversEveryAlias(CONTACT_FIELDS, contactReaders, normalizeContactDoc)
+
+  it('returns empty copy for a missing document', () => {
+    expect(normalizeContactDoc(null)).toEqual({
+      intro: { en: '', ja: '' },
+      availability: { en: '', ja: '' },
+      links: { en: '', ja: '' }
+    })
+  })
+})
+
+describe('page copy validation', () => {
+  it('accepts well-formed documents', () => {
+    expect(validateHomeDoc({ headline_en: 'Hi', featured_project_ids: ['a'], links_ja: null })).toEqual([])
+    expect(validateAboutDoc({ intro_en: 'Hi', links_en: 'GitHub | https://github.com/me', what_i_do_en: 'a' })).toEqual([])
+    expect(validateContactDoc({ availability: 'Open', links: ['https://a.example'] })).toEqual([])
+  })
+
+  it('reports legacy and section fields with the wrong type', () => {
+    expect(validateHomeDoc({ blurb: 3 })).toEqual([{ field: 'blurb', message: 'Expected a string.' }])
+    expect(validateAboutDoc({ what_ive_shipped_title_ja: [] }))
+      .toEqual([{ field: 'what_ive_shipped_title_ja', message: 'Expected a string.' }])
+    expect(validateContactDoc({ same_as: { url: 'x' } }))
+      .toEqual([{ field: 'same_as', message: 'Expected a string or a list of strings.' }])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatAccessCode,
+  isPortalFileVisible,
+  isValidAccessCode,
+  normalizeAccessCode,
+  normalizeProjectRecord,
+  portalProjects,
+  protectedFileProjectId
+} from '../src/index.js'
+
+describe('access codes', () => {
+  it('ignores case, spaces and dashes', () => {
+    expect(normalizeAccessCode(' abcd-efgh 2345 ')).toBe('ABCDEFGH2345')
+    expect(formatAccessCode('ABCDEFGH2345')).toBe('ABCD-EFGH-2345')
+    expect(isValidAccessCode('ABCDEFGH2345')).toBe(true)
+    expect(isValidAccessCode('ABC')).toBe(false)
+    expect(isValidAccessCode('abcd-efgh-2345')).toBe(false)
+  })
+})
+
+describe('protected files', () => {
+  it('groups files by the folder under protected/', () => {
+    expect(protectedFileProjectId('protected/billing/diagram.pdf')).toBe('billing')
+    expect(protectedFileProjectId('protected/references.pdf')).toBe('')
+  })
+
+  it('shows shared files to everyone and project files to codes that include the project', () => {
+    expect(isPortalFileVisible('protected/references.pdf', ['billing'])).toBe(true)
+    expect(isPortalFileVisible('protected/billing/diagram.pdf', ['billing'])).toBe(true)
+    expect(isPortalFileVisible('protected/search/notes.pdf', ['billing'])).toBe(false)
+    expect(isPortalFileVisible('protected/search/notes.pdf', [])).toBe(true)
+    expect(isPortalFileVisible('protected/search/', [])).toBe(false)
+    expect(isPortalFileVisible('resumes/en.pdf', [])).toBe(false)
+  })
+})
+
+describe('portalProjects', () => {
+  it('keeps protected projects the code opens', () => {
+    const projects = [
+      normalizeProjectRecord({ id: 'billing', visibility: 'protected' }),
+      normalizeProjectRecord({ id: 'search', visibility: 'protected' }),
+      normalizeProjectRecord({ id: 'site' })
+    ]
+    expect(portalProjects(projects, []).map(project => project.id)).toEqual(['billing', 'search'])
+    expect(portalProjects(projects, ['search', 'site']).map(project => project.id)).toEqual(['search'])
+  })
+})
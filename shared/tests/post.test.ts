@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { isPostSlug, normalizePostRecord, slugify, sortPosts, validatePostDoc } from '../src/index.js'
+
+describe('normalizePostRecord', () => {
+  it('reads localized fields and defaults updatedAt to the publish date', () => {
+    const post = normalizePostRecord({
+      id: 'hello-world',
+      title_en: ' Hello ',
+      body_ja: '本文',
+      tags_en: 'one\ntwo',
+      publishedAt: '2026-05-01'
+    })
+    expect(post).toEqual({
+      slug: 'hello-world',
+      title: { en: 'Hello', ja: '' },
+      summary: { en: '', ja: '' },
+      body: { en: '', ja: '本文' },
+      tags: { en: ['one', 'two'], ja: [] },
+      cover: undefined,
+      publishedAt: '2026-05-01',
+      updatedAt: '2026-05-01'
+    })
+  })
+})
+
+describe('sortPosts', () => {
+  it('puts the newest post first', () => {
+    const posts = ['2026-01-01', '2026-03-01', '2026-02-01'].map((publishedAt, index) =>
+      normalizePostRecord({ id: `p${index}`, publishedAt })
+    )
+    expect(sortPosts(posts).map(post => post.slug)).toEqual(['p1', 'p2', 'p0'])
+  })
+})
+
+describe('slugs', () => {
+  it('slugifies titles into valid slugs', () => {
+    expect(slugify('  Déjà Vu: Firebase & React 19!  ')).toBe('deja-vu-firebase-react-19')
+    expect(isPostSlug(slugify('Déjà Vu'))).toBe(true)
+    expect(isPostSlug('Bad Slug')).toBe(false)
+    expect(isPostSlug('-leading')).toBe(false)
+  })
+})
+
+describe('validatePostDoc', () => {
+  it('reports wrong types and unparseable dates', () => {
+    expect(validatePostDoc({ title_en: 3, publishedAt: 'soon' })).toEqual([
+      { field: 'title_en', message: 'Expected a string.' },
+      { field: 'publishedAt', message: 'Expected an ISO date.' }
+    ])
+  })
+})
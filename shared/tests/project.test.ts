@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PROJECT_FIELDS,
+  normalizeProjectRecord,
+  projectOrder,
+  validateProjectDoc,
+  type ProjectRecord
+} from '../src/index.js'
+
+const readers: Record<Exclude<keyof typeof PROJECT_FIELDS, 'order' | 'coverImage' | 'blocks' | 'priority' | 'featured' | 'visibility'>, (project: ProjectRecord) => unknown> = {
+  titleEn: project => project.title.en,
+  titleJa: project => project.title.ja,
+  descriptionEn: project => project.description.en,
+  descriptionJa: project => project.description.ja,
+  summaryEn: project => project.summary.en,
+  summaryJa: project => project.summary.ja,
+  problemEn: project => project.problem.en,
+  problemJa: project => project.problem.ja,
+  systemsEn: project => project.systems.en,
+  systemsJa: project => project.systems.ja,
+  ownedEn: project => project.owned.en,
+  ownedJa: project => project.owned.ja,
+  architectureEn: project => project.architecture.en,
+  architectureJa: project => project.architecture.ja,
+  resultEn: project => project.result.en,
+  resultJa: project => project.result.ja,
+  impactEn: project => project.impact.en,
+  impactJa: project => project.impact.ja,
+  url: project => project.url,
+  repo: project => project.repo,
+  cover: project => project.cover,
+  tagsEn: project => project.tags.en,
+  tagsJa: project => project.tags.ja,
+  githubFullName: project => project.githubFullName,
+  githubOwner: project => project.githubOwner,
+  githubRepo: project => project.githubRepo,
+  githubUpdatedAt: project => project.githubUpdatedAt,
+  githubPushedAt: project => project.githubPushedAt,
+  githubLanguage: project => project.githubLanguage,
+  githubTopics: project => project.githubTopics
+}
+
+describe('normalizeProjectRecord', () => {
+  Object.entries(readers).forEach(([key, read]) => {
+    const spec = PROJECT_FIELDS[key as keyof typeof readers]
+    spec.aliases.forEach(alias => {
+      it(`reads ${key} from "${alias}"`, () => {
+        const value = spec.kind === 'list' ? [' TypeScript ', ''] : ' value '
+        const expected = spec.kind === 'list' ? ['TypeScript'] : 'value'
+        expect(read(normalizeProjectRecord({ id: 'p', [alias]: value }))).toEqual(expected)
+      })
+    })
+  })
+
+  it('keeps Japanese text separate from the legacy English field', () => {
+    const project = normalizeProjectRecord({ id: 'p', title: 'Legacy' })
+    expect(project.title).toEqual({ en: 'Legacy', ja: '' })
+  })
+
+  it('prefers the cover over image and thumbnail', () => {
+    expect(normalizeProjectRecord({ id: 'p', thumbnail: 't.png', image: 'i.png', cover: 'c.png' }).cover).toBe('c.png')
+  })
+
+  it('leaves optional links undefined when empty', () => {
+    const project = normalizeProjectRecord({ id: 'p', url: '', repo: null })
+    expect(project.url).toBeUndefined()
+    expect(project.repo).toBeUndefined()
+  })
+})
+
+describe('project priority', () => {
+  it('reads priority and featured without defaults', () => {
+    expect(normalizeProjectRecord({ id: 'p', priority: 2, featured: true })).toMatchObject({ priority: 2, featured: true })
+    const unset = normalizeProjectRecord({ id: 'p', priority: '2', featured: 'yes' })
+    expect(unset.priority).toBeUndefined()
+    expect(unset.featured).toBe(false)
+  })
+})
+
+describe('project visibility', () => {
+  it('treats anything but "protected" as public and reports unknown values', () => {
+    expect(normalizeProjectRecord({ id: 'p', visibility: 'protected' }).visibility).toBe('protected')
+    expect(normalizeProjectRecord({ id: 'p', visibility: 'secret' }).visibility).toBe('public')
+    expect(normalizeProjectRecord({ id: 'p' }).visibility).toBe('public')
+    expect(validateProjectDoc({ visibility: 'secret' })).toEqual([
+      { field: 'visibility', message: 'Expected "public" or "protected".' }
+    ])
+  })
+})
+
+describe('projectOrder', () => {
+  it('defaults to zero', () => {
+    expect(projectOrder({})).toBe(0)
+    expect(projectOrder({ order: 4 })).toBe(4)
+  })
+})
+
+describe('validateProjectDoc', () => {
+  it('reports legacy fields with the wrong type', () => {
+    expect(validateProjectDoc({ order: '2', tags: 'a\nb', github: 7 })).toEqual([
+      { field: 'github', message: 'Expected a string.' },
+      { field: 'order', message: 'Expected a number.' }
+    ])
+  })
+})
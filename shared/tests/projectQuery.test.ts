@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EMPTY_PROJECT_QUERY,
+  filterProjects,
+  isFacetSelected,
+  isProjectQueryActive,
+  normalizeProjectRecord,
+  parseProjectQuery,
+  projectFacets,
+  projectQueryParams,
+  projectTags,
+  sortProjects,
+  toggleFacetValue
+} from '../src/index.js'
+
+const projects = [
+  normalizeProjectRecord({
+    id: 'quest',
+    title_en: 'QuestByCycle',
+    summary_en: 'Bicycling challenges with background jobs.',
+    summary_ja: 'バックグラウンドジョブ付きのサイクリング企画。',
+    tags_en: ['Flask', 'PostgreSQL'],
+    github_language: 'Python',
+    github_topics: ['flask', 'gamification'],
+    github_pushed_at: '2026-03-01T00:00:00Z'
+  }),
+  normalizeProjectRecord({
+    id: 'crowdpm',
+    title_en: 'CrowdPM Platform',
+    title_ja: 'CrowdPM プラットフォーム',
+    systems_en: 'DPoP-bound ingest and Fastify APIs.',
+    tags_en: ['Firebase', 'TypeScript'],
+    tags_ja: ['Firebase', 'TypeScript'],
+    github_language: 'TypeScript',
+    github_pushed_at: '2026-05-01T00:00:00Z'
+  }),
+  normalizeProjectRecord({
+    id: 'moonshine',
+    title_en: 'Moonshine Art',
+    architecture_en: 'Flutter web client with Stripe Connect.',
+    tags_en: ['Flutter', 'Firebase']
+  })
+]
+
+const ids = (list: typeof projects) => list.map(project => project.id)
+const query = (params: string) => parseProjectQuery(new URLSearchParams(params))
+
+describe('parseProjectQuery', () => {
+  it('reads repeated facets and drops duplicates and unknown sorts', () => {
+    expect(query('q=+ingest+&tag=Firebase&tag=firebase&tag=&language=Python&sort=stars')).toEqual({
+      search: 'ingest',
+      tags: ['Firebase'],
+      languages: ['Python'],
+      sort: 'priority'
+    })
+  })
+
+  it('round-trips through projectQueryParams and omits defaults', () => {
+    const parsed = query('q=api&tag=Flask&tag=Firebase&sort=recent')
+    expect(parseProjectQuery(projectQueryParams(parsed))).toEqual(parsed)
+    expect(projectQueryParams(EMPTY_PROJECT_QUERY).toString()).toBe('')
+    expect(isProjectQueryActive(EMPTY_PROJECT_QUERY)).toBe(false)
+    expect(isProjectQueryActive(query('sort=title'))).toBe(true)
+  })
+})
+
+describe('filterProjects', () => {
+  it('searches titles and narratives in both languages', () => {
+    expect(ids(filterProjects(projects, query('q=fastify'), 'en'))).toEqual(['crowdpm'])
+    expect(ids(filterProjects(projects, query('q=サイクリング'), 'en'))).toEqual(['quest'])
+    expect(ids(filterProjects(projects, query('q=ＳＴＲＩＰＥ'), 'ja'))).toEqual(['moonshine'])
+  })
+
+  it('requires every search term', () => {
+    expect(ids(filterProjects(projects, query('q=firebase flutter'), 'en'))).toEqual(['moonshine'])
+  })
+
+  it('treats values within a facet as alternatives and facets as narrowing', () => {
+    expect(ids(filterProjects(projects, query('tag=flask&tag=flutter'), 'en'))).toEqual(['quest', 'moonshine'])
+    expect(ids(filterProjects(projects, query('tag=Firebase&language=TypeScript'), 'en'))).toEqual(['crowdpm'])
+  })
+})
+
+describe('projectFacets', () => {
+  it('merges tags with GitHub topics and counts what the other filters leave', () => {
+    expect(projectTags(projects[0], 'en')).toEqual(['Flask', 'PostgreSQL', 'gamification'])
+    const facets = projectFacets(projects, query('language=TypeScript&tag=Flask'), 'en')
+    expect(facets.tags).toEqual([
+      { value: 'Firebase', count: 1 },
+      { value: 'TypeScript', count: 1 },
+      { value: 'Flask', count: 0 }
+    ])
+    expect(facets.languages).toEqual([
+      { value: 'Python', count: 1 },
+      { value: 'TypeScript', count: 0 }
+    ])
+  })
+})
+
+describe('toggleFacetValue', () => {
+  it('adds and removes values regardless of case', () => {
+    expect(toggleFacetValue(['Flask'], 'Firebase')).toEqual(['Flask', 'Firebase'])
+    expect(toggleFacetValue(['flask', 'Firebase'], 'Flask')).toEqual(['Firebase'])
+    expect(isFacetSelected(['typescript'], 'TypeScript')).toBe(true)
+  })
+})
+
+describe('sortProjects', () => {
+  it('keeps the given order for priority and sorts by activity or title otherwise', () => {
+    expect(ids(sortProjects(projects, 'priority', 'en'))).toEqual(['quest', 'crowdpm', 'moonshine'])
+    expect(ids(sortProjects(projects, 'recent', 'en'))).toEqual(['crowdpm', 'quest', 'moonshine'])
+    expect(ids(sortProjects(projects, 'title', 'en'))).toEqual(['crowdpm', 'moonshine', 'quest'])
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import {
+  RESUME_FIELDS,
+  RESUME_HIGHLIGHT_FIELDS,
+  RESUME_SECTION_FIELDS,
+  normalizeResumeDoc,
+  normalizeResumeHighlight,
+  normalizeResumeSection,
+  validateResumeDoc,
+  type ResumeContent,
+  type ResumeHighlight,
+  type ResumeSectionContent
+} from '../src/index.js'
+
+const readers: Record<Exclude<keyof typeof RESUME_FIELDS, 'sections' | 'highlights' | 'variants' | 'education' | 'careers' | 'qualifications'>, {
+  value: unknown
+  read: (resume: ResumeContent) => unknown
+  expected: unknown
+}> = {
+  urlEn: { value: ' https://example.net/en.pdf ', read: resume => resume.urls.en, expected: 'https://example.net/en.pdf' },
+  urlJa: { value: ' https://example.net/ja.pdf ', read: resume => resume.urls.ja, expected: 'https://example.net/ja.pdf' },
+  pdfOverrideEn: { value: true, read: resume => resume.pdfOverride.en, expected: true },
+  pdfOverrideJa: { value: true, read: resume => resume.pdfOverride.ja, expected: true },
+  headlineEn: { value: ' Support Engineer ', read: resume => resume.headline.en, expected: 'Support Engineer' },
+  headlineJa: { value: 'サポートエンジニア', read: resume => resume.headline.ja, expected: 'サポートエンジニア' },
+  descriptionEn: { value: 'Builds APIs.', read: resume => resume.description.en, expected: 'Builds APIs.' },
+  descriptionJa: { value: 'API を構築。', read: resume => resume.description.ja, expected: 'API を構築。' },
+  leadEn: { value: 'Lead.', read: resume => resume.lead.en, expected: 'Lead.' },
+  leadJa: { value: 'リード。', read: resume => resume.lead.ja, expected: 'リード。' },
+  supportingEn: { value: 'Open to roles.', read: resume => resume.supporting.en, expected: 'Open to roles.' },
+  supportingJa: { value: '関心があります。', read: resume => resume.supporting.ja, expected: '関心があります。' },
+  summaryEn: { value: 'One.\n\nTwo.', read: resume => resume.summary.en, expected: ['One.', 'Two.'] },
+  knowsAbout: { value: 'Python\nSQL', read: resume => resume.knowsAbout, expected: ['Python', 'SQL'] },
+  summaryJa: { value: '一。\n\n二。', read: resume => resume.summary.ja, expected: ['一。', '二。'] },
+  updatedAt: { value: '2026-05-01', read: resume => resume.updatedAt, expected: '2026-05-01' },
+  jaEta: { value: '2026-06-01', read: resume => resume.jaEta, expected: '2026-06-01' },
+  nameKana: { value: ' さんぷる たろう ', read: resume => resume.japanese.nameKana, expected: 'さんぷる たろう' },
+  birthDate: { value: '1990-01-02', read: resume => resume.japanese.birthDate, expected: '1990-01-02' },
+  postalCode: { value: '150-0001', read: resume => resume.japanese.postalCode, expected: '150-0001' },
+  address: { value: '東京都渋谷区', read: resume => resume.japanese.address, expected: '東京都渋谷区' },
+  addressKana: { value: 'とうきょうと しぶやく', read: resume => resume.japanese.addressKana, expected: 'とうきょうと しぶやく' },
+  phone: { value: '090-0000-0000', read: resume => resume.japanese.phone, expected: '090-0000-0000' },
+  selfPr: { value: '自己PR。', read: resume => resume.japanese.selfPr, expected: '自己PR。' },
+  personalRequests: { value: 'リモート希望', read: resume => resume.japanese.personalRequests, expected: 'リモート希望' }
+}
+
+const sectionReaders: Record<Exclude<keyof typeof RESUME_SECTION_FIELDS, 'id' | 'kind'>, {
+  value: unknown
+  read: (section: ResumeSectionContent) => unknown
+  expected: unknown
+}> = {
+  titleEn: { value: 'Skills', read: section => section.title.en, expected: 'Skills' },
+  titleJa: { value: 'スキル', read: section => section.title.ja, expected: 'スキル' },
+  itemsEn: { value: 'One\nTwo', read: section => section.items.en, expected: ['One', 'Two'] },
+  itemsJa: { value: ['一', ' 二 '], read: section => section.items.ja, expected: ['一', '二'] }
+}
+
+const highlightReaders: Record<Exclude<keyof typeof RESUME_HIGHLIGHT_FIELDS, 'id'>, {
+  value: unknown
+  read: (highlight: ResumeHighlight) => unknown
+  expected: unknown
+}> = {
+  titleEn: { value: ' Focus ', read: highlight => highlight.title.en, expected: 'Focus' },
+  titleJa: { value: '主軸', read: highlight => highlight.title.ja, expected: '主軸' },
+  bodyEn: { value: 'APIs and support.', read: highlight => highlight.body.en, expected: 'APIs and support.' },
+  bodyJa: { value: 'API とサポート。', read: highlight => highlight.body.ja, expected: 'API とサポート。' }
+}
+
+describe('normalizeResumeDoc', () => {
+  Object.entries(readers).forEach(([key, { value, read, expected }]) => {
+    RESUME_FIELDS[key as keyof typeof readers].aliases.forEach(alias => {
+      it(`reads ${key} from "${alias}"`, () => {
+        expect(read(normalizeResumeDoc({ [alias]: value }))).toEqual(expected)
+      })
+    })
+  })
+
+  it('prefers localized fields over the shared legacy field', () => {
+    const resume = normalizeResumeDoc({ url: 'https://example.net/legacy.pdf', url_ja: 'https://example.net/ja.pdf' })
+    expect(resume.urls).toEqual({ en: 'https://example.net/legacy.pdf', ja: 'https://example.net/ja.pdf' })
+  })
+
+  it('normalizes sections and skips malformed entries', () => {
+    const resume = normalizeResumeDoc({
+      sections: [{ id: 'skills', title: 'Skills', items: ['A'] }, 'not a section']
+    })
+    expect(resume.sections).toEqual([
+      { id: 'skills', title: { en: 'Skills', ja: 'Skills' }, items: { en: ['A'], ja: ['A'] } },
+      { id: 'section-1', title: { en: '', ja: '' }, items: { en: [], ja: [] } }
+    ])
+  })
+
+  it('normalizes highlights and defaults to none', () => {
+    expect(normalizeResumeDoc({}).highlights).toEqual([])
+    expect(normalizeResumeDoc({ highlights: [{ id: 'focus', title: 'Focus', body: 'APIs' }, 42] }).highlights).toEqual([
+      { id: 'focus', title: { en: 'Focus', ja: 'Focus' }, body: { en: 'APIs', ja: 'APIs' } },
+      { id: 'highlight-1', title: { en: '', ja: '' }, body: { en: '', ja: '' } }
+    ])
+  })
+
+  it('ignores non-boolean overrides', () => {
+    expect(normalizeResumeDoc({ pdf_override_en: 'true' }).pdfOverride.en).toBe(false)
+  })
+})
+
+describe('normalizeResumeSection', () => {
+  Object.entries(sectionReaders).forEach(([key, { value, read, expected }]) => {
+    RESUME_SECTION_FIELDS[key as keyof typeof sectionReaders].aliases.forEach(alias => {
+      it(`reads ${key} from "${alias}"`, () => {
+        expect(read(normalizeResumeSection({ [alias]: value }, 0))).toEqual(expected)
+      })
+    })
+  })
+
+  it('generates an id from the position when none is stored', () => {
+    expect(normalizeResumeSection({}, 3).id).toBe('section-3')
+  })
+
+  it('keeps known kinds only', () => {
+    expect(normalizeResumeSection({ kind: 'work' }, 0).kind).toBe('work')
+    expect(normalizeResumeSection({ kind: 'hobbies' }, 0)).not.toHaveProperty('kind')
+  })
+})
+
+describe('normalizeResumeHighlight', () => {
+  Object.entries(highlightReaders).forEach(([key, { value, read, expected }]) => {
+    RESUME_HIGHLIGHT_FIELDS[key as keyof typeof highlightReaders].aliases.forEach(alias => {
+      it(`reads ${key} from "${alias}"`, () => {
+        expect(read(normalizeResumeHighlight({ [alias]: value }, 0))).toEqual(expected)
+      })
+    })
+  })
+})
+
+describe('validateResumeDoc', () => {
+  it('reports issues inside sections with their index', () => {
+    expect(validateResumeDoc({
+      jaTargetDate: 20260601,
+      sections: [{ title_en: 'Ok', items: [1, 2] }, null]
+    })).toEqual([
+      { field: 'jaTargetDate', message: 'Expected a string.' },
+      { field: 'sections[0].items', message: 'Expected a string or a list of strings.' },
+      { field: 'sections[1]', message: 'Expected an object.' }
+    ])
+  })
+
+  it('reports issues inside the Japanese histories with their index', () => {
+    expect(validateResumeDoc({
+      careers: [{ company: 'Example', items: [1] }],
+      qualifications: ['TOEIC']
+    })).toEqual([
+      { field: 'careers[0].items', message: 'Expected a string or a list of strings.' },
+      { field: 'qualifications[0]', message: 'Expected an object.' }
+    ])
+  })
+
+  it('reports issues inside highlights with their index', () => {
+    expect(validateResumeDoc({
+      highlights: [{ title_en: 'Focus', body_ja: ['not', 'text'] }, 'card']
+    })).toEqual([
+      { field: 'highlights[0].body_ja', message: 'Expected a string.' },
+      { field: 'highlights[1]', message: 'Expected an object.' }
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import {
+  RESUME_VARIANT_FIELDS,
+  applyResumeVariant,
+  findResumeVariant,
+  isValidResumeVariantId,
+  normalizeResumeDoc,
+  normalizeResumeVariant,
+  resumePageDescription,
+  serializeResumeVariant,
+  validateResumeDoc,
+  type ResumeVariant
+} from '../src/index.js'
+
+const readers: Record<Exclude<keyof typeof RESUME_VARIANT_FIELDS, 'id'>, {
+  value: unknown
+  read: (variant: ResumeVariant) => unknown
+  expected: unknown
+}> = {
+  label: { value: ' Support roles ', read: variant => variant.label, expected: 'Support roles' },
+  headlineEn: { value: 'Developer Support', read: variant => variant.headline.en, expected: 'Developer Support' },
+  headlineJa: { value: '開発者サポート', read: variant => variant.headline.ja, expected: '開発者サポート' },
+  summaryEn: { value: 'One.\n\nTwo.', read: variant => variant.summary.en, expected: ['One.', 'Two.'] },
+  summaryJa: { value: '一。', read: variant => variant.summary.ja, expected: ['一。'] },
+  sectionIds: { value: 'skills\nhow-i-work', read: variant => variant.sectionIds, expected: ['skills', 'how-i-work'] },
+  pdfUrlEn: { value: 'https://example.net/en.pdf', read: variant => variant.pdfUrls.en, expected: 'https://example.net/en.pdf' },
+  pdfUrlJa: { value: 'https://example.net/ja.pdf', read: variant => variant.pdfUrls.ja, expected: 'https://example.net/ja.pdf' }
+}
+
+const resume = normalizeResumeDoc({
+  headline_en: 'Support Engineer',
+  headline_ja: 'サポートエンジニア',
+  summary_en: 'Main summary.',
+  summary_ja: '概要。',
+  url_en: 'https://example.net/main.pdf',
+  pdf_override_en: true,
+  sections: [
+    { id: 'skills', title_en: 'Skills' },
+    { id: 'how-i-work', title_en: 'How I work' },
+    { id: 'systems', title_en: 'Systems' }
+  ],
+  variants: [
+    { id: 'support', headline_en: 'Developer Support', summary_en: 'Support summary.', section_ids: ['systems', 'gone', 'skills'] },
+    { id: 'everything' }
+  ]
+})
+
+describe('normalizeResumeVariant', () => {
+  Object.entries(readers).forEach(([key, { value, read, expected }]) => {
+    RESUME_VARIANT_FIELDS[key as keyof typeof readers].aliases.forEach(alias => {
+      it(`reads ${key} from "${alias}"`, () => {
+        expect(read(normalizeResumeVariant({ [alias]: value }, 0))).toEqual(expected)
+      })
+    })
+  })
+
+  it('round-trips through serializeResumeVariant', () => {
+    const variant = resume.variants[0]
+    expect(normalizeResumeVariant(serializeResumeVariant(variant), 0)).toEqual(variant)
+  })
+})
+
+describe('applyResumeVariant', () => {
+  it('orders the chosen sections and swaps the summary per language', () => {
+    const applied = applyResumeVariant(resume, findResumeVariant(resume, 'support')!)
+    expect(applied.sections.map(section => section.id)).toEqual(['systems', 'skills'])
+    expect(applied.summary).toEqual({ en: ['Support summary.'], ja: ['概要。'] })
+  })
+
+  it('swaps the headline per language', () => {
+    expect(applyResumeVariant(resume, findResumeVariant(resume, 'support')!).headline)
+      .toEqual({ en: 'Developer Support', ja: 'サポートエンジニア' })
+    expect(applyResumeVariant(resume, findResumeVariant(resume, 'everything')!).headline).toEqual(resume.headline)
+  })
+
+  it('keeps every section and generates the PDF when the variant has no upload', () => {
+    const applied = applyResumeVariant(resume, findResumeVariant(resume, 'everything')!)
+    expect(applied.sections).toEqual(resume.sections)
+    expect(applied.pdfOverride).toEqual({ en: false, ja: false })
+  })
+
+  it('finds nothing for unknown ids', () => {
+    expect(findResumeVariant(resume, 'missing')).toBeNull()
+    expect(findResumeVariant(null, 'support')).toBeNull()
+  })
+})
+
+describe('resumePageDescription', () => {
+  it('leads with the headline and falls back to the first summary paragraph', () => {
+    expect(resumePageDescription(resume, 'en')).toBe('Support Engineer — Main summary.')
+    expect(resumePageDescription(applyResumeVariant(resume, resume.variants[0]), 'en'))
+      .toBe('Developer Support — Support summary.')
+    expect(resumePageDescription(normalizeResumeDoc({ description_ja: '説明。' }), 'ja')).toBe('説明。')
+  })
+})
+
+describe('isValidResumeVariantId', () => {
+  it('accepts lowercase slugs that do not collide with other documents', () => {
+    expect(isValidResumeVariantId('developer-support')).toBe(true)
+    expect(isValidResumeVariantId('Developer Support')).toBe(false)
+    expect(isValidResumeVariantId('-support')).toBe(false)
+    expect(isValidResumeVariantId('rirekisho')).toBe(false)
+  })
+})
+
+describe('validateResumeDoc', () => {
+  it('reports issues inside variants with their index', () => {
+    expect(validateResumeDoc({ variants: [{ id: 'support', section_ids: [1] }] })).toEqual([
+      { field: 'variants[0].section_ids', message: 'Expected a string or a list of strings.' }
+    ])
+  })
+})
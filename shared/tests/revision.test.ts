@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { changedFields, diffFields } from '../src/index.js'
+
+describe('changedFields', () => {
+  it('lists added, removed and changed fields in order', () => {
+    expect(changedFields({ b: 1, a: 'x', tags: ['a'] }, { a: 'y', tags: ['a'], c: true })).toEqual(['a', 'b', 'c'])
+  })
+
+  it('treats a deletion as every field changing', () => {
+    expect(changedFields({ a: 1, b: 2 }, null)).toEqual(['a', 'b'])
+  })
+})
+
+describe('diffFields', () => {
+  it('serializes values for display', () => {
+    expect(diffFields({ tags: ['a'] }, { tags: ['a', 'b'], title: 'New' })).toEqual([
+      { field: 'tags', before: '[\n  "a"\n]', after: '[\n  "a",\n  "b"\n]' },
+      { field: 'title', before: '', after: 'New' }
+    ])
+  })
+})
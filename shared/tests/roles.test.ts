@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { roleCan, roleFromClaims } from '../src/index.js'
+
+describe('roleFromClaims', () => {
+  it('accepts known roles only', () => {
+    expect(roleFromClaims({ role: 'editor' })).toBe('editor')
+    expect(roleFromClaims({ role: 'admin' })).toBeNull()
+    expect(roleFromClaims({ admin: true })).toBeNull()
+    expect(roleFromClaims(null)).toBeNull()
+  })
+})
+
+describe('roleCan', () => {
+  it('limits translators to drafts and reserves user management for owners', () => {
+    expect(roleCan('translator', 'editDrafts')).toBe(true)
+    expect(roleCan('translator', 'publish')).toBe(false)
+    expect(roleCan('editor', 'publish')).toBe(true)
+    expect(roleCan('editor', 'manageUsers')).toBe(false)
+    expect(roleCan('translator', 'shareLinks')).toBe(false)
+    expect(roleCan('translator', 'portal')).toBe(false)
+    expect(roleCan('owner', 'manageUsers')).toBe(true)
+    expect(roleCan(null, 'editDrafts')).toBe(false)
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import {
+  isLinkPreviewAgent,
+  isValidShareTarget,
+  referrerOrigin,
+  shareLinkState,
+  shareTokenFromPath
+} from '../src/index.js'
+
+describe('shareTokenFromPath', () => {
+  it('reads the token from /s/<token>', () => {
+    expect(shareTokenFromPath('/s/Ab12Cd34Ef')).toBe('Ab12Cd34Ef')
+    expect(shareTokenFromPath('/s/Ab12Cd34Ef/')).toBe('Ab12Cd34Ef')
+    expect(shareTokenFromPath('/s/short')).toBeNull()
+    expect(shareTokenFromPath('/s/has-dash1')).toBeNull()
+    expect(shareTokenFromPath('/resume')).toBeNull()
+  })
+})
+
+describe('isValidShareTarget', () => {
+  it('accepts the resume, its PDFs and case studies', () => {
+    expect(isValidShareTarget('/resume')).toBe(true)
+    expect(isValidShareTarget('/ja/resume')).toBe(true)
+    expect(isValidShareTarget('/resume.pdf?lang=ja')).toBe(true)
+    expect(isValidShareTarget('/resume/developer-support.pdf')).toBe(true)
+    expect(isValidShareTarget('/projects/abc123')).toBe(true)
+  })
+
+  it('rejects other pages and external URLs', () => {
+    expect(isValidShareTarget('/admin')).toBe(false)
+    expect(isValidShareTarget('https://example.net/resume')).toBe(false)
+    expect(isValidShareTarget('//example.net/resume')).toBe(false)
+    expect(isValidShareTarget('/projects/a/../../admin')).toBe(false)
+  })
+})
+
+describe('shareLinkState', () => {
+  it('prefers revoked over expired', () => {
+    expect(shareLinkState({ revoked: false, expiresAt: null }, 1000)).toBe('active')
+    expect(shareLinkState({ revoked: false, expiresAt: 1000 }, 1000)).toBe('expired')
+    expect(shareLinkState({ revoked: true, expiresAt: 1000 }, 1000)).toBe('revoked')
+  })
+})
+
+describe('isLinkPreviewAgent', () => {
+  it('spots unfurlers and empty agents', () => {
+    expect(isLinkPreviewAgent('Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)')).toBe(true)
+    expect(isLinkPreviewAgent('LinkedInBot/1.0')).toBe(true)
+    expect(isLinkPreviewAgent('')).toBe(true)
+    expect(isLinkPreviewAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Safari/605.1.15')).toBe(false)
+  })
+})
+
+describe('referrerOrigin', () => {
+  it('drops the query string and anything that is not a web URL', () => {
+    expect(referrerOrigin('https://mail.example.com/inbox?id=123#read')).toBe('https://mail.example.com/inbox')
+    expect(referrerOrigin('https://www.linkedin.com/')).toBe('https://www.linkedin.com')
+    expect(referrerOrigin('android-app://com.google.android.gm/')).toBe('')
+    expect(referrerOrigin('')).toBe('')
+  })
+})
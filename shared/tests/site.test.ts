@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SITE_FIELDS,
+  normalizeSiteDoc,
+  siteProfileLinks,
+  validateSiteDoc,
+  type SiteContent
+} from '../src/index.js'
+
+const readers: Record<keyof typeof SITE_FIELDS, (site: SiteContent) => unknown> = {
+  nameEn: site => site.name.en,
+  nameJa: site => site.name.ja,
+  footerNote: site => site.footerNote,
+  contactEmail: site => site.contactEmail,
+  github: site => site.profiles.github,
+  linkedin: site => site.profiles.linkedin,
+  x: site => site.profiles.x,
+  youtube: site => site.profiles.youtube,
+  blog: site => site.profiles.blog,
+  website: site => site.profiles.website,
+  sameAs: site => site.sameAs,
+  resumeUrlEn: site => site.resume.enUrl,
+  resumeUrlJa: site => site.resume.jaUrl,
+  resumeJaStatus: site => site.resume.jaStatus
+}
+
+describe('normalizeSiteDoc', () => {
+  Object.entries(SITE_FIELDS).forEach(([key, spec]) => {
+    const read = readers[key as keyof typeof SITE_FIELDS]
+    spec.aliases.forEach(alias => {
+      it(`reads ${key} from "${alias}"`, () => {
+        const value = spec.kind === 'list' ? ['https://example.net/me'] : '  value  '
+        const expected = spec.kind === 'list' ? ['https://example.net/me'] : 'value'
+        expect(read(normalizeSiteDoc({ [alias]: value }))).toEqual(expected)
+      })
+    })
+  })
+
+  it('prefers the canonical field over legacy aliases', () => {
+    const site = normalizeSiteDoc({ github_url: 'github.com/new', githubUrl: 'github.com/old', github: 'github.com/older' })
+    expect(site.profiles.github).toBe('github.com/new')
+  })
+
+  it('falls through null values to the next alias', () => {
+    expect(normalizeSiteDoc({ youtube_url: null, youtubeUrl: 'youtube.com/@me' }).profiles.youtube).toBe('youtube.com/@me')
+  })
+
+  it('splits comma and newline separated sameAs strings', () => {
+    expect(normalizeSiteDoc({ same_as: 'a.example.net, b.example.net\nc.example.net' }).sameAs)
+      .toEqual(['a.example.net', 'b.example.net', 'c.example.net'])
+  })
+
+  it('returns empty content for a missing document', () => {
+    const site = normalizeSiteDoc(null)
+    expect(site.name).toEqual({ en: '', ja: '' })
+    expect(site.sameAs).toEqual([])
+  })
+})
+
+describe('siteProfileLinks', () => {
+  it('labels known profiles, including YouTube, and dedupes sameAs entries', () => {
+    const links = siteProfileLinks(normalizeSiteDoc({
+      github_url: 'github.com/me',
+      youtubeUrl: 'https://www.youtube.com/@me',
+      website: 'example.net',
+      sameAs: ['https://github.com/me', 'Mastodon | https://mastodon.example/@me', '/internal']
+    }))
+    expect(links).toEqual([
+      { label: 'GitHub', url: 'https://github.com/me' },
+      { label: 'YouTube', url: 'https://www.youtube.com/@me' },
+      { label: 'Website', url: 'https://example.net/' },
+      { label: 'Mastodon', url: 'https://mastodon.example/@me' }
+    ])
+  })
+})
+
+describe('validateSiteDoc', () => {
+  it('accepts a well-formed document', () => {
+    expect(validateSiteDoc({ name_en: 'Name', sameAs: ['https://example.net'], github_url: null })).toEqual([])
+  })
+
+  it('reports fields with the wrong type under the name they were stored as', () => {
+    expect(validateSiteDoc({ twitter: 42, profile_links: [1] })).toEqual([
+      { field: 'twitter', message: 'Expected a string.' },
+      { field: 'profile_links', message: 'Expected a string or a list of strings.' }
+    ])
+  })
+})
@@ -1,5 +1,9 @@
 import { defineConfig } from '@playwright/test'
 
+// `firebase emulators:exec` exports the Auth emulator address; hand it to Vite
+// so the app signs in against the emulator instead of a real project.
+const authEmulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST
+
 export default defineConfig({
   testDir: './tests',
   timeout: 60000,
@@ -18,6 +22,13 @@ export default defineConfig({
     command: 'VITE_USE_MOCK_DATA=true npm run dev -- --host=127.0.0.1 --port=4173',
     url: 'http://127.0.0.1:4173',
     reuseExistingServer: !process.env.CI,
-    timeout: 120000
+    timeout: 120000,
+    env: authEmulatorHost
+      ? {
+          VITE_FIREBASE_AUTH_EMULATOR_HOST: authEmulatorHost,
+          VITE_FIREBASE_API_KEY: 'demo-key',
+          VITE_FIREBASE_PROJECT_ID: process.env.GCLOUD_PROJECT ?? 'demo-personal-site'
+        }
+      : {}
   }
 })
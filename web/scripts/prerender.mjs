@@ -0,0 +1,99 @@
+// Renders every public route to static HTML after `vite build`.
+// Runs against dist-ssr/entry-server.js and rewrites dist/ in place.
+import { copyFile, mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const distDir = join(root, 'dist')
+const serverEntry = join(root, 'dist-ssr', 'entry-server.js')
+const firebaseConfig = join(root, '..', 'firebase.json')
+const strict = process.env.PRERENDER_STRICT === '1'
+
+// Tags the page's own SEO head replaces in the template.
+const TEMPLATE_HEAD_PATTERNS = [
+  /<title>[\s\S]*?<\/title>\s*/,
+  /<meta\s+name="description"[\s\S]*?\/>\s*/,
+  /<meta\s+name="robots"[\s\S]*?\/>\s*/,
+  /<link\s+rel="canonical"[\s\S]*?\/>\s*/,
+  /<meta\s+property="og:type"[\s\S]*?\/>\s*/,
+  /<meta\s+property="og:title"[\s\S]*?\/>\s*/,
+  /<meta\s+property="og:description"[\s\S]*?\/>\s*/,
+  /<meta\s+property="og:url"[\s\S]*?\/>\s*/
+]
+
+async function loadFunctionRewrites() {
+  try {
+    const config = JSON.parse(await readFile(firebaseConfig, 'utf8'))
+    return (config.hosting?.rewrites ?? [])
+      .filter(rewrite => rewrite.function && typeof rewrite.source === 'string')
+      .map(rewrite => rewrite.source)
+  } catch {
+    return []
+  }
+}
+
+// Hosting serves static files before rewrites, so a prerendered file would
+// shadow a path that a function is meant to answer.
+function isServedByFunction(path, sources) {
+  return sources.some(source => {
+    if (source === path) return true
+    if (source.endsWith('/**')) {
+      const prefix = source.slice(0, -3)
+      return path.startsWith(`${prefix}/`)
+    }
+    return false
+  })
+}
+
+function outputFile(path) {
+  return path === '/' ? join(distDir, 'index.html') : join(distDir, ...path.split('/').filter(Boolean).map(decodeURIComponent), 'index.html')
+}
+
+function applyTemplate(template, page) {
+  let html = template.replace(/<html lang="[^"]*">/, `<html lang="${page.language}">`)
+  if (page.head) {
+    html = TEMPLATE_HEAD_PATTERNS.reduce((current, pattern) => current.replace(pattern, ''), html)
+    html = html.replace('</head>', `  ${page.head}\n  </head>`)
+  }
+  return html
+    .replace(/\s*<noscript>[\s\S]*?<\/noscript>/, '')
+    .replace(
+      '<div id="root"></div>',
+      `<div id="root">${page.html}</div>\n    <script id="prerender-state" type="application/json">${page.state}</script>`
+    )
+}
+
+async function main() {
+  const templatePath = join(distDir, 'index.html')
+  const template = await readFile(templatePath, 'utf8')
+  // Unprerendered routes (admin, unknown paths) fall back to the plain shell.
+  await copyFile(templatePath, join(distDir, 'spa.html'))
+
+  const { listPrerenderPaths, renderPage } = await import(pathToFileURL(serverEntry).href)
+  const functionSources = await loadFunctionRewrites()
+  const paths = (await listPrerenderPaths()).filter(path => !isServedByFunction(path, functionSources))
+
+  let rendered = 0
+  for (const path of paths) {
+    try {
+      const page = await renderPage(path)
+      const file = outputFile(path)
+      await mkdir(dirname(file), { recursive: true })
+      await writeFile(file, applyTemplate(template, page))
+      rendered += 1
+    } catch (error) {
+      if (strict) throw error
+      console.warn(`prerender: skipped ${path}:`, error instanceof Error ? error.message : error)
+    }
+  }
+  console.log(`prerender: wrote ${rendered}/${paths.length} pages`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('prerender failed:', error)
+    // The SPA shell is still deployable, so only fail the build when asked to.
+    process.exit(strict ? 1 : 0)
+  })
@@ -0,0 +1,78 @@
+import type { ProjectRecord } from '../lib/content'
+import { localizedValue, projectNarrative } from '../lib/profileContent'
+import ProjectBlocks from './ProjectBlocks'
+import ProjectCoverMedia from './ProjectCoverMedia'
+
+// The body of a case study below its intro card, shared by the public
+// project page and the recruiter portal.
+export default function CaseStudyDetails({
+  project,
+  title,
+  language
+}: {
+  project: ProjectRecord
+  title: string
+  language: 'en' | 'ja'
+}) {
+  const tags = language === 'ja'
+    ? (project.tags.ja.length ? project.tags.ja : project.tags.en)
+    : (project.tags.en.length ? project.tags.en : project.tags.ja)
+  const narrative = projectNarrative(project)
+  const problem = localizedValue(narrative.problem, language)
+  const systems = localizedValue(narrative.systems, language)
+  const owned = localizedValue(narrative.owned, language)
+  const architecture = localizedValue(narrative.architecture, language)
+  const result = localizedValue(narrative.result, language)
+
+  return (
+    <>
+      {project.cover && (
+        <div className="project-cover-wrapper project-detail-cover">
+          <ProjectCoverMedia
+            cover={project.cover}
+            image={project.coverImage}
+            sizes="(min-width: 1100px) 1040px, 100vw"
+            alt={title}
+            className="project-cover"
+            fallbackText={title}
+            loading="eager"
+          />
+        </div>
+      )}
+
+      <section className="case-study-section">
+        <dl className="detail-grid large-detail-grid">
+          <div>
+            <dt>{language === 'ja' ? '課題' : 'Problem'}</dt>
+            <dd>{problem}</dd>
+          </div>
+          <div>
+            <dt>{language === 'ja' ? '関わるシステム' : 'Systems involved'}</dt>
+            <dd>{systems}</dd>
+          </div>
+          <div>
+            <dt>{language === 'ja' ? '連携 / バックエンド構成' : 'Integration / backend architecture'}</dt>
+            <dd>{architecture}</dd>
+          </div>
+          <div>
+            <dt>{language === 'ja' ? '担当範囲' : 'Delivery scope'}</dt>
+            <dd>{owned}</dd>
+          </div>
+          <div>
+            <dt>{language === 'ja' ? '運用結果' : 'Operational result'}</dt>
+            <dd>{result}</dd>
+          </div>
+        </dl>
+      </section>
+
+      <ProjectBlocks blocks={project.blocks} language={language} />
+
+      {tags.length > 0 && (
+        <section className="resume-section">
+          <h2>{language === 'ja' ? '技術キーワード' : 'Technical keywords'}</h2>
+          <div className="tags">{tags.map(tag => <span key={tag}>{tag}</span>)}</div>
+        </section>
+      )}
+    </>
+  )
+}
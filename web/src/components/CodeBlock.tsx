@@ -0,0 +1,20 @@
+import { useMemo } from 'react'
+import { highlightCode } from '../lib/schema'
+
+type CodeBlockProps = {
+  code: string
+  language: string
+}
+
+export default function CodeBlock({ code, language }: CodeBlockProps) {
+  const tokens = useMemo(() => highlightCode(code, language), [code, language])
+  return (
+    <pre className="code-block" data-language={language || undefined}>
+      <code>
+        {tokens.map((token, index) => (
+          token.type === 'plain' ? token.text : <span key={index} className={`token-${token.type}`}>{token.text}</span>
+        ))}
+      </code>
+    </pre>
+  )
+}
@@ -0,0 +1,206 @@
+import type { ChangeEvent } from 'react'
+import type { JapaneseCareer, JapaneseHistoryEntry, JapaneseResumeContent } from '../lib/schema'
+
+type JapaneseResumeEditorProps = {
+  value: JapaneseResumeContent
+  onChange: (value: JapaneseResumeContent) => void
+}
+
+type TextKey = 'nameKana' | 'birthDate' | 'postalCode' | 'address' | 'addressKana' | 'phone' | 'selfPr' | 'personalRequests'
+
+const createId = (prefix: string) => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`
+}
+
+function HistoryList({
+  label,
+  placeholder,
+  entries,
+  onChange
+}: {
+  label: string
+  placeholder: string
+  entries: JapaneseHistoryEntry[]
+  onChange: (entries: JapaneseHistoryEntry[]) => void
+}) {
+  const update = (id: string, patch: Partial<JapaneseHistoryEntry>) =>
+    onChange(entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)))
+
+  return (
+    <fieldset className="history-editor">
+      <legend>{label}</legend>
+      {entries.map(entry => (
+        <div key={entry.id} className="history-entry">
+          <input
+            type="month"
+            value={entry.date}
+            onChange={e => update(entry.id, { date: e.target.value })}
+            aria-label={`${label}: date`}
+          />
+          <input
+            value={entry.text}
+            onChange={e => update(entry.id, { text: e.target.value })}
+            placeholder={placeholder}
+            aria-label={`${label}: text`}
+          />
+          <button type="button" className="danger" onClick={() => onChange(entries.filter(item => item.id !== entry.id))}>
+            Remove
+          </button>
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange([...entries, { id: createId('entry'), date: '', text: '' }])}>
+        Add line
+      </button>
+    </fieldset>
+  )
+}
+
+// Structured fields for /resume/rirekisho and /resume/shokumu-keirekisho.
+// Employment is entered once and becomes both the 職歴 lines of the 履歴書 and
+// the entries of the 職務経歴書.
+export default function JapaneseResumeEditor({ value, onChange }: JapaneseResumeEditorProps) {
+  const text = (key: TextKey) => ({
+    value: value[key],
+    onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange({ ...value, [key]: e.target.value })
+  })
+
+  function updateCareer(id: string, patch: Partial<JapaneseCareer>) {
+    onChange({ ...value, careers: value.careers.map(career => (career.id === id ? { ...career, ...patch } : career)) })
+  }
+
+  function moveCareer(index: number, offset: -1 | 1) {
+    const target = index + offset
+    if (target < 0 || target >= value.careers.length) return
+    const careers = [...value.careers]
+    ;[careers[index], careers[target]] = [careers[target], careers[index]]
+    onChange({ ...value, careers })
+  }
+
+  function removeCareer(id: string) {
+    if (!confirm('Remove this employment?')) return
+    onChange({ ...value, careers: value.careers.filter(career => career.id !== id) })
+  }
+
+  function addCareer() {
+    onChange({
+      ...value,
+      careers: [
+        ...value.careers,
+        { id: createId('career'), company: '', start: '', end: '', employment: '', role: '', description: '', items: [] }
+      ]
+    })
+  }
+
+  return (
+    <div className="block-editor">
+      <label>
+        Name reading (ふりがな)
+        <input {...text('nameKana')} placeholder="やまだ たろう" />
+      </label>
+      <label>
+        Birth date (生年月日)
+        <input type="date" {...text('birthDate')} />
+      </label>
+      <label>
+        Postal code (郵便番号)
+        <input {...text('postalCode')} placeholder="150-0001" />
+      </label>
+      <label>
+        Address (現住所)
+        <input {...text('address')} />
+      </label>
+      <label>
+        Address reading (ふりがな)
+        <input {...text('addressKana')} />
+      </label>
+      <label>
+        Phone (電話)
+        <input type="tel" {...text('phone')} />
+      </label>
+
+      <HistoryList
+        label="Education (学歴)"
+        placeholder="○○大学 工学部 入学"
+        entries={value.education}
+        onChange={education => onChange({ ...value, education })}
+      />
+
+      <h4>Employment (職歴)</h4>
+      {value.careers.length === 0 && <p className="muted">No employment yet. The 履歴書 prints なし under 職歴.</p>}
+      <div className="section-editors">
+        {value.careers.map((career, index) => (
+          <div key={career.id} className="section-editor">
+            <div className="section-editor-header">
+              <h4>{career.company || `Employment ${index + 1}`}</h4>
+              <div className="actions">
+                <button type="button" onClick={() => moveCareer(index, -1)} disabled={index === 0} aria-label="Move employment up">↑</button>
+                <button type="button" onClick={() => moveCareer(index, 1)} disabled={index === value.careers.length - 1} aria-label="Move employment down">↓</button>
+                <button type="button" className="danger" onClick={() => removeCareer(career.id)}>Delete</button>
+              </div>
+            </div>
+            <label>
+              Company (会社名)
+              <input value={career.company} onChange={e => updateCareer(career.id, { company: e.target.value })} />
+            </label>
+            <label>
+              Employment type (雇用形態)
+              <input
+                value={career.employment}
+                onChange={e => updateCareer(career.id, { employment: e.target.value })}
+                placeholder="正社員"
+              />
+            </label>
+            <label>
+              Joined (入社)
+              <input type="month" value={career.start} onChange={e => updateCareer(career.id, { start: e.target.value })} />
+            </label>
+            <label>
+              Left (退社, empty while employed)
+              <input type="month" value={career.end} onChange={e => updateCareer(career.id, { end: e.target.value })} />
+            </label>
+            <label>
+              Role or department (役職・部署)
+              <input value={career.role} onChange={e => updateCareer(career.id, { role: e.target.value })} />
+            </label>
+            <label>
+              Work description (業務内容)
+              <textarea
+                value={career.description}
+                onChange={e => updateCareer(career.id, { description: e.target.value })}
+                rows={3}
+              />
+            </label>
+            <label>
+              Achievements, one per line (実績)
+              <textarea
+                value={career.items.join('\n')}
+                onChange={e => updateCareer(career.id, { items: e.target.value.split('\n') })}
+                rows={3}
+              />
+            </label>
+          </div>
+        ))}
+      </div>
+      <button type="button" onClick={addCareer}>Add employment</button>
+
+      <HistoryList
+        label="Licenses and qualifications (免許・資格)"
+        placeholder="基本情報技術者試験 合格"
+        entries={value.qualifications}
+        onChange={qualifications => onChange({ ...value, qualifications })}
+      />
+
+      <label>
+        Motivation and self-promotion (志望の動機・自己PR)
+        <textarea {...text('selfPr')} rows={4} />
+      </label>
+      <label>
+        Personal requests (本人希望記入欄)
+        <textarea {...text('personalRequests')} rows={2} placeholder="貴社の規定に従います。" />
+      </label>
+    </div>
+  )
+}
@@ -1,10 +1,12 @@
-import { Link, NavLink, Outlet, useLoaderData, useLocation, useNavigation } from 'react-router-dom'
+import { Link, NavLink, Outlet, useLoaderData, useLocation, useNavigate, useNavigation } from 'react-router-dom'
 import { Suspense, memo, useMemo, use, useState, useCallback, useEffect, useRef } from 'react'
 import type { ReactNode, RefObject } from 'react'
 import ThemeSwitcher from './ThemeSwitcher'
 import LanguageSwitcher from './LanguageSwitcher'
-import { useLanguage } from '../lib/language'
+import { RouteLanguageProvider, languageFromPath, localizePath, stripLanguagePrefix, useLanguage } from '../lib/language'
 import type { SupportedLanguage } from '../lib/language'
+import { useAuth } from '../lib/auth'
+import { exitPreview, isPreviewRequested } from '../lib/preview'
 import { getLocalizedSiteName, normalizeSite, type SiteCopy } from '../lib/site'
 import type { AppLayoutLoaderData } from '../routes'
 
@@ -14,6 +16,7 @@ const navLabels = {
     about: 'About',
     resume: 'Resume',
     projects: 'Case Studies',
+    writing: 'Writing',
     contact: 'Contact'
   },
   ja: {
@@ -21,6 +24,7 @@ const navLabels = {
     about: '紹介',
     resume: '履歴書',
     projects: '事例',
+    writing: '記事',
     contact: '連絡先'
   }
 }
@@ -110,7 +114,7 @@ const Header = memo(function Header({
       className="topnav"
     >
       <div className="navcontent shell-frame">
-        <Link to="/" className="brand" prefetch="intent">
+        <Link to={localizePath('/', language)} className="brand" prefetch="intent">
           {siteName}
         </Link>
         <nav
@@ -303,31 +307,59 @@ export function LayoutHydrateFallback() {
   )
 }
 
+function PreviewBanner() {
+  const { user } = useAuth()
+  if (!isPreviewRequested()) return null
+  return (
+    <div className="preview-banner" role="status">
+      <span>{user ? 'Previewing unpublished drafts.' : 'Sign in as an admin to preview drafts.'}</span>
+      <button type="button" onClick={exitPreview}>Exit preview</button>
+    </div>
+  )
+}
+
 export default function Layout() {
-  const { language } = useLanguage()
+  const { language: storedLanguage, setLanguage: storeLanguage } = useLanguage()
   const loaderData = useLoaderData() as AppLayoutLoaderData
   const location = useLocation()
+  const navigate = useNavigate()
   const navigation = useNavigation()
-  const routeMode: RouteMode = location.pathname.startsWith('/projects') ? 'projects' : 'default'
+  const language = languageFromPath(location.pathname) ?? 'en'
+  const routeMode: RouteMode = stripLanguagePrefix(location.pathname).startsWith('/projects') ? 'projects' : 'default'
+
+  useEffect(() => {
+    if (storedLanguage !== language) {
+      storeLanguage(language)
+    }
+  }, [language, storedLanguage, storeLanguage])
+
+  const changeLanguage = useCallback((next: SupportedLanguage) => {
+    if (next === language) return
+    navigate(`${localizePath(location.pathname, next)}${location.search}${location.hash}`)
+  }, [language, location.hash, location.pathname, location.search, navigate])
 
   const navItems = useMemo<NavItem[]>(() => ([
-    { to: '/', label: navLabels[language].home, end: true },
-    { to: '/about', label: navLabels[language].about },
-    { to: '/resume', label: navLabels[language].resume },
-    { to: '/projects', label: navLabels[language].projects },
-    { to: '/contact', label: navLabels[language].contact }
+    { to: localizePath('/', language), label: navLabels[language].home, end: true },
+    { to: localizePath('/about', language), label: navLabels[language].about },
+    { to: localizePath('/resume', language), label: navLabels[language].resume },
+    { to: localizePath('/projects', language), label: navLabels[language].projects },
+    { to: localizePath('/writing', language), label: navLabels[language].writing },
+    { to: localizePath('/contact', language), label: navLabels[language].contact }
   ]), [language])
 
   return (
-    <Suspense fallback={<LayoutHydrateFallback />}>
-      <ResolvedAppChrome
-        sitePromise={loaderData.site}
-        language={language}
-        navItems={navItems}
-        navigationState={navigation.state as NavigationStatus}
-        routeMode={routeMode}
-      />
-    </Suspense>
+    <RouteLanguageProvider language={language} setLanguage={changeLanguage}>
+      <PreviewBanner />
+      <Suspense fallback={<LayoutHydrateFallback />}>
+        <ResolvedAppChrome
+          sitePromise={loaderData.site}
+          language={language}
+          navItems={navItems}
+          navigationState={navigation.state as NavigationStatus}
+          routeMode={routeMode}
+        />
+      </Suspense>
+    </RouteLanguageProvider>
   )
 }
 
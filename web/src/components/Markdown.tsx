@@ -0,0 +1,70 @@
+import { useMemo, type ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import CodeBlock from './CodeBlock'
+import { localizePath, type SupportedLanguage } from '../lib/language'
+import { isInternalHref, parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../lib/schema'
+
+type MarkdownProps = {
+  source: string
+  language: SupportedLanguage
+  className?: string
+}
+
+function renderInline(nodes: MarkdownInline[], language: SupportedLanguage): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, language)}</strong>
+      case 'em':
+        return <em key={index}>{renderInline(node.children, language)}</em>
+      case 'code':
+        return <code key={index}>{node.text}</code>
+      case 'link':
+        return isInternalHref(node.href) ? (
+          <Link key={index} to={localizePath(node.href, language)} prefetch="intent">
+            {renderInline(node.children, language)}
+          </Link>
+        ) : (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children, language)}
+          </a>
+        )
+      case 'image':
+        return <img key={index} src={node.src} alt={node.alt} loading="lazy" decoding="async" />
+      case 'break':
+        return <br key={index} />
+    }
+  })
+}
+
+function renderBlocks(blocks: MarkdownBlock[], language: SupportedLanguage): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as const
+        return <Heading key={index}>{renderInline(block.children, language)}</Heading>
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, language)}</p>
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, language)}</li>)
+        return block.ordered
+          ? <ol key={index} start={block.start}>{items}</ol>
+          : <ul key={index}>{items}</ul>
+      }
+      case 'blockquote':
+        return <blockquote key={index}>{renderBlocks(block.children, language)}</blockquote>
+      case 'code':
+        return <CodeBlock key={index} code={block.text} language={block.language} />
+      case 'rule':
+        return <hr key={index} />
+    }
+  })
+}
+
+export default function Markdown({ source, language, className = 'prose' }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source])
+  return <div className={className}>{renderBlocks(blocks, language)}</div>
+}
@@ -0,0 +1,88 @@
+import type { SupportedLanguage } from '../lib/language'
+import { localized, type ProjectBlock } from '../lib/schema'
+import CodeBlock from './CodeBlock'
+import Markdown from './Markdown'
+
+type ProjectBlocksProps = {
+  blocks: ProjectBlock[]
+  language: SupportedLanguage
+}
+
+// Missing translations fall back to the other language, block by block.
+function ProjectBlockView({ block, language }: { block: ProjectBlock; language: SupportedLanguage }) {
+  const text = (value: { en: string; ja: string }) => localized(value, language)
+
+  switch (block.type) {
+    case 'markdown':
+      return <Markdown source={text(block.body)} language={language} />
+    case 'gallery':
+      return (
+        <div className="block-gallery">
+          {block.images.map((image, index) => (
+            <figure key={`${image.url}-${index}`}>
+              <img src={image.url} alt={text(image.caption)} loading="lazy" decoding="async" />
+              {text(image.caption) && <figcaption>{text(image.caption)}</figcaption>}
+            </figure>
+          ))}
+        </div>
+      )
+    case 'code':
+      return (
+        <figure className="block-code">
+          <CodeBlock code={block.code} language={block.language} />
+          {text(block.caption) && <figcaption>{text(block.caption)}</figcaption>}
+        </figure>
+      )
+    case 'diagram':
+      return (
+        <figure className="block-diagram">
+          <img src={block.url} alt={text(block.description) || text(block.caption)} loading="lazy" decoding="async" />
+          {text(block.caption) && <figcaption>{text(block.caption)}</figcaption>}
+        </figure>
+      )
+    case 'metrics':
+      return (
+        <div className="block-metrics">
+          <table>
+            {text(block.title) && <caption>{text(block.title)}</caption>}
+            <thead>
+              <tr>
+                <th scope="col">{language === 'ja' ? '指標' : 'Metric'}</th>
+                <th scope="col">{language === 'ja' ? '結果' : 'Result'}</th>
+                <th scope="col">{language === 'ja' ? '補足' : 'Notes'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, index) => (
+                <tr key={index}>
+                  <th scope="row">{text(row.label)}</th>
+                  <td>{text(row.value)}</td>
+                  <td>{text(row.note)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )
+    case 'quote':
+      return (
+        <figure className="block-quote">
+          <blockquote>{text(block.text)}</blockquote>
+          {text(block.attribution) && <figcaption>— {text(block.attribution)}</figcaption>}
+        </figure>
+      )
+  }
+}
+
+export default function ProjectBlocks({ blocks, language }: ProjectBlocksProps) {
+  if (!blocks.length) return null
+  return (
+    <div className="project-blocks">
+      {blocks.map(block => (
+        <section key={block.id} className={`project-block project-block-${block.type}`}>
+          <ProjectBlockView block={block} language={language} />
+        </section>
+      ))}
+    </div>
+  )
+}
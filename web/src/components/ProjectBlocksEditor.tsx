@@ -0,0 +1,201 @@
+import { useState } from 'react'
+import {
+  PROJECT_BLOCK_LABELS,
+  PROJECT_BLOCK_TYPES,
+  emptyProjectBlock,
+  type LocalizedText,
+  type ProjectBlock,
+  type ProjectBlockType
+} from '../lib/schema'
+
+type ProjectBlocksEditorProps = {
+  blocks: ProjectBlock[]
+  onChange: (blocks: ProjectBlock[]) => void
+}
+
+const createId = () => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `block-${Date.now()}-${Math.random().toString(16).slice(2)}`
+}
+
+const blank: LocalizedText = { en: '', ja: '' }
+
+function LocalizedInputs({
+  label,
+  value,
+  onChange,
+  rows
+}: {
+  label: string
+  value: LocalizedText
+  onChange: (value: LocalizedText) => void
+  rows?: number
+}) {
+  const Field = rows ? 'textarea' : 'input'
+  return (
+    <>
+      <label>
+        {label} (English)
+        <Field value={value.en} rows={rows} onChange={e => onChange({ ...value, en: e.target.value })} />
+      </label>
+      <label>
+        {label} (日本語)
+        <Field value={value.ja} rows={rows} onChange={e => onChange({ ...value, ja: e.target.value })} />
+      </label>
+    </>
+  )
+}
+
+function BlockFields({ block, onChange }: { block: ProjectBlock; onChange: (block: ProjectBlock) => void }) {
+  switch (block.type) {
+    case 'markdown':
+      return <LocalizedInputs label="Markdown" value={block.body} rows={8} onChange={body => onChange({ ...block, body })} />
+    case 'gallery':
+      return (
+        <>
+          {block.images.map((image, index) => {
+            const setImage = (next: typeof image | null) => onChange({
+              ...block,
+              images: next
+                ? block.images.map((entry, entryIndex) => (entryIndex === index ? next : entry))
+                : block.images.filter((_, entryIndex) => entryIndex !== index)
+            })
+            return (
+              <div key={index} className="block-editor-row">
+                <label>
+                  Image URL
+                  <input value={image.url} onChange={e => setImage({ ...image, url: e.target.value })} placeholder="https://…" />
+                </label>
+                <LocalizedInputs label="Caption" value={image.caption} onChange={caption => setImage({ ...image, caption })} />
+                <button type="button" className="danger" onClick={() => setImage(null)}>Remove image</button>
+              </div>
+            )
+          })}
+          <button type="button" onClick={() => onChange({ ...block, images: [...block.images, { url: '', caption: blank }] })}>
+            Add image
+          </button>
+        </>
+      )
+    case 'code':
+      return (
+        <>
+          <label>
+            Language
+            <input value={block.language} onChange={e => onChange({ ...block, language: e.target.value })} placeholder="ts, go, sql…" />
+          </label>
+          <label>
+            Code
+            <textarea
+              value={block.code}
+              rows={10}
+              spellCheck={false}
+              className="code-input"
+              onChange={e => onChange({ ...block, code: e.target.value })}
+            />
+          </label>
+          <LocalizedInputs label="Caption" value={block.caption} onChange={caption => onChange({ ...block, caption })} />
+        </>
+      )
+    case 'diagram':
+      return (
+        <>
+          <label>
+            Diagram image URL (SVG or PNG)
+            <input value={block.url} onChange={e => onChange({ ...block, url: e.target.value })} placeholder="https://…" />
+          </label>
+          <LocalizedInputs label="Caption" value={block.caption} onChange={caption => onChange({ ...block, caption })} />
+          <LocalizedInputs
+            label="Text description"
+            value={block.description}
+            rows={3}
+            onChange={description => onChange({ ...block, description })}
+          />
+        </>
+      )
+    case 'metrics':
+      return (
+        <>
+          <LocalizedInputs label="Table title" value={block.title} onChange={title => onChange({ ...block, title })} />
+          {block.rows.map((row, index) => {
+            const setRow = (next: typeof row | null) => onChange({
+              ...block,
+              rows: next
+                ? block.rows.map((entry, entryIndex) => (entryIndex === index ? next : entry))
+                : block.rows.filter((_, entryIndex) => entryIndex !== index)
+            })
+            return (
+              <div key={index} className="block-editor-row">
+                <LocalizedInputs label="Metric" value={row.label} onChange={label => setRow({ ...row, label })} />
+                <LocalizedInputs label="Result" value={row.value} onChange={value => setRow({ ...row, value })} />
+                <LocalizedInputs label="Notes" value={row.note} onChange={note => setRow({ ...row, note })} />
+                <button type="button" className="danger" onClick={() => setRow(null)}>Remove row</button>
+              </div>
+            )
+          })}
+          <button type="button" onClick={() => onChange({ ...block, rows: [...block.rows, { label: blank, value: blank, note: blank }] })}>
+            Add row
+          </button>
+        </>
+      )
+    case 'quote':
+      return (
+        <>
+          <LocalizedInputs label="Quote" value={block.text} rows={3} onChange={text => onChange({ ...block, text })} />
+          <LocalizedInputs label="Attribution" value={block.attribution} onChange={attribution => onChange({ ...block, attribution })} />
+        </>
+      )
+  }
+}
+
+export default function ProjectBlocksEditor({ blocks, onChange }: ProjectBlocksEditorProps) {
+  const [newType, setNewType] = useState<ProjectBlockType>('markdown')
+
+  function update(index: number, block: ProjectBlock) {
+    onChange(blocks.map((entry, entryIndex) => (entryIndex === index ? block : entry)))
+  }
+
+  function move(index: number, offset: -1 | 1) {
+    const target = index + offset
+    if (target < 0 || target >= blocks.length) return
+    const next = [...blocks]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  function remove(index: number) {
+    if (!confirm('Remove this block?')) return
+    onChange(blocks.filter((_, entryIndex) => entryIndex !== index))
+  }
+
+  return (
+    <div className="block-editor">
+      <h4>Case study blocks</h4>
+      {blocks.length === 0 && <p className="muted">No blocks yet. They appear below the summary on the case study page.</p>}
+      <div className="section-editors">
+        {blocks.map((block, index) => (
+          <div key={block.id} className="section-editor">
+            <div className="section-editor-header">
+              <h4>{index + 1}. {PROJECT_BLOCK_LABELS[block.type]}</h4>
+              <div className="actions">
+                <button type="button" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move block up">↑</button>
+                <button type="button" onClick={() => move(index, 1)} disabled={index === blocks.length - 1} aria-label="Move block down">↓</button>
+                <button type="button" className="danger" onClick={() => remove(index)}>Delete</button>
+              </div>
+            </div>
+            <BlockFields block={block} onChange={next => update(index, next)} />
+          </div>
+        ))}
+      </div>
+      <div className="actions">
+        <select value={newType} onChange={e => setNewType(e.target.value as ProjectBlockType)} aria-label="Block type">
+          {PROJECT_BLOCK_TYPES.map(type => <option key={type} value={type}>{PROJECT_BLOCK_LABELS[type]}</option>)}
+        </select>
+        <button type="button" onClick={() => onChange([...blocks, emptyProjectBlock(newType, createId())])}>
+          Add block
+        </button>
+      </div>
+    </div>
+  )
+}
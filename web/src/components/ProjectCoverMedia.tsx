@@ -1,26 +1,37 @@
 import { useEffect, useState } from 'react'
-import { getProjectCoverSrc } from '../lib/projectCovers'
+import { getProjectCoverSources, getProjectCoverSrc } from '../lib/projectCovers'
+import { buildSrcSet, type ProjectCoverImage } from '../lib/schema'
 
 type ProjectCoverMediaProps = {
   cover?: string
+  // Variants generated from an uploaded cover; when present they replace the
+  // single `cover` URL with a responsive srcset.
+  image?: ProjectCoverImage
+  sizes?: string
   alt: string
   className?: string
   fallbackText: string
+  loading?: 'lazy' | 'eager'
 }
 
 export default function ProjectCoverMedia({
   cover,
+  image,
+  sizes = '(min-width: 960px) 50vw, 100vw',
   alt,
   className,
-  fallbackText
+  fallbackText,
+  loading = 'lazy'
 }: ProjectCoverMediaProps) {
   const [failed, setFailed] = useState(false)
+  const [loaded, setLoaded] = useState(false)
 
   useEffect(() => {
     setFailed(false)
-  }, [cover])
+    setLoaded(false)
+  }, [cover, image])
 
-  const src = getProjectCoverSrc(cover)
+  const src = image ? image.fallback : getProjectCoverSrc(cover)
 
   if (!src || failed) {
     return (
@@ -30,16 +41,49 @@ export default function ProjectCoverMedia({
     )
   }
 
+  if (!image) {
+    const img = (
+      <img
+        src={src}
+        alt={alt}
+        loading={loading}
+        decoding="async"
+        width={960}
+        height={540}
+        className={className}
+        onError={() => setFailed(true)}
+      />
+    )
+    // GitHub-hosted covers are resized and re-encoded by the cover proxy.
+    const sources = getProjectCoverSources(cover)
+    if (!sources.length) return img
+    return (
+      <picture>
+        {sources.map(source => (
+          <source key={source.format} type={`image/${source.format}`} srcSet={source.srcSet} sizes={sizes} />
+        ))}
+        {img}
+      </picture>
+    )
+  }
+
   return (
-    <img
-      src={src}
-      alt={alt}
-      loading="lazy"
-      decoding="async"
-      width={960}
-      height={540}
-      className={className}
-      onError={() => setFailed(true)}
-    />
+    <picture>
+      {image.avif.length > 0 && <source type="image/avif" srcSet={buildSrcSet(image.avif)} sizes={sizes} />}
+      {image.webp.length > 0 && <source type="image/webp" srcSet={buildSrcSet(image.webp)} sizes={sizes} />}
+      <img
+        src={src}
+        alt={alt}
+        loading={loading}
+        decoding="async"
+        width={image.width}
+        height={image.height}
+        className={className}
+        style={!loaded && image.placeholder ? { backgroundImage: `url("${image.placeholder}")` } : undefined}
+        data-placeholder={!loaded && image.placeholder ? '' : undefined}
+        onLoad={() => setLoaded(true)}
+        onError={() => setFailed(true)}
+      />
+    </picture>
   )
 }
@@ -0,0 +1,221 @@
+import { useState, type ChangeEvent } from 'react'
+import { isValidResumeVariantId, type ResumeVariant } from '../lib/schema'
+
+type Lang = 'en' | 'ja'
+
+type ResumeVariantsEditorProps = {
+  value: ResumeVariant[]
+  sections: { id: string; title: string }[]
+  onChange: (value: ResumeVariant[]) => void
+  // Uploads a hand-made PDF for one language and resolves to its URL, or to
+  // an empty string when the upload failed and the error was reported.
+  uploadPdf: ((variant: ResumeVariant, lang: Lang, file: File) => Promise<string>) | null
+}
+
+const EMPTY_VARIANT: Omit<ResumeVariant, 'id'> = {
+  label: '',
+  headline: { en: '', ja: '' },
+  summary: { en: [], ja: [] },
+  sectionIds: [],
+  pdfUrls: { en: '', ja: '' }
+}
+
+function nextVariantId(variants: ResumeVariant[]) {
+  let index = variants.length + 1
+  while (variants.some(variant => variant.id === `variant-${index}`)) index += 1
+  return `variant-${index}`
+}
+
+function SectionPicker({
+  selected,
+  sections,
+  onChange
+}: {
+  selected: string[]
+  sections: { id: string; title: string }[]
+  onChange: (ids: string[]) => void
+}) {
+  const titles = new Map(sections.map(section => [section.id, section.title]))
+  const available = sections.filter(section => !selected.includes(section.id))
+
+  function move(index: number, offset: -1 | 1) {
+    const target = index + offset
+    if (target < 0 || target >= selected.length) return
+    const next = [...selected]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  return (
+    <fieldset className="history-editor">
+      <legend>Sections, in order</legend>
+      {selected.length === 0 && <p className="muted">No sections picked: the variant shows every section in the main order.</p>}
+      {selected.map((id, index) => (
+        <div key={id} className="history-entry history-entry--picked">
+          <span>{titles.get(id) || <span className="muted">Deleted section ({id})</span>}</span>
+          <div className="actions">
+            <button type="button" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move section up">↑</button>
+            <button type="button" onClick={() => move(index, 1)} disabled={index === selected.length - 1} aria-label="Move section down">↓</button>
+            <button type="button" className="danger" onClick={() => onChange(selected.filter(item => item !== id))}>
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+      {available.length > 0 && (
+        <label>
+          Add section
+          <select value="" onChange={e => e.target.value && onChange([...selected, e.target.value])}>
+            <option value="">Choose a section…</option>
+            {available.map(section => (
+              <option key={section.id} value={section.id}>{section.title}</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </fieldset>
+  )
+}
+
+// Named versions of the resume served at /resume/<id>. Each one picks and
+// orders the sections above and can replace the headline, summary and PDF;
+// whatever is left empty falls back to the main resume.
+export default function ResumeVariantsEditor({ value, sections, onChange, uploadPdf }: ResumeVariantsEditorProps) {
+  const [uploading, setUploading] = useState<string | null>(null)
+
+  function update(index: number, patch: Partial<ResumeVariant>) {
+    onChange(value.map((variant, position) => (position === index ? { ...variant, ...patch } : variant)))
+  }
+
+  function move(index: number, offset: -1 | 1) {
+    const target = index + offset
+    if (target < 0 || target >= value.length) return
+    const next = [...value]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  function remove(index: number) {
+    if (!confirm('Remove this variant?')) return
+    onChange(value.filter((_, position) => position !== index))
+  }
+
+  function localized<K extends 'headline' | 'pdfUrls'>(index: number, key: K, lang: Lang, text: string) {
+    update(index, { [key]: { ...value[index][key], [lang]: text } })
+  }
+
+  function summary(index: number, lang: Lang) {
+    return {
+      value: value[index].summary[lang].join('\n\n'),
+      onChange: (e: ChangeEvent<HTMLTextAreaElement>) =>
+        update(index, { summary: { ...value[index].summary, [lang]: e.target.value.split(/\n{2,}/) } })
+    }
+  }
+
+  async function upload(index: number, lang: Lang, event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !uploadPdf) return
+    const variant = value[index]
+    setUploading(`${variant.id}-${lang}`)
+    try {
+      const url = await uploadPdf(variant, lang, file)
+      if (url) localized(index, 'pdfUrls', lang, url)
+    } finally {
+      setUploading(null)
+    }
+  }
+
+  return (
+    <div className="block-editor">
+      {value.length === 0 && <p className="muted">No variants yet. Only /resume is published.</p>}
+      <div className="section-editors">
+        {value.map((variant, index) => {
+          const duplicate = value.some((other, position) => position !== index && other.id === variant.id)
+          return (
+            <div key={index} className="section-editor">
+              <div className="section-editor-header">
+                <h4>{variant.label || variant.id}</h4>
+                <div className="actions">
+                  <button type="button" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move variant up">↑</button>
+                  <button type="button" onClick={() => move(index, 1)} disabled={index === value.length - 1} aria-label="Move variant down">↓</button>
+                  <button type="button" className="danger" onClick={() => remove(index)}>Delete</button>
+                </div>
+              </div>
+              <label>
+                Path
+                <input
+                  value={variant.id}
+                  onChange={e => update(index, { id: e.target.value.trim().toLowerCase() })}
+                  placeholder="developer-support"
+                />
+              </label>
+              {!isValidResumeVariantId(variant.id) && (
+                <p className="error">Use lowercase letters, digits and single hyphens; rirekisho and shokumu-keirekisho are taken.</p>
+              )}
+              {duplicate && <p className="error">Another variant already uses this path.</p>}
+              <p className="muted">
+                <a href={`/resume/${variant.id}`} target="_blank" rel="noopener noreferrer">/resume/{variant.id}</a>
+                {' · '}
+                <a href={`/resume/${variant.id}.pdf`} target="_blank" rel="noopener noreferrer">/resume/{variant.id}.pdf</a>
+                {' (after publishing)'}
+              </p>
+              <label>
+                Admin label
+                <input value={variant.label} onChange={e => update(index, { label: e.target.value })} placeholder="Developer support roles" />
+              </label>
+              <label>
+                Headline (English)
+                <input value={variant.headline.en} onChange={e => localized(index, 'headline', 'en', e.target.value)} />
+              </label>
+              <label>
+                見出し（日本語）
+                <input value={variant.headline.ja} onChange={e => localized(index, 'headline', 'ja', e.target.value)} />
+              </label>
+              <label>
+                Summary (English, empty uses the main summary)
+                <textarea {...summary(index, 'en')} rows={3} />
+              </label>
+              <label>
+                サマリー（日本語、空欄ならメインのサマリー）
+                <textarea {...summary(index, 'ja')} rows={3} />
+              </label>
+              <SectionPicker
+                selected={variant.sectionIds}
+                sections={sections}
+                onChange={sectionIds => update(index, { sectionIds })}
+              />
+              {(['en', 'ja'] as const).map(lang => (
+                <div key={lang}>
+                  <label>
+                    {lang === 'en' ? 'Hand-made PDF (English)' : '手作りの PDF（日本語）'}
+                    <input
+                      type="file"
+                      accept="application/pdf"
+                      onChange={e => upload(index, lang, e)}
+                      disabled={!uploadPdf || uploading !== null || !isValidResumeVariantId(variant.id)}
+                    />
+                  </label>
+                  {uploading === `${variant.id}-${lang}` && <p>Uploading…</p>}
+                  {variant.pdfUrls[lang] ? (
+                    <p>
+                      <a href={variant.pdfUrls[lang]} target="_blank" rel="noopener noreferrer">Current file</a>{' '}
+                      <button type="button" className="danger" onClick={() => localized(index, 'pdfUrls', lang, '')}>
+                        Use the generated PDF
+                      </button>
+                    </p>
+                  ) : (
+                    <p className="muted">The PDF is generated from this variant.</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+      <button type="button" onClick={() => onChange([...value, { id: nextVariantId(value), ...EMPTY_VARIANT }])}>
+        Add variant
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import { useCallback, useState } from 'react'
+import type { DocumentData } from 'firebase/firestore'
+import { loadLive, replaceDraft, type ContentCollection } from '../lib/drafts'
+import { diffFields, listRevisions, type RevisionRecord } from '../lib/revisions'
+
+type RevisionHistoryProps = {
+  collection: ContentCollection
+  docId: string
+  label?: string
+  onRestored?: () => void
+}
+
+type HistoryState = {
+  revisions: RevisionRecord[]
+  live: DocumentData | null
+}
+
+export default function RevisionHistory({ collection, docId, label, onRestored }: RevisionHistoryProps) {
+  const [history, setHistory] = useState<HistoryState | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [revisions, live] = await Promise.all([
+        listRevisions(collection, docId),
+        loadLive(collection, docId)
+      ])
+      setHistory({ revisions, live })
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to load history.')
+    } finally {
+      setLoading(false)
+    }
+  }, [collection, docId])
+
+  async function restore(revision: RevisionRecord) {
+    const when = revision.createdAt ? revision.createdAt.toLocaleString() : 'this revision'
+    if (!confirm(`Restore the version from ${when} into the draft?`)) return
+    setRestoringId(revision.id)
+    setMessage(null)
+    setError(null)
+    try {
+      await replaceDraft(collection, docId, revision.data)
+      setMessage('Restored into the draft. Publish to make it live.')
+      onRestored?.()
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to restore revision.')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <details
+      className="card form revision-history"
+      onToggle={event => {
+        if ((event.currentTarget as HTMLDetailsElement).open && !history && !loading) loadHistory()
+      }}
+    >
+      <summary>History{label ? `: ${label}` : ''}</summary>
+      {message && <p className="success">{message}</p>}
+      {error && <p className="error">{error}</p>}
+      {loading ? <p>Loading history…</p> : history && history.revisions.length === 0 ? (
+        <p className="muted">No published revisions yet.</p>
+      ) : history && (
+        <ol className="stack revision-list">
+          {history.revisions.map((revision, index) => {
+            // Each revision is the version that the next newer one replaced.
+            const after = index === 0 ? history.live : history.revisions[index - 1].data
+            const diffs = diffFields(revision.data, after)
+            return (
+              <li key={revision.id} className="revision">
+                <div className="section-editor-header">
+                  <h4>{revision.createdAt ? revision.createdAt.toLocaleString() : '—'}</h4>
+                  <span className="muted">
+                    {revision.authorEmail || revision.authorUid || 'unknown'}
+                    {revision.deleted ? ' · deleted' : ''}
+                  </span>
+                </div>
+                {diffs.length === 0 ? (
+                  <p className="muted">Identical to the version after it.</p>
+                ) : (
+                  <dl className="revision-diff">
+                    {diffs.map(diff => (
+                      <div key={diff.field}>
+                        <dt>{diff.field}</dt>
+                        <dd>
+                          <pre className="revision-before">{diff.before || '(empty)'}</pre>
+                          <pre className="revision-after">{diff.after || '(empty)'}</pre>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+                <div className="actions">
+                  <button type="button" onClick={() => restore(revision)} disabled={restoringId !== null}>
+                    {restoringId === revision.id ? 'Restoring…' : 'Restore this version'}
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </details>
+  )
+}
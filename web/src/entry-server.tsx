@@ -0,0 +1,80 @@
+import { StrictMode } from 'react'
+import { prerender } from 'react-dom/static'
+import { createStaticHandler, createStaticRouter, StaticRouterProvider } from 'react-router-dom'
+import { routes } from './routes'
+import { ThemeProvider } from './lib/theme'
+import { AuthProvider } from './lib/auth'
+import { JA_PATH_PREFIX, LanguageProvider, languageFromPath } from './lib/language'
+import { listPosts, listProjects } from './lib/content'
+import { postPath } from './lib/posts'
+import { renderSeoHead, SeoCollectorContext, type SeoOptions } from './lib/seo'
+import {
+  resolveLoaderData,
+  serializePrerenderState,
+  toFulfilledLoaderData,
+  type PrerenderState
+} from './lib/prerender'
+
+export type PrerenderedPage = {
+  path: string
+  language: PrerenderState['language']
+  status: number
+  head: string
+  html: string
+  state: string
+}
+
+const STATIC_PATHS = ['/', '/about', '/projects', '/writing', '/resume', '/contact']
+
+export async function listPrerenderPaths() {
+  const [projects, posts] = await Promise.all([listProjects(), listPosts()])
+  const paths = [
+    ...STATIC_PATHS,
+    ...projects.map(project => `/projects/${encodeURIComponent(project.id)}`),
+    ...posts.map(post => postPath(post.slug))
+  ]
+  return [...paths, ...paths.map(path => (path === '/' ? JA_PATH_PREFIX : `${JA_PATH_PREFIX}${path}`))]
+}
+
+const handler = createStaticHandler(routes)
+
+export async function renderPage(path: string): Promise<PrerenderedPage> {
+  const context = await handler.query(new Request(new URL(path, 'http://prerender.local')))
+  if (context instanceof Response) {
+    throw new Error(`Route ${path} responded with a redirect (status ${context.status})`)
+  }
+
+  // Resolve loader promises up front so the render never suspends on data and
+  // the same values can be handed to the client for hydration.
+  const loaderData = await resolveLoaderData(context.loaderData)
+  const router = createStaticRouter(handler.dataRoutes, {
+    ...context,
+    loaderData: toFulfilledLoaderData(loaderData)
+  })
+  const language = languageFromPath(path) ?? 'en'
+
+  let seo: SeoOptions | null = null
+  const { prelude } = await prerender(
+    <StrictMode>
+      <SeoCollectorContext.Provider value={options => { seo = options }}>
+        <AuthProvider>
+          <LanguageProvider>
+            <ThemeProvider>
+              <StaticRouterProvider router={router} context={context} hydrate={false} />
+            </ThemeProvider>
+          </LanguageProvider>
+        </AuthProvider>
+      </SeoCollectorContext.Provider>
+    </StrictMode>
+  )
+  const html = await new Response(prelude).text()
+
+  return {
+    path,
+    language,
+    status: context.statusCode,
+    head: seo ? renderSeoHead(seo, language) : '',
+    html,
+    state: serializePrerenderState({ path, language, loaderData })
+  }
+}
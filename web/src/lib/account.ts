@@ -0,0 +1,54 @@
+import {
+  TotpMultiFactorGenerator,
+  linkWithPopup,
+  multiFactor,
+  unlink,
+  type TotpSecret,
+  type User
+} from 'firebase/auth'
+import { githubProvider } from './auth'
+
+const TOTP_ISSUER = 'Personal site admin'
+
+export type TotpEnrollment = {
+  secret: TotpSecret
+  key: string
+  uri: string
+}
+
+// Enrolling needs a recent sign-in; Firebase rejects it with
+// auth/requires-recent-login otherwise.
+export async function startTotpEnrollment(user: User): Promise<TotpEnrollment> {
+  const session = await multiFactor(user).getSession()
+  const secret = await TotpMultiFactorGenerator.generateSecret(session)
+  return {
+    secret,
+    key: secret.secretKey,
+    uri: secret.generateQrCodeUrl(user.email ?? user.uid, TOTP_ISSUER)
+  }
+}
+
+export async function finishTotpEnrollment(user: User, enrollment: TotpEnrollment, code: string, displayName: string) {
+  const assertion = TotpMultiFactorGenerator.assertionForEnrollment(enrollment.secret, code)
+  await multiFactor(user).enroll(assertion, displayName || 'Authenticator app')
+}
+
+export function totpFactors(user: User) {
+  return multiFactor(user).enrolledFactors.filter(factor => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID)
+}
+
+export async function removeFactor(user: User, factorUid: string) {
+  await multiFactor(user).unenroll(factorUid)
+}
+
+export function hasGitHub(user: User) {
+  return user.providerData.some(provider => provider.providerId === githubProvider.providerId)
+}
+
+export async function linkGitHub(user: User) {
+  await linkWithPopup(user, githubProvider)
+}
+
+export async function unlinkGitHub(user: User) {
+  await unlink(user, githubProvider.providerId)
+}
@@ -1,46 +1,184 @@
-import { User, signInWithEmailAndPassword, signOut, onAuthStateChanged } from 'firebase/auth'
+import {
+  GithubAuthProvider,
+  TotpMultiFactorGenerator,
+  User,
+  getMultiFactorResolver,
+  isSignInWithEmailLink,
+  onIdTokenChanged,
+  sendSignInLinkToEmail,
+  signInWithEmailAndPassword,
+  signInWithEmailLink,
+  signInWithPopup,
+  signOut,
+  type MultiFactorResolver
+} from 'firebase/auth'
 import React, { createContext, useContext, useCallback, useEffect, useMemo, useState } from 'react'
 import { auth } from './firebase'
+import { roleFromClaims, type AdminRole } from './schema'
 
 type AuthContextValue = {
   user: User | null
+  role: AdminRole | null
+  isAdmin: boolean
   initializing: boolean
   error: string | null
+  // Set while a sign-in waits for a TOTP code from `verifyTotp`.
+  mfaPending: boolean
   login(email: string, password: string): Promise<void>
+  loginWithGitHub(): Promise<void>
+  sendLoginLink(email: string): Promise<void>
+  completeLoginLink(url: string, email?: string): Promise<void>
+  verifyTotp(code: string): Promise<void>
+  cancelMfa(): void
   logout(): Promise<void>
+  refreshClaims(): Promise<void>
 }
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined)
 
+// Email links can be opened in a new tab, so the address they were sent to is
+// kept in localStorage until the link is used.
+const LOGIN_LINK_EMAIL_KEY = 'admin-login-link-email'
+
+export const githubProvider = new GithubAuthProvider()
+
+export function isLoginLink(url: string) {
+  return isSignInWithEmailLink(auth, url)
+}
+
+export function storedLoginLinkEmail() {
+  return window.localStorage.getItem(LOGIN_LINK_EMAIL_KEY)
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [role, setRole] = useState<AdminRole | null>(null)
   const [initializing, setInitializing] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null)
 
   useEffect(() => {
-    const unsub = onAuthStateChanged(auth, current => {
+    // Roles live in custom claims, so they are re-read whenever the ID token
+    // refreshes rather than only on sign-in.
+    const unsub = onIdTokenChanged(auth, async current => {
+      let nextRole: AdminRole | null = null
+      if (current) {
+        try {
+          nextRole = roleFromClaims((await current.getIdTokenResult()).claims)
+        } catch (err) {
+          console.error(err)
+        }
+      }
       setUser(current)
+      setRole(nextRole)
       setInitializing(false)
     })
     return () => unsub()
   }, [])
 
-  const login = useCallback(async (email: string, password: string) => {
+  // Every first factor goes through here so accounts with TOTP enrolled stop
+  // at the code prompt instead of failing.
+  const signInWith = useCallback(async (attempt: () => Promise<unknown>) => {
+    setError(null)
+    setMfaResolver(null)
+    try {
+      await attempt()
+    } catch (err: any) {
+      if (err?.code === 'auth/multi-factor-auth-required') {
+        setMfaResolver(getMultiFactorResolver(auth, err))
+        return
+      }
+      setError(err?.message || 'Failed to sign in')
+      throw err
+    }
+  }, [])
+
+  const login = useCallback(
+    (email: string, password: string) => signInWith(() => signInWithEmailAndPassword(auth, email, password)),
+    [signInWith]
+  )
+
+  const loginWithGitHub = useCallback(
+    () => signInWith(() => signInWithPopup(auth, githubProvider)),
+    [signInWith]
+  )
+
+  const sendLoginLink = useCallback(async (email: string) => {
+    setError(null)
+    try {
+      await sendSignInLinkToEmail(auth, email, {
+        url: `${window.location.origin}/admin/login`,
+        handleCodeInApp: true
+      })
+      window.localStorage.setItem(LOGIN_LINK_EMAIL_KEY, email)
+    } catch (err: any) {
+      setError(err?.message || 'Failed to send sign-in link')
+      throw err
+    }
+  }, [])
+
+  const completeLoginLink = useCallback(
+    (url: string, email?: string) =>
+      signInWith(async () => {
+        const address = email || storedLoginLinkEmail()
+        if (!address) throw new Error('Enter the email address the link was sent to.')
+        await signInWithEmailLink(auth, address, url)
+        window.localStorage.removeItem(LOGIN_LINK_EMAIL_KEY)
+      }),
+    [signInWith]
+  )
+
+  const verifyTotp = useCallback(async (code: string) => {
+    if (!mfaResolver) return
+    const hint = mfaResolver.hints.find(entry => entry.factorId === TotpMultiFactorGenerator.FACTOR_ID)
+    if (!hint) {
+      setError('This account needs a second factor this page does not support.')
+      return
+    }
     setError(null)
     try {
-      await signInWithEmailAndPassword(auth, email, password)
+      await mfaResolver.resolveSignIn(TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code))
+      setMfaResolver(null)
     } catch (err: any) {
-      const message = err?.message || 'Failed to sign in'
-      setError(message)
+      setError(err?.code === 'auth/invalid-verification-code' ? 'That code did not match. Try the next one.' : err?.message || 'Failed to verify code')
       throw err
     }
+  }, [mfaResolver])
+
+  const cancelMfa = useCallback(() => {
+    setMfaResolver(null)
+    setError(null)
   }, [])
 
   const logout = useCallback(async () => {
     await signOut(auth)
   }, [])
 
-  const value = useMemo(() => ({ user, initializing, error, login, logout }), [user, initializing, error, login, logout])
+  // Forcing a token refresh picks up a role granted after sign-in; the
+  // onIdTokenChanged listener above then updates `role`.
+  const refreshClaims = useCallback(async () => {
+    await auth.currentUser?.getIdToken(true)
+  }, [])
+
+  const value = useMemo(
+    () => ({
+      user,
+      role,
+      isAdmin: role !== null,
+      initializing,
+      error,
+      mfaPending: mfaResolver !== null,
+      login,
+      loginWithGitHub,
+      sendLoginLink,
+      completeLoginLink,
+      verifyTotp,
+      cancelMfa,
+      logout,
+      refreshClaims
+    }),
+    [user, role, initializing, error, mfaResolver, login, loginWithGitHub, sendLoginLink, completeLoginLink, verifyTotp, cancelMfa, logout, refreshClaims]
+  )
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
 }
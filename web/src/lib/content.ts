@@ -1,32 +1,12 @@
-import { collection, doc, getDoc, getDocs, orderBy, query } from 'firebase/firestore'
-import { db } from './firebase'
+import { collection, doc, getDoc, getDocs, orderBy, query, where } from 'firebase/firestore'
+import { loadEditable, listEditablePosts, listEditableProjects } from './drafts'
+import { auth, db } from './firebase'
+import { isPreviewRequested } from './preview'
+import { normalizePostRecord, normalizeProjectRecord, sortPosts, type PostRecord, type ProjectRecord } from './schema'
 
 const useMockData = import.meta.env.VITE_USE_MOCK_DATA === 'true'
 
-export type LocalizedText = {
-  en: string
-  ja: string
-}
-
-export type ProjectRecord = {
-  id: string
-  title: LocalizedText
-  description: LocalizedText
-  problem: LocalizedText
-  owned: LocalizedText
-  architecture: LocalizedText
-  result: LocalizedText
-  impact: LocalizedText
-  url?: string
-  repo?: string
-  tags: { en: string[]; ja: string[] }
-  cover?: string
-  githubFullName?: string
-  githubOwner?: string
-  githubRepo?: string
-  githubUpdatedAt?: string
-  githubPushedAt?: string
-}
+export type { LocalizedText, PostRecord, ProjectRecord } from './schema'
 
 const mockDocs: Record<string, any> = {
   site: {
@@ -61,7 +41,83 @@ const mockDocs: Record<string, any> = {
   resume: {
     url_en: '/Jaron_Rosenau_Resume.pdf',
     url_ja: '/Jaron_Rosenau_Resume.pdf',
-    updatedAt: '2026-05-01'
+    updatedAt: '2026-05-01',
+    headline_en: 'Implementation / Developer Support Engineer',
+    headline_ja: '実装 / 開発者サポートエンジニア',
+    lead_en: 'I am strongest when the work spans unclear requirements, multiple systems, and the production details needed to keep a delivery moving.',
+    lead_ja: '曖昧な要件、複数システム、そして delivery を前に進める本番運用の細部までまたぐ仕事を得意としています。',
+    summary_en: 'I build, integrate, debug, document, deploy, and support API-driven web systems across Python, TypeScript, Firebase, Cloud Run, PostgreSQL, Linux, and CI/CD.',
+    summary_ja: 'Python、TypeScript、Firebase、Cloud Run、PostgreSQL、Linux、CI/CD を使い、API 駆動の Web システムを構築、連携、デバッグ、文書化、デプロイ、サポートします。',
+    highlights: [
+      {
+        id: 'primary-focus',
+        title_en: 'Primary focus',
+        title_ja: '主軸',
+        body_en: 'Implementation and developer support delivery with ownership from discovery through production support.',
+        body_ja: '技術調査から本番サポートまで責任を持つ、実装 / 開発者サポート delivery。'
+      },
+      {
+        id: 'core-stack',
+        title_en: 'Core stack',
+        title_ja: '主要技術',
+        body_en: 'Python, TypeScript, APIs, auth, webhooks, SQL, and cloud operations.',
+        body_ja: 'Python、TypeScript、API、認証、Webhook、SQL、クラウド運用。'
+      },
+      {
+        id: 'delivery-scope',
+        title_en: 'Delivery scope',
+        title_ja: '担当領域',
+        body_en: 'Public products, backend services, background jobs, and operational tooling.',
+        body_ja: '公開プロダクト、バックエンドサービス、バックグラウンドジョブ、運用ツール。'
+      }
+    ],
+    sections: [
+      {
+        id: 'core-strengths',
+        title_en: 'Core strengths',
+        title_ja: 'コアの強み',
+        items_en: [
+          'API integration, customer-facing technical troubleshooting, auth flows, webhooks, background processing, SQL, data validation, and cloud-hosted services.',
+          'Python and TypeScript delivery across backend services, operational tooling, and public web products.',
+          'Production troubleshooting, deployment, monitoring, and documentation after launch.'
+        ],
+        items_ja: [
+          'API 連携、顧客向け技術トラブルシュート、認証フロー、Webhook、バックグラウンド処理、SQL、データバリデーション、クラウドホスト型サービス。',
+          'バックエンドサービス、運用ツール、公開 Web プロダクトにまたがる Python / TypeScript の delivery。',
+          '公開後の本番トラブル対応、デプロイ、監視、ドキュメント整備。'
+        ]
+      },
+      {
+        id: 'how-i-work',
+        title_en: 'How I work',
+        title_ja: '進め方',
+        items_en: [
+          'Discover: clarify requirements, boundaries, and failure points before code becomes expensive.',
+          'Integrate: connect APIs, auth, data flows, and background processing into one reliable path.',
+          'Operate and improve: deploy, monitor, troubleshoot, document, and tighten the workflow after real use.'
+        ],
+        items_ja: [
+          'Discover: コード変更が高くつく前に、要件、境界、壊れやすい点を明確にする。',
+          'Integrate: API、認証、データフロー、バックグラウンド処理を一つの信頼できる経路にまとめる。',
+          'Operate / Improve: デプロイ、監視、トラブルシュート、ドキュメント化を行い、実運用の後でワークフローを締める。'
+        ]
+      },
+      {
+        id: 'selected-systems',
+        title_en: 'System and stack examples',
+        title_ja: 'システム / スタック例',
+        items_en: [
+          'QuestByCycle: Flask, PostgreSQL, SQLAlchemy, Redis, RQ, Gunicorn, and NGINX around a live bicycling product.',
+          'Moonshine Art: Flutter, Firebase/Firestore, Cloud Run APIs, Stripe Connect, Gelato fulfillment, moderation/admin tooling, support workflows, and compliance surfaces.',
+          'CrowdPM Platform: DPoP-bound ingest, calibration, Fastify APIs, Cloud Storage, Firestore, deck.gl, and Google Maps WebGL.'
+        ],
+        items_ja: [
+          'QuestByCycle: Flask、PostgreSQL、SQLAlchemy、Redis、RQ、Gunicorn、NGINX を中心にした公開サイクリングプロダクト。',
+          'Moonshine Art: Flutter、Firebase / Firestore、Cloud Run API、Stripe Connect、Gelato 発送、モデレーション / 管理ツール、サポートワークフロー、コンプライアンス。',
+          'CrowdPM Platform: DPoP 付き ingest、補正処理、Fastify API、Cloud Storage、Firestore、deck.gl、Google Maps WebGL。'
+        ]
+      }
+    ]
   }
 }
 
@@ -83,10 +139,39 @@ const mockProjects = [
     url: 'https://denuoweb.com/work/moonshine-art',
     repo: 'https://github.com/Denuo-Web/moonshine-art-case-study',
     order: 1,
+    priority: 2,
+    featured: true,
     tags_en: ['Flutter', 'Firebase', 'Cloud Run', 'Stripe', 'Firestore'],
     tags_ja: ['Flutter', 'Firebase', 'Cloud Run', 'Stripe', 'Firestore'],
     cover: 'https://opengraph.githubassets.com/1/Denuo-Web/moonshine-art-case-study',
-    github_full_name: 'Denuo-Web/moonshine-art-case-study'
+    github_full_name: 'Denuo-Web/moonshine-art-case-study',
+    github_language: 'Dart',
+    blocks: [
+      {
+        id: 'checkout-flow',
+        type: 'markdown',
+        body_en: '## Checkout flow\n\nOrders are created by a **Cloud Run** service after Stripe confirms payment, so a webhook retry never double-charges.',
+        body_ja: '## 購入フロー\n\n注文は Stripe の決済確認後に **Cloud Run** サービスが作成するため、Webhook の再送でも二重請求が起きない。'
+      },
+      {
+        id: 'webhook-guard',
+        type: 'code',
+        language: 'ts',
+        code: "if (await orders.exists(event.id)) {\n  return // already handled\n}\nawait orders.create(event.id, session)",
+        caption_en: 'Idempotent webhook handling',
+        caption_ja: '冪等な Webhook 処理'
+      },
+      {
+        id: 'launch-metrics',
+        type: 'metrics',
+        title_en: 'Launch readiness',
+        title_ja: 'ローンチ準備',
+        rows: [
+          { label_en: 'Support workflows', label_ja: 'サポートワークフロー', value_en: '6 documented', value_ja: '6 件を文書化' },
+          { label_en: 'Payment paths covered', label_ja: '決済パスのカバー', value_en: '100%', value_ja: '100%', note_en: 'Including refunds', note_ja: '返金を含む' }
+        ]
+      }
+    ]
   },
   {
     id: 'crowdpm-platform',
@@ -105,10 +190,13 @@ const mockProjects = [
     url: 'https://crowdpmplatform.web.app',
     repo: 'https://github.com/Denuo-Web/CrowdPMPlatform',
     order: 3,
+    priority: 3,
+    featured: true,
     tags_en: ['TypeScript', 'Fastify', 'Firestore', 'deck.gl'],
     tags_ja: ['TypeScript', 'Fastify', 'Firestore', 'deck.gl'],
     cover: 'https://opengraph.githubassets.com/1/Denuo-Web/CrowdPMPlatform',
-    github_full_name: 'Denuo-Web/CrowdPMPlatform'
+    github_full_name: 'Denuo-Web/CrowdPMPlatform',
+    github_language: 'TypeScript'
   },
   {
     id: 'quest-by-cycle',
@@ -127,10 +215,13 @@ const mockProjects = [
     url: 'https://questbycycle.org',
     repo: 'https://github.com/Denuo-Web/QuestByCycle',
     order: 2,
+    priority: 1,
+    featured: true,
     tags_en: ['Python', 'Flask', 'PostgreSQL', 'Redis'],
     tags_ja: ['Python', 'Flask', 'PostgreSQL', 'Redis'],
     cover: 'https://opengraph.githubassets.com/1/Denuo-Web/QuestByCycle',
-    github_full_name: 'Denuo-Web/QuestByCycle'
+    github_full_name: 'Denuo-Web/QuestByCycle',
+    github_language: 'Python'
   },
   {
     id: 'apk-workbench',
@@ -148,10 +239,13 @@ const mockProjects = [
     result_ja: '.deb と .tar.gz の公開リリース、repo 上の UI デモ、Linux ARM64 向け Android 開発基盤としてのオープンソース成果物を提供。',
     repo: 'https://github.com/Denuo-Web/APK-Workbench',
     order: 4,
+    priority: 4,
+    featured: false,
     tags_en: ['Rust', 'gRPC', 'GTK4', 'ARM64'],
     tags_ja: ['Rust', 'gRPC', 'GTK4', 'ARM64'],
     cover: 'https://opengraph.githubassets.com/1/Denuo-Web/APK-Workbench',
-    github_full_name: 'Denuo-Web/APK-Workbench'
+    github_full_name: 'Denuo-Web/APK-Workbench',
+    github_language: 'Rust'
   },
   {
     id: 'drip-copy',
@@ -169,69 +263,100 @@ const mockProjects = [
     result_ja: '標準コピーやディスク丸ごとイメージ化が不安定な状況でも、ファイル抽出を再現可能な Linux ワークフローに変える。',
     repo: 'https://github.com/Denuo-Web/DripCopy',
     order: 5,
+    priority: 5,
+    featured: false,
     tags_en: ['Bash', 'Linux', 'Recovery', 'USB'],
     tags_ja: ['Bash', 'Linux', 'Recovery', 'USB'],
     cover: 'https://opengraph.githubassets.com/1/Denuo-Web/DripCopy',
-    github_full_name: 'Denuo-Web/DripCopy'
+    github_full_name: 'Denuo-Web/DripCopy',
+    github_language: 'Shell'
   }
 ]
 
-const pick = (value: unknown) => typeof value === 'string' ? value.trim() : ''
-
-const pickArray = (value: unknown) =>
-  Array.isArray(value)
-    ? value.map(item => pick(item)).filter(Boolean)
-    : []
-
-function normalizeLocalizedText(item: Record<string, unknown>, prefix: string, fallback?: string): LocalizedText {
-  return {
-    en: pick(item[`${prefix}_en`] ?? item[prefix] ?? fallback),
-    ja: pick(item[`${prefix}_ja`] ?? fallback)
+const mockPosts = [
+  {
+    id: 'debugging-webhook-retries',
+    title_en: 'Debugging webhook retries without guessing',
+    title_ja: '推測に頼らない Webhook リトライのデバッグ',
+    summary_en: 'A checklist for tracing duplicate or missing webhook deliveries from the provider dashboard to the handler logs.',
+    summary_ja: 'Webhook の重複や欠落を、提供元のダッシュボードからハンドラーのログまで追跡するためのチェックリスト。',
+    body_en: 'Most webhook incidents look like data bugs until the delivery log says otherwise.\n\n## Start from the delivery id\n\n1. Find the delivery in the provider dashboard.\n2. Search the handler logs for the same id.\n3. Compare the response status with what the provider recorded.\n\n## Make handlers idempotent\n\nStore the event id before doing work, and return `200` for ids you have already processed.\n\n> Retries are a feature. Treat them as part of the contract.',
+    body_ja: 'Webhook の障害の多くは、配信ログを確認するまではデータの不具合に見えます。\n\n## 配信 ID から始める\n\n1. 提供元のダッシュボードで配信を探す。\n2. 同じ ID でハンドラーのログを検索する。\n3. レスポンスのステータスを提供元の記録と比べる。\n\n## ハンドラーを冪等にする\n\n処理の前にイベント ID を保存し、処理済みの ID には `200` を返します。',
+    tags_en: ['Webhooks', 'Debugging'],
+    tags_ja: ['Webhook', 'デバッグ'],
+    publishedAt: '2026-04-18'
+  },
+  {
+    id: 'prerendering-a-firebase-spa',
+    title_en: 'Prerendering a Firebase-hosted React app',
+    title_ja: 'Firebase Hosting の React アプリをプリレンダリングする',
+    summary_en: 'How this site renders every public route to static HTML at build time and still hydrates live Firestore data.',
+    summary_ja: 'このサイトがビルド時に公開ページを静的 HTML に変換しつつ、Firestore のデータでハイドレートする仕組み。',
+    body_en: 'The site is a single-page app, but every public route ships as static HTML.\n\n- Loaders return promises that the build resolves up front.\n- The resolved data is embedded next to the markup.\n- The client hydrates with the same data instead of refetching.\n\nSee the [case studies](/projects) for the result.',
+    body_ja: '',
+    tags_en: ['React', 'Firebase', 'SEO'],
+    tags_ja: ['React', 'Firebase', 'SEO'],
+    publishedAt: '2026-03-02'
   }
-}
-
-export function normalizeProjectRecord(raw: Record<string, unknown>): ProjectRecord {
-  const url = pick(raw.url)
-  const repo = pick(raw.repo ?? raw.source ?? raw.github)
-  const cover = pick(raw.cover ?? raw.image ?? raw.thumbnail)
+]
 
-  return {
-    id: String(raw.id ?? ''),
-    title: normalizeLocalizedText(raw, 'title'),
-    description: normalizeLocalizedText(raw, 'description'),
-    problem: normalizeLocalizedText(raw, 'problem'),
-    owned: normalizeLocalizedText(raw, 'owned'),
-    architecture: normalizeLocalizedText(raw, 'architecture'),
-    result: normalizeLocalizedText(raw, 'result'),
-    impact: normalizeLocalizedText(raw, 'impact'),
-    url: url || undefined,
-    repo: repo || undefined,
-    tags: {
-      en: pickArray(raw.tags_en ?? raw.tags),
-      ja: pickArray(raw.tags_ja)
-    },
-    cover: cover || undefined,
-    githubFullName: pick(raw.github_full_name),
-    githubOwner: pick(raw.github_owner),
-    githubRepo: pick(raw.github_repo),
-    githubUpdatedAt: pick(raw.github_updated_at),
-    githubPushedAt: pick(raw.github_pushed_at)
-  }
+// Preview only applies to signed-in admins; anyone else (or a rules denial)
+// falls back to the live documents.
+async function previewEnabled() {
+  if (useMockData || !isPreviewRequested()) return false
+  await auth.authStateReady()
+  return Boolean(auth.currentUser)
 }
 
 export async function getPublicDoc(id: string) {
   if (useMockData) {
     return mockDocs[id] ?? null
   }
+  if (await previewEnabled()) {
+    try {
+      return await loadEditable('public', id)
+    } catch (error) {
+      console.warn('Preview unavailable, showing live content.', error)
+    }
+  }
   const snap = await getDoc(doc(db, 'public', id))
   return snap.exists() ? snap.data() : null
 }
 
+// Protected projects only appear in the recruiter portal. The rules only let
+// visitors list projects through the `visibility == 'public'` query; projects
+// saved without a visibility are backfilled before each Firestore deploy.
+const isPublicProject = (project: ProjectRecord) => project.visibility === 'public'
+
 export async function listProjects(): Promise<ProjectRecord[]> {
   if (useMockData) {
-    return mockProjects.map(item => normalizeProjectRecord(item))
+    return mockProjects.map(item => normalizeProjectRecord(item)).filter(isPublicProject)
+  }
+  if (await previewEnabled()) {
+    try {
+      const entries = await listEditableProjects()
+      return entries.map(entry => normalizeProjectRecord({ id: entry.id, ...entry.data })).filter(isPublicProject)
+    } catch (error) {
+      console.warn('Preview unavailable, showing live content.', error)
+    }
   }
-  const q = query(collection(db, 'projects'), orderBy('order', 'asc'))
+  const q = query(collection(db, 'projects'), where('visibility', '==', 'public'), orderBy('order', 'asc'))
   const snap = await getDocs(q)
   return snap.docs.map(d => normalizeProjectRecord({ id: d.id, ...d.data() }))
 }
+
+export async function listPosts(): Promise<PostRecord[]> {
+  if (useMockData) {
+    return sortPosts(mockPosts.map(item => normalizePostRecord(item)))
+  }
+  if (await previewEnabled()) {
+    try {
+      const entries = await listEditablePosts()
+      return sortPosts(entries.map(entry => normalizePostRecord({ id: entry.id, ...entry.data })))
+    } catch (error) {
+      console.warn('Preview unavailable, showing live content.', error)
+    }
+  }
+  const snap = await getDocs(collection(db, 'posts'))
+  return sortPosts(snap.docs.map(d => normalizePostRecord({ id: d.id, ...d.data() })))
+}
@@ -0,0 +1,41 @@
+import { doc, onSnapshot } from 'firebase/firestore'
+import { ref, uploadBytes } from 'firebase/storage'
+import { db, storage } from './firebase'
+import { coverOriginalPath, parseCoverImage, type ProjectCoverImage } from './schema'
+
+const PROCESSING_TIMEOUT_MS = 90_000
+
+function safeFileName(name: string) {
+  const cleaned = name.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${Date.now()}-${cleaned || 'cover'}`
+}
+
+// Uploads an original and resolves once the projectCoverUploaded function has
+// written its variants onto the project's draft.
+export async function uploadProjectCover(projectId: string, file: File): Promise<ProjectCoverImage> {
+  const path = coverOriginalPath(projectId, safeFileName(file.name))
+  await uploadBytes(ref(storage, path), file, { contentType: file.type })
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe()
+      reject(new Error('The cover is still processing. Reload the page in a minute to see it.'))
+    }, PROCESSING_TIMEOUT_MS)
+    const unsubscribe = onSnapshot(
+      doc(db, 'drafts_projects', projectId),
+      snapshot => {
+        const image = parseCoverImage(snapshot.data()?.cover_image)
+        if (image?.source === path) {
+          clearTimeout(timer)
+          unsubscribe()
+          resolve(image)
+        }
+      },
+      error => {
+        clearTimeout(timer)
+        unsubscribe()
+        reject(error)
+      }
+    )
+  })
+}
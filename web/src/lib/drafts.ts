@@ -0,0 +1,234 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  type DocumentData
+} from 'firebase/firestore'
+import { db } from './firebase'
+import { recordRevision } from './revisions'
+import { projectVisibility } from './schema'
+
+export type ContentCollection = 'public' | 'projects' | 'posts'
+
+const CONTENT_COLLECTIONS: ContentCollection[] = ['public', 'projects', 'posts']
+
+export type DraftSummary = {
+  collection: ContentCollection
+  id: string
+  deleted: boolean
+  isNew: boolean
+  updatedAt: Date | null
+}
+
+export type EditableDoc = {
+  id: string
+  data: DocumentData
+  hasDraft: boolean
+}
+
+// Drafts mirror the live collections one-to-one, so `drafts_projects/{id}`
+// becomes `projects/{id}` on publish.
+const DRAFT_COLLECTIONS: Record<ContentCollection, string> = {
+  public: 'drafts_public',
+  projects: 'drafts_projects',
+  posts: 'drafts_posts'
+}
+
+const DRAFT_UPDATED_FIELD = 'draftUpdatedAt'
+const DRAFT_DELETED_FIELD = 'draftDeleted'
+
+function draftRef(name: ContentCollection, id: string) {
+  return doc(db, DRAFT_COLLECTIONS[name], id)
+}
+
+function liveRef(name: ContentCollection, id: string) {
+  return doc(db, name, id)
+}
+
+export function stripDraftMeta(data: DocumentData): DocumentData {
+  const { [DRAFT_UPDATED_FIELD]: _updated, [DRAFT_DELETED_FIELD]: _deleted, ...rest } = data
+  return rest
+}
+
+export function isDeletedDraft(data: DocumentData) {
+  return data[DRAFT_DELETED_FIELD] === true
+}
+
+export async function loadLive(name: ContentCollection, id: string): Promise<DocumentData | null> {
+  const live = await getDoc(liveRef(name, id))
+  return live.exists() ? live.data() : null
+}
+
+// Returns the draft when one exists, otherwise the live document.
+export async function loadEditable(name: ContentCollection, id: string): Promise<DocumentData | null> {
+  const draft = await getDoc(draftRef(name, id))
+  if (draft.exists() && !isDeletedDraft(draft.data())) {
+    return stripDraftMeta(draft.data())
+  }
+  return loadLive(name, id)
+}
+
+// The first save seeds the draft from the live document so that publishing
+// replaces the live document with a complete copy.
+export async function saveDraft(name: ContentCollection, id: string, patch: DocumentData) {
+  const target = draftRef(name, id)
+  await runTransaction(db, async transaction => {
+    const draft = await transaction.get(target)
+    if (!draft.exists()) {
+      const live = await transaction.get(liveRef(name, id))
+      transaction.set(target, live.exists() ? live.data() : {})
+    }
+    transaction.set(target, { ...patch, [DRAFT_UPDATED_FIELD]: serverTimestamp() }, { merge: true })
+  })
+}
+
+// Overwrites the whole draft, e.g. when restoring an earlier revision.
+export async function replaceDraft(name: ContentCollection, id: string, data: DocumentData) {
+  await setDoc(draftRef(name, id), { ...stripDraftMeta(data), [DRAFT_UPDATED_FIELD]: serverTimestamp() })
+}
+
+export async function createProjectDraft(payload: DocumentData) {
+  const target = doc(collection(db, DRAFT_COLLECTIONS.projects))
+  await setDoc(target, { ...payload, [DRAFT_UPDATED_FIELD]: serverTimestamp() })
+  return target.id
+}
+
+// Posts are keyed by slug, so unlike projects the id is chosen up front and
+// must not already be taken by a live post or another draft.
+export async function createPostDraft(slug: string, payload: DocumentData) {
+  const target = draftRef('posts', slug)
+  await runTransaction(db, async transaction => {
+    const [draft, live] = await Promise.all([transaction.get(target), transaction.get(liveRef('posts', slug))])
+    if (draft.exists() || live.exists()) {
+      throw new Error(`A post with the slug "${slug}" already exists.`)
+    }
+    transaction.set(target, { ...payload, [DRAFT_UPDATED_FIELD]: serverTimestamp() })
+  })
+}
+
+export async function deleteEditable(name: ContentCollection, id: string) {
+  const live = await getDoc(liveRef(name, id))
+  if (live.exists()) {
+    await setDoc(draftRef(name, id), {
+      [DRAFT_DELETED_FIELD]: true,
+      [DRAFT_UPDATED_FIELD]: serverTimestamp()
+    })
+  } else {
+    await deleteDoc(draftRef(name, id))
+  }
+}
+
+// Live documents overlaid with their drafts: drafts replace live documents,
+// deleted drafts hide them, and new drafts are appended.
+export function mergeDrafts(live: Array<{ id: string; data: DocumentData }>, drafts: Array<{ id: string; data: DocumentData }>) {
+  const merged = new Map<string, EditableDoc>()
+  live.forEach(entry => merged.set(entry.id, { ...entry, hasDraft: false }))
+  drafts.forEach(entry => {
+    if (isDeletedDraft(entry.data)) {
+      merged.delete(entry.id)
+    } else {
+      merged.set(entry.id, { id: entry.id, data: stripDraftMeta(entry.data), hasDraft: true })
+    }
+  })
+  return Array.from(merged.values())
+}
+
+export function mergeProjectDrafts(live: Array<{ id: string; data: DocumentData }>, drafts: Array<{ id: string; data: DocumentData }>) {
+  return mergeDrafts(live, drafts).sort(
+    (left, right) => Number(left.data.order ?? 0) - Number(right.data.order ?? 0)
+  )
+}
+
+async function loadLiveAndDrafts(name: ContentCollection) {
+  const [liveSnap, draftSnap] = await Promise.all([
+    getDocs(collection(db, name)),
+    getDocs(collection(db, DRAFT_COLLECTIONS[name]))
+  ])
+  return {
+    live: liveSnap.docs.map(d => ({ id: d.id, data: d.data() })),
+    drafts: draftSnap.docs.map(d => ({ id: d.id, data: d.data() }))
+  }
+}
+
+export async function listEditableProjects() {
+  const { live, drafts } = await loadLiveAndDrafts('projects')
+  return mergeProjectDrafts(live, drafts)
+}
+
+export async function listEditablePosts() {
+  const { live, drafts } = await loadLiveAndDrafts('posts')
+  return mergeDrafts(live, drafts)
+}
+
+export async function listDrafts(): Promise<DraftSummary[]> {
+  const groups = await Promise.all(
+    CONTENT_COLLECTIONS.map(async name => {
+      const snap = await getDocs(collection(db, DRAFT_COLLECTIONS[name]))
+      return Promise.all(
+        snap.docs.map(async d => {
+          const data = d.data()
+          const updatedAt = data[DRAFT_UPDATED_FIELD]
+          const live = await getDoc(liveRef(name, d.id))
+          return {
+            collection: name,
+            id: d.id,
+            deleted: isDeletedDraft(data),
+            isNew: !live.exists(),
+            updatedAt: updatedAt && typeof updatedAt.toDate === 'function' ? updatedAt.toDate() : null
+          }
+        })
+      )
+    })
+  )
+  return groups.flat()
+}
+
+export async function discardDraft(name: ContentCollection, id: string) {
+  await deleteDoc(draftRef(name, id))
+}
+
+// Promotes every draft in one transaction so visitors never see a
+// half-published site. Each replaced live document is kept as a revision.
+// The listing only says which drafts exist; their contents are read again
+// inside the transaction, so an edit saved meanwhile is published, not lost.
+export async function publishDrafts() {
+  const snaps = await Promise.all(CONTENT_COLLECTIONS.map(name => getDocs(collection(db, DRAFT_COLLECTIONS[name]))))
+  const pending = snaps.flatMap((snap, index) => snap.docs.map(d => ({ name: CONTENT_COLLECTIONS[index], id: d.id })))
+  if (!pending.length) return 0
+
+  return runTransaction(db, async transaction => {
+    const [drafts, lives] = await Promise.all([
+      Promise.all(pending.map(({ name, id }) => transaction.get(draftRef(name, id)))),
+      Promise.all(pending.map(({ name, id }) => transaction.get(liveRef(name, id))))
+    ])
+    let published = 0
+    pending.forEach(({ name, id }, index) => {
+      const draft = drafts[index]
+      // Discarded or published from another tab since the listing.
+      if (!draft.exists()) return
+      const data = draft.data()
+      const live = lives[index]
+      const next = isDeletedDraft(data) ? null : stripDraftMeta(data)
+      // Public listings query on visibility, so projects always carry it.
+      if (next && name === 'projects') {
+        next.visibility = projectVisibility(next)
+      }
+      if (live.exists()) {
+        recordRevision(transaction, name, id, live.data(), next)
+      }
+      if (next) {
+        transaction.set(liveRef(name, id), next)
+      } else {
+        transaction.delete(liveRef(name, id))
+      }
+      transaction.delete(draft.ref)
+      published += 1
+    })
+    return published
+  })
+}
@@ -11,8 +11,31 @@ const STORAGE_KEY = 'homesite_language'
 
 const LanguageContext = createContext<LanguageContextValue | undefined>(undefined)
 
+export const JA_PATH_PREFIX = '/ja'
+
+export function languageFromPath(pathname: string): SupportedLanguage | null {
+  return pathname === JA_PATH_PREFIX || pathname.startsWith(`${JA_PATH_PREFIX}/`) ? 'ja' : null
+}
+
+export function stripLanguagePrefix(pathname: string) {
+  if (!languageFromPath(pathname)) return pathname
+  return pathname.slice(JA_PATH_PREFIX.length) || '/'
+}
+
+// Maps an internal path onto the given language's URL space. External URLs,
+// anchors, mailto links and files such as /resume.pdf pass through unchanged.
+export function localizePath(path: string, language: SupportedLanguage) {
+  if (!path.startsWith('/') || path.startsWith('//')) return path
+  if (/\.[a-z0-9]+$/i.test(path.split(/[?#]/, 1)[0])) return path
+  const base = stripLanguagePrefix(path)
+  if (language !== 'ja') return base
+  return base === '/' ? JA_PATH_PREFIX : `${JA_PATH_PREFIX}${base}`
+}
+
 function getInitialLanguage(): SupportedLanguage {
   if (typeof window === 'undefined') return 'en'
+  const fromPath = languageFromPath(window.location.pathname)
+  if (fromPath) return fromPath
   const stored = window.localStorage.getItem(STORAGE_KEY)
   return stored === 'ja' ? 'ja' : 'en'
 }
@@ -30,6 +53,17 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
   return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>
 }
 
+// Public routes take their language from the URL rather than the stored
+// preference; `setLanguage` there navigates to the equivalent URL instead.
+export function RouteLanguageProvider({
+  language,
+  setLanguage,
+  children
+}: LanguageContextValue & { children: ReactNode }) {
+  const value = useMemo(() => ({ language, setLanguage }), [language, setLanguage])
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>
+}
+
 export function useLanguage() {
   const ctx = useContext(LanguageContext)
   if (!ctx) throw new Error('useLanguage must be used within LanguageProvider')
@@ -0,0 +1,18 @@
+import type { SupportedLanguage } from './language'
+
+export function postPath(slug: string) {
+  return `/writing/${encodeURIComponent(slug)}`
+}
+
+// Publish dates are plain YYYY-MM-DD strings; formatting them in UTC keeps the
+// prerendered markup and the hydrated client in agreement.
+export function formatPostDate(value: string, language: SupportedLanguage) {
+  const parsed = new Date(`${value}T00:00:00Z`)
+  if (!value || Number.isNaN(parsed.getTime())) return value
+  return new Intl.DateTimeFormat(language === 'ja' ? 'ja-JP' : 'en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  }).format(parsed)
+}
@@ -0,0 +1,90 @@
+import { matchRoutes, type HydrationState, type RouteObject } from 'react-router-dom'
+import type { SupportedLanguage } from './language'
+import { isPreviewRequested } from './preview'
+
+export const PRERENDER_STATE_ID = 'prerender-state'
+
+export type PrerenderState = {
+  path: string
+  language: SupportedLanguage
+  loaderData: Record<string, Record<string, unknown>>
+}
+
+type FulfilledThenable<T> = Promise<T> & { status: 'fulfilled'; value: T }
+
+// React's `use` reads `status`/`value` synchronously, so hydrated loader data
+// resolves on the first render instead of suspending and mismatching the HTML.
+function fulfilled<T>(value: T): FulfilledThenable<T> {
+  const promise = Promise.resolve(value) as FulfilledThenable<T>
+  promise.status = 'fulfilled'
+  promise.value = value
+  return promise
+}
+
+export function serializePrerenderState(state: PrerenderState) {
+  return JSON.stringify(state).replace(/</g, '\\u003c')
+}
+
+export function readPrerenderState(): PrerenderState | null {
+  if (typeof document === 'undefined') return null
+  // `?lang=` is answered by a client-side redirect, so render fresh instead.
+  if (new URLSearchParams(window.location.search).has('lang')) return null
+  // The static HTML holds live content, which preview must not hydrate over.
+  if (isPreviewRequested()) return null
+  const script = document.getElementById(PRERENDER_STATE_ID)
+  if (!script?.textContent) return null
+
+  try {
+    const state = JSON.parse(script.textContent) as PrerenderState
+    return state.path === window.location.pathname ? state : null
+  } catch {
+    return null
+  }
+}
+
+export function toFulfilledLoaderData(loaderData: PrerenderState['loaderData']) {
+  const fulfilledData: Record<string, Record<string, unknown>> = {}
+  Object.entries(loaderData).forEach(([routeId, values]) => {
+    fulfilledData[routeId] = Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, fulfilled(value)])
+    )
+  })
+  return fulfilledData
+}
+
+export function toHydrationData(state: PrerenderState): HydrationState {
+  return { loaderData: toFulfilledLoaderData(state.loaderData) }
+}
+
+// Lazy route modules must be in place before hydrating, otherwise the router
+// renders its HydrateFallback while the module loads.
+export async function preloadLazyMatches(routes: RouteObject[], pathname: string) {
+  const matches = matchRoutes(routes, pathname) ?? []
+  await Promise.all(
+    matches.map(async ({ route }) => {
+      if (typeof route.lazy !== 'function') return
+      const module = await route.lazy()
+      Object.assign(route, {
+        loader: module.loader,
+        Component: module.Component,
+        HydrateFallback: module.HydrateFallback,
+        ErrorBoundary: module.ErrorBoundary,
+        lazy: undefined
+      })
+    })
+  )
+}
+
+export async function resolveLoaderData(loaderData: Record<string, unknown>) {
+  const resolved: PrerenderState['loaderData'] = {}
+  await Promise.all(
+    Object.entries(loaderData).map(async ([routeId, data]) => {
+      if (!data || typeof data !== 'object') return
+      const entries = await Promise.all(
+        Object.entries(data as Record<string, unknown>).map(async ([key, value]) => [key, await value] as const)
+      )
+      resolved[routeId] = Object.fromEntries(entries)
+    })
+  )
+  return resolved
+}
@@ -0,0 +1,42 @@
+const PREVIEW_STORAGE_KEY = 'homesite_preview'
+
+function readFlag() {
+  try {
+    return window.sessionStorage.getItem(PREVIEW_STORAGE_KEY) === '1'
+  } catch {
+    return false
+  }
+}
+
+function writeFlag(enabled: boolean) {
+  try {
+    if (enabled) {
+      window.sessionStorage.setItem(PREVIEW_STORAGE_KEY, '1')
+    } else {
+      window.sessionStorage.removeItem(PREVIEW_STORAGE_KEY)
+    }
+  } catch {
+    // Preview simply stays off when storage is unavailable.
+  }
+}
+
+// `?preview=1` turns preview on for the rest of the tab session and
+// `?preview=0` turns it off. Runs once before the router is created.
+export function syncPreviewFromUrl() {
+  if (typeof window === 'undefined') return
+  const value = new URLSearchParams(window.location.search).get('preview')
+  if (value === '1') writeFlag(true)
+  if (value === '0') writeFlag(false)
+}
+
+export function isPreviewRequested() {
+  if (typeof window === 'undefined') return false
+  return readFlag()
+}
+
+export function exitPreview() {
+  writeFlag(false)
+  const url = new URL(window.location.href)
+  url.searchParams.delete('preview')
+  window.location.assign(`${url.pathname}${url.search}${url.hash}`)
+}
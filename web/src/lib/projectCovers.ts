@@ -1,3 +1,5 @@
+import { buildSrcSet, COVER_FORMATS, COVER_WIDTHS, type CoverFormat } from './schema'
+
 const exactGitHubHosts = new Set([
   'github.com',
   'raw.githubusercontent.com',
@@ -27,13 +29,33 @@ export function isGitHubHostedCover(url?: string) {
   }
 }
 
+function proxyPath(url: string, params: Record<string, string> = {}) {
+  const query = new URLSearchParams({ url, ...params })
+  return `/api/project-cover?${query.toString()}`
+}
+
 export function getProjectCoverSrc(url?: string) {
   const trimmed = typeof url === 'string' ? url.trim() : ''
   if (!trimmed) return undefined
 
   if (import.meta.env.PROD && isGitHubHostedCover(trimmed)) {
-    return `/api/project-cover?url=${encodeURIComponent(trimmed)}`
+    return proxyPath(trimmed)
   }
 
   return trimmed
 }
+
+// Resized AVIF/WebP srcsets served by the cover proxy; only GitHub-hosted
+// covers go through it, so other URLs get none.
+export function getProjectCoverSources(url?: string): { format: CoverFormat; srcSet: string }[] {
+  const trimmed = typeof url === 'string' ? url.trim() : ''
+  if (!trimmed || !import.meta.env.PROD || !isGitHubHostedCover(trimmed)) return []
+
+  return COVER_FORMATS.map(format => ({
+    format,
+    srcSet: buildSrcSet(COVER_WIDTHS.map(width => ({
+      width,
+      url: proxyPath(trimmed, { w: String(width), format })
+    })))
+  }))
+}
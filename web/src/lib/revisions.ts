@@ -0,0 +1,73 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  type DocumentData,
+  type Transaction
+} from 'firebase/firestore'
+import type { ContentCollection } from './drafts'
+import { auth, db } from './firebase'
+import { changedFields } from './schema'
+
+export { diffFields, type FieldDiff } from './schema'
+
+export type RevisionRecord = {
+  id: string
+  data: DocumentData
+  changedFields: string[]
+  deleted: boolean
+  authorUid: string
+  authorEmail: string
+  createdAt: Date | null
+}
+
+const REVISION_LIMIT = 50
+
+function revisionsCollection(name: ContentCollection, id: string) {
+  return collection(db, name, id, 'revisions')
+}
+
+// Snapshots the live document that is about to be replaced (or deleted).
+// Called from inside the publish transaction so history and content stay in step.
+export function recordRevision(
+  transaction: Transaction,
+  name: ContentCollection,
+  id: string,
+  previous: DocumentData,
+  next: DocumentData | null
+) {
+  const fields = changedFields(previous, next)
+  if (!fields.length && next) return
+  const user = auth.currentUser
+  transaction.set(doc(revisionsCollection(name, id)), {
+    data: previous,
+    changedFields: fields,
+    deleted: next === null,
+    authorUid: user?.uid ?? '',
+    authorEmail: user?.email ?? '',
+    createdAt: serverTimestamp()
+  })
+}
+
+export async function listRevisions(name: ContentCollection, id: string): Promise<RevisionRecord[]> {
+  const snap = await getDocs(
+    query(revisionsCollection(name, id), orderBy('createdAt', 'desc'), limit(REVISION_LIMIT))
+  )
+  return snap.docs.map(d => {
+    const data = d.data()
+    const createdAt = data.createdAt
+    return {
+      id: d.id,
+      data: (data.data as DocumentData) ?? {},
+      changedFields: Array.isArray(data.changedFields) ? data.changedFields.map(String) : [],
+      deleted: data.deleted === true,
+      authorUid: typeof data.authorUid === 'string' ? data.authorUid : '',
+      authorEmail: typeof data.authorEmail === 'string' ? data.authorEmail : '',
+      createdAt: createdAt && typeof createdAt.toDate === 'function' ? createdAt.toDate() : null
+    }
+  })
+}
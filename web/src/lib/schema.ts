@@ -0,0 +1,2 @@
+// The content schema is shared with the Cloud Functions; see /shared.
+export * from '../../../shared/src/index'
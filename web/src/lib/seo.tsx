@@ -1,4 +1,5 @@
-import { useEffect } from 'react'
+import { createContext, useContext, useEffect } from 'react'
+import { localizePath, useLanguage, type SupportedLanguage } from './language'
 
 const DEFAULT_SITE_URL = 'https://rosenau.info'
 
@@ -37,6 +38,12 @@ export type SeoOptions = {
   ogType?: string
 }
 
+const DEFAULT_ROBOTS = 'index,follow,max-snippet:-1,max-image-preview:large,max-video-preview:-1'
+
+// Effects never run while prerendering, so the build step provides a collector
+// that receives the options of the page being rendered instead.
+export const SeoCollectorContext = createContext<((options: SeoOptions) => void) | null>(null)
+
 function normalizePath(path: string) {
   if (!path) return '/'
   if (path.startsWith('http://') || path.startsWith('https://')) {
@@ -75,6 +82,30 @@ function upsertCanonical(href: string) {
   tag.href = href
 }
 
+type AlternateLink = {
+  hreflang: string
+  href: string
+}
+
+function buildAlternates(path: string): AlternateLink[] {
+  return [
+    { hreflang: 'en', href: absoluteSiteUrl(localizePath(path, 'en')) },
+    { hreflang: 'ja', href: absoluteSiteUrl(localizePath(path, 'ja')) },
+    { hreflang: 'x-default', href: absoluteSiteUrl(localizePath(path, 'en')) }
+  ]
+}
+
+function replaceAlternates(alternates: AlternateLink[]) {
+  document.head.querySelectorAll('link[rel="alternate"][hreflang]').forEach(tag => tag.remove())
+  alternates.forEach(({ hreflang, href }) => {
+    const tag = document.createElement('link')
+    tag.rel = 'alternate'
+    tag.hreflang = hreflang
+    tag.href = href
+    document.head.appendChild(tag)
+  })
+}
+
 function upsertJsonLd(data?: Record<string, unknown> | Record<string, unknown>[]) {
   const id = 'seo-jsonld'
   const current = document.getElementById(id)
@@ -92,17 +123,58 @@ function upsertJsonLd(data?: Record<string, unknown> | Record<string, unknown>[]
   }
 }
 
-export function useSeo({
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export function renderSeoHead({
   title,
   description,
   path = '/',
-  robots = 'index,follow,max-snippet:-1,max-image-preview:large,max-video-preview:-1',
+  robots = DEFAULT_ROBOTS,
   structuredData,
   ogType = 'website'
-}: SeoOptions) {
+}: SeoOptions, language: SupportedLanguage) {
+  const canonical = absoluteSiteUrl(localizePath(path, language))
+  const alternates = robots.includes('noindex') ? [] : buildAlternates(path)
+  const tags = [
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${escapeHtml(description)}" />`,
+    `<meta name="robots" content="${escapeHtml(robots)}" />`,
+    `<meta property="og:type" content="${escapeHtml(ogType)}" />`,
+    `<meta property="og:title" content="${escapeHtml(title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(canonical)}" />`,
+    `<link rel="canonical" href="${escapeHtml(canonical)}" />`,
+    ...alternates.map(link => `<link rel="alternate" hreflang="${escapeHtml(link.hreflang)}" href="${escapeHtml(link.href)}" />`)
+  ]
+  if (structuredData) {
+    tags.push(`<script id="seo-jsonld" type="application/ld+json">${JSON.stringify(structuredData).replace(/</g, '\\u003c')}</script>`)
+  }
+  return tags.join('\n    ')
+}
+
+export function useSeo(options: SeoOptions) {
+  const {
+    title,
+    description,
+    path = '/',
+    robots = DEFAULT_ROBOTS,
+    structuredData,
+    ogType = 'website'
+  } = options
+  const { language } = useLanguage()
+  const collect = useContext(SeoCollectorContext)
+  collect?.(options)
+
   useEffect(() => {
     document.title = title
-    const canonical = absoluteSiteUrl(path)
+    const canonical = absoluteSiteUrl(localizePath(path, language))
     upsertMeta('description', description)
     upsertMeta('robots', robots)
     upsertMeta('og:type', ogType, 'property')
@@ -110,6 +182,7 @@ export function useSeo({
     upsertMeta('og:description', description, 'property')
     upsertMeta('og:url', canonical, 'property')
     upsertCanonical(canonical)
+    replaceAlternates(robots.includes('noindex') ? [] : buildAlternates(path))
     upsertJsonLd(structuredData)
-  }, [description, ogType, path, robots, structuredData, title])
+  }, [description, language, ogType, path, robots, structuredData, title])
 }
@@ -7,17 +7,42 @@ import './styles.css'
 import './themes.css'
 import { AuthProvider } from './lib/auth'
 import { LanguageProvider } from './lib/language'
+import { preloadLazyMatches, readPrerenderState, toHydrationData } from './lib/prerender'
+import { syncPreviewFromUrl } from './lib/preview'
 
-const router = createBrowserRouter(routes)
+async function bootstrap() {
+  syncPreviewFromUrl()
+  const container = document.getElementById('root')!
+  const prerendered = readPrerenderState()
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <AuthProvider>
-      <LanguageProvider>
-        <ThemeProvider>
-          <RouterProvider router={router} />
-        </ThemeProvider>
-      </LanguageProvider>
-    </AuthProvider>
-  </StrictMode>
-)
+  if (prerendered) {
+    await preloadLazyMatches(routes, window.location.pathname)
+  }
+
+  const router = createBrowserRouter(routes, {
+    hydrationData: prerendered ? toHydrationData(prerendered) : undefined
+  })
+
+  const app = (
+    <StrictMode>
+      <AuthProvider>
+        <LanguageProvider>
+          <ThemeProvider>
+            <RouterProvider router={router} />
+          </ThemeProvider>
+        </LanguageProvider>
+      </AuthProvider>
+    </StrictMode>
+  )
+
+  if (prerendered) {
+    ReactDOM.hydrateRoot(container, app)
+    // The embedded loader data is from the last build; re-run the loaders once
+    // so content published since then replaces it without a redeploy.
+    void router.revalidate()
+  } else {
+    ReactDOM.createRoot(container).render(app)
+  }
+}
+
+bootstrap()
@@ -7,9 +7,10 @@ import {
   resolveSharedProfileCopy,
   sanitizeProfileText
 } from '../lib/profileContent'
-import { useLanguage } from '../lib/language'
+import { localizePath, useLanguage } from '../lib/language'
 import { absoluteSiteUrl, useSeo } from '../lib/seo'
 import { dedupeProfileLinks, getLocalizedSiteName, parseProfileLinks, type ProfileLink } from '../lib/site'
+import { normalizeAboutDoc } from '../lib/schema'
 import type { AppShellContext } from '../components/Layout'
 
 type AboutSectionCopy = {
@@ -82,7 +83,7 @@ function AboutContent({
     structuredData: {
       '@context': 'https://schema.org',
       '@type': 'ProfilePage',
-      url: absoluteSiteUrl('/about'),
+      url: absoluteSiteUrl(localizePath('/about', language)),
       mainEntity: {
         '@type': 'Person',
         name: displayName,
@@ -141,19 +142,19 @@ function AboutContent({
 
 async function loadAboutCopy(): Promise<AboutCopy> {
   const [doc, home] = await Promise.all([getPublicDoc('about'), getPublicDoc('home')])
-  const pick = (value: unknown) => typeof value === 'string' ? value.trim() : ''
-  const sharedProfile = resolveSharedProfileCopy(home as Record<string, unknown> | null)
+  const copy = normalizeAboutDoc(doc)
+  const sharedProfile = resolveSharedProfileCopy(home)
   const introFallbackEn = `${sharedProfile.supporting.en} ${sharedProfile.secondarySpecialization.en}`.trim()
   const introFallbackJa = `${sharedProfile.supporting.ja} ${sharedProfile.secondarySpecialization.ja}`.trim()
 
   return {
     headline: {
-      en: sanitizeProfileText(pick(doc?.headline_en) || pick(doc?.headline), sharedProfile.headline.en),
-      ja: sanitizeProfileText(pick(doc?.headline_ja) || pick(doc?.headline), sharedProfile.headline.ja)
+      en: sanitizeProfileText(copy.headline.en, sharedProfile.headline.en),
+      ja: sanitizeProfileText(copy.headline.ja, sharedProfile.headline.ja)
     },
     intro: {
-      en: sanitizeProfileText(pick(doc?.intro_en) || pick(doc?.intro), introFallbackEn),
-      ja: sanitizeProfileText(pick(doc?.intro_ja) || pick(doc?.intro), introFallbackJa)
+      en: sanitizeProfileText(copy.intro.en, introFallbackEn),
+      ja: sanitizeProfileText(copy.intro.ja, introFallbackJa)
     },
     sections: ABOUT_DEFAULTS.sections.map(section => ({
       id: section.id,
@@ -164,8 +165,8 @@ async function loadAboutCopy(): Promise<AboutCopy> {
       }
     })),
     links: {
-      en: parseProfileLinks(doc?.links_en ?? doc?.links ?? doc?.profile_links ?? doc?.sameAs ?? doc?.same_as),
-      ja: parseProfileLinks(doc?.links_ja ?? doc?.links ?? doc?.profile_links ?? doc?.sameAs ?? doc?.same_as)
+      en: parseProfileLinks(copy.links.en),
+      ja: parseProfileLinks(copy.links.ja)
     }
   }
 }
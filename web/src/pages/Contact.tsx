@@ -1,7 +1,7 @@
 import { useLoaderData, useOutletContext } from 'react-router-dom'
-import { Suspense, use } from 'react'
+import { Suspense, use, useState, type FormEvent } from 'react'
 import { getPublicDoc } from '../lib/content'
-import { useLanguage } from '../lib/language'
+import { localizePath, useLanguage } from '../lib/language'
 import { absoluteSiteUrl, useSeo } from '../lib/seo'
 import {
   dedupeProfileLinks,
@@ -9,12 +9,62 @@ import {
   parseProfileLinks,
   type ProfileLink
 } from '../lib/site'
+import { normalizeContactDoc } from '../lib/schema'
 import type { AppShellContext } from '../components/Layout'
 
 type ContactLoaderData = {
   contact: Promise<ContactCopy>
 }
 
+type ContactFormState = {
+  name: string
+  email: string
+  subject: string
+  message: string
+  website: string
+}
+
+type ContactFormStatus = 'idle' | 'submitting' | 'sent' | 'error'
+
+const contactFormLabels = {
+  en: {
+    heading: 'Send a message',
+    name: 'Name',
+    email: 'Email',
+    subject: 'Subject (optional)',
+    message: 'Message',
+    website: 'Leave this field empty',
+    submit: 'Send message',
+    submitting: 'Sending…',
+    sent: 'Thanks — your message was sent. I usually reply within a few business days.',
+    invalid: 'Please check the highlighted fields and try again.',
+    rateLimited: 'Too many messages from this connection. Please try again later or use email.',
+    failed: 'The message could not be sent right now. Please try again or use email.'
+  },
+  ja: {
+    heading: 'メッセージを送る',
+    name: 'お名前',
+    email: 'メールアドレス',
+    subject: '件名（任意）',
+    message: 'メッセージ',
+    website: 'この欄は空のままにしてください',
+    submit: '送信する',
+    submitting: '送信中…',
+    sent: 'メッセージを送信しました。通常、数営業日以内に返信します。',
+    invalid: '入力内容を確認して、もう一度お試しください。',
+    rateLimited: '送信回数が上限に達しました。時間をおいて再度お試しいただくか、メールをご利用ください。',
+    failed: '現在メッセージを送信できません。時間をおいて再度お試しいただくか、メールをご利用ください。'
+  }
+}
+
+const emptyContactForm: ContactFormState = {
+  name: '',
+  email: '',
+  subject: '',
+  message: '',
+  website: ''
+}
+
 type ContactCopy = {
   intro: { en: string; ja: string }
   availability: { en: string; ja: string }
@@ -82,7 +132,7 @@ function ContactContent({
     structuredData: {
       '@context': 'https://schema.org',
       '@type': 'ContactPage',
-      url: absoluteSiteUrl('/contact'),
+      url: absoluteSiteUrl(localizePath('/contact', language)),
       name: heading,
       ...(site.contactEmail
         ? {
@@ -125,25 +175,133 @@ function ContactContent({
           </div>
         )}
       </section>
+      <ContactForm language={language} />
     </section>
   )
 }
 
+function ContactForm({ language }: { language: 'en' | 'ja' }) {
+  const labels = contactFormLabels[language]
+  const [form, setForm] = useState<ContactFormState>(emptyContactForm)
+  const [status, setStatus] = useState<ContactFormStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const [invalidFields, setInvalidFields] = useState<string[]>([])
+
+  function updateField(key: keyof ContactFormState, value: string) {
+    setForm(prev => ({ ...prev, [key]: value }))
+  }
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setStatus('submitting')
+    setError(null)
+    setInvalidFields([])
+    try {
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, language })
+      })
+      const body = await response.json().catch(() => ({})) as { fields?: Record<string, string> }
+      if (response.ok) {
+        setForm(emptyContactForm)
+        setStatus('sent')
+        return
+      }
+      setStatus('error')
+      if (response.status === 400) {
+        setInvalidFields(Object.keys(body.fields ?? {}))
+        setError(labels.invalid)
+      } else if (response.status === 429) {
+        setError(labels.rateLimited)
+      } else {
+        setError(labels.failed)
+      }
+    } catch {
+      setStatus('error')
+      setError(labels.failed)
+    }
+  }
+
+  return (
+    <form className="card form contact-form" onSubmit={handleSubmit} noValidate>
+      <h2>{labels.heading}</h2>
+      <label>
+        {labels.name}
+        <input
+          name="name"
+          autoComplete="name"
+          maxLength={120}
+          value={form.name}
+          onChange={e => updateField('name', e.target.value)}
+          aria-invalid={invalidFields.includes('name')}
+          required
+        />
+      </label>
+      <label>
+        {labels.email}
+        <input
+          type="email"
+          name="email"
+          autoComplete="email"
+          maxLength={254}
+          value={form.email}
+          onChange={e => updateField('email', e.target.value)}
+          aria-invalid={invalidFields.includes('email')}
+          required
+        />
+      </label>
+      <label>
+        {labels.subject}
+        <input
+          name="subject"
+          maxLength={200}
+          value={form.subject}
+          onChange={e => updateField('subject', e.target.value)}
+          aria-invalid={invalidFields.includes('subject')}
+        />
+      </label>
+      <label>
+        {labels.message}
+        <textarea
+          name="message"
+          rows={6}
+          maxLength={5000}
+          value={form.message}
+          onChange={e => updateField('message', e.target.value)}
+          aria-invalid={invalidFields.includes('message')}
+          required
+        />
+      </label>
+      <label className="contact-form-trap" aria-hidden="true">
+        {labels.website}
+        <input
+          name="website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={form.website}
+          onChange={e => updateField('website', e.target.value)}
+        />
+      </label>
+      <div className="actions">
+        <button type="submit" disabled={status === 'submitting'}>
+          {status === 'submitting' ? labels.submitting : labels.submit}
+        </button>
+      </div>
+      {status === 'sent' && <p className="success" role="status">{labels.sent}</p>}
+      {error && <p className="error" role="alert">{error}</p>}
+    </form>
+  )
+}
+
 async function loadContactCopy(): Promise<ContactCopy> {
-  const doc = await getPublicDoc('contact')
-  const pick = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+  const copy = normalizeContactDoc(await getPublicDoc('contact'))
   return {
-    intro: {
-      en: pick(doc?.intro_en ?? doc?.intro),
-      ja: pick(doc?.intro_ja ?? doc?.intro)
-    },
-    availability: {
-      en: pick(doc?.availability_en ?? doc?.availability),
-      ja: pick(doc?.availability_ja ?? doc?.availability)
-    },
+    intro: copy.intro,
+    availability: copy.availability,
     links: {
-      en: parseProfileLinks(doc?.links_en ?? doc?.links ?? doc?.profile_links ?? doc?.sameAs ?? doc?.same_as),
-      ja: parseProfileLinks(doc?.links_ja ?? doc?.links ?? doc?.profile_links ?? doc?.sameAs ?? doc?.same_as)
+      en: parseProfileLinks(copy.links.en),
+      ja: parseProfileLinks(copy.links.ja)
     }
   }
 }
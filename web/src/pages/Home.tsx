@@ -10,9 +10,10 @@ import {
   resolveSharedProfileCopy,
   selectFeaturedProjects
 } from '../lib/profileContent'
-import { useLanguage } from '../lib/language'
+import { localizePath, useLanguage } from '../lib/language'
 import { absoluteSiteUrl, useSeo } from '../lib/seo'
 import { getLocalizedSiteName, normalizeExternalUrl, type ProfileLink } from '../lib/site'
+import { normalizeHomeDoc } from '../lib/schema'
 import type { AppShellContext } from '../components/Layout'
 
 type HomeLink = {
@@ -93,7 +94,7 @@ function HomeContent({
       '@context': 'https://schema.org',
       '@type': 'Person',
       name: displayName,
-      url: absoluteSiteUrl('/'),
+      url: absoluteSiteUrl(localizePath('/', language)),
       jobTitle: headline,
       description,
       sameAs
@@ -110,7 +111,7 @@ function HomeContent({
           {ctas.map(link => (
             isInternalHref(link.url)
               ? (
-                <Link key={`${link.label}-${link.url}`} to={link.url} className="button primary" prefetch="intent">
+                <Link key={`${link.label}-${link.url}`} to={localizePath(link.url, language)} className="button primary" prefetch="intent">
                   {link.label}
                 </Link>
                 )
@@ -187,7 +188,7 @@ function HomeContent({
               <article key={project.id} className="card proof-card">
                 <div className="proof-header">
                   <h3>
-                    <Link to={`/projects/${encodeURIComponent(project.id)}`} prefetch="intent">
+                    <Link to={localizePath(`/projects/${encodeURIComponent(project.id)}`, language)} prefetch="intent">
                       {title}
                     </Link>
                   </h3>
@@ -215,7 +216,7 @@ function HomeContent({
                   <div className="tags">{tags.slice(0, 5).map(tag => <span key={tag}>{tag}</span>)}</div>
                 )}
                 <div className="project-actions">
-                  <Link to={`/projects/${encodeURIComponent(project.id)}`} className="button primary" prefetch="intent">
+                  <Link to={localizePath(`/projects/${encodeURIComponent(project.id)}`, language)} className="button primary" prefetch="intent">
                     {language === 'ja' ? '事例を見る' : 'View case study'}
                   </Link>
                   {project.url && (
@@ -240,8 +241,8 @@ function HomeContent({
 
 async function loadHomeCopy(): Promise<HomeCopy> {
   const [home, projects] = await Promise.all([getPublicDoc('home'), listProjects()])
-  const pick = (value: unknown) => typeof value === 'string' ? value.trim() : ''
-  const sharedProfile = resolveSharedProfileCopy(home as Record<string, unknown> | null)
+  const copy = normalizeHomeDoc(home)
+  const sharedProfile = resolveSharedProfileCopy(home)
 
   const parseLinks = (raw: string) =>
     raw
@@ -257,25 +258,15 @@ async function loadHomeCopy(): Promise<HomeCopy> {
       })
       .filter(link => link.label && link.url)
 
-  const parseFeaturedIds = (value: unknown) => {
-    if (Array.isArray(value)) {
-      return value.map(item => pick(item)).filter(Boolean)
-    }
-    return pick(value)
-      .split('\n')
-      .map(item => item.trim())
-      .filter(Boolean)
-  }
-
   return {
     headline: sharedProfile.headline,
     supporting: sharedProfile.supporting,
     secondarySpecialization: sharedProfile.secondarySpecialization,
     links: {
-      en: parseLinks(pick(home?.links_en)),
-      ja: parseLinks(pick(home?.links_ja))
+      en: parseLinks(copy.links.en),
+      ja: parseLinks(copy.links.ja)
     },
-    featuredProjectIds: parseFeaturedIds(home?.featured_project_ids ?? home?.featured_projects_en),
+    featuredProjectIds: copy.featuredProjectIds,
     projects
   }
 }
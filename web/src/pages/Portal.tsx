@@ -0,0 +1,267 @@
+import { useSearchParams } from 'react-router-dom'
+import { useEffect, useState, type FormEvent } from 'react'
+import type { PortalFile, ProjectRecord } from '../lib/schema'
+import { PORTAL_SHARED_FILES, formatAccessCode, normalizeAccessCode } from '../lib/schema'
+import { localizedValue, projectNarrative } from '../lib/profileContent'
+import { useLanguage } from '../lib/language'
+import { useSeo } from '../lib/seo'
+import CaseStudyDetails from '../components/CaseStudyDetails'
+
+type PortalResponse = {
+  label: string
+  urlsExpireAt: string
+  projects: ProjectRecord[]
+  files: PortalFile[]
+}
+
+type PortalStatus = 'idle' | 'loading' | 'ready' | 'error'
+
+// Kept for the tab only, so a reload does not ask for the code again.
+const CODE_STORAGE_KEY = 'portal-code'
+
+const portalLabels = {
+  en: {
+    title: 'Private case studies',
+    intro: 'Enter the access code you were given to see case studies and documents that are not public.',
+    code: 'Access code',
+    submit: 'Open',
+    loading: 'Checking…',
+    forget: 'Sign out',
+    refresh: 'Refresh links',
+    files: 'Documents',
+    sharedFiles: 'Shared documents',
+    empty: 'Nothing has been shared with this code yet.',
+    linksExpire: 'Download links are valid until',
+    linksExpired: 'The download links have expired. Refresh them to keep downloading.',
+    invalid: 'That code is not valid. Check it, or ask for a new one if it may have expired.',
+    rateLimited: 'Too many attempts from this connection. Please try again later.',
+    failed: 'The portal could not be opened right now. Please try again.'
+  },
+  ja: {
+    title: '限定公開のケーススタディ',
+    intro: '共有されたアクセスコードを入力すると、非公開のケーススタディと資料を閲覧できます。',
+    code: 'アクセスコード',
+    submit: '開く',
+    loading: '確認中…',
+    forget: '閉じる',
+    refresh: 'リンクを更新',
+    files: '資料',
+    sharedFiles: '共通資料',
+    empty: 'このコードで共有されている内容はまだありません。',
+    linksExpire: 'ダウンロードリンクの有効期限',
+    linksExpired: 'ダウンロードリンクの有効期限が切れました。更新してからダウンロードしてください。',
+    invalid: 'コードが無効です。入力を確認するか、期限切れの可能性がある場合は新しいコードをお問い合わせください。',
+    rateLimited: '試行回数が上限に達しました。時間をおいて再度お試しください。',
+    failed: '現在ポータルを開けません。時間をおいて再度お試しください。'
+  }
+}
+
+export function Component() {
+  const { language } = useLanguage()
+  const labels = portalLabels[language]
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [code, setCode] = useState('')
+  const [status, setStatus] = useState<PortalStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const [portal, setPortal] = useState<PortalResponse | null>(null)
+  const [linksExpired, setLinksExpired] = useState(false)
+
+  useSeo({
+    title: labels.title,
+    description: labels.intro,
+    path: '/portal',
+    robots: 'noindex,nofollow'
+  })
+
+  useEffect(() => {
+    // Invite links carry the code in the query; drop it from the address bar
+    // once read so it does not end up in history or referrers.
+    const invited = normalizeAccessCode(searchParams.get('code') ?? '')
+    if (invited) {
+      setSearchParams(params => {
+        params.delete('code')
+        return params
+      }, { replace: true })
+    }
+    const initial = invited || sessionStorage.getItem(CODE_STORAGE_KEY) || ''
+    if (initial) {
+      setCode(formatAccessCode(initial))
+      void unlock(initial)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!portal) return
+    setLinksExpired(false)
+    const remaining = Date.parse(portal.urlsExpireAt) - Date.now()
+    const timer = window.setTimeout(() => setLinksExpired(true), Math.max(remaining, 0))
+    return () => window.clearTimeout(timer)
+  }, [portal])
+
+  async function unlock(value: string) {
+    setStatus('loading')
+    setError(null)
+    try {
+      const response = await fetch('/api/portal', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: normalizeAccessCode(value) })
+      })
+      const body = await response.json().catch(() => ({})) as Partial<PortalResponse> & { error?: string }
+      if (response.ok) {
+        sessionStorage.setItem(CODE_STORAGE_KEY, normalizeAccessCode(value))
+        setPortal({
+          label: body.label ?? '',
+          urlsExpireAt: body.urlsExpireAt ?? '',
+          projects: body.projects ?? [],
+          files: body.files ?? []
+        })
+        setStatus('ready')
+        return
+      }
+      setStatus('error')
+      if (response.status === 400 || response.status === 403) {
+        sessionStorage.removeItem(CODE_STORAGE_KEY)
+        setPortal(null)
+        setError(labels.invalid)
+      } else if (response.status === 429) {
+        setError(labels.rateLimited)
+      } else {
+        setError(labels.failed)
+      }
+    } catch {
+      setStatus('error')
+      setError(labels.failed)
+    }
+  }
+
+  function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    void unlock(code)
+  }
+
+  function forget() {
+    sessionStorage.removeItem(CODE_STORAGE_KEY)
+    setPortal(null)
+    setCode('')
+    setStatus('idle')
+    setError(null)
+  }
+
+  if (!portal) {
+    return (
+      <section className="stack">
+        <form className="card form" onSubmit={handleSubmit}>
+          <h1>{labels.title}</h1>
+          <p>{labels.intro}</p>
+          <label>
+            {labels.code}
+            <input
+              name="code"
+              autoComplete="off"
+              autoCapitalize="characters"
+              spellCheck={false}
+              maxLength={40}
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              required
+            />
+          </label>
+          <div className="actions">
+            <button type="submit" disabled={status === 'loading' || !normalizeAccessCode(code)}>
+              {status === 'loading' ? labels.loading : labels.submit}
+            </button>
+          </div>
+          {error && <p className="error" role="alert">{error}</p>}
+        </form>
+      </section>
+    )
+  }
+
+  const sharedFiles = portal.files.filter(file => file.projectId === PORTAL_SHARED_FILES)
+  const expiresAt = new Date(portal.urlsExpireAt)
+
+  return (
+    <section className="stack">
+      <section className="card page-intro">
+        <p className="eyebrow">{portal.label || labels.title}</p>
+        <h1>{labels.title}</h1>
+        {linksExpired
+          ? <p className="muted">{labels.linksExpired}</p>
+          : (
+              <p className="muted">
+                {labels.linksExpire} {expiresAt.toLocaleTimeString(language === 'ja' ? 'ja-JP' : 'en-US', { hour: '2-digit', minute: '2-digit' })}
+              </p>
+            )}
+        <div className="actions">
+          <button type="button" className="button secondary" onClick={() => unlock(code)} disabled={status === 'loading'}>
+            {status === 'loading' ? labels.loading : labels.refresh}
+          </button>
+          <button type="button" className="button ghost" onClick={forget}>{labels.forget}</button>
+        </div>
+        {error && <p className="error" role="alert">{error}</p>}
+        {portal.projects.length === 0 && portal.files.length === 0 && <p>{labels.empty}</p>}
+      </section>
+
+      {sharedFiles.length > 0 && (
+        <PortalFileList heading={labels.sharedFiles} files={sharedFiles} disabled={linksExpired} language={language} />
+      )}
+
+      {portal.projects.map(project => {
+        const title = localizedValue(project.title, language, project.id)
+        const files = portal.files.filter(file => file.projectId === project.id)
+        return (
+          <article key={project.id} className="stack">
+            <section className="card page-intro">
+              <p className="eyebrow">Case Study</p>
+              <h2>{title}</h2>
+              <p className="lead-text">{localizedValue(projectNarrative(project).summary, language)}</p>
+            </section>
+            <CaseStudyDetails project={project} title={title} language={language} />
+            {files.length > 0 && (
+              <PortalFileList heading={labels.files} files={files} disabled={linksExpired} language={language} />
+            )}
+          </article>
+        )
+      })}
+    </section>
+  )
+}
+
+export default Component
+
+function PortalFileList({
+  heading,
+  files,
+  disabled,
+  language
+}: {
+  heading: string
+  files: PortalFile[]
+  disabled: boolean
+  language: 'en' | 'ja'
+}) {
+  return (
+    <section className="resume-section">
+      <h2>{heading}</h2>
+      <ul>
+        {files.map(file => (
+          <li key={file.path}>
+            {disabled
+              ? <span>{file.name}</span>
+              : <a href={file.url} target="_blank" rel="noopener noreferrer">{file.name}</a>}
+            {' '}
+            <span className="muted">({formatFileSize(file.size, language)})</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+function formatFileSize(bytes: number, language: 'en' | 'ja') {
+  const locale = language === 'ja' ? 'ja-JP' : 'en-US'
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toLocaleString(locale, { maximumFractionDigits: 0 })} KB`
+  return `${(bytes / (1024 * 1024)).toLocaleString(locale, { maximumFractionDigits: 1 })} MB`
+}
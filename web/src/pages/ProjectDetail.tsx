@@ -2,9 +2,10 @@ import { Link, LoaderFunctionArgs, useLoaderData, useOutletContext } from 'react
 import { Suspense, use } from 'react'
 import { listProjects, type ProjectRecord } from '../lib/content'
 import { localizedValue, projectNarrative } from '../lib/profileContent'
-import { useLanguage } from '../lib/language'
+import { localizePath, useLanguage } from '../lib/language'
 import { absoluteSiteUrl, useSeo } from '../lib/seo'
 import { getLocalizedSiteName } from '../lib/site'
+import CaseStudyDetails from '../components/CaseStudyDetails'
 import type { AppShellContext } from '../components/Layout'
 
 type ProjectDetailLoaderData = {
@@ -73,7 +74,7 @@ function ProjectDetailContent({
             '@type': 'CreativeWork',
             name: title,
             description: summary,
-            url: absoluteSiteUrl(canonicalPath)
+            url: absoluteSiteUrl(localizePath(canonicalPath, language))
           }
         }
       : {})
@@ -85,7 +86,7 @@ function ProjectDetailContent({
         <h1>{notFoundTitle}</h1>
         <p>{notFoundDescription}</p>
         <p>
-          <Link to="/projects" prefetch="intent">
+          <Link to={localizePath('/projects', language)} prefetch="intent">
             {language === 'ja' ? '事例一覧に戻る' : 'Back to Case Studies'}
           </Link>
         </p>
@@ -93,19 +94,10 @@ function ProjectDetailContent({
     )
   }
 
-  const tags = language === 'ja'
-    ? (project.tags.ja.length ? project.tags.ja : project.tags.en)
-    : (project.tags.en.length ? project.tags.en : project.tags.ja)
-  const narrative = projectNarrative(project)
-  const problem = localizedValue(narrative.problem, language)
-  const systems = localizedValue(narrative.systems, language)
-  const owned = localizedValue(narrative.owned, language)
-  const architecture = localizedValue(narrative.architecture, language)
-
   return (
     <article className="stack">
       <p className="muted">
-        <Link to="/projects" prefetch="intent">
+        <Link to={localizePath('/projects', language)} prefetch="intent">
           {language === 'ja' ? '事例一覧へ戻る' : 'Back to Case Studies'}
         </Link>
       </p>
@@ -128,51 +120,7 @@ function ProjectDetailContent({
         </div>
       </section>
 
-      {project.cover && (
-        <div className="project-cover-wrapper project-detail-cover">
-          <img
-            src={project.cover}
-            alt={title}
-            loading="eager"
-            decoding="async"
-            width={960}
-            height={540}
-            className="project-cover"
-          />
-        </div>
-      )}
-
-      <section className="case-study-section">
-        <dl className="detail-grid large-detail-grid">
-          <div>
-            <dt>{language === 'ja' ? '課題' : 'Problem'}</dt>
-            <dd>{problem}</dd>
-          </div>
-          <div>
-            <dt>{language === 'ja' ? '関わるシステム' : 'Systems involved'}</dt>
-            <dd>{systems}</dd>
-          </div>
-          <div>
-            <dt>{language === 'ja' ? '連携 / バックエンド構成' : 'Integration / backend architecture'}</dt>
-            <dd>{architecture}</dd>
-          </div>
-          <div>
-            <dt>{language === 'ja' ? '担当範囲' : 'Delivery scope'}</dt>
-            <dd>{owned}</dd>
-          </div>
-          <div>
-            <dt>{language === 'ja' ? '運用結果' : 'Operational result'}</dt>
-            <dd>{result}</dd>
-          </div>
-        </dl>
-      </section>
-
-      {tags.length > 0 && (
-        <section className="resume-section">
-          <h2>{language === 'ja' ? '技術キーワード' : 'Technical keywords'}</h2>
-          <div className="tags">{tags.map(tag => <span key={tag}>{tag}</span>)}</div>
-        </section>
-      )}
+      <CaseStudyDetails project={project} title={title} language={language} />
     </article>
   )
 }
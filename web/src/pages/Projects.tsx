@@ -1,20 +1,46 @@
-import { Link, useLoaderData, useOutletContext } from 'react-router-dom'
-import { Suspense, use } from 'react'
+import { Link, useLoaderData, useOutletContext, useSearchParams } from 'react-router-dom'
+import { Suspense, use, useEffect, useState } from 'react'
 import { getPublicDoc, listProjects, type ProjectRecord } from '../lib/content'
 import {
+  DEFAULT_PROJECT_PRIORITY,
   localizedValue,
   prioritizeProjects,
   projectNarrative,
   resolveSharedProfileCopy,
   selectPortfolioProjects
 } from '../lib/profileContent'
-import { useLanguage } from '../lib/language'
+import { localizePath, useLanguage } from '../lib/language'
+import {
+  EMPTY_PROJECT_QUERY,
+  PROJECT_SORTS,
+  filterProjects,
+  isFacetSelected,
+  isProjectQueryActive,
+  parseProjectQuery,
+  projectFacets,
+  projectQueryParams,
+  sortProjects,
+  toggleFacetValue,
+  type ProjectFacet,
+  type ProjectQuery,
+  type ProjectSort
+} from '../lib/schema'
 import { trackOutboundProjectLink } from '../lib/analytics'
 import ProjectCoverMedia from '../components/ProjectCoverMedia'
 import { useSeo } from '../lib/seo'
 import { getLocalizedSiteName } from '../lib/site'
 import type { AppShellContext } from '../components/Layout'
 
+// Facets with more values than this show the most common ones plus any that
+// are selected.
+const FACET_LIMIT = 20
+
+const SORT_LABELS: Record<ProjectSort, { en: string; ja: string }> = {
+  priority: { en: 'Recommended', ja: 'おすすめ順' },
+  recent: { en: 'Recently updated', ja: '更新が新しい順' },
+  title: { en: 'Title', ja: 'タイトル順' }
+}
+
 type ProjectsLoaderData = {
   projects: Promise<{
     items: ProjectRecord[]
@@ -60,11 +86,21 @@ function ProjectsContent({
   displayName: string
 }) {
   const { items: projects, roleHeadline } = use(promise)
+  const [searchParams, setSearchParams] = useSearchParams()
+  // The prerendered page has no query string, so filters from the URL are
+  // applied only after hydration.
+  const [hydrated, setHydrated] = useState(false)
+  useEffect(() => setHydrated(true), [])
+  const query = hydrated ? parseProjectQuery(searchParams) : EMPTY_PROJECT_QUERY
+  const filtering = isProjectQueryActive(query)
+  const results = filtering
+    ? sortProjects(filterProjects(prioritizeProjects(projects), query, language), query.sort, language)
+    : []
   const curated = selectPortfolioProjects(projects, 3)
   const remainingIds = new Set(curated.map(project => project.id))
   const additional = prioritizeProjects(projects)
     .filter(project => !remainingIds.has(project.id))
-    .filter(project => projectNarrative(project).priority < 50)
+    .filter(project => projectNarrative(project).priority < DEFAULT_PROJECT_PRIORITY)
 
   useSeo({
     title: `${displayName} | ${language === 'ja' ? '事例' : 'Case Studies'}`,
@@ -74,6 +110,10 @@ function ProjectsContent({
     path: '/projects'
   })
 
+  function updateQuery(next: Partial<ProjectQuery>, replace = false) {
+    setSearchParams(projectQueryParams({ ...query, ...next }), { replace, preventScrollReset: true })
+  }
+
   if (projects.length === 0) {
     return (
       <section className="stack">
@@ -97,63 +137,190 @@ function ProjectsContent({
             : 'This page organizes public work around the problem, systems involved, integration and backend architecture, and the operational result.'}
         </p>
       </section>
-      <section className="stack">
-        <div className="section-heading">
-          <p className="eyebrow">{language === 'ja' ? '注目事例' : 'Featured case studies'}</p>
-          <h2>{language === 'ja' ? '主なケーススタディ' : 'Selected case studies'}</h2>
-        </div>
-        <div className="case-study-grid">
-          {curated.map((project, index) => (
-            <CaseStudyCard
-              key={project.id}
-              project={project}
-              language={language}
-              position={index + 1}
-            />
-          ))}
-        </div>
-      </section>
+      <ProjectFilters projects={projects} query={query} language={language} onChange={updateQuery} />
 
-      {additional.length > 0 && (
-        <section className="stack">
+      {filtering ? (
+        <section className="stack" aria-live="polite">
           <div className="section-heading">
-            <p className="eyebrow">{language === 'ja' ? '補足' : 'Additional work'}</p>
-            <h2>{language === 'ja' ? '他の公開事例 / リポジトリ' : 'Other public case studies and repositories'}</h2>
+            <p className="eyebrow">{language === 'ja' ? '絞り込み結果' : 'Filtered results'}</p>
+            <h2>
+              {language === 'ja'
+                ? `${results.length} 件のケーススタディ`
+                : `${results.length} ${results.length === 1 ? 'case study' : 'case studies'}`}
+            </h2>
           </div>
-          <ul className="cards compact-cards">
-            {additional.map(project => {
-              const title = localizedValue(project.title, language, project.id)
-              const narrative = projectNarrative(project)
-              const summary = localizedValue(narrative.summary, language)
-
-              return (
-                <li key={project.id} className="card compact-project-card">
-                  <h3>
-                    <Link to={`/projects/${encodeURIComponent(project.id)}`} prefetch="intent">
-                      {title}
-                    </Link>
-                  </h3>
-                  <p>{summary}</p>
-                  <div className="project-actions">
-                    <Link to={`/projects/${encodeURIComponent(project.id)}`} className="button ghost" prefetch="intent">
-                      {language === 'ja' ? '事例を見る' : 'View case study'}
-                    </Link>
-                    {project.repo && (
-                      <a href={project.repo} target="_blank" rel="noopener noreferrer" className="button ghost">
-                        {language === 'ja' ? 'ソース' : 'Source'}
-                      </a>
-                    )}
-                  </div>
-                </li>
-              )
-            })}
-          </ul>
+          {results.length > 0 ? (
+            <ul className="cards compact-cards">
+              {results.map(project => <CompactProjectCard key={project.id} project={project} language={language} />)}
+            </ul>
+          ) : (
+            <p className="muted">
+              {language === 'ja'
+                ? '条件に合うケーススタディはありません。検索語やフィルターを減らしてください。'
+                : 'No case studies match these filters. Try fewer tags or a shorter search.'}
+            </p>
+          )}
         </section>
+      ) : (
+        <>
+          <section className="stack">
+            <div className="section-heading">
+              <p className="eyebrow">{language === 'ja' ? '注目事例' : 'Featured case studies'}</p>
+              <h2>{language === 'ja' ? '主なケーススタディ' : 'Selected case studies'}</h2>
+            </div>
+            <div className="case-study-grid">
+              {curated.map((project, index) => (
+                <CaseStudyCard
+                  key={project.id}
+                  project={project}
+                  language={language}
+                  position={index + 1}
+                />
+              ))}
+            </div>
+          </section>
+
+          {additional.length > 0 && (
+            <section className="stack">
+              <div className="section-heading">
+                <p className="eyebrow">{language === 'ja' ? '補足' : 'Additional work'}</p>
+                <h2>{language === 'ja' ? '他の公開事例 / リポジトリ' : 'Other public case studies and repositories'}</h2>
+              </div>
+              <ul className="cards compact-cards">
+                {additional.map(project => <CompactProjectCard key={project.id} project={project} language={language} />)}
+              </ul>
+            </section>
+          )}
+        </>
       )}
     </article>
   )
 }
 
+function ProjectFilters({
+  projects,
+  query,
+  language,
+  onChange
+}: {
+  projects: ProjectRecord[]
+  query: ProjectQuery
+  language: 'en' | 'ja'
+  onChange: (next: Partial<ProjectQuery>, replace?: boolean) => void
+}) {
+  // Typing keeps its own state so trailing spaces survive until the next word.
+  const [search, setSearch] = useState(query.search)
+  useEffect(() => {
+    setSearch(current => (current.trim() === query.search ? current : query.search))
+  }, [query.search])
+  const facets = projectFacets(projects, query, language)
+
+  return (
+    <section className="card project-filters" aria-label={language === 'ja' ? '事例の絞り込み' : 'Filter case studies'}>
+      <form role="search" className="project-filter-row" onSubmit={event => event.preventDefault()}>
+        <label>
+          {language === 'ja' ? 'キーワード検索' : 'Search'}
+          <input
+            type="search"
+            value={search}
+            placeholder={language === 'ja' ? 'タイトル、課題、システム…' : 'Title, problem, systems…'}
+            onChange={event => {
+              setSearch(event.target.value)
+              onChange({ search: event.target.value }, true)
+            }}
+          />
+        </label>
+        <label>
+          {language === 'ja' ? '並び順' : 'Sort by'}
+          <select value={query.sort} onChange={event => onChange({ sort: event.target.value as ProjectSort })}>
+            {PROJECT_SORTS.map(sort => <option key={sort} value={sort}>{SORT_LABELS[sort][language]}</option>)}
+          </select>
+        </label>
+      </form>
+      <FacetGroup
+        legend={language === 'ja' ? 'タグ' : 'Tags'}
+        facets={facets.tags}
+        selected={query.tags}
+        onToggle={value => onChange({ tags: toggleFacetValue(query.tags, value) })}
+      />
+      <FacetGroup
+        legend={language === 'ja' ? '言語' : 'Language'}
+        facets={facets.languages}
+        selected={query.languages}
+        onToggle={value => onChange({ languages: toggleFacetValue(query.languages, value) })}
+      />
+      {isProjectQueryActive(query) && (
+        <div className="project-actions">
+          <button type="button" className="button ghost" onClick={() => onChange(EMPTY_PROJECT_QUERY)}>
+            {language === 'ja' ? '条件をクリア' : 'Clear filters'}
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function FacetGroup({
+  legend,
+  facets,
+  selected,
+  onToggle
+}: {
+  legend: string
+  facets: ProjectFacet[]
+  selected: string[]
+  onToggle: (value: string) => void
+}) {
+  const visible = facets.filter((facet, index) => index < FACET_LIMIT || isFacetSelected(selected, facet.value))
+  if (!visible.length) return null
+
+  return (
+    <fieldset className="facet-group">
+      <legend>{legend}</legend>
+      <div className="facet-chips">
+        {visible.map(facet => (
+          <label key={facet.value} className="facet-chip">
+            <input
+              type="checkbox"
+              checked={isFacetSelected(selected, facet.value)}
+              onChange={() => onToggle(facet.value)}
+            />
+            <span>{facet.value}</span>
+            <span className="facet-count">{facet.count}</span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  )
+}
+
+function CompactProjectCard({ project, language }: { project: ProjectRecord; language: 'en' | 'ja' }) {
+  const title = localizedValue(project.title, language, project.id)
+  const narrative = projectNarrative(project)
+  const summary = localizedValue(narrative.summary, language)
+
+  return (
+    <li className="card compact-project-card">
+      <h3>
+        <Link to={localizePath(`/projects/${encodeURIComponent(project.id)}`, language)} prefetch="intent">
+          {title}
+        </Link>
+      </h3>
+      <p>{summary}</p>
+      <div className="project-actions">
+        <Link to={localizePath(`/projects/${encodeURIComponent(project.id)}`, language)} className="button ghost" prefetch="intent">
+          {language === 'ja' ? '事例を見る' : 'View case study'}
+        </Link>
+        {project.repo && (
+          <a href={project.repo} target="_blank" rel="noopener noreferrer" className="button ghost">
+            {language === 'ja' ? 'ソース' : 'Source'}
+          </a>
+        )}
+      </div>
+    </li>
+  )
+}
+
 async function loadProjectsPageData() {
   const [items, home] = await Promise.all([listProjects(), getPublicDoc('home')])
   const sharedProfile = resolveSharedProfileCopy(home as Record<string, unknown> | null)
@@ -189,6 +356,7 @@ function CaseStudyCard({
         <div className="project-cover-wrapper">
           <ProjectCoverMedia
             cover={project.cover}
+            image={project.coverImage}
             alt={title}
             className="project-cover"
             fallbackText={title}
@@ -198,7 +366,7 @@ function CaseStudyCard({
       <div className="card-body">
         <p className="eyebrow">{language === 'ja' ? '事例' : 'Case Study'}</p>
         <h2>
-          <Link to={`/projects/${encodeURIComponent(project.id)}`} prefetch="intent">
+          <Link to={localizePath(`/projects/${encodeURIComponent(project.id)}`, language)} prefetch="intent">
             {title}
           </Link>
         </h2>
@@ -226,7 +394,7 @@ function CaseStudyCard({
         <div className="tags">{tags.slice(0, 6).map(tag => <span key={tag}>{tag}</span>)}</div>
       )}
       <div className="project-actions">
-        <Link to={`/projects/${encodeURIComponent(project.id)}`} className="button ghost" prefetch="intent">
+        <Link to={localizePath(`/projects/${encodeURIComponent(project.id)}`, language)} className="button ghost" prefetch="intent">
           {language === 'ja' ? '事例を見る' : 'View case study'}
         </Link>
         {project.url && (
@@ -1,32 +1,31 @@
 import { useLoaderData, useOutletContext } from 'react-router-dom'
 import { Suspense, use } from 'react'
 import { getPublicDoc, type LocalizedText } from '../lib/content'
-import {
-  RESUME_DEFAULTS,
-  localizedValue,
-  resolveSharedProfileCopy,
-  sanitizeProfileItems
-} from '../lib/profileContent'
+import { localizedValue, resolveSharedProfileCopy } from '../lib/profileContent'
 import { useLanguage } from '../lib/language'
+import {
+  hasJapaneseHistory,
+  normalizeResumeDoc,
+  resumePageDescription,
+  type ResumeContent as ResumeDoc,
+  type ResumeHighlight,
+  type ResumeSectionContent
+} from '../lib/schema'
 import { useSeo } from '../lib/seo'
 import { getLocalizedSiteName } from '../lib/site'
 import type { AppShellContext } from '../components/Layout'
 
-type ResumeSectionEntry = {
-  id: string
-  title: LocalizedText
-  items: { en: string[]; ja: string[] }
-}
+type ResumeSectionEntry = ResumeSectionContent
 
 type ResumeCopy = {
-  enUrl?: string
-  jaUrl?: string
+  doc: ResumeDoc
   updatedAt?: string
   jaEta?: string
-  roleHeadline: LocalizedText
   secondarySpecialization: LocalizedText
   summary: { en: string[]; ja: string[] }
+  highlights: ResumeHighlight[]
   sections: ResumeSectionEntry[]
+  japaneseDocuments: boolean
 }
 
 type ResumeLoaderData = {
@@ -68,15 +67,15 @@ function ResumeContent({
   displayName: string
 }) {
   const resume = use(promise)
-  const url = language === 'ja' ? resume.jaUrl ?? resume.enUrl : resume.enUrl ?? resume.jaUrl
-  const defaultSummary = language === 'ja' ? RESUME_DEFAULTS.summary.ja : RESUME_DEFAULTS.summary.en
-  const legacySummary = language === 'ja'
+  const pdfUrl = language === 'ja' ? '/resume.pdf?lang=ja' : '/resume.pdf'
+  const localizedSummary = language === 'ja'
     ? (resume.summary.ja.length ? resume.summary.ja : resume.summary.en)
     : (resume.summary.en.length ? resume.summary.en : resume.summary.ja)
-  const summaryParagraphs = dedupeStrings([
-    ...defaultSummary,
-    ...legacySummary.filter(paragraph => !isOffBrandParagraph(paragraph))
-  ]).slice(0, 2)
+  const summaryParagraphs = dedupeStrings(localizedSummary)
+  const headline = localizedValue(resume.doc.headline, language)
+  const lead = localizedValue(resume.doc.lead, language)
+  const supporting = localizedValue(resume.doc.supporting, language)
+  const highlights = buildResumeHighlights(language, resume.highlights)
   const sections = buildResumeSections(language, resume.sections)
   const updatedCopy = resume.updatedAt
     ? (language === 'ja' ? `最終更新: ${resume.updatedAt}` : `Updated: ${resume.updatedAt}`)
@@ -84,7 +83,7 @@ function ResumeContent({
   const etaCopy = language === 'ja'
     ? (resume.jaEta ? `公開予定日: ${resume.jaEta}` : null)
     : (resume.jaEta ? `Target publish date: ${resume.jaEta}` : null)
-  const description = `${localizedValue(resume.roleHeadline, language)} ${summaryParagraphs[1] || ''}`.trim()
+  const description = resumePageDescription(resume.doc, language)
 
   useSeo({
     title: `${displayName} | ${language === 'ja' ? '履歴書' : 'Resume'}`,
@@ -96,34 +95,41 @@ function ResumeContent({
     <article className="resume-page">
       <section className="card resume-hero-card">
         <p className="eyebrow">{language === 'ja' ? '履歴書' : 'Resume'}</p>
-        <h1>{localizedValue(resume.roleHeadline, language)}</h1>
-        <p className="lead-text">{summaryParagraphs[1] || summaryParagraphs[0]}</p>
-        {url && (
-          <div className="resume-download resume-download--hero">
-            <a
-              href={url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="button primary resume-download-button"
-            >
-              {language === 'ja' ? '履歴書 PDF をダウンロード' : 'Download Resume PDF'}
-            </a>
-          </div>
-        )}
+        <h1>{headline || displayName}</h1>
+        {lead && <p className="lead-text">{lead}</p>}
+        {supporting && <p>{supporting}</p>}
+        <div className="resume-download resume-download--hero">
+          <a
+            href={pdfUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="button primary resume-download-button"
+          >
+            {language === 'ja' ? '履歴書 PDF をダウンロード' : 'Download Resume PDF'}
+          </a>
+          {language === 'ja' && resume.japaneseDocuments && (
+            <>
+              <a href="/resume/rirekisho">履歴書（JIS 形式）</a>
+              <a href="/resume/shokumu-keirekisho">職務経歴書</a>
+            </>
+          )}
+        </div>
         {(updatedCopy || etaCopy) && (
           <div className="resume-download-row">
             {updatedCopy && <p className="muted resume-meta">{updatedCopy}</p>}
             {etaCopy && <p className="muted resume-meta">{etaCopy}</p>}
           </div>
         )}
-        <div className="resume-highlight-grid">
-          {buildResumeHighlights(language).map(card => (
-            <article key={card.title} className="mini-card">
-              <h2>{card.title}</h2>
-              <p>{card.body}</p>
-            </article>
-          ))}
-        </div>
+        {highlights.length > 0 && (
+          <div className="resume-highlight-grid">
+            {highlights.map(card => (
+              <article key={card.id} className="mini-card">
+                <h2>{card.title}</h2>
+                <p>{card.body}</p>
+              </article>
+            ))}
+          </div>
+        )}
         {summaryParagraphs.map((paragraph, index) => (
           <p key={`summary-${index}`}>{paragraph}</p>
         ))}
@@ -155,63 +161,23 @@ function ResumeContent({
 
 async function loadResumeCopy(): Promise<ResumeCopy> {
   const [doc, home] = await Promise.all([getPublicDoc('resume'), getPublicDoc('home')])
-  const pick = (value: unknown) => typeof value === 'string' ? value.trim() : ''
   const sharedProfile = resolveSharedProfileCopy(home as Record<string, unknown> | null)
-  const isArrayOfStrings = (value: unknown): value is string[] =>
-    Array.isArray(value) && value.every(item => typeof item === 'string')
-  const parseParagraphs = (value: unknown) =>
-    pick(value)
-      .split(/\n{2,}/)
-      .map(paragraph => paragraph.trim())
-      .filter(Boolean)
-  const parseItems = (value: unknown) => {
-    if (isArrayOfStrings(value)) {
-      return value.map(item => item.trim()).filter(Boolean)
-    }
-    return pick(value)
-      .split('\n')
-      .map(line => line.trim())
-      .filter(Boolean)
-  }
+  const resume = normalizeResumeDoc(doc)
 
   return {
-    enUrl: pick(doc?.url_en ?? doc?.url) || undefined,
-    jaUrl: pick(doc?.url_ja ?? doc?.url) || undefined,
-    updatedAt: pick(doc?.updatedAt ?? doc?.updated_at),
-    jaEta: pick(doc?.ja_eta ?? doc?.eta_ja ?? doc?.jaTargetDate),
-    roleHeadline: sharedProfile.headline,
+    doc: resume,
+    updatedAt: resume.updatedAt,
+    jaEta: resume.jaEta,
     secondarySpecialization: sharedProfile.secondarySpecialization,
-    summary: {
-      en: parseParagraphs(doc?.summary_en ?? doc?.summary),
-      ja: parseParagraphs(doc?.summary_ja ?? doc?.summary)
-    },
-    sections: Array.isArray((doc as any)?.sections)
-      ? (doc as any).sections.map((section: any, index: number) => {
-          const id = pick(section?.id) || `section-${index}`
-          const titleEn = pick(section?.title_en ?? section?.title)
-          const titleJa = pick(section?.title_ja ?? section?.title)
-          const itemsEn = parseItems(section?.items_en ?? section?.items)
-          const itemsJa = parseItems(section?.items_ja ?? section?.items)
-          return {
-            id,
-            title: { en: titleEn, ja: titleJa },
-            items: { en: itemsEn, ja: itemsJa }
-          }
-        })
-      : []
+    summary: resume.summary,
+    highlights: resume.highlights,
+    sections: resume.sections,
+    japaneseDocuments: hasJapaneseHistory(resume.japanese)
   }
 }
 
 function buildResumeSections(language: 'en' | 'ja', sections: ResumeSectionEntry[]) {
-  const defaultSections = RESUME_DEFAULTS.sections
-  const sanitizedSections = sections
-    .map(section => ({
-      ...section,
-      items: {
-        en: sanitizeProfileItems(section.items.en, []),
-        ja: sanitizeProfileItems(section.items.ja, [])
-      }
-    }))
+  return sections
     .filter(section => {
       const title = localizedValue(section.title, language)
       const items = language === 'ja'
@@ -219,44 +185,22 @@ function buildResumeSections(language: 'en' | 'ja', sections: ResumeSectionEntry
         : (section.items.en.length ? section.items.en : section.items.ja)
       return Boolean(title || items.length)
     })
-
-  return [
-    ...defaultSections,
-    ...sanitizedSections
-  ]
 }
 
-function buildResumeHighlights(language: 'en' | 'ja') {
-  return [
-    {
-      title: language === 'ja' ? '主軸' : 'Primary focus',
-      body: language === 'ja'
-        ? '実装 / 連携 delivery を本番サポートまで持つこと。'
-        : 'Implementation and integration delivery with ownership through production support.'
-    },
-    {
-      title: language === 'ja' ? '主要技術' : 'Core stack',
-      body: language === 'ja'
-        ? 'Python、TypeScript、API、認証、Webhook、SQL、クラウド運用。'
-        : 'Python, TypeScript, APIs, auth, webhooks, SQL, and cloud operations.'
-    },
-    {
-      title: language === 'ja' ? '実績タイプ' : 'Shipped systems',
-      body: language === 'ja'
-        ? '公開プロダクト、バックエンドサービス、運用ツール。'
-        : 'Public products, backend services, and operational tooling.'
-    }
-  ]
+function buildResumeHighlights(language: 'en' | 'ja', highlights: ResumeHighlight[]) {
+  return highlights
+    .map(highlight => ({
+      id: highlight.id,
+      title: localizedValue(highlight.title, language),
+      body: localizedValue(highlight.body, language)
+    }))
+    .filter(card => card.title || card.body)
 }
 
 function dedupeStrings(values: string[]) {
   return Array.from(new Set(values.map(value => value.trim()).filter(Boolean)))
 }
 
-function isOffBrandParagraph(value: string) {
-  return /student|graduat|undergraduate|大学|在学|卒業予定/i.test(value)
-}
-
 function ResumeSkeleton() {
   return (
     <section className="route-skeleton">
@@ -0,0 +1,115 @@
+import { Link, useLoaderData, useOutletContext } from 'react-router-dom'
+import { Suspense, use } from 'react'
+import { listPosts, type PostRecord } from '../lib/content'
+import { localizedValue } from '../lib/profileContent'
+import { localizePath, useLanguage } from '../lib/language'
+import { formatPostDate, postPath } from '../lib/posts'
+import { absoluteSiteUrl, useSeo } from '../lib/seo'
+import { getLocalizedSiteName } from '../lib/site'
+import type { AppShellContext } from '../components/Layout'
+
+type WritingLoaderData = {
+  posts: Promise<PostRecord[]>
+}
+
+export function loader() {
+  return {
+    posts: listPosts()
+  }
+}
+
+export function HydrateFallback() {
+  return <WritingSkeleton />
+}
+
+export function Component() {
+  const { language } = useLanguage()
+  const data = useLoaderData() as WritingLoaderData
+  const { site } = useOutletContext<AppShellContext>()
+  const displayName = getLocalizedSiteName(site, language)
+
+  return (
+    <Suspense fallback={<WritingSkeleton />}>
+      <WritingContent promise={data.posts} language={language} displayName={displayName} />
+    </Suspense>
+  )
+}
+
+export default Component
+
+function WritingContent({
+  promise,
+  language,
+  displayName
+}: {
+  promise: Promise<PostRecord[]>
+  language: 'en' | 'ja'
+  displayName: string
+}) {
+  const posts = use(promise)
+
+  useSeo({
+    title: `${displayName} | ${language === 'ja' ? '記事' : 'Writing'}`,
+    description: language === 'ja'
+      ? '実装、連携、運用サポートについての記事。'
+      : 'Notes on implementation, integrations, and supporting production systems.',
+    path: '/writing',
+    structuredData: {
+      '@context': 'https://schema.org',
+      '@type': 'Blog',
+      name: `${displayName} | ${language === 'ja' ? '記事' : 'Writing'}`,
+      url: absoluteSiteUrl(localizePath('/writing', language))
+    }
+  })
+
+  return (
+    <article className="stack">
+      <section className="card page-intro">
+        <p className="eyebrow">{language === 'ja' ? '記事' : 'Writing'}</p>
+        <h1>{language === 'ja' ? '実装と運用についての記事' : 'Notes on implementation and operations'}</h1>
+        <p className="muted">
+          <a href={language === 'ja' ? '/ja/feed.xml' : '/feed.xml'}>RSS</a>
+          {' · '}
+          <a href={language === 'ja' ? '/ja/atom.xml' : '/atom.xml'}>Atom</a>
+        </p>
+      </section>
+
+      {posts.length === 0 ? (
+        <p className="muted">{language === 'ja' ? '記事は準備中です。' : 'No posts yet.'}</p>
+      ) : (
+        <ul className="cards compact-cards post-list">
+          {posts.map(post => {
+            const title = localizedValue(post.title, language, post.slug)
+            const summary = localizedValue(post.summary, language)
+            return (
+              <li key={post.slug} className="card compact-project-card">
+                {post.publishedAt && (
+                  <p className="eyebrow">
+                    <time dateTime={post.publishedAt}>{formatPostDate(post.publishedAt, language)}</time>
+                  </p>
+                )}
+                <h2>
+                  <Link to={localizePath(postPath(post.slug), language)} prefetch="intent">
+                    {title}
+                  </Link>
+                </h2>
+                {summary && <p>{summary}</p>}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </article>
+  )
+}
+
+function WritingSkeleton() {
+  return (
+    <section className="route-skeleton">
+      <span className="skeleton-block skeleton-subheading" />
+      <span className="skeleton-block skeleton-heading" />
+      <span className="skeleton-block skeleton-paragraph" />
+      <span className="skeleton-block skeleton-paragraph" />
+    </section>
+  )
+}
@@ -0,0 +1,162 @@
+import { Link, LoaderFunctionArgs, useLoaderData, useOutletContext } from 'react-router-dom'
+import { Suspense, use } from 'react'
+import { listPosts, type PostRecord } from '../lib/content'
+import { localizedValue } from '../lib/profileContent'
+import { localizePath, useLanguage } from '../lib/language'
+import { formatPostDate, postPath } from '../lib/posts'
+import { markdownPlainText, parseMarkdown } from '../lib/schema'
+import { absoluteSiteUrl, useSeo } from '../lib/seo'
+import { getLocalizedSiteName } from '../lib/site'
+import Markdown from '../components/Markdown'
+import type { AppShellContext } from '../components/Layout'
+
+type WritingPostLoaderData = {
+  post: Promise<PostRecord | null>
+}
+
+export function loader({ params }: LoaderFunctionArgs) {
+  const slug = typeof params.slug === 'string' ? params.slug : ''
+  return {
+    post: loadPost(slug)
+  }
+}
+
+export function HydrateFallback() {
+  return <WritingPostSkeleton />
+}
+
+export function Component() {
+  const { language } = useLanguage()
+  const { post } = useLoaderData() as WritingPostLoaderData
+  const { site } = useOutletContext<AppShellContext>()
+  const displayName = getLocalizedSiteName(site, language)
+
+  return (
+    <Suspense fallback={<WritingPostSkeleton />}>
+      <WritingPostContent postPromise={post} language={language} displayName={displayName} />
+    </Suspense>
+  )
+}
+
+export default Component
+
+function WritingPostContent({
+  postPromise,
+  language,
+  displayName
+}: {
+  postPromise: Promise<PostRecord | null>
+  language: 'en' | 'ja'
+  displayName: string
+}) {
+  const post = use(postPromise)
+  const notFoundTitle = language === 'ja' ? '記事が見つかりません' : 'Post not found'
+  const notFoundDescription = language === 'ja'
+    ? '指定された記事は見つかりませんでした。'
+    : 'The requested post could not be found.'
+  const title = post ? localizedValue(post.title, language, post.slug) : notFoundTitle
+  const body = post ? localizedValue(post.body, language) : ''
+  const lead = post ? localizedValue(post.summary, language) : ''
+  const summary = post
+    ? lead || markdownPlainText(parseMarkdown(body)).slice(0, 200)
+    : notFoundDescription
+  const canonicalPath = post ? postPath(post.slug) : '/writing'
+
+  useSeo({
+    title: `${displayName} | ${title}`,
+    description: summary,
+    path: canonicalPath,
+    ...(post
+      ? {
+          ogType: 'article',
+          structuredData: {
+            '@context': 'https://schema.org',
+            '@type': 'BlogPosting',
+            headline: title,
+            description: summary,
+            datePublished: post.publishedAt || undefined,
+            dateModified: post.updatedAt || undefined,
+            ...(post.cover ? { image: post.cover } : {}),
+            author: { '@type': 'Person', name: displayName },
+            url: absoluteSiteUrl(localizePath(canonicalPath, language))
+          }
+        }
+      : {})
+  })
+
+  const backLink = (
+    <Link to={localizePath('/writing', language)} prefetch="intent">
+      {language === 'ja' ? '記事一覧へ戻る' : 'Back to Writing'}
+    </Link>
+  )
+
+  if (!post) {
+    return (
+      <section className="stack">
+        <h1>{notFoundTitle}</h1>
+        <p>{notFoundDescription}</p>
+        <p>{backLink}</p>
+      </section>
+    )
+  }
+
+  const tags = language === 'ja'
+    ? (post.tags.ja.length ? post.tags.ja : post.tags.en)
+    : (post.tags.en.length ? post.tags.en : post.tags.ja)
+  const untranslated = language === 'ja' && !post.body.ja && Boolean(post.body.en)
+
+  return (
+    <article className="stack">
+      <p className="muted">{backLink}</p>
+
+      <header className="card page-intro">
+        {post.publishedAt && (
+          <p className="eyebrow">
+            <time dateTime={post.publishedAt}>{formatPostDate(post.publishedAt, language)}</time>
+          </p>
+        )}
+        <h1>{title}</h1>
+        {lead && <p className="lead-text">{lead}</p>}
+        {tags.length > 0 && <div className="tags">{tags.map(tag => <span key={tag}>{tag}</span>)}</div>}
+      </header>
+
+      {post.cover && (
+        <div className="project-cover-wrapper project-detail-cover">
+          <img
+            src={post.cover}
+            alt={title}
+            loading="eager"
+            decoding="async"
+            width={960}
+            height={540}
+            className="project-cover"
+          />
+        </div>
+      )}
+
+      {untranslated && (
+        <p className="muted">この記事は英語でのみ公開されています。</p>
+      )}
+      <section className="card">
+        <Markdown source={body} language={language} />
+      </section>
+    </article>
+  )
+}
+
+async function loadPost(slug: string): Promise<PostRecord | null> {
+  if (!slug) return null
+  const posts = await listPosts()
+  return posts.find(post => post.slug === slug) ?? null
+}
+
+function WritingPostSkeleton() {
+  return (
+    <section className="route-skeleton">
+      <span className="skeleton-block skeleton-subheading" />
+      <span className="skeleton-block skeleton-heading" />
+      <span className="skeleton-block skeleton-paragraph" />
+      <span className="skeleton-block skeleton-paragraph" />
+    </section>
+  )
+}
@@ -1,6 +1,7 @@
 import { FormEvent, useEffect, useState } from 'react'
-import { doc, getDoc, setDoc } from 'firebase/firestore'
-import { db } from '../../lib/firebase'
+import RevisionHistory from '../../components/RevisionHistory'
+import { normalizeAboutDoc, normalizeSiteDoc, type AboutSectionKey } from '../../lib/schema'
+import { loadEditable, saveDraft } from '../../lib/drafts'
 import { ABOUT_DEFAULTS, resolveSharedProfileCopy } from '../../lib/profileContent'
 
 type Bilingual = { en: string; ja: string }
@@ -10,7 +11,6 @@ type EditableLink = {
   label: string
   url: string
 }
-type AboutSectionKey = 'what_i_do' | 'what_ive_shipped' | 'what_i_work_well_on'
 type EditableAboutSection = {
   key: AboutSectionKey
   label: string
@@ -35,8 +35,6 @@ const createId = () => {
   return `link-${Date.now()}-${Math.random().toString(16).slice(2)}`
 }
 
-const pick = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
-
 const parseLinks = (value: unknown): EditableLink[] => {
   if (typeof value !== 'string') return []
 
@@ -117,51 +115,44 @@ export default function AdminAbout() {
   const [savingLinks, setSavingLinks] = useState(false)
   const [savingSharedProfiles, setSavingSharedProfiles] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
 
   useEffect(() => {
     async function load() {
-      const [aboutSnap, homeSnap, siteSnap] = await Promise.all([
-        getDoc(doc(db, 'public', 'about')),
-        getDoc(doc(db, 'public', 'home')),
-        getDoc(doc(db, 'public', 'site'))
+      const [about, home, site] = await Promise.all([
+        loadEditable('public', 'about'),
+        loadEditable('public', 'home'),
+        loadEditable('public', 'site')
       ])
-      const sharedProfile = resolveSharedProfileCopy(homeSnap.exists() ? homeSnap.data() : null)
-      const data = aboutSnap.exists() ? aboutSnap.data() : {}
-      const siteData = siteSnap.exists() ? siteSnap.data() : {}
+      const sharedProfile = resolveSharedProfileCopy(home)
+      const copy = normalizeAboutDoc(about)
 
       setHeadline({
-        en: pick(data.headline_en) || pick(data.headline) || sharedProfile.headline.en,
-        ja: pick(data.headline_ja) || pick(data.headline) || sharedProfile.headline.ja
+        en: copy.headline.en || sharedProfile.headline.en,
+        ja: copy.headline.ja || sharedProfile.headline.ja
       })
       setIntro({
-        en: pick(data.intro_en) || pick(data.intro) || `${sharedProfile.supporting.en} ${sharedProfile.secondarySpecialization.en}`.trim(),
-        ja: pick(data.intro_ja) || pick(data.intro) || `${sharedProfile.supporting.ja} ${sharedProfile.secondarySpecialization.ja}`.trim()
+        en: copy.intro.en || `${sharedProfile.supporting.en} ${sharedProfile.secondarySpecialization.en}`.trim(),
+        ja: copy.intro.ja || `${sharedProfile.supporting.ja} ${sharedProfile.secondarySpecialization.ja}`.trim()
       })
       setSections(prev =>
         prev.map((section, index) => ({
           ...section,
-          title_en: pick(data[`${section.key}_title_en`]) || ABOUT_DEFAULTS.sections[index].title.en,
-          title_ja: pick(data[`${section.key}_title_ja`]) || ABOUT_DEFAULTS.sections[index].title.ja,
-          items_en_text: pick(data[`${section.key}_en`]) || ABOUT_DEFAULTS.sections[index].items.en.join('\n'),
-          items_ja_text: pick(data[`${section.key}_ja`]) || ABOUT_DEFAULTS.sections[index].items.ja.join('\n')
+          title_en: copy.sections[section.key].title.en || ABOUT_DEFAULTS.sections[index].title.en,
+          title_ja: copy.sections[section.key].title.ja || ABOUT_DEFAULTS.sections[index].title.ja,
+          items_en_text: copy.sections[section.key].items.en || ABOUT_DEFAULTS.sections[index].items.en.join('\n'),
+          items_ja_text: copy.sections[section.key].items.ja || ABOUT_DEFAULTS.sections[index].items.ja.join('\n')
         }))
       )
       setLinks({
-        en: parseLinks(data.links_en ?? data.links),
-        ja: parseLinks(data.links_ja ?? data.links)
-      })
-      setSharedProfiles({
-        github: pick(siteData.githubUrl) || pick(siteData.github_url) || pick(siteData.github),
-        linkedin: pick(siteData.linkedinUrl) || pick(siteData.linkedin_url) || pick(siteData.linkedin),
-        x: pick(siteData.xUrl) || pick(siteData.x_url) || pick(siteData.twitterUrl) || pick(siteData.twitter_url) || pick(siteData.twitter),
-        youtube: pick(siteData.youtubeUrl) || pick(siteData.youtube_url) || pick(siteData.youtube),
-        blog: pick(siteData.blogUrl) || pick(siteData.blog_url) || pick(siteData.blog),
-        website: pick(siteData.websiteUrl) || pick(siteData.website_url) || pick(siteData.website)
+        en: parseLinks(copy.links.en),
+        ja: parseLinks(copy.links.ja)
       })
+      setSharedProfiles(normalizeSiteDoc(site).profiles)
     }
 
     load()
-  }, [])
+  }, [reloadKey])
 
   async function saveIntroCopy(e: FormEvent<HTMLFormElement>) {
     e.preventDefault()
@@ -175,14 +166,12 @@ export default function AdminAbout() {
         en: intro.en.trim(),
         ja: intro.ja.trim()
       }
-      await setDoc(doc(db, 'public', 'about'), {
+      await saveDraft('public', 'about', {
         headline_en: nextHeadline.en,
         headline_ja: nextHeadline.ja,
-        headline: nextHeadline.en,
         intro_en: nextIntro.en,
-        intro_ja: nextIntro.ja,
-        intro: nextIntro.en
-      }, { merge: true })
+        intro_ja: nextIntro.ja
+      })
       setHeadline(nextHeadline)
       setIntro(nextIntro)
       setMessage('Updated about page intro copy.')
@@ -202,7 +191,7 @@ export default function AdminAbout() {
         accumulator[`${section.key}_ja`] = section.items_ja_text.trim()
         return accumulator
       }, {})
-      await setDoc(doc(db, 'public', 'about'), payload, { merge: true })
+      await saveDraft('public', 'about', payload)
       setSections(prev => prev.map(section => ({
         ...section,
         title_en: section.title_en.trim(),
@@ -224,11 +213,10 @@ export default function AdminAbout() {
         en: stringifyLinks(links.en),
         ja: stringifyLinks(links.ja)
       }
-      await setDoc(doc(db, 'public', 'about'), {
+      await saveDraft('public', 'about', {
         links_en: next.en,
-        links_ja: next.ja,
-        links: next.en
-      }, { merge: true })
+        links_ja: next.ja
+      })
       setLinks({
         en: parseLinks(next.en),
         ja: parseLinks(next.ja)
@@ -251,14 +239,14 @@ export default function AdminAbout() {
         blog: sharedProfiles.blog.trim(),
         website: sharedProfiles.website.trim()
       }
-      await setDoc(doc(db, 'public', 'site'), {
+      await saveDraft('public', 'site', {
         github_url: next.github || null,
         linkedin_url: next.linkedin || null,
         x_url: next.x || null,
         youtube_url: next.youtube || null,
         blog_url: next.blog || null,
         website_url: next.website || null
-      }, { merge: true })
+      })
       setSharedProfiles(next)
       setMessage('Updated shared profile links.')
     } finally {
@@ -531,6 +519,8 @@ export default function AdminAbout() {
         </button>
       </form>
 
+      <RevisionHistory collection="public" docId="about" label="About" onRestored={() => setReloadKey(key => key + 1)} />
+
       {message && <p className="success">{message}</p>}
     </div>
   )
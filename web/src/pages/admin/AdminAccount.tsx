@@ -0,0 +1,181 @@
+import { FormEvent, useState } from 'react'
+import {
+  finishTotpEnrollment,
+  hasGitHub,
+  linkGitHub,
+  removeFactor,
+  startTotpEnrollment,
+  totpFactors,
+  unlinkGitHub,
+  type TotpEnrollment
+} from '../../lib/account'
+import { useAuth } from '../../lib/auth'
+import { ROLE_LABELS } from '../../lib/schema'
+
+function accountError(err: any, fallback: string) {
+  switch (err?.code) {
+    case 'auth/requires-recent-login':
+      return 'For security, sign out and back in, then try again.'
+    case 'auth/invalid-verification-code':
+      return 'That code did not match. Try the next one.'
+    case 'auth/credential-already-in-use':
+      return 'That GitHub account is already linked to another user.'
+    case 'auth/operation-not-allowed':
+      return 'This sign-in option is not enabled for the project yet.'
+    default:
+      return err?.message || fallback
+  }
+}
+
+export default function AdminAccount() {
+  const { user, role } = useAuth()
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null)
+  const [code, setCode] = useState('')
+  const [deviceName, setDeviceName] = useState('')
+  const [busy, setBusy] = useState(false)
+  // Enrolled factors and linked providers are read off `user`, which does not
+  // change identity when they do; bumping this re-renders after each change.
+  const [, setVersion] = useState(0)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!user) return null
+  const currentUser = user
+  const factors = totpFactors(currentUser)
+  const githubLinked = hasGitHub(currentUser)
+
+  async function run(action: () => Promise<void>, success: string, fallback: string) {
+    setBusy(true)
+    setError(null)
+    setMessage(null)
+    try {
+      await action()
+      setMessage(success)
+      setVersion(version => version + 1)
+    } catch (err: any) {
+      console.error(err)
+      setError(accountError(err, fallback))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function beginEnrollment() {
+    run(async () => {
+      setEnrollment(await startTotpEnrollment(currentUser))
+    }, 'Add the key to your authenticator app, then enter the code it shows.', 'Failed to start enrollment.')
+  }
+
+  function confirmEnrollment(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    if (!enrollment) return
+    run(async () => {
+      await finishTotpEnrollment(currentUser, enrollment, code.trim(), deviceName.trim())
+      setEnrollment(null)
+      setCode('')
+      setDeviceName('')
+    }, 'Two-step verification is on. You will be asked for a code at sign-in.', 'Failed to enroll.')
+  }
+
+  function remove(factorUid: string) {
+    if (!confirm('Remove this authenticator? Sign-in will only need your first factor.')) return
+    run(() => removeFactor(currentUser, factorUid), 'Removed the authenticator.', 'Failed to remove the authenticator.')
+  }
+
+  return (
+    <div className="stack">
+      <h2>Account</h2>
+      <p className="muted">
+        Signed in as <strong>{currentUser.email}</strong>
+        {role && ` · ${ROLE_LABELS[role]}`}
+      </p>
+      {message && <p className="success">{message}</p>}
+      {error && <p className="error">{error}</p>}
+
+      <section className="card form">
+        <h3>Two-step verification</h3>
+        <p className="muted">
+          Optional. Once an authenticator app is enrolled, every sign-in method asks for its 6-digit code.
+        </p>
+        {factors.length > 0 && (
+          <ul className="stack">
+            {factors.map(factor => (
+              <li key={factor.uid} className="section-editor-header">
+                <span>
+                  <strong>{factor.displayName || 'Authenticator app'}</strong>
+                  <span className="muted"> · added {new Date(factor.enrollmentTime).toISOString().slice(0, 10)}</span>
+                </span>
+                <button type="button" className="danger" onClick={() => remove(factor.uid)} disabled={busy}>
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {enrollment ? (
+          <form className="stack" onSubmit={confirmEnrollment}>
+            <label>
+              Setup key
+              <input value={enrollment.key} readOnly onFocus={e => e.target.select()} />
+            </label>
+            <p className="muted">
+              Or open <a href={enrollment.uri}>this otpauth link</a> on a device with an authenticator app.
+            </p>
+            <label>
+              Device name
+              <input value={deviceName} onChange={e => setDeviceName(e.target.value)} placeholder="Phone" />
+            </label>
+            <label>
+              Code
+              <input
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="[0-9]{6}"
+                required
+              />
+            </label>
+            <div className="actions">
+              <button type="submit" disabled={busy}>{busy ? 'Verifying…' : 'Turn on'}</button>
+              <button type="button" onClick={() => setEnrollment(null)}>Cancel</button>
+            </div>
+          </form>
+        ) : (
+          <div className="actions">
+            <button type="button" onClick={beginEnrollment} disabled={busy}>Add authenticator app</button>
+          </div>
+        )}
+      </section>
+
+      <section className="card form">
+        <h3>GitHub</h3>
+        <p className="muted">
+          {githubLinked
+            ? 'GitHub is linked; you can use Continue with GitHub on the login page.'
+            : 'Link a GitHub account to sign in with it instead of a password or email link.'}
+        </p>
+        <div className="actions">
+          {githubLinked ? (
+            <button
+              type="button"
+              className="danger"
+              onClick={() => run(() => unlinkGitHub(currentUser), 'Unlinked GitHub.', 'Failed to unlink GitHub.')}
+              disabled={busy || currentUser.providerData.length < 2}
+            >
+              Unlink GitHub
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => run(() => linkGitHub(currentUser), 'Linked GitHub.', 'Failed to link GitHub.')}
+              disabled={busy}
+            >
+              Link GitHub
+            </button>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { FormEvent, useEffect, useState } from 'react'
-import { doc, getDoc, setDoc } from 'firebase/firestore'
-import { db } from '../../lib/firebase'
+import RevisionHistory from '../../components/RevisionHistory'
+import { normalizeContactDoc, normalizeSiteDoc } from '../../lib/schema'
+import { loadEditable, saveDraft } from '../../lib/drafts'
 
 type Bilingual = { en: string; ja: string }
 type Lang = 'en' | 'ja'
@@ -25,8 +26,6 @@ const createId = () => {
   return `link-${Date.now()}-${Math.random().toString(16).slice(2)}`
 }
 
-const pick = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
-
 const parseLinks = (value: unknown): EditableLink[] => {
   if (typeof value !== 'string') return []
 
@@ -97,42 +96,33 @@ export default function AdminContact() {
   const [savingContactEmail, setSavingContactEmail] = useState(false)
   const [savingSharedProfiles, setSavingSharedProfiles] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
 
   useEffect(() => {
     async function load() {
-      const [contactSnap, siteSnap] = await Promise.all([
-        getDoc(doc(db, 'public', 'contact')),
-        getDoc(doc(db, 'public', 'site'))
+      const [contact, site] = await Promise.all([
+        loadEditable('public', 'contact'),
+        loadEditable('public', 'site')
       ])
-      const data = contactSnap.exists() ? contactSnap.data() : {}
-      const siteData = siteSnap.exists() ? siteSnap.data() : {}
-      const displayName = pick(siteData.name_en) || pick(siteData.name) || pick(siteData.name_ja) || 'this portfolio'
+      const copy = normalizeContactDoc(contact)
+      const siteData = normalizeSiteDoc(site)
+      const displayName = siteData.name.en || siteData.name.ja || 'this portfolio'
 
       setIntro({
-        en: normalizeContactIntro(pick(data.intro_en) || pick(data.intro), displayName, 'en'),
-        ja: normalizeContactIntro(pick(data.intro_ja) || pick(data.intro), displayName, 'ja')
-      })
-      setAvailability({
-        en: pick(data.availability_en) || pick(data.availability),
-        ja: pick(data.availability_ja) || pick(data.availability)
+        en: normalizeContactIntro(copy.intro.en, displayName, 'en'),
+        ja: normalizeContactIntro(copy.intro.ja, displayName, 'ja')
       })
+      setAvailability(copy.availability)
       setLinks({
-        en: parseLinks(data.links_en ?? data.links),
-        ja: parseLinks(data.links_ja ?? data.links)
-      })
-      setContactEmail(pick(siteData.contactEmail) || pick(siteData.contact_email) || pick(siteData.email))
-      setSharedProfiles({
-        github: pick(siteData.githubUrl) || pick(siteData.github_url) || pick(siteData.github),
-        linkedin: pick(siteData.linkedinUrl) || pick(siteData.linkedin_url) || pick(siteData.linkedin),
-        x: pick(siteData.xUrl) || pick(siteData.x_url) || pick(siteData.twitterUrl) || pick(siteData.twitter_url) || pick(siteData.twitter),
-        youtube: pick(siteData.youtubeUrl) || pick(siteData.youtube_url) || pick(siteData.youtube),
-        blog: pick(siteData.blogUrl) || pick(siteData.blog_url) || pick(siteData.blog),
-        website: pick(siteData.websiteUrl) || pick(siteData.website_url) || pick(siteData.website)
+        en: parseLinks(copy.links.en),
+        ja: parseLinks(copy.links.ja)
       })
+      setContactEmail(siteData.contactEmail)
+      setSharedProfiles(siteData.profiles)
     }
 
     load()
-  }, [])
+  }, [reloadKey])
 
   async function saveCopy(e: FormEvent<HTMLFormElement>) {
     e.preventDefault()
@@ -146,14 +136,12 @@ export default function AdminContact() {
         en: availability.en.trim(),
         ja: availability.ja.trim()
       }
-      await setDoc(doc(db, 'public', 'contact'), {
+      await saveDraft('public', 'contact', {
         intro_en: nextIntro.en,
         intro_ja: nextIntro.ja,
-        intro: nextIntro.en,
         availability_en: nextAvailability.en,
-        availability_ja: nextAvailability.ja,
-        availability: nextAvailability.en
-      }, { merge: true })
+        availability_ja: nextAvailability.ja
+      })
       setIntro(nextIntro)
       setAvailability(nextAvailability)
       setMessage('Updated contact page copy.')
@@ -170,11 +158,10 @@ export default function AdminContact() {
         en: stringifyLinks(links.en),
         ja: stringifyLinks(links.ja)
       }
-      await setDoc(doc(db, 'public', 'contact'), {
+      await saveDraft('public', 'contact', {
         links_en: next.en,
-        links_ja: next.ja,
-        links: next.en
-      }, { merge: true })
+        links_ja: next.ja
+      })
       setLinks({
         en: parseLinks(next.en),
         ja: parseLinks(next.ja)
@@ -190,9 +177,9 @@ export default function AdminContact() {
     setSavingContactEmail(true)
     try {
       const trimmed = contactEmail.trim()
-      await setDoc(doc(db, 'public', 'site'), {
+      await saveDraft('public', 'site', {
         contactEmail: trimmed || null
-      }, { merge: true })
+      })
       setContactEmail(trimmed)
       setMessage(trimmed ? 'Updated contact email.' : 'Cleared contact email.')
     } finally {
@@ -212,14 +199,14 @@ export default function AdminContact() {
         blog: sharedProfiles.blog.trim(),
         website: sharedProfiles.website.trim()
       }
-      await setDoc(doc(db, 'public', 'site'), {
+      await saveDraft('public', 'site', {
         github_url: next.github || null,
         linkedin_url: next.linkedin || null,
         x_url: next.x || null,
         youtube_url: next.youtube || null,
         blog_url: next.blog || null,
         website_url: next.website || null
-      }, { merge: true })
+      })
       setSharedProfiles(next)
       setMessage('Updated shared profile links.')
     } finally {
@@ -458,6 +445,8 @@ export default function AdminContact() {
         </button>
       </form>
 
+      <RevisionHistory collection="public" docId="contact" label="Contact" onRestored={() => setReloadKey(key => key + 1)} />
+
       {message && <p className="success">{message}</p>}
     </div>
   )
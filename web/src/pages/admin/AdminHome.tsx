@@ -1,6 +1,7 @@
 import { FormEvent, useEffect, useState } from 'react'
-import { collection, doc, getDoc, getDocs, orderBy, query, setDoc } from 'firebase/firestore'
-import { db } from '../../lib/firebase'
+import RevisionHistory from '../../components/RevisionHistory'
+import { normalizeHomeDoc, normalizeSiteDoc } from '../../lib/schema'
+import { listEditableProjects, loadEditable, saveDraft } from '../../lib/drafts'
 import { resolveSharedProfileCopy } from '../../lib/profileContent'
 
 type Bilingual = { en: string; ja: string }
@@ -106,46 +107,35 @@ export default function AdminHome() {
   const [savingContactEmail, setSavingContactEmail] = useState(false)
   const [savingProfiles, setSavingProfiles] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
 
   useEffect(() => {
     async function load() {
-      const [siteSnap, homeSnap, projectsSnap] = await Promise.all([
-        getDoc(doc(db, 'public', 'site')),
-        getDoc(doc(db, 'public', 'home')),
-        getDocs(query(collection(db, 'projects'), orderBy('order', 'asc')))
+      const [site, home, projects] = await Promise.all([
+        loadEditable('public', 'site'),
+        loadEditable('public', 'home'),
+        listEditableProjects()
       ])
 
-      if (siteSnap.exists()) {
-        const data = siteSnap.data()
-        setSiteName({
-          en: pick(data.name_en) || pick(data.name),
-          ja: pick(data.name_ja) || pick(data.name)
-        })
-        setFooterNote(pick(data.footerNote) || pick(data.footer_note))
-        setContactEmail(
-          pick(data.contactEmail) || pick(data.contact_email) || pick(data.email)
-        )
-        setProfileLinks({
-          github: pick(data.githubUrl) || pick(data.github_url) || pick(data.github),
-          linkedin: pick(data.linkedinUrl) || pick(data.linkedin_url) || pick(data.linkedin),
-          x: pick(data.xUrl) || pick(data.x_url) || pick(data.twitterUrl) || pick(data.twitter_url) || pick(data.twitter),
-          youtube: pick(data.youtubeUrl) || pick(data.youtube_url) || pick(data.youtube),
-          blog: pick(data.blogUrl) || pick(data.blog_url) || pick(data.blog),
-          website: pick(data.websiteUrl) || pick(data.website_url) || pick(data.website)
-        })
+      if (site) {
+        const data = normalizeSiteDoc(site)
+        setSiteName(data.name)
+        setFooterNote(data.footerNote)
+        setContactEmail(data.contactEmail)
+        setProfileLinks(data.profiles)
       }
 
-      if (homeSnap.exists()) {
-        const data = homeSnap.data()
-        const sharedProfile = resolveSharedProfileCopy(data)
+      if (home) {
+        const copy = normalizeHomeDoc(home)
+        const sharedProfile = resolveSharedProfileCopy(home)
         setHeadline(sharedProfile.headline)
         setSupporting(sharedProfile.supporting)
         setSecondary(sharedProfile.secondarySpecialization)
         setLinks({
-          en: parseLinks(data.links_en),
-          ja: parseLinks(data.links_ja)
+          en: parseLinks(copy.links.en),
+          ja: parseLinks(copy.links.ja)
         })
-        setFeaturedProjectIdsText(parseLineList(data.featured_project_ids ?? data.featured_projects_en).join('\n'))
+        setFeaturedProjectIdsText(copy.featuredProjectIds.join('\n'))
       } else {
         const sharedProfile = resolveSharedProfileCopy(null)
         setHeadline(sharedProfile.headline)
@@ -154,28 +144,24 @@ export default function AdminHome() {
       }
 
       setAvailableProjects(
-        projectsSnap.docs.map(projectDoc => {
-          const data = projectDoc.data()
-          return {
-            id: projectDoc.id,
-            title: pick(data.title_en) || pick(data.title) || projectDoc.id
-          }
-        })
+        projects.map(project => ({
+          id: project.id,
+          title: pick(project.data.title_en) || pick(project.data.title) || project.id
+        }))
       )
     }
 
     load()
-  }, [])
+  }, [reloadKey])
 
   async function saveSiteName(e: FormEvent<HTMLFormElement>) {
     e.preventDefault()
     setSavingSite(true)
     try {
-      await setDoc(doc(db, 'public', 'site'), {
+      await saveDraft('public', 'site', {
         name_en: siteName.en.trim(),
-        name_ja: siteName.ja.trim(),
-        name: siteName.en.trim()
-      }, { merge: true })
+        name_ja: siteName.ja.trim()
+      })
       setMessage('Updated site name.')
     } finally {
       setSavingSite(false)
@@ -187,9 +173,9 @@ export default function AdminHome() {
     setSavingFooter(true)
     try {
       const trimmed = footerNote.trim()
-      await setDoc(doc(db, 'public', 'site'), {
+      await saveDraft('public', 'site', {
         footerNote: trimmed || null
-      }, { merge: true })
+      })
       setFooterNote(trimmed)
       setMessage(trimmed ? 'Updated footer note.' : 'Cleared footer note.')
     } finally {
@@ -213,17 +199,14 @@ export default function AdminHome() {
         en: secondary.en.trim(),
         ja: secondary.ja.trim()
       }
-      await setDoc(doc(db, 'public', 'home'), {
+      await saveDraft('public', 'home', {
         headline_en: nextHeadline.en,
         headline_ja: nextHeadline.ja,
-        headline: nextHeadline.en,
         supporting_en: nextSupporting.en,
         supporting_ja: nextSupporting.ja,
-        supporting: nextSupporting.en,
         secondary_en: nextSecondary.en,
-        secondary_ja: nextSecondary.ja,
-        secondary: nextSecondary.en
-      }, { merge: true })
+        secondary_ja: nextSecondary.ja
+      })
       setHeadline(nextHeadline)
       setSupporting(nextSupporting)
       setSecondary(nextSecondary)
@@ -241,10 +224,10 @@ export default function AdminHome() {
         en: stringifyLinks(links.en),
         ja: stringifyLinks(links.ja)
       }
-      await setDoc(doc(db, 'public', 'home'), {
+      await saveDraft('public', 'home', {
         links_en: next.en,
         links_ja: next.ja
-      }, { merge: true })
+      })
       setLinks({
         en: parseLinks(next.en),
         ja: parseLinks(next.ja)
@@ -260,9 +243,9 @@ export default function AdminHome() {
     setSavingFeaturedProjects(true)
     try {
       const nextIds = parseLineList(featuredProjectIdsText)
-      await setDoc(doc(db, 'public', 'home'), {
+      await saveDraft('public', 'home', {
         featured_project_ids: nextIds
-      }, { merge: true })
+      })
       setFeaturedProjectIdsText(nextIds.join('\n'))
       setMessage('Updated featured projects.')
     } finally {
@@ -275,9 +258,9 @@ export default function AdminHome() {
     setSavingContactEmail(true)
     try {
       const trimmed = contactEmail.trim()
-      await setDoc(doc(db, 'public', 'site'), {
+      await saveDraft('public', 'site', {
         contactEmail: trimmed || null
-      }, { merge: true })
+      })
       setContactEmail(trimmed)
       setMessage(trimmed ? 'Updated contact email.' : 'Cleared contact email.')
     } finally {
@@ -297,14 +280,14 @@ export default function AdminHome() {
         blog: profileLinks.blog.trim(),
         website: profileLinks.website.trim()
       }
-      await setDoc(doc(db, 'public', 'site'), {
+      await saveDraft('public', 'site', {
         github_url: next.github || null,
         linkedin_url: next.linkedin || null,
         x_url: next.x || null,
         youtube_url: next.youtube || null,
         blog_url: next.blog || null,
         website_url: next.website || null
-      }, { merge: true })
+      })
       setProfileLinks(next)
       setMessage('Updated profile links.')
     } finally {
@@ -618,6 +601,9 @@ export default function AdminHome() {
         </button>
       </form>
 
+      <RevisionHistory collection="public" docId="site" label="Site" onRestored={() => setReloadKey(key => key + 1)} />
+      <RevisionHistory collection="public" docId="home" label="Home" onRestored={() => setReloadKey(key => key + 1)} />
+
       {message && <p className="success">{message}</p>}
     </div>
   )
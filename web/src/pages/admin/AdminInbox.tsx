@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  Timestamp,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc
+} from 'firebase/firestore'
+import { db } from '../../lib/firebase'
+
+type MessageStatus = 'new' | 'handled' | 'archived'
+
+type InboxMessage = {
+  id: string
+  name: string
+  email: string
+  subject: string
+  message: string
+  language: 'en' | 'ja'
+  status: MessageStatus
+  createdAt: Date | null
+}
+
+const statusFilters: Array<{ value: MessageStatus; label: string }> = [
+  { value: 'new', label: 'New' },
+  { value: 'handled', label: 'Handled' },
+  { value: 'archived', label: 'Archived' }
+]
+
+const pick = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+function normalizeStatus(value: unknown): MessageStatus {
+  return value === 'handled' || value === 'archived' ? value : 'new'
+}
+
+export default function AdminInbox() {
+  const [messages, setMessages] = useState<InboxMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<MessageStatus>('new')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMessages = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const snap = await getDocs(query(collection(db, 'messages'), orderBy('createdAt', 'desc')))
+      setMessages(
+        snap.docs.map(d => {
+          const data = d.data()
+          return {
+            id: d.id,
+            name: pick(data.name),
+            email: pick(data.email),
+            subject: pick(data.subject),
+            message: pick(data.message),
+            language: data.language === 'ja' ? 'ja' : 'en',
+            status: normalizeStatus(data.status),
+            createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null
+          }
+        })
+      )
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to load messages.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMessages()
+  }, [loadMessages])
+
+  async function setStatus(message: InboxMessage, status: MessageStatus) {
+    setBusyId(message.id)
+    setError(null)
+    try {
+      await updateDoc(doc(db, 'messages', message.id), {
+        status,
+        ...(status === 'handled' ? { handledAt: serverTimestamp() } : {}),
+        ...(status === 'archived' ? { archivedAt: serverTimestamp() } : {})
+      })
+      setMessages(prev => prev.map(item => (item.id === message.id ? { ...item, status } : item)))
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to update message.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  async function removeMessage(message: InboxMessage) {
+    if (!confirm('Delete this message permanently?')) return
+    setBusyId(message.id)
+    setError(null)
+    try {
+      await deleteDoc(doc(db, 'messages', message.id))
+      setMessages(prev => prev.filter(item => item.id !== message.id))
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to delete message.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const counts = useMemo(() => {
+    const next: Record<MessageStatus, number> = { new: 0, handled: 0, archived: 0 }
+    messages.forEach(message => {
+      next[message.status] += 1
+    })
+    return next
+  }, [messages])
+
+  const visible = useMemo(
+    () => messages.filter(message => message.status === filter),
+    [messages, filter]
+  )
+
+  return (
+    <div className="stack">
+      <h2>Inbox</h2>
+      <div className="actions">
+        {statusFilters.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setFilter(option.value)}
+            aria-pressed={filter === option.value}
+            className={filter === option.value ? 'active' : undefined}
+          >
+            {option.label} ({counts[option.value]})
+          </button>
+        ))}
+        <button type="button" onClick={loadMessages} disabled={loading}>
+          {loading ? 'Refreshing…' : 'Refresh'}
+        </button>
+      </div>
+      {error && <p className="error">{error}</p>}
+
+      {loading ? <p>Loading messages…</p> : visible.length === 0 ? (
+        <p className="muted">No {filter} messages.</p>
+      ) : (
+        <ul className="stack">
+          {visible.map(message => (
+            <li key={message.id} className="card form inbox-message">
+              <div className="section-editor-header">
+                <h3>{message.subject || '(no subject)'}</h3>
+                <span className="muted">
+                  {message.createdAt ? message.createdAt.toLocaleString() : '—'}
+                  {message.language === 'ja' ? ' · 日本語' : ''}
+                </span>
+              </div>
+              <p>
+                <strong>{message.name}</strong>{' '}
+                <a href={`mailto:${message.email}${message.subject ? `?subject=${encodeURIComponent(`Re: ${message.subject}`)}` : ''}`}>
+                  {message.email}
+                </a>
+              </p>
+              <p className="inbox-message-body">{message.message}</p>
+              <div className="actions">
+                {message.status !== 'handled' && (
+                  <button type="button" onClick={() => setStatus(message, 'handled')} disabled={busyId === message.id}>
+                    Mark handled
+                  </button>
+                )}
+                {message.status !== 'archived' && (
+                  <button type="button" onClick={() => setStatus(message, 'archived')} disabled={busyId === message.id}>
+                    Archive
+                  </button>
+                )}
+                {message.status !== 'new' && (
+                  <button type="button" onClick={() => setStatus(message, 'new')} disabled={busyId === message.id}>
+                    Move to new
+                  </button>
+                )}
+                <button type="button" className="danger" onClick={() => removeMessage(message)} disabled={busyId === message.id}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
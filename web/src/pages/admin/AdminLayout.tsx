@@ -1,10 +1,37 @@
 import { useState } from 'react'
-import { NavLink, Navigate, Outlet } from 'react-router-dom'
+import { NavLink, Navigate, Outlet, useLocation } from 'react-router-dom'
 import { useAuth } from '../../lib/auth'
+import { ROLE_LABELS, roleCan, type AdminCapability } from '../../lib/schema'
+
+type AdminNavItem = {
+  to: string
+  label: string
+  capability?: AdminCapability
+}
+
+// The rules enforce the same split; hiding pages just keeps the panel honest
+// about what a role can save.
+const NAV_ITEMS: AdminNavItem[] = [
+  { to: '/admin', label: 'Overview' },
+  { to: '/admin/home', label: 'Home & Site', capability: 'editDrafts' },
+  { to: '/admin/about', label: 'About', capability: 'editDrafts' },
+  { to: '/admin/contact', label: 'Contact', capability: 'editDrafts' },
+  { to: '/admin/projects', label: 'Projects', capability: 'editDrafts' },
+  { to: '/admin/posts', label: 'Posts', capability: 'editDrafts' },
+  { to: '/admin/resume', label: 'Resume', capability: 'editDrafts' },
+  { to: '/admin/inbox', label: 'Inbox', capability: 'inbox' },
+  { to: '/admin/share-links', label: 'Share Links', capability: 'shareLinks' },
+  { to: '/admin/portal', label: 'Portal Access', capability: 'portal' },
+  { to: '/admin/publish', label: 'Publish', capability: 'publish' },
+  { to: '/admin/users', label: 'Users', capability: 'manageUsers' },
+  { to: '/admin/account', label: 'Account' }
+]
 
 export default function AdminLayout() {
-  const { user, initializing, logout } = useAuth()
+  const { user, role, isAdmin, initializing, logout, refreshClaims } = useAuth()
+  const { pathname } = useLocation()
   const [signingOut, setSigningOut] = useState(false)
+  const [checking, setChecking] = useState(false)
 
   async function handleSignOut() {
     setSigningOut(true)
@@ -15,30 +42,77 @@ export default function AdminLayout() {
     }
   }
 
+  async function handleCheckAgain() {
+    setChecking(true)
+    try {
+      await refreshClaims()
+    } finally {
+      setChecking(false)
+    }
+  }
+
   if (initializing) return <p>Loading…</p>
   if (!user) return <Navigate to="/admin/login" replace />
 
+  if (!isAdmin) {
+    return (
+      <div className="admin-auth">
+        <div className="card form">
+          <h1>Not authorized</h1>
+          <p>
+            You are signed in as <strong>{user.email}</strong>, but this account has no admin role. Ask the site
+            owner to invite you, then check again.
+          </p>
+          <div className="actions">
+            <button type="button" onClick={handleCheckAgain} disabled={checking}>
+              {checking ? 'Checking…' : 'Check again'}
+            </button>
+            <button type="button" onClick={handleSignOut} disabled={signingOut}>
+              {signingOut ? 'Signing out…' : 'Sign out'}
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const navItems = NAV_ITEMS.filter(item => !item.capability || roleCan(role, item.capability))
+  const current = NAV_ITEMS.find(item => item.to !== '/admin' && (pathname === item.to || pathname.startsWith(`${item.to}/`)))
+  const allowed = !current?.capability || roleCan(role, current.capability)
+
   return (
     <div className="admin-shell">
       <header className="admin-header">
         <h1>Admin Panel</h1>
         <div className="spacer" />
-        <span className="admin-user">{user.email}</span>
+        <span className="admin-user">
+          {user.email}
+          {role && ` · ${ROLE_LABELS[role]}`}
+        </span>
         <button type="button" onClick={handleSignOut} disabled={signingOut}>
           {signingOut ? 'Signing out…' : 'Sign out'}
         </button>
       </header>
       <div className="admin-body">
         <nav className="admin-nav">
-          <NavLink to="/admin" end className={({ isActive }) => isActive ? 'active' : undefined}>Overview</NavLink>
-          <NavLink to="/admin/home" className={({ isActive }) => isActive ? 'active' : undefined}>Home &amp; Site</NavLink>
-          <NavLink to="/admin/about" className={({ isActive }) => isActive ? 'active' : undefined}>About</NavLink>
-          <NavLink to="/admin/contact" className={({ isActive }) => isActive ? 'active' : undefined}>Contact</NavLink>
-          <NavLink to="/admin/projects" className={({ isActive }) => isActive ? 'active' : undefined}>Projects</NavLink>
-          <NavLink to="/admin/resume" className={({ isActive }) => isActive ? 'active' : undefined}>Resume</NavLink>
+          {navItems.map(item => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              end={item.to === '/admin'}
+              className={({ isActive }) => isActive ? 'active' : undefined}
+            >
+              {item.label}
+            </NavLink>
+          ))}
         </nav>
         <section className="admin-content">
-          <Outlet />
+          {allowed ? <Outlet /> : (
+            <div className="stack">
+              <h2>{current?.label}</h2>
+              <p className="muted">Your role does not have access to this page. Ask an owner if you need it.</p>
+            </div>
+          )}
         </section>
       </div>
     </div>
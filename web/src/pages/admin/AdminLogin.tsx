@@ -1,62 +1,208 @@
-import { FormEvent, useState } from 'react'
-import { Navigate, useNavigate } from 'react-router-dom'
-import { useAuth } from '../../lib/auth'
+import { FormEvent, useEffect, useState } from 'react'
+import { Navigate } from 'react-router-dom'
+import { isLoginLink, storedLoginLinkEmail, useAuth } from '../../lib/auth'
+
+type Method = 'password' | 'link'
+
+function errorMessage(err: any, fallback: string) {
+  switch (err?.code) {
+    case 'auth/invalid-credential':
+      return 'Invalid email or password'
+    case 'auth/account-exists-with-different-credential':
+      return 'This email already signs in another way. Use that method, then link GitHub from Account.'
+    case 'auth/popup-closed-by-user':
+    case 'auth/cancelled-popup-request':
+      return null
+    case 'auth/invalid-action-code':
+    case 'auth/expired-action-code':
+      return 'This sign-in link has expired or was already used. Request a new one.'
+    default:
+      return err?.message || fallback
+  }
+}
 
 export default function AdminLogin() {
-  const navigate = useNavigate()
-  const { user, initializing, login, error } = useAuth()
+  const {
+    user,
+    initializing,
+    error,
+    mfaPending,
+    login,
+    loginWithGitHub,
+    sendLoginLink,
+    completeLoginLink,
+    verifyTotp,
+    cancelMfa
+  } = useAuth()
+  const [method, setMethod] = useState<Method>('password')
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
   const [submitting, setSubmitting] = useState(false)
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null)
+  // Set when this page was opened from an email link on a device that does
+  // not remember which address requested it.
+  const [confirmLinkEmail, setConfirmLinkEmail] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
 
+  useEffect(() => {
+    if (initializing || user || !isLoginLink(window.location.href)) return
+    if (!storedLoginLinkEmail()) {
+      setConfirmLinkEmail(true)
+      return
+    }
+    run(() => completeLoginLink(window.location.href), 'Failed to complete sign-in')
+  }, [initializing, user])
+
   if (initializing) return <p>Loading…</p>
   if (user) return <Navigate to="/admin" replace />
 
-  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
-    e.preventDefault()
+  async function run(action: () => Promise<void>, fallback: string) {
     setSubmitting(true)
     setMessage(null)
     try {
-      await login(email, password)
-      navigate('/admin', { replace: true })
+      await action()
     } catch (err: any) {
-      const msg = err?.code === 'auth/invalid-credential'
-        ? 'Invalid email or password'
-        : err?.message || 'Login failed'
-      setMessage(msg)
+      setMessage(errorMessage(err, fallback))
     } finally {
       setSubmitting(false)
     }
   }
 
+  function handlePassword(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    run(() => login(email, password), 'Login failed')
+  }
+
+  function handleSendLink(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    run(async () => {
+      await sendLoginLink(email)
+      setLinkSentTo(email)
+    }, 'Failed to send sign-in link')
+  }
+
+  function handleConfirmLink(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    run(() => completeLoginLink(window.location.href, email), 'Failed to complete sign-in')
+  }
+
+  function handleCode(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    run(() => verifyTotp(code.trim()), 'Failed to verify code')
+  }
+
+  const feedback = (message || error) && <p className="error">{message || error}</p>
+
+  if (mfaPending) {
+    return (
+      <div className="admin-auth">
+        <form className="card form" onSubmit={handleCode}>
+          <h1>Two-step verification</h1>
+          <p>Enter the 6-digit code from your authenticator app.</p>
+          <label>
+            Code
+            <input
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              pattern="[0-9]{6}"
+              required
+              autoFocus
+            />
+          </label>
+          <div className="actions">
+            <button type="submit" disabled={submitting}>
+              {submitting ? 'Verifying…' : 'Verify'}
+            </button>
+            <button type="button" onClick={cancelMfa}>Cancel</button>
+          </div>
+          {feedback}
+        </form>
+      </div>
+    )
+  }
+
+  if (confirmLinkEmail) {
+    return (
+      <div className="admin-auth">
+        <form className="card form" onSubmit={handleConfirmLink}>
+          <h1>Confirm your email</h1>
+          <p>This link was opened on a different device. Enter the address it was sent to.</p>
+          <label>
+            Email
+            <input type="email" value={email} onChange={e => setEmail(e.target.value)} required />
+          </label>
+          <button type="submit" disabled={submitting}>
+            {submitting ? 'Signing in…' : 'Finish signing in'}
+          </button>
+          {feedback}
+        </form>
+      </div>
+    )
+  }
+
   return (
     <div className="admin-auth">
-      <form className="card form" onSubmit={handleSubmit}>
+      <div className="card form">
         <h1>Admin Login</h1>
-        <label>
-          Email
-          <input
-            type="email"
-            value={email}
-            onChange={e => setEmail(e.target.value)}
-            required
-          />
-        </label>
-        <label>
-          Password
-          <input
-            type="password"
-            value={password}
-            onChange={e => setPassword(e.target.value)}
-            required
-          />
-        </label>
-        <button type="submit" disabled={submitting}>
-          {submitting ? 'Signing in…' : 'Sign in'}
-        </button>
-        {(message || error) && <p className="error">{message || error}</p>}
-      </form>
+        {method === 'password' ? (
+          <form className="stack" onSubmit={handlePassword}>
+            <label>
+              Email
+              <input
+                type="email"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                required
+              />
+            </label>
+            <label>
+              Password
+              <input
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                required
+              />
+            </label>
+            <button type="submit" disabled={submitting}>
+              {submitting ? 'Signing in…' : 'Sign in'}
+            </button>
+          </form>
+        ) : linkSentTo ? (
+          <p className="success">
+            Check {linkSentTo} for a sign-in link. It works once and expires after a while.
+          </p>
+        ) : (
+          <form className="stack" onSubmit={handleSendLink}>
+            <label>
+              Email
+              <input type="email" value={email} onChange={e => setEmail(e.target.value)} required />
+            </label>
+            <button type="submit" disabled={submitting}>
+              {submitting ? 'Sending…' : 'Email me a link'}
+            </button>
+          </form>
+        )}
+        <div className="actions">
+          <button
+            type="button"
+            onClick={() => {
+              setMethod(method === 'password' ? 'link' : 'password')
+              setLinkSentTo(null)
+              setMessage(null)
+            }}
+          >
+            {method === 'password' ? 'Use an email link' : 'Use a password'}
+          </button>
+          <button type="button" onClick={() => run(loginWithGitHub, 'GitHub sign-in failed')} disabled={submitting}>
+            Continue with GitHub
+          </button>
+        </div>
+        {feedback}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,420 @@
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  Timestamp,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where
+} from 'firebase/firestore'
+import { deleteObject, getMetadata, listAll, ref, uploadBytes } from 'firebase/storage'
+import { useAuth } from '../../lib/auth'
+import { db, storage } from '../../lib/firebase'
+import {
+  PORTAL_CODES_COLLECTION,
+  PORTAL_SHARED_FILES,
+  PROTECTED_STORAGE_PREFIX,
+  formatAccessCode,
+  normalizeProjectRecord,
+  projectOrder,
+  protectedFileProjectId,
+  shareLinkState,
+  toList,
+  type ShareLinkState
+} from '../../lib/schema'
+
+type PortalCode = {
+  code: string
+  label: string
+  projectIds: string[]
+  createdAt: Date | null
+  createdBy: string
+  expiresAt: Date | null
+  revoked: boolean
+  uses: number
+  lastUsedAt: Date | null
+}
+
+type ProtectedProject = { id: string; title: string }
+
+type ProtectedFile = {
+  path: string
+  name: string
+  projectId: string
+  size: number
+}
+
+const STATE_LABELS: Record<ShareLinkState, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked'
+}
+
+// No 0/O or 1/I so codes survive being read out or typed from a printout.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+const pick = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+const toDate = (value: unknown) => (value instanceof Timestamp ? value.toDate() : null)
+const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0)
+
+function generateCode() {
+  const bytes = crypto.getRandomValues(new Uint8Array(12))
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('')
+}
+
+function inviteUrl(code: string) {
+  return `${window.location.origin}/portal?code=${code}`
+}
+
+function codeState(code: PortalCode) {
+  return shareLinkState({ revoked: code.revoked, expiresAt: code.expiresAt?.getTime() ?? null })
+}
+
+async function loadProtectedProjects(): Promise<ProtectedProject[]> {
+  const snap = await getDocs(query(collection(db, 'projects'), where('visibility', '==', 'protected')))
+  return snap.docs
+    .sort((left, right) => projectOrder(left.data()) - projectOrder(right.data()))
+    .map(d => {
+      const project = normalizeProjectRecord({ id: d.id, ...d.data() })
+      return { id: project.id, title: project.title.en || project.title.ja || project.id }
+    })
+}
+
+async function loadProtectedFiles(): Promise<ProtectedFile[]> {
+  const root = await listAll(ref(storage, PROTECTED_STORAGE_PREFIX))
+  const folders = await Promise.all(root.prefixes.map(folder => listAll(folder)))
+  const items = [...root.items, ...folders.flatMap(folder => folder.items)]
+  return Promise.all(items.map(async item => {
+    const metadata = await getMetadata(item)
+    return {
+      path: item.fullPath,
+      name: item.name,
+      projectId: protectedFileProjectId(item.fullPath),
+      size: metadata.size
+    }
+  }))
+}
+
+export default function AdminPortal() {
+  const { user } = useAuth()
+  const [codes, setCodes] = useState<PortalCode[]>([])
+  const [projects, setProjects] = useState<ProtectedProject[]>([])
+  const [files, setFiles] = useState<ProtectedFile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [label, setLabel] = useState('')
+  const [projectIds, setProjectIds] = useState<string[]>([])
+  const [expiresOn, setExpiresOn] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [busyCode, setBusyCode] = useState<string | null>(null)
+  const [uploadProject, setUploadProject] = useState(PORTAL_SHARED_FILES)
+  const [uploading, setUploading] = useState(false)
+  const [busyFile, setBusyFile] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [snap, protectedProjects, protectedFiles] = await Promise.all([
+        getDocs(query(collection(db, PORTAL_CODES_COLLECTION), orderBy('createdAt', 'desc'))),
+        loadProtectedProjects(),
+        loadProtectedFiles()
+      ])
+      setCodes(
+        snap.docs.map(d => {
+          const data = d.data()
+          return {
+            code: d.id,
+            label: pick(data.label),
+            projectIds: toList(data.projectIds),
+            createdAt: toDate(data.createdAt),
+            createdBy: pick(data.createdBy),
+            expiresAt: toDate(data.expiresAt),
+            revoked: data.revoked === true,
+            uses: count(data.uses),
+            lastUsedAt: toDate(data.lastUsedAt)
+          }
+        })
+      )
+      setProjects(protectedProjects)
+      setFiles(protectedFiles)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to load portal access.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  function toggleProject(projectId: string, checked: boolean) {
+    setProjectIds(prev => (checked ? [...prev, projectId] : prev.filter(id => id !== projectId)))
+  }
+
+  async function createCode(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setCreating(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const code = generateCode()
+      // Codes stay valid until the end of the chosen day.
+      const expiresAt = expiresOn ? Timestamp.fromDate(new Date(`${expiresOn}T23:59:59`)) : null
+      await setDoc(doc(db, PORTAL_CODES_COLLECTION, code), {
+        label: label.trim(),
+        projectIds,
+        createdAt: serverTimestamp(),
+        createdBy: user?.email ?? '',
+        expiresAt,
+        revoked: false
+      })
+      setLabel('')
+      setProjectIds([])
+      setExpiresOn('')
+      await load()
+      setMessage(`Created code ${formatAccessCode(code)}`)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to create access code.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  async function copyInvite(code: PortalCode) {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(code.code))
+      setMessage(`Copied ${inviteUrl(code.code)}`)
+    } catch (err) {
+      console.error(err)
+      setError('Copy failed; select the link and copy it instead.')
+    }
+  }
+
+  async function setRevoked(code: PortalCode, revoked: boolean) {
+    setBusyCode(code.code)
+    setError(null)
+    setMessage(null)
+    try {
+      await updateDoc(doc(db, PORTAL_CODES_COLLECTION, code.code), {
+        revoked,
+        revokedAt: revoked ? serverTimestamp() : null
+      })
+      setCodes(prev => prev.map(item => (item.code === code.code ? { ...item, revoked } : item)))
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to update access code.')
+    } finally {
+      setBusyCode(null)
+    }
+  }
+
+  async function removeCode(code: PortalCode) {
+    if (!confirm('Delete this access code? Anyone using it will no longer get into the portal.')) return
+    setBusyCode(code.code)
+    setError(null)
+    setMessage(null)
+    try {
+      await deleteDoc(doc(db, PORTAL_CODES_COLLECTION, code.code))
+      setCodes(prev => prev.filter(item => item.code !== code.code))
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to delete access code.')
+    } finally {
+      setBusyCode(null)
+    }
+  }
+
+  async function uploadFiles(selected: FileList | null) {
+    if (!selected?.length) return
+    setUploading(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const folder = uploadProject ? `${PROTECTED_STORAGE_PREFIX}${uploadProject}/` : PROTECTED_STORAGE_PREFIX
+      for (const file of Array.from(selected)) {
+        await uploadBytes(ref(storage, `${folder}${file.name}`), file)
+      }
+      setFiles(await loadProtectedFiles())
+      setMessage(`Uploaded ${selected.length} file${selected.length === 1 ? '' : 's'}.`)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Upload failed.')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  async function removeFile(file: ProtectedFile) {
+    if (!confirm(`Delete ${file.name} from the portal?`)) return
+    setBusyFile(file.path)
+    setError(null)
+    setMessage(null)
+    try {
+      await deleteObject(ref(storage, file.path))
+      setFiles(prev => prev.filter(item => item.path !== file.path))
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to delete file.')
+    } finally {
+      setBusyFile(null)
+    }
+  }
+
+  const projectTitles = useMemo(() => new Map(projects.map(project => [project.id, project.title])), [projects])
+  const folderLabel = (projectId: string) => (
+    projectId === PORTAL_SHARED_FILES ? 'Shared with every code' : projectTitles.get(projectId) ?? `${projectId} (not protected)`
+  )
+  const totals = useMemo(() => ({
+    active: codes.filter(code => codeState(code) === 'active').length,
+    used: codes.filter(code => code.uses > 0).length,
+    uses: codes.reduce((sum, code) => sum + code.uses, 0)
+  }), [codes])
+
+  return (
+    <div className="stack">
+      <h2>Portal Access</h2>
+      <p>
+        Access codes for <code>/portal</code>, where recruiters see projects marked <strong>Protected</strong> and the
+        files under <code>protected/</code> in Storage. Download links are signed for 15 minutes at a time.
+      </p>
+
+      <form className="card form" onSubmit={createCode}>
+        <h3>New access code</h3>
+        <label>
+          Label (shown on the portal)
+          <input value={label} onChange={e => setLabel(e.target.value)} placeholder="For Acme" maxLength={200} />
+        </label>
+        <fieldset className="history-editor">
+          <legend>Projects (none selected opens every protected project)</legend>
+          {projects.length === 0 ? (
+            <p className="muted">No projects are marked Protected yet.</p>
+          ) : projects.map(project => (
+            <label key={project.id} className="checkbox-line">
+              <input
+                type="checkbox"
+                checked={projectIds.includes(project.id)}
+                onChange={e => toggleProject(project.id, e.target.checked)}
+              />
+              {project.title}
+            </label>
+          ))}
+        </fieldset>
+        <label>
+          Expires after (optional)
+          <input type="date" value={expiresOn} onChange={e => setExpiresOn(e.target.value)} />
+        </label>
+        <button type="submit" disabled={creating}>
+          {creating ? 'Creating…' : 'Create Code'}
+        </button>
+      </form>
+
+      <ul className="admin-stats">
+        <li><strong>{totals.active}</strong> active</li>
+        <li><strong>{totals.used}</strong> used</li>
+        <li><strong>{totals.uses}</strong> visits in total</li>
+      </ul>
+      <div className="actions">
+        <button type="button" onClick={load} disabled={loading}>
+          {loading ? 'Refreshing…' : 'Refresh'}
+        </button>
+      </div>
+      {message && <p className="success">{message}</p>}
+      {error && <p className="error">{error}</p>}
+
+      {loading ? <p>Loading portal access…</p> : (
+        <>
+          {codes.length === 0 ? (
+            <p className="muted">No access codes yet.</p>
+          ) : (
+            <ul className="stack">
+              {codes.map(code => {
+                const state = codeState(code)
+                return (
+                  <li key={code.code} className="card form inbox-message">
+                    <div className="section-editor-header">
+                      <h3>{code.label || formatAccessCode(code.code)}</h3>
+                      <span className={state === 'active' ? 'muted' : 'error'}>{STATE_LABELS[state]}</span>
+                    </div>
+                    <p>
+                      <code>{formatAccessCode(code.code)}</code> →{' '}
+                      {code.projectIds.length === 0
+                        ? 'All protected projects'
+                        : code.projectIds.map(id => projectTitles.get(id) ?? id).join(', ')}
+                    </p>
+                    <p className="muted">
+                      {code.uses} visit{code.uses === 1 ? '' : 's'}
+                      {code.lastUsedAt && ` · last used ${code.lastUsedAt.toLocaleString()}`}
+                    </p>
+                    <p className="muted">
+                      Created {code.createdAt ? code.createdAt.toLocaleString() : '—'}
+                      {code.createdBy && ` by ${code.createdBy}`}
+                      {code.expiresAt && ` · expires ${code.expiresAt.toLocaleString()}`}
+                    </p>
+                    <div className="actions">
+                      <button type="button" onClick={() => copyInvite(code)}>Copy invite link</button>
+                      {code.revoked ? (
+                        <button type="button" onClick={() => setRevoked(code, false)} disabled={busyCode === code.code}>
+                          Restore
+                        </button>
+                      ) : (
+                        <button type="button" onClick={() => setRevoked(code, true)} disabled={busyCode === code.code}>
+                          Revoke
+                        </button>
+                      )}
+                      <button type="button" className="danger" onClick={() => removeCode(code)} disabled={busyCode === code.code}>
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+
+          <section className="card form">
+            <h3>Protected files</h3>
+            <label>
+              Folder
+              <select value={uploadProject} onChange={e => setUploadProject(e.target.value)}>
+                <option value={PORTAL_SHARED_FILES}>Shared with every code</option>
+                {projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.title}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Upload
+              <input type="file" multiple disabled={uploading} onChange={e => {
+                void uploadFiles(e.target.files)
+                e.target.value = ''
+              }} />
+            </label>
+            {uploading && <p className="muted">Uploading…</p>}
+            {files.length === 0 ? <p className="muted">No protected files yet.</p> : (
+              <ul>
+                {files.map(file => (
+                  <li key={file.path}>
+                    <code>{file.path}</code> · {folderLabel(file.projectId)} · {Math.ceil(file.size / 1024)} KB{' '}
+                    <button type="button" className="danger" onClick={() => removeFile(file)} disabled={busyFile === file.path}>
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
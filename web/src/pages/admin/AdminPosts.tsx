@@ -0,0 +1,310 @@
+import { FormEvent, useEffect, useState } from 'react'
+import Markdown from '../../components/Markdown'
+import RevisionHistory from '../../components/RevisionHistory'
+import { createPostDraft, deleteEditable, listEditablePosts, saveDraft } from '../../lib/drafts'
+import { isPostSlug, normalizePostRecord, slugify, sortPosts } from '../../lib/schema'
+
+type Lang = 'en' | 'ja'
+
+type EditablePost = {
+  slug: string
+  title_en: string
+  title_ja: string
+  summary_en: string
+  summary_ja: string
+  body_en: string
+  body_ja: string
+  tags_en_text: string
+  tags_ja_text: string
+  cover: string
+  publishedAt: string
+  hasDraft: boolean
+}
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const emptyPost = (): EditablePost => ({
+  slug: '',
+  title_en: '',
+  title_ja: '',
+  summary_en: '',
+  summary_ja: '',
+  body_en: '',
+  body_ja: '',
+  tags_en_text: '',
+  tags_ja_text: '',
+  cover: '',
+  publishedAt: today(),
+  hasDraft: false
+})
+
+const parseTags = (text: string) =>
+  text
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean)
+
+export default function AdminPosts() {
+  const [posts, setPosts] = useState<EditablePost[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<EditablePost | null>(null)
+  const [isNew, setIsNew] = useState(false)
+  const [slugTouched, setSlugTouched] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true)
+      try {
+        const entries = await listEditablePosts()
+        const hasDraft = new Map(entries.map(entry => [entry.id, entry.hasDraft]))
+        const items = sortPosts(entries.map(entry => normalizePostRecord({ id: entry.id, ...entry.data }))).map(post => ({
+          slug: post.slug,
+          title_en: post.title.en,
+          title_ja: post.title.ja,
+          summary_en: post.summary.en,
+          summary_ja: post.summary.ja,
+          body_en: post.body.en,
+          body_ja: post.body.ja,
+          tags_en_text: post.tags.en.join(', '),
+          tags_ja_text: post.tags.ja.join(', '),
+          cover: post.cover ?? '',
+          publishedAt: post.publishedAt,
+          hasDraft: hasDraft.get(post.slug) ?? false
+        }))
+        setPosts(items)
+      } catch (err: any) {
+        console.error(err)
+        setError(err?.message || 'Failed to load posts.')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [reloadKey])
+
+  function startNew() {
+    setEditing(emptyPost())
+    setIsNew(true)
+    setSlugTouched(false)
+    setMessage(null)
+    setError(null)
+  }
+
+  function startEdit(post: EditablePost) {
+    setEditing({ ...post })
+    setIsNew(false)
+    setMessage(null)
+    setError(null)
+  }
+
+  function update(key: keyof EditablePost, value: string) {
+    setEditing(prev => {
+      if (!prev) return prev
+      const next = { ...prev, [key]: value }
+      if (isNew && key === 'title_en' && !slugTouched) {
+        next.slug = slugify(value)
+      }
+      return next
+    })
+  }
+
+  async function savePost(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    if (!editing) return
+    const slug = editing.slug.trim()
+    if (!isPostSlug(slug)) {
+      setError('Slugs use lowercase letters, numbers and single hyphens.')
+      return
+    }
+    if (!editing.title_en.trim() && !editing.title_ja.trim()) {
+      setError('Add a title in at least one language.')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+    const payload = {
+      title_en: editing.title_en.trim(),
+      title_ja: editing.title_ja.trim(),
+      summary_en: editing.summary_en.trim(),
+      summary_ja: editing.summary_ja.trim(),
+      body_en: editing.body_en,
+      body_ja: editing.body_ja,
+      tags_en: parseTags(editing.tags_en_text),
+      tags_ja: parseTags(editing.tags_ja_text),
+      cover: editing.cover.trim() || null,
+      publishedAt: editing.publishedAt || today(),
+      updatedAt: today()
+    }
+    try {
+      if (isNew) {
+        await createPostDraft(slug, payload)
+        setIsNew(false)
+      } else {
+        await saveDraft('posts', slug, payload)
+      }
+      setEditing({ ...editing, slug, hasDraft: true })
+      setMessage('Saved post draft. Publish to make it live.')
+      setReloadKey(key => key + 1)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to save post.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function removePost(slug: string) {
+    if (!confirm('Delete this post?')) return
+    setError(null)
+    setMessage(null)
+    try {
+      await deleteEditable('posts', slug)
+      setEditing(null)
+      setMessage('Marked the post for deletion. Publish to remove it from the site.')
+      setReloadKey(key => key + 1)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to delete post.')
+    }
+  }
+
+  function bodyEditor(lang: Lang) {
+    if (!editing) return null
+    const key = lang === 'en' ? 'body_en' : 'body_ja'
+    return (
+      <div className="post-editor-grid">
+        <label>
+          {lang === 'en' ? 'Body (English, Markdown)' : '本文（日本語、Markdown）'}
+          <textarea value={editing[key]} onChange={e => update(key, e.target.value)} rows={16} />
+        </label>
+        <div>
+          <p className="muted">{lang === 'en' ? 'Preview' : 'プレビュー'}</p>
+          <div className="post-preview">
+            <Markdown source={editing[key]} language={lang} />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="stack">
+      <h2>Posts</h2>
+      <p className="muted">
+        Posts appear under /writing and in the RSS and Atom feeds once published. Bodies use Markdown: headings,
+        lists, quotes, code fences, links and images.
+      </p>
+      {message && <p className="success">{message}</p>}
+      {error && <p className="error">{error}</p>}
+
+      <section className="card form">
+        <div className="section-editor-header">
+          <h3>All posts</h3>
+          <button type="button" onClick={startNew}>New post</button>
+        </div>
+        {loading ? <p>Loading posts…</p> : posts.length === 0 ? (
+          <p className="muted">No posts yet.</p>
+        ) : (
+          <ul className="stack">
+            {posts.map(post => (
+              <li key={post.slug} className="section-editor-header">
+                <span>
+                  <strong>{post.title_en || post.title_ja || post.slug}</strong>
+                  <span className="muted"> · {post.publishedAt || 'no date'}{post.hasDraft ? ' · draft' : ''}</span>
+                </span>
+                <button type="button" onClick={() => startEdit(post)} disabled={editing?.slug === post.slug && !isNew}>
+                  Edit
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {editing && (
+        <form className="card form" onSubmit={savePost}>
+          <div className="section-editor-header">
+            <h3>{isNew ? 'New post' : editing.title_en || editing.title_ja || editing.slug}</h3>
+            {!isNew && (
+              <button type="button" className="danger" onClick={() => removePost(editing.slug)}>
+                Delete
+              </button>
+            )}
+          </div>
+          <label>
+            Slug
+            <input
+              value={editing.slug}
+              onChange={e => {
+                setSlugTouched(true)
+                update('slug', e.target.value)
+              }}
+              disabled={!isNew}
+              placeholder="my-first-post"
+            />
+          </label>
+          <label>
+            Publish date
+            <input type="date" value={editing.publishedAt} onChange={e => update('publishedAt', e.target.value)} />
+          </label>
+          <label>
+            Title (English)
+            <input value={editing.title_en} onChange={e => update('title_en', e.target.value)} />
+          </label>
+          <label>
+            タイトル（日本語）
+            <input value={editing.title_ja} onChange={e => update('title_ja', e.target.value)} />
+          </label>
+          <label>
+            Summary (English)
+            <textarea value={editing.summary_en} onChange={e => update('summary_en', e.target.value)} rows={2} />
+          </label>
+          <label>
+            サマリー（日本語）
+            <textarea value={editing.summary_ja} onChange={e => update('summary_ja', e.target.value)} rows={2} />
+          </label>
+          <label>
+            Tags (English, comma separated)
+            <input value={editing.tags_en_text} onChange={e => update('tags_en_text', e.target.value)} />
+          </label>
+          <label>
+            タグ（日本語、カンマ区切り）
+            <input value={editing.tags_ja_text} onChange={e => update('tags_ja_text', e.target.value)} />
+          </label>
+          <label>
+            Cover image URL
+            <input value={editing.cover} onChange={e => update('cover', e.target.value)} placeholder="https://…" />
+          </label>
+          {bodyEditor('en')}
+          {bodyEditor('ja')}
+          <div className="actions">
+            <button type="submit" disabled={saving}>
+              {saving ? 'Saving…' : 'Save Post'}
+            </button>
+            <button type="button" onClick={() => setEditing(null)}>
+              Close
+            </button>
+          </div>
+        </form>
+      )}
+
+      {editing && !isNew && (
+        <RevisionHistory
+          key={editing.slug}
+          collection="posts"
+          docId={editing.slug}
+          label={editing.title_en || editing.slug}
+          onRestored={() => {
+            setEditing(null)
+            setReloadKey(key => key + 1)
+          }}
+        />
+      )}
+    </div>
+  )
+}
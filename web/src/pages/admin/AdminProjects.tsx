@@ -1,16 +1,53 @@
 import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react'
-import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  orderBy,
-  query,
-  updateDoc
-} from 'firebase/firestore'
-import { db } from '../../lib/firebase'
+import { createProjectDraft, deleteEditable, listEditableProjects, saveDraft } from '../../lib/drafts'
+import ProjectBlocksEditor from '../../components/ProjectBlocksEditor'
 import ProjectCoverMedia from '../../components/ProjectCoverMedia'
+import RevisionHistory from '../../components/RevisionHistory'
+import { useAuth } from '../../lib/auth'
+import { uploadProjectCover } from '../../lib/coverUploads'
+import {
+  GITHUB_API_HEADERS,
+  GITHUB_API_URL,
+  buildProjectPayloadFromRepo,
+  buildProjectUpdateFromRepo,
+  normalizeProjectRecord,
+  projectOrder,
+  roleCan,
+  serializeProjectBlock,
+  type GitHubRepo,
+  type LocalizedText,
+  type ProjectBlock,
+  type ProjectCoverImage,
+  type ProjectRecord,
+  type ProjectVisibility
+} from '../../lib/schema'
+
+const NARRATIVE_FIELDS = [
+  { key: 'summary', label: 'Summary', hint: 'Defaults to the description.' },
+  { key: 'problem', label: 'Problem', hint: 'Defaults to the description.' },
+  { key: 'systems', label: 'Systems involved', hint: 'Defaults to the architecture.' },
+  { key: 'architecture', label: 'Integration / backend architecture', hint: '' },
+  { key: 'owned', label: 'Delivery scope', hint: '' },
+  { key: 'result', label: 'Operational result', hint: 'Defaults to the impact.' },
+  { key: 'impact', label: 'Impact', hint: '' }
+] as const
+
+type NarrativeKey = typeof NARRATIVE_FIELDS[number]['key']
+
+function narrativeFromRecord(project: ProjectRecord) {
+  return Object.fromEntries(
+    NARRATIVE_FIELDS.map(({ key }) => [key, { ...project[key] }])
+  ) as Record<NarrativeKey, LocalizedText>
+}
+
+function narrativePayload(narrative: Record<NarrativeKey, LocalizedText>) {
+  return Object.fromEntries(
+    NARRATIVE_FIELDS.flatMap(({ key }) => [
+      [`${key}_en`, narrative[key].en.trim()],
+      [`${key}_ja`, narrative[key].ja.trim()]
+    ])
+  )
+}
 
 type EditableProject = {
   id: string
@@ -24,6 +61,13 @@ type EditableProject = {
   tags_en_text: string
   tags_ja_text: string
   cover: string
+  coverImage?: ProjectCoverImage
+  blocks: ProjectBlock[]
+  narrative: Record<NarrativeKey, LocalizedText>
+  // Kept as text so the field can be cleared; empty means no priority.
+  priority: string
+  featured: boolean
+  visibility: ProjectVisibility
   github_full_name?: string
   github_id?: number
   github_owner?: string
@@ -31,28 +75,7 @@ type EditableProject = {
   github_synced_at?: string
 }
 
-type GitHubRepo = {
-  id: number
-  name: string
-  full_name: string
-  html_url: string
-  description: string | null
-  homepage: string | null
-  language: string | null
-  fork: boolean
-  archived: boolean
-  stargazers_count: number
-  updated_at: string
-  pushed_at: string
-  owner: { login: string }
-  topics?: string[]
-}
-
 const defaultGitHubAccounts = ['denuoweb', 'Denuo-Web']
-const githubHeaders = {
-  Accept: 'application/vnd.github+json',
-  'X-GitHub-Api-Version': '2022-11-28'
-}
 
 function normalizeGitHubUsernames(input: string) {
   const items = input
@@ -76,32 +99,13 @@ function extractFullNameFromRepoUrl(url: string) {
   }
 }
 
-function normalizeUrl(value?: string | null) {
-  if (!value) return ''
-  const trimmed = value.trim()
-  if (!trimmed) return ''
-  if (/^https?:\/\//i.test(trimmed)) return trimmed
-  return `https://${trimmed}`
-}
-
-function buildGitHubCover(repo: GitHubRepo) {
-  return `https://opengraph.githubassets.com/1/${repo.full_name}`
-}
-
-function buildTags(repo: GitHubRepo) {
-  const tags = []
-  if (Array.isArray(repo.topics)) tags.push(...repo.topics)
-  if (repo.language) tags.push(repo.language)
-  return Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)))
-}
-
 async function fetchReposForUser(username: string): Promise<GitHubRepo[]> {
   const repos: GitHubRepo[] = []
   const perPage = 100
   for (let page = 1; page <= 10; page += 1) {
     const response = await fetch(
-      `https://api.github.com/users/${encodeURIComponent(username)}/repos?per_page=${perPage}&page=${page}&type=owner&sort=updated`,
-      { headers: githubHeaders }
+      `${GITHUB_API_URL}/users/${encodeURIComponent(username)}/repos?per_page=${perPage}&page=${page}&type=owner&sort=updated`,
+      { headers: GITHUB_API_HEADERS }
     )
     if (!response.ok) {
       throw new Error(`GitHub request failed for ${username} (status ${response.status})`)
@@ -113,82 +117,14 @@ async function fetchReposForUser(username: string): Promise<GitHubRepo[]> {
   return repos
 }
 
-function buildProjectPayloadFromRepo(repo: GitHubRepo, order: number, useGithubCover: boolean) {
-  const title = repo.name
-  const description = repo.description?.trim() ?? ''
-  const homepage = normalizeUrl(repo.homepage)
-  const tags = buildTags(repo)
-  const cover = useGithubCover ? buildGitHubCover(repo) : ''
-  return {
-    title_en: title,
-    title_ja: '',
-    title,
-    description_en: description,
-    description_ja: '',
-    description,
-    order,
-    url: homepage || null,
-    repo: repo.html_url,
-    tags_en: tags,
-    tags_ja: [],
-    tags,
-    cover: cover || null,
-    image: cover || null,
-    thumbnail: cover || null,
-    github_id: repo.id,
-    github_full_name: repo.full_name,
-    github_owner: repo.owner.login,
-    github_repo: repo.name,
-    github_updated_at: repo.updated_at,
-    github_pushed_at: repo.pushed_at,
-    github_language: repo.language || null,
-    github_topics: Array.isArray(repo.topics) ? repo.topics : [],
-    github_synced_at: new Date().toISOString()
-  }
-}
-
-function buildProjectUpdateFromRepo(repo: GitHubRepo, useGithubCover: boolean) {
-  const payload: Record<string, any> = {
-    title_en: repo.name,
-    title: repo.name,
-    repo: repo.html_url,
-    github_id: repo.id,
-    github_full_name: repo.full_name,
-    github_owner: repo.owner.login,
-    github_repo: repo.name,
-    github_updated_at: repo.updated_at,
-    github_pushed_at: repo.pushed_at,
-    github_language: repo.language || null,
-    github_topics: Array.isArray(repo.topics) ? repo.topics : [],
-    github_synced_at: new Date().toISOString()
-  }
-  const description = repo.description?.trim()
-  if (description) {
-    payload.description_en = description
-    payload.description = description
-  }
-  const homepage = normalizeUrl(repo.homepage)
-  if (homepage) {
-    payload.url = homepage
-  }
-  const tags = buildTags(repo)
-  if (tags.length) {
-    payload.tags_en = tags
-    payload.tags = tags
-  }
-  if (useGithubCover) {
-    const cover = buildGitHubCover(repo)
-    payload.cover = cover
-    payload.image = cover
-    payload.thumbnail = cover
-  }
-  return payload
-}
-
 export default function AdminProjects() {
+  const { role } = useAuth()
+  const canUpload = roleCan(role, 'uploadFiles')
   const [projects, setProjects] = useState<EditableProject[]>([])
   const [loading, setLoading] = useState(true)
   const [savingId, setSavingId] = useState<string | null>(null)
+  const [uploadingCoverId, setUploadingCoverId] = useState<string | null>(null)
+  const [coverStatus, setCoverStatus] = useState<{ id: string; message: string; error: boolean } | null>(null)
   const [githubUsernames, setGithubUsernames] = useState(defaultGitHubAccounts.join(', '))
   const [githubRepos, setGithubRepos] = useState<GitHubRepo[]>([])
   const [githubStatus, setGithubStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle')
@@ -217,27 +153,32 @@ export default function AdminProjects() {
   const loadProjects = useCallback(async (showLoading = true) => {
     if (showLoading) setLoading(true)
     try {
-      const snap = await getDocs(query(collection(db, 'projects'), orderBy('order', 'asc')))
-      const items: EditableProject[] = snap.docs.map(d => {
-        const data = d.data()
-        const tagsEn = (data.tags_en as string[]) || (data.tags as string[]) || []
-        const tagsJa = (data.tags_ja as string[]) || []
+      const entries = await listEditableProjects()
+      const items: EditableProject[] = entries.map(d => {
+        const data = d.data
+        const project = normalizeProjectRecord({ id: d.id, ...data })
         return {
           id: d.id,
-          title_en: (data.title_en as string) || (data.title as string) || '',
-          title_ja: (data.title_ja as string) || '',
-          description_en: (data.description_en as string) || (data.description as string) || '',
-          description_ja: (data.description_ja as string) || '',
-          url: (data.url as string) || '',
-          repo: (data.repo as string) || (data.github as string) || '',
-          order: Number(data.order ?? 0),
-          tags_en_text: tagsEn.join(', '),
-          tags_ja_text: tagsJa.join(', '),
-          cover: (data.cover as string) || (data.image as string) || (data.thumbnail as string) || '',
-          github_full_name: (data.github_full_name as string) || '',
+          title_en: project.title.en,
+          title_ja: project.title.ja,
+          description_en: project.description.en,
+          description_ja: project.description.ja,
+          url: project.url || '',
+          repo: project.repo || '',
+          order: projectOrder(data),
+          tags_en_text: project.tags.en.join(', '),
+          tags_ja_text: project.tags.ja.join(', '),
+          cover: project.cover || '',
+          coverImage: project.coverImage,
+          blocks: project.blocks,
+          narrative: narrativeFromRecord(project),
+          priority: project.priority === undefined ? '' : String(project.priority),
+          featured: project.featured,
+          visibility: project.visibility,
+          github_full_name: project.githubFullName || '',
           github_id: (data.github_id as number) || undefined,
-          github_owner: (data.github_owner as string) || '',
-          github_repo: (data.github_repo as string) || '',
+          github_owner: project.githubOwner || '',
+          github_repo: project.githubRepo || '',
           github_synced_at: (data.github_synced_at as string) || ''
         }
       })
@@ -253,10 +194,20 @@ export default function AdminProjects() {
     loadProjects()
   }, [loadProjects])
 
-  function updateLocalProject(id: string, key: keyof EditableProject, value: string | number) {
+  function updateLocalProject(id: string, key: keyof EditableProject, value: string | number | boolean) {
     setProjects(prev => prev.map(p => (p.id === id ? { ...p, [key]: value } : p)))
   }
 
+  function updateLocalBlocks(id: string, blocks: ProjectBlock[]) {
+    setProjects(prev => prev.map(p => (p.id === id ? { ...p, blocks } : p)))
+  }
+
+  function updateLocalNarrative(id: string, key: NarrativeKey, language: 'en' | 'ja', value: string) {
+    setProjects(prev => prev.map(p => (
+      p.id === id ? { ...p, narrative: { ...p.narrative, [key]: { ...p.narrative[key], [language]: value } } } : p
+    )))
+  }
+
   async function saveProject(project: EditableProject) {
     setSavingId(project.id)
     const url = project.url.trim()
@@ -267,25 +218,28 @@ export default function AdminProjects() {
     const tagsJa = project.tags_ja_text
       ? project.tags_ja_text.split(',').map(t => t.trim()).filter(Boolean)
       : []
+    const priority = project.priority.trim() === '' ? null : Number(project.priority)
     const payload = {
       title_en: project.title_en,
       title_ja: project.title_ja,
-      title: project.title_en,
       description_en: project.description_en,
       description_ja: project.description_ja,
-      description: project.description_en,
+      ...narrativePayload(project.narrative),
+      priority: priority !== null && Number.isFinite(priority) ? priority : null,
+      featured: project.featured,
+      visibility: project.visibility,
       order: Number(project.order ?? 0),
       url: url || null,
       repo: project.repo.trim() || null,
       tags_en: tagsEn,
       tags_ja: tagsJa,
-      tags: tagsEn,
       cover: cover || null,
-      image: cover || null,
-      thumbnail: cover || null
+      blocks: project.blocks.map(serializeProjectBlock),
+      // Replacing an uploaded cover by URL drops its variants.
+      ...(project.coverImage && cover !== project.coverImage.fallback ? { cover_image: null } : {})
     }
     try {
-      await updateDoc(doc(db, 'projects', project.id), payload)
+      await saveDraft('projects', project.id, payload)
       setProjects(prev =>
         prev.map(p =>
           p.id === project.id
@@ -306,9 +260,28 @@ export default function AdminProjects() {
     }
   }
 
+  async function uploadCover(id: string, file: File) {
+    if (!file.type.startsWith('image/')) {
+      setCoverStatus({ id, message: 'Choose an image file.', error: true })
+      return
+    }
+    setUploadingCoverId(id)
+    setCoverStatus({ id, message: 'Uploading and generating sizes…', error: false })
+    try {
+      const coverImage = await uploadProjectCover(id, file)
+      setProjects(prev => prev.map(p => (p.id === id ? { ...p, cover: coverImage.fallback, coverImage } : p)))
+      setCoverStatus({ id, message: 'Cover uploaded to the draft. Publish to make it live.', error: false })
+    } catch (err: any) {
+      console.error(err)
+      setCoverStatus({ id, message: err?.message || 'Failed to upload cover.', error: true })
+    } finally {
+      setUploadingCoverId(null)
+    }
+  }
+
   async function removeProject(id: string) {
     if (!confirm('Delete this project?')) return
-    await deleteDoc(doc(db, 'projects', id))
+    await deleteEditable('projects', id)
     setProjects(prev => prev.filter(p => p.id !== id))
   }
 
@@ -325,25 +298,20 @@ export default function AdminProjects() {
     const payload = {
       title_en: newProject.title_en,
       title_ja: newProject.title_ja,
-      title: newProject.title_en,
       description_en: newProject.description_en,
       description_ja: newProject.description_ja,
-      description: newProject.description_en,
       order: Number(newProject.order ?? 0),
       url: url || null,
       repo: newProject.repo.trim() || null,
       tags_en: tagsEn,
       tags_ja: tagsJa,
-      tags: tagsEn,
-      cover: cover || null,
-      image: cover || null,
-      thumbnail: cover || null
+      cover: cover || null
     }
-    const ref = await addDoc(collection(db, 'projects'), payload)
+    const id = await createProjectDraft(payload)
     setProjects(prev => [
       ...prev,
       {
-        id: ref.id,
+        id,
         title_en: newProject.title_en,
         title_ja: newProject.title_ja,
         description_en: newProject.description_en,
@@ -352,6 +320,11 @@ export default function AdminProjects() {
         repo: newProject.repo.trim(),
         order: newProject.order,
         cover,
+        blocks: [],
+        narrative: narrativeFromRecord(normalizeProjectRecord({ id, ...payload })),
+        priority: '',
+        featured: false,
+        visibility: 'public',
         tags_en_text: tagsEn.join(', '),
         tags_ja_text: tagsJa.join(', ')
       }
@@ -453,10 +426,10 @@ export default function AdminProjects() {
               skipped += 1
               continue
             }
-            await updateDoc(doc(db, 'projects', existing.id), buildProjectUpdateFromRepo(repo, useGithubCover))
+            await saveDraft('projects', existing.id, buildProjectUpdateFromRepo(repo, useGithubCover))
             updated += 1
           } else {
-            await addDoc(collection(db, 'projects'), buildProjectPayloadFromRepo(repo, nextOrder, useGithubCover))
+            await createProjectDraft(buildProjectPayloadFromRepo(repo, nextOrder, useGithubCover))
             nextOrder += 1
             created += 1
           }
@@ -720,6 +693,30 @@ export default function AdminProjects() {
                 説明（日本語）
                 <textarea value={project.description_ja} rows={3} onChange={e => updateLocalProject(project.id, 'description_ja', e.target.value)} />
               </label>
+              <details className="narrative-editor">
+                <summary>Case study narrative</summary>
+                {NARRATIVE_FIELDS.map(({ key, label, hint }) => (
+                  <div key={key} className="narrative-field">
+                    <label>
+                      {label} (English)
+                      <textarea
+                        value={project.narrative[key].en}
+                        rows={3}
+                        onChange={e => updateLocalNarrative(project.id, key, 'en', e.target.value)}
+                      />
+                    </label>
+                    <label>
+                      {label} (日本語)
+                      <textarea
+                        value={project.narrative[key].ja}
+                        rows={3}
+                        onChange={e => updateLocalNarrative(project.id, key, 'ja', e.target.value)}
+                      />
+                    </label>
+                    {hint && <p className="muted">{hint}</p>}
+                  </div>
+                ))}
+              </details>
               <label>
                 URL
                 <input value={project.url} onChange={e => updateLocalProject(project.id, 'url', e.target.value)} />
@@ -736,10 +733,28 @@ export default function AdminProjects() {
                   placeholder="https://…"
                 />
               </label>
+              <label>
+                Upload cover image
+                <input
+                  type="file"
+                  accept="image/*"
+                  disabled={!canUpload || uploadingCoverId !== null}
+                  onChange={e => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ''
+                    if (file) uploadCover(project.id, file)
+                  }}
+                />
+              </label>
+              {!canUpload && <p className="muted">Your role cannot upload files; paste a URL instead.</p>}
+              {coverStatus?.id === project.id && (
+                <p className={coverStatus.error ? 'error' : 'muted'}>{coverStatus.message}</p>
+              )}
               {project.cover && (
                 <div className="project-cover-preview">
                   <ProjectCoverMedia
                     cover={project.cover}
+                    image={project.coverImage?.fallback === project.cover ? project.coverImage : undefined}
                     alt="Cover preview"
                     fallbackText="Preview unavailable"
                   />
@@ -753,6 +768,40 @@ export default function AdminProjects() {
                   onChange={e => updateLocalProject(project.id, 'order', Number(e.target.value))}
                 />
               </label>
+              <label>
+                Priority
+                <input
+                  type="number"
+                  value={project.priority}
+                  onChange={e => updateLocalProject(project.id, 'priority', e.target.value)}
+                  placeholder="Unset"
+                />
+              </label>
+              <p className="muted">Lower numbers come first on Case Studies; unset projects are listed after the prioritized ones.</p>
+              <label className="checkbox-line">
+                <input
+                  type="checkbox"
+                  checked={project.featured}
+                  onChange={e => updateLocalProject(project.id, 'featured', e.target.checked)}
+                />
+                <span>Featured (eligible for the home page)</span>
+              </label>
+              <label>
+                Visibility
+                <select
+                  value={project.visibility}
+                  onChange={e => updateLocalProject(project.id, 'visibility', e.target.value)}
+                >
+                  <option value="public">Public</option>
+                  <option value="protected">Protected (recruiter portal only)</option>
+                </select>
+              </label>
+              {project.visibility === 'protected' && (
+                <p className="muted">
+                  Hidden from Case Studies, the home page and the sitemap once published. Visitors with a portal code
+                  see it at /portal, with the files uploaded under protected/{project.id}/ in Portal Access.
+                </p>
+              )}
               <label>
                 Tags EN (comma separated)
                 <input
@@ -767,6 +816,7 @@ export default function AdminProjects() {
                   onChange={e => updateLocalProject(project.id, 'tags_ja_text', e.target.value)}
                 />
               </label>
+              <ProjectBlocksEditor blocks={project.blocks} onChange={blocks => updateLocalBlocks(project.id, blocks)} />
               <div className="actions">
                 <button type="button" onClick={() => saveProject(project)} disabled={savingId === project.id}>
                   {savingId === project.id ? 'Saving…' : 'Save Changes'}
@@ -775,6 +825,7 @@ export default function AdminProjects() {
                   Delete
                 </button>
               </div>
+              <RevisionHistory collection="projects" docId={project.id} onRestored={() => loadProjects(false)} />
             </li>
           ))}
         </ul>
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from 'react'
+import { discardDraft, listDrafts, publishDrafts, type DraftSummary } from '../../lib/drafts'
+
+function draftLabel(draft: DraftSummary) {
+  const target = draft.collection === 'public' ? draft.id : `${draft.collection}/${draft.id}`
+  if (draft.deleted) return `${target} (delete)`
+  if (draft.isNew) return `${target} (new)`
+  return target
+}
+
+export default function AdminPublish() {
+  const [drafts, setDrafts] = useState<DraftSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [publishing, setPublishing] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDrafts = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setDrafts(await listDrafts())
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to load drafts.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadDrafts()
+  }, [loadDrafts])
+
+  async function handleDiscard(draft: DraftSummary) {
+    if (!confirm(`Discard the draft for ${draftLabel(draft)}?`)) return
+    const key = `${draft.collection}/${draft.id}`
+    setBusyKey(key)
+    setError(null)
+    setMessage(null)
+    try {
+      await discardDraft(draft.collection, draft.id)
+      setDrafts(prev => prev.filter(item => `${item.collection}/${item.id}` !== key))
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to discard draft.')
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  async function handlePublish() {
+    if (!confirm('Publish all drafts to the live site?')) return
+    setPublishing(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const count = await publishDrafts()
+      setMessage(count ? `Published ${count} draft${count === 1 ? '' : 's'}.` : 'Nothing to publish.')
+      await loadDrafts()
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to publish drafts.')
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  return (
+    <div className="stack">
+      <h2>Publish</h2>
+      <p className="muted">
+        Edits in the admin editors are saved as drafts. Preview them on the public site, then publish everything at once.
+      </p>
+      <div className="actions">
+        <a href="/?preview=1" target="_blank" rel="noreferrer">Preview site</a>
+        <button type="button" onClick={loadDrafts} disabled={loading}>
+          {loading ? 'Refreshing…' : 'Refresh'}
+        </button>
+        <button type="button" onClick={handlePublish} disabled={publishing || loading || drafts.length === 0}>
+          {publishing ? 'Publishing…' : 'Publish all'}
+        </button>
+      </div>
+      {message && <p className="success">{message}</p>}
+      {error && <p className="error">{error}</p>}
+
+      {loading ? <p>Loading drafts…</p> : drafts.length === 0 ? (
+        <p className="muted">No unpublished drafts.</p>
+      ) : (
+        <ul className="stack">
+          {drafts.map(draft => {
+            const key = `${draft.collection}/${draft.id}`
+            return (
+              <li key={key} className="card form">
+                <div className="section-editor-header">
+                  <h3>{draftLabel(draft)}</h3>
+                  <span className="muted">{draft.updatedAt ? draft.updatedAt.toLocaleString() : '—'}</span>
+                </div>
+                <div className="actions">
+                  <button type="button" className="danger" onClick={() => handleDiscard(draft)} disabled={busyKey === key}>
+                    Discard
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
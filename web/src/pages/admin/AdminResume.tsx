@@ -1,19 +1,63 @@
 import { ChangeEvent, FormEvent, useEffect, useState } from 'react'
-import { doc, getDoc, setDoc } from 'firebase/firestore'
 import { deleteObject, getDownloadURL, ref, uploadBytes } from 'firebase/storage'
-import { db, storage } from '../../lib/firebase'
+import JapaneseResumeEditor from '../../components/JapaneseResumeEditor'
+import ResumeVariantsEditor from '../../components/ResumeVariantsEditor'
+import RevisionHistory from '../../components/RevisionHistory'
+import { useAuth } from '../../lib/auth'
+import { loadEditable, loadLive, saveDraft } from '../../lib/drafts'
+import {
+  EMPTY_JAPANESE_RESUME,
+  RESUME_SECTION_KINDS,
+  fromJsonResume,
+  isValidResumeVariantId,
+  mergeJsonResume,
+  normalizeResumeDoc,
+  roleCan,
+  serializeJapaneseResume,
+  serializeResumeVariant,
+  type JapaneseResumeContent,
+  type ResumeSectionContent,
+  type ResumeSectionKind,
+  type ResumeVariant
+} from '../../lib/schema'
+import { storage } from '../../lib/firebase'
 
 type ResumeUrls = { en: string; ja: string }
+type ResumeOverrides = { en: boolean; ja: boolean }
 type Lang = 'en' | 'ja'
 type Bilingual = { en: string; ja: string }
 type ResumeMeta = { updatedAt: string; jaEta: string }
+type PageCopy = { headline: Bilingual; description: Bilingual; lead: Bilingual; supporting: Bilingual }
+type PageCopyKey = keyof PageCopy
+
+const EMPTY_PAGE_COPY: PageCopy = {
+  headline: { en: '', ja: '' },
+  description: { en: '', ja: '' },
+  lead: { en: '', ja: '' },
+  supporting: { en: '', ja: '' }
+}
+
+const PAGE_COPY_FIELDS: Array<{ key: PageCopyKey; label: string; rows: number }> = [
+  { key: 'headline', label: 'Headline', rows: 1 },
+  { key: 'description', label: 'Search description', rows: 2 },
+  { key: 'lead', label: 'Lead', rows: 3 },
+  { key: 'supporting', label: 'Supporting copy', rows: 2 }
+]
 type EditableSection = {
   id: string
+  kind: ResumeSectionKind | ''
   title_en: string
   title_ja: string
   items_en_text: string
   items_ja_text: string
 }
+type EditableHighlight = {
+  id: string
+  title_en: string
+  title_ja: string
+  body_en: string
+  body_ja: string
+}
 
 const createId = () => {
   if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
@@ -28,80 +72,119 @@ const parseList = (text: string) =>
     .map(line => line.trim())
     .filter(Boolean)
 
-const stringifyList = (value: unknown) => {
-  if (Array.isArray(value)) {
-    return value
-      .map(item => (typeof item === 'string' ? item.trim() : String(item ?? '')))
-      .filter(Boolean)
-      .join('\n')
-  }
-  return typeof value === 'string' ? value : ''
+function moveEntry<T extends { id: string }>(entries: T[], id: string, offset: -1 | 1) {
+  const index = entries.findIndex(entry => entry.id === id)
+  const target = index + offset
+  if (index === -1 || target < 0 || target >= entries.length) return entries
+  const next = [...entries]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
 }
 
+const SECTION_KIND_LABELS: Record<ResumeSectionKind, string> = {
+  work: 'Work (JSON Resume work entry)',
+  education: 'Education (one entry per bullet)',
+  skills: 'Skills (one "Name: keyword, keyword" per bullet)'
+}
+
+const toEditableSection = (section: ResumeSectionContent): EditableSection => ({
+  id: section.id,
+  kind: section.kind ?? '',
+  title_en: section.title.en,
+  title_ja: section.title.ja,
+  items_en_text: section.items.en.join('\n'),
+  items_ja_text: section.items.ja.join('\n')
+})
+
+const toSectionContent = (section: EditableSection): ResumeSectionContent => ({
+  id: section.id,
+  ...(section.kind ? { kind: section.kind } : {}),
+  title: { en: section.title_en.trim(), ja: section.title_ja.trim() },
+  items: { en: parseList(section.items_en_text), ja: parseList(section.items_ja_text) }
+})
+
+const parseParagraphs = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+
 const isFirebaseStorageResumeUrl = (value: string) =>
   /^https:\/\/firebasestorage\.googleapis\.com\//i.test(value.trim()) &&
   /\/o\/resumes%2F/i.test(value)
 
 export default function AdminResume() {
+  const { role } = useAuth()
+  const canUpload = roleCan(role, 'uploadFiles')
   const [urls, setUrls] = useState<ResumeUrls>({ en: '', ja: '' })
+  const [overrides, setOverrides] = useState<ResumeOverrides>({ en: false, ja: false })
   const [meta, setMeta] = useState<ResumeMeta>({ updatedAt: '', jaEta: '' })
   const [summary, setSummary] = useState<Bilingual>({ en: '', ja: '' })
+  const [pageCopy, setPageCopy] = useState<PageCopy>(EMPTY_PAGE_COPY)
+  const [knowsAbout, setKnowsAbout] = useState('')
+  const [highlights, setHighlights] = useState<EditableHighlight[]>([])
   const [sections, setSections] = useState<EditableSection[]>([])
   const [uploading, setUploading] = useState<{ [key in Lang]: boolean }>({ en: false, ja: false })
   const [savingMeta, setSavingMeta] = useState(false)
   const [savingSummary, setSavingSummary] = useState(false)
+  const [savingHighlights, setSavingHighlights] = useState(false)
+  const [highlightsDirty, setHighlightsDirty] = useState(false)
   const [savingSections, setSavingSections] = useState(false)
   const [sectionsDirty, setSectionsDirty] = useState(false)
+  const [summaryDirty, setSummaryDirty] = useState(false)
+  const [importLanguage, setImportLanguage] = useState<Lang>('en')
+  const [japanese, setJapanese] = useState<JapaneseResumeContent>(EMPTY_JAPANESE_RESUME)
+  const [savingJapanese, setSavingJapanese] = useState(false)
+  const [japaneseDirty, setJapaneseDirty] = useState(false)
+  const [variants, setVariants] = useState<ResumeVariant[]>([])
+  const [savingVariants, setSavingVariants] = useState(false)
+  const [variantsDirty, setVariantsDirty] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
     async function load() {
       try {
-        const snap = await getDoc(doc(db, 'public', 'resume'))
-        if (snap.exists()) {
-          const data = snap.data()
+        const data = await loadEditable('public', 'resume')
+        if (data) {
+          const resume = normalizeResumeDoc(data)
           setUrls({
             en: typeof data.url_en === 'string' ? data.url_en : '',
             ja: typeof data.url_ja === 'string' ? data.url_ja : ''
           })
-          setMeta({
-            updatedAt: typeof data.updatedAt === 'string'
-              ? data.updatedAt
-              : (typeof data.updated_at === 'string' ? data.updated_at : ''),
-            jaEta: typeof data.ja_eta === 'string'
-              ? data.ja_eta
-              : (typeof data.eta_ja === 'string'
-                  ? data.eta_ja
-                  : (typeof data.jaTargetDate === 'string' ? data.jaTargetDate : ''))
-          })
+          setOverrides(resume.pdfOverride)
+          setMeta({ updatedAt: resume.updatedAt, jaEta: resume.jaEta })
           setSummary({
-            en: typeof data.summary_en === 'string'
-              ? data.summary_en
-              : (typeof data.summary === 'string' ? data.summary : ''),
-            ja: typeof data.summary_ja === 'string'
-              ? data.summary_ja
-              : (typeof data.summary === 'string' ? data.summary : '')
+            en: resume.summary.en.join('\n\n'),
+            ja: resume.summary.ja.join('\n\n')
+          })
+          setPageCopy({
+            headline: resume.headline,
+            description: resume.description,
+            lead: resume.lead,
+            supporting: resume.supporting
           })
-          const rawSections = Array.isArray((data as any).sections) ? (data as any).sections : []
-          setSections(
-            rawSections.map((section: any) => {
-              const idValue = typeof section?.id === 'string' && section.id.trim()
-                ? section.id
-                : createId()
-              return {
-                id: idValue,
-                title_en: typeof section?.title_en === 'string'
-                  ? section.title_en
-                  : (typeof section?.title === 'string' ? section.title : ''),
-                title_ja: typeof section?.title_ja === 'string' ? section.title_ja : '',
-                items_en_text: stringifyList(section?.items_en ?? section?.items),
-                items_ja_text: stringifyList(section?.items_ja ?? section?.items)
-              }
-            })
+          setKnowsAbout(resume.knowsAbout.join('\n'))
+          setHighlights(
+            resume.highlights.map(highlight => ({
+              id: highlight.id,
+              title_en: highlight.title.en,
+              title_ja: highlight.title.ja,
+              body_en: highlight.body.en,
+              body_ja: highlight.body.ja
+            }))
           )
+          setHighlightsDirty(false)
+          setSummaryDirty(false)
+          setSections(resume.sections.map(toEditableSection))
           setSectionsDirty(false)
+          setJapanese(resume.japanese)
+          setJapaneseDirty(false)
+          setVariants(resume.variants)
+          setVariantsDirty(false)
         } else {
+          setHighlights([])
           setSections([])
         }
       } catch (err: any) {
@@ -110,7 +193,7 @@ export default function AdminResume() {
       }
     }
     load()
-  }, [])
+  }, [reloadKey])
 
   async function handleUpload(lang: Lang, file: File) {
     if (file.type !== 'application/pdf') {
@@ -125,8 +208,10 @@ export default function AdminResume() {
       const storageRef = ref(storage, `resumes/${lang}-${Date.now()}.pdf`)
       await uploadBytes(storageRef, file)
       const downloadURL = await getDownloadURL(storageRef)
-      await setDoc(doc(db, 'public', 'resume'), { [`url_${lang}`]: downloadURL }, { merge: true })
-      if (previousUrl && isFirebaseStorageResumeUrl(previousUrl)) {
+      await saveDraft('public', 'resume', { [`url_${lang}`]: downloadURL })
+      // The live document may still point at the previous file until publish.
+      const live = await loadLive('public', 'resume')
+      if (previousUrl && isFirebaseStorageResumeUrl(previousUrl) && previousUrl !== live?.[`url_${lang}`]) {
         try {
           await deleteObject(ref(storage, previousUrl))
         } catch (cleanupError) {
@@ -143,6 +228,21 @@ export default function AdminResume() {
     }
   }
 
+  async function toggleOverride(lang: Lang, enabled: boolean) {
+    setError(null)
+    setMessage(null)
+    try {
+      await saveDraft('public', 'resume', { [`pdf_override_${lang}`]: enabled })
+      setOverrides(prev => ({ ...prev, [lang]: enabled }))
+      setMessage(enabled
+        ? `${lang === 'en' ? 'English' : '日本語'} PDF now serves the uploaded file.`
+        : `${lang === 'en' ? 'English' : '日本語'} PDF now serves the generated file.`)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to update PDF override.')
+    }
+  }
+
   function onFileChange(lang: Lang) {
     return (event: ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0]
@@ -161,10 +261,10 @@ export default function AdminResume() {
         updatedAt: meta.updatedAt.trim(),
         jaEta: meta.jaEta.trim()
       }
-      await setDoc(doc(db, 'public', 'resume'), {
+      await saveDraft('public', 'resume', {
         updatedAt: next.updatedAt || null,
         ja_eta: next.jaEta || null
-      }, { merge: true })
+      })
       setMeta(next)
       setMessage('Saved resume metadata.')
     } catch (err: any) {
@@ -185,12 +285,23 @@ export default function AdminResume() {
         en: summary.en.trim(),
         ja: summary.ja.trim()
       }
-      await setDoc(doc(db, 'public', 'resume'), {
+      const copy = Object.fromEntries(
+        PAGE_COPY_FIELDS.map(({ key }) => [key, { en: pageCopy[key].en.trim(), ja: pageCopy[key].ja.trim() }])
+      ) as PageCopy
+      const topics = parseList(knowsAbout)
+      await saveDraft('public', 'resume', {
         summary_en: next.en,
         summary_ja: next.ja,
-        summary: next.en
-      }, { merge: true })
+        summary: next.en,
+        ...Object.fromEntries(
+          PAGE_COPY_FIELDS.flatMap(({ key }) => [[`${key}_en`, copy[key].en], [`${key}_ja`, copy[key].ja]])
+        ),
+        knows_about: topics
+      })
       setSummary(next)
+      setPageCopy(copy)
+      setKnowsAbout(topics.join('\n'))
+      setSummaryDirty(false)
       setMessage('Saved resume summary.')
     } catch (err: any) {
       console.error(err)
@@ -200,36 +311,79 @@ export default function AdminResume() {
     }
   }
 
+  async function saveHighlights() {
+    setSavingHighlights(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const normalized = highlights.map(highlight => ({
+        id: highlight.id,
+        title_en: highlight.title_en.trim(),
+        title_ja: highlight.title_ja.trim(),
+        body_en: highlight.body_en.trim(),
+        body_ja: highlight.body_ja.trim()
+      }))
+      await saveDraft('public', 'resume', { highlights: normalized })
+      setHighlights(normalized)
+      setHighlightsDirty(false)
+      setMessage('Saved highlight cards.')
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to save highlight cards.')
+    } finally {
+      setSavingHighlights(false)
+    }
+  }
+
+  function addHighlight() {
+    setHighlights(prev => [
+      ...prev,
+      {
+        id: createId(),
+        title_en: '',
+        title_ja: '',
+        body_en: '',
+        body_ja: ''
+      }
+    ])
+    setHighlightsDirty(true)
+  }
+
+  function updateHighlight(id: string, key: keyof EditableHighlight, value: string) {
+    setHighlights(prev =>
+      prev.map(highlight => (highlight.id === id ? { ...highlight, [key]: value } : highlight))
+    )
+    setHighlightsDirty(true)
+  }
+
+  function moveHighlight(id: string, offset: -1 | 1) {
+    setHighlights(prev => moveEntry(prev, id, offset))
+    setHighlightsDirty(true)
+  }
+
+  function removeHighlight(id: string) {
+    if (!confirm('Remove this card?')) return
+    setHighlights(prev => prev.filter(highlight => highlight.id !== id))
+    setHighlightsDirty(true)
+  }
+
   async function saveSections() {
     setSavingSections(true)
     setError(null)
     setMessage(null)
     try {
-      const normalized = sections.map(section => {
-        const titleEn = section.title_en.trim()
-        const titleJa = section.title_ja.trim()
-        const itemsEn = parseList(section.items_en_text)
-        const itemsJa = parseList(section.items_ja_text)
-        return {
-          id: section.id,
-          title_en: titleEn,
-          title_ja: titleJa,
-          title: titleEn,
-          items_en: itemsEn,
-          items_ja: itemsJa,
-          items: itemsEn
-        }
-      })
-      await setDoc(doc(db, 'public', 'resume'), { sections: normalized }, { merge: true })
-      setSections(
-        normalized.map(section => ({
+      const normalized = sections.map(toSectionContent)
+      await saveDraft('public', 'resume', {
+        sections: normalized.map(section => ({
           id: section.id,
-          title_en: section.title_en,
-          title_ja: section.title_ja,
-          items_en_text: section.items_en.join('\n'),
-          items_ja_text: section.items_ja.join('\n')
+          ...(section.kind ? { kind: section.kind } : {}),
+          title_en: section.title.en,
+          title_ja: section.title.ja,
+          items_en: section.items.en,
+          items_ja: section.items.ja
         }))
-      )
+      })
+      setSections(normalized.map(toEditableSection))
       setSectionsDirty(false)
       setMessage('Saved resume sections.')
     } catch (err: any) {
@@ -245,6 +399,7 @@ export default function AdminResume() {
       ...prev,
       {
         id: createId(),
+        kind: '',
         title_en: '',
         title_ja: '',
         items_en_text: '',
@@ -261,6 +416,112 @@ export default function AdminResume() {
     setSectionsDirty(true)
   }
 
+  async function saveJapanese() {
+    setSavingJapanese(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const serialized = serializeJapaneseResume(japanese)
+      await saveDraft('public', 'resume', serialized)
+      setJapanese(normalizeResumeDoc(serialized).japanese)
+      setJapaneseDirty(false)
+      setMessage('Saved Japanese documents.')
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to save Japanese documents.')
+    } finally {
+      setSavingJapanese(false)
+    }
+  }
+
+  async function saveVariants() {
+    const ids = variants.map(variant => variant.id)
+    if (ids.some(id => !isValidResumeVariantId(id)) || new Set(ids).size !== ids.length) {
+      setError('Every variant needs its own valid path before saving.')
+      return
+    }
+    setSavingVariants(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const serialized = variants.map(serializeResumeVariant)
+      await saveDraft('public', 'resume', { variants: serialized })
+      setVariants(normalizeResumeDoc({ variants: serialized }).variants)
+      setVariantsDirty(false)
+      setMessage('Saved resume variants.')
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to save resume variants.')
+    } finally {
+      setSavingVariants(false)
+    }
+  }
+
+  // The URL is stored with the variant when the variants are saved.
+  async function uploadVariantPdf(variant: ResumeVariant, lang: Lang, file: File) {
+    if (file.type !== 'application/pdf') {
+      setError('Please upload a PDF file.')
+      return ''
+    }
+    setError(null)
+    setMessage(null)
+    try {
+      const storageRef = ref(storage, `resumes/variants/${variant.id}-${lang}-${Date.now()}.pdf`)
+      await uploadBytes(storageRef, file)
+      const downloadURL = await getDownloadURL(storageRef)
+      setVariantsDirty(true)
+      setMessage(`Uploaded the ${lang === 'en' ? 'English' : '日本語'} PDF for ${variant.id}. Save the variants to use it.`)
+      return downloadURL
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Upload failed. Please try again.')
+      return ''
+    }
+  }
+
+  // The file is merged into the editors only; nothing is written until the
+  // summary and sections are saved.
+  async function importJsonResume(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    setError(null)
+    setMessage(null)
+    try {
+      const imported = fromJsonResume(JSON.parse(await file.text()), importLanguage)
+      const merged = mergeJsonResume(
+        {
+          headline: pageCopy.headline,
+          summary: { en: parseParagraphs(summary.en), ja: parseParagraphs(summary.ja) },
+          knowsAbout: parseList(knowsAbout),
+          sections: sections.map(toSectionContent)
+        },
+        imported,
+        importLanguage
+      )
+      if (imported.summary.length) {
+        setSummary({ en: merged.summary.en.join('\n\n'), ja: merged.summary.ja.join('\n\n') })
+        setSummaryDirty(true)
+      }
+      if (imported.headline || imported.knowsAbout.length) {
+        setPageCopy(prev => ({ ...prev, headline: merged.headline }))
+        setKnowsAbout(merged.knowsAbout.join('\n'))
+        setSummaryDirty(true)
+      }
+      setSections(merged.sections.map(toEditableSection))
+      setSectionsDirty(true)
+      setMessage(`Imported ${imported.sections.length} section(s) from ${file.name}. Review them and save.`)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to import JSON Resume file.')
+    }
+  }
+
+  function moveSection(id: string, offset: -1 | 1) {
+    setSections(prev => moveEntry(prev, id, offset))
+    setSectionsDirty(true)
+  }
+
   function removeSection(id: string) {
     if (!confirm('Remove this section?')) return
     setSections(prev => prev.filter(section => section.id !== id))
@@ -297,12 +558,56 @@ export default function AdminResume() {
 
       <form className="card form" onSubmit={saveSummary}>
         <h3>Résumé Summary</h3>
-        <p>Use a short introduction to highlight your focus areas or role.</p>
+        <p>
+          The headline, lead and supporting copy open /resume; the search description falls back to the first summary
+          paragraph. Variants can replace the headline. Use the summary for a short introduction to your focus areas.
+        </p>
+        {PAGE_COPY_FIELDS.map(({ key, label, rows }) => (
+          (['en', 'ja'] as const).map(lang => (
+            <label key={`${key}-${lang}`}>
+              {label} ({lang === 'en' ? 'English' : '日本語'})
+              {rows === 1 ? (
+                <input
+                  value={pageCopy[key][lang]}
+                  onChange={e => {
+                    const value = e.target.value
+                    setPageCopy(prev => ({ ...prev, [key]: { ...prev[key], [lang]: value } }))
+                    setSummaryDirty(true)
+                  }}
+                />
+              ) : (
+                <textarea
+                  value={pageCopy[key][lang]}
+                  onChange={e => {
+                    const value = e.target.value
+                    setPageCopy(prev => ({ ...prev, [key]: { ...prev[key], [lang]: value } }))
+                    setSummaryDirty(true)
+                  }}
+                  rows={rows}
+                />
+              )}
+            </label>
+          ))
+        ))}
+        <label>
+          Topics (one per line, listed as knowsAbout for search engines)
+          <textarea
+            value={knowsAbout}
+            onChange={e => {
+              setKnowsAbout(e.target.value)
+              setSummaryDirty(true)
+            }}
+            rows={4}
+          />
+        </label>
         <label>
           Summary (English)
           <textarea
             value={summary.en}
-            onChange={e => setSummary(prev => ({ ...prev, en: e.target.value }))}
+            onChange={e => {
+              setSummary(prev => ({ ...prev, en: e.target.value }))
+              setSummaryDirty(true)
+            }}
             rows={4}
           />
         </label>
@@ -310,28 +615,109 @@ export default function AdminResume() {
           サマリー（日本語）
           <textarea
             value={summary.ja}
-            onChange={e => setSummary(prev => ({ ...prev, ja: e.target.value }))}
+            onChange={e => {
+              setSummary(prev => ({ ...prev, ja: e.target.value }))
+              setSummaryDirty(true)
+            }}
             rows={4}
           />
         </label>
         <button type="submit" disabled={savingSummary}>
           {savingSummary ? 'Saving…' : 'Save Summary'}
         </button>
+        {summaryDirty && <p className="muted">You have unsaved summary changes.</p>}
       </form>
 
+      <section className="card form">
+        <h3>Highlight Cards</h3>
+        <p>Short cards shown above the summary on /resume, in this order.</p>
+        {highlights.length === 0 && <p className="muted">No cards yet. The page skips the card grid until you add one.</p>}
+        <div className="section-editors">
+          {highlights.map((highlight, index) => (
+            <div key={highlight.id} className="section-editor">
+              <div className="section-editor-header">
+                <h4>Card {index + 1}</h4>
+                <div className="actions">
+                  <button type="button" onClick={() => moveHighlight(highlight.id, -1)} disabled={index === 0} aria-label="Move card up">↑</button>
+                  <button type="button" onClick={() => moveHighlight(highlight.id, 1)} disabled={index === highlights.length - 1} aria-label="Move card down">↓</button>
+                  <button type="button" className="danger" onClick={() => removeHighlight(highlight.id)}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <label>
+                Title (English)
+                <input
+                  value={highlight.title_en}
+                  onChange={e => updateHighlight(highlight.id, 'title_en', e.target.value)}
+                />
+              </label>
+              <label>
+                タイトル（日本語）
+                <input
+                  value={highlight.title_ja}
+                  onChange={e => updateHighlight(highlight.id, 'title_ja', e.target.value)}
+                />
+              </label>
+              <label>
+                Text (English)
+                <textarea
+                  value={highlight.body_en}
+                  onChange={e => updateHighlight(highlight.id, 'body_en', e.target.value)}
+                  rows={2}
+                />
+              </label>
+              <label>
+                本文（日本語）
+                <textarea
+                  value={highlight.body_ja}
+                  onChange={e => updateHighlight(highlight.id, 'body_ja', e.target.value)}
+                  rows={2}
+                />
+              </label>
+            </div>
+          ))}
+        </div>
+        <div className="actions">
+          <button type="button" onClick={addHighlight}>
+            Add Card
+          </button>
+          <button type="button" onClick={saveHighlights} disabled={savingHighlights}>
+            {savingHighlights ? 'Saving…' : 'Save Cards'}
+          </button>
+        </div>
+        {highlightsDirty && <p className="muted">You have unsaved card changes.</p>}
+      </section>
+
       <section className="card form">
         <h3>Content Sections</h3>
-        <p>Add sections like Experience or Skills. Enter one bullet per line.</p>
+        <p>Every section on /resume and the generated PDF comes from this list, in this order. Enter one bullet per line.</p>
         {sections.length === 0 && <p className="muted">No sections yet. Add your first section below.</p>}
         <div className="section-editors">
           {sections.map((section, index) => (
             <div key={section.id} className="section-editor">
               <div className="section-editor-header">
                 <h4>Section {index + 1}</h4>
-                <button type="button" className="danger" onClick={() => removeSection(section.id)}>
-                  Delete
-                </button>
+                <div className="actions">
+                  <button type="button" onClick={() => moveSection(section.id, -1)} disabled={index === 0} aria-label="Move section up">↑</button>
+                  <button type="button" onClick={() => moveSection(section.id, 1)} disabled={index === sections.length - 1} aria-label="Move section down">↓</button>
+                  <button type="button" className="danger" onClick={() => removeSection(section.id)}>
+                    Delete
+                  </button>
+                </div>
               </div>
+              <label>
+                JSON Resume type
+                <select
+                  value={section.kind}
+                  onChange={e => updateSection(section.id, 'kind', e.target.value)}
+                >
+                  <option value="">General (exported as a project)</option>
+                  {RESUME_SECTION_KINDS.map(kind => (
+                    <option key={kind} value={kind}>{SECTION_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </label>
               <label>
                 Title (English)
                 <input
@@ -377,13 +763,91 @@ export default function AdminResume() {
         {sectionsDirty && <p className="muted">You have unsaved section changes.</p>}
       </section>
 
+      <section className="card form">
+        <h3>Resume Variants</h3>
+        <p>
+          Targeted versions of the resume for different kinds of roles, each published at{' '}
+          <code>/resume/&lt;path&gt;</code> with its PDF at <code>/resume/&lt;path&gt;.pdf</code>. Variants are
+          not linked from the site; share their links directly.
+        </p>
+        <ResumeVariantsEditor
+          value={variants}
+          sections={sections.map(section => ({ id: section.id, title: section.title_en || section.title_ja || section.id }))}
+          onChange={next => {
+            setVariants(next)
+            setVariantsDirty(true)
+          }}
+          uploadPdf={canUpload ? uploadVariantPdf : null}
+        />
+        <div className="actions">
+          <button type="button" onClick={saveVariants} disabled={savingVariants}>
+            {savingVariants ? 'Saving…' : 'Save Variants'}
+          </button>
+        </div>
+        {variantsDirty && <p className="muted">You have unsaved variant changes.</p>}
+      </section>
+
+      <section className="card form">
+        <h3>履歴書・職務経歴書</h3>
+        <p>
+          Structured data for the Japanese application documents at{' '}
+          <a href="/resume/rirekisho" target="_blank" rel="noopener noreferrer">/resume/rirekisho</a> and{' '}
+          <a href="/resume/shokumu-keirekisho" target="_blank" rel="noopener noreferrer">/resume/shokumu-keirekisho</a>{' '}
+          (add <code>.pdf</code> for the printable file). The name comes from the site settings, and the 職務経歴書 also
+          uses the Japanese summary and the sections marked as skills. Everything entered here is public once published.
+        </p>
+        <JapaneseResumeEditor
+          value={japanese}
+          onChange={next => {
+            setJapanese(next)
+            setJapaneseDirty(true)
+          }}
+        />
+        <div className="actions">
+          <button type="button" onClick={saveJapanese} disabled={savingJapanese}>
+            {savingJapanese ? 'Saving…' : 'Save Japanese Documents'}
+          </button>
+        </div>
+        {japaneseDirty && <p className="muted">You have unsaved changes to the Japanese documents.</p>}
+      </section>
+
+      <section className="card form">
+        <h3>JSON Resume</h3>
+        <p>
+          The published resume is available in the <a href="https://jsonresume.org/schema" target="_blank" rel="noopener noreferrer">JSON Resume</a> format
+          at <a href="/resume.json" target="_blank" rel="noopener noreferrer">/resume.json</a> and{' '}
+          <a href="/resume.json?lang=ja" target="_blank" rel="noopener noreferrer">/resume.json?lang=ja</a>.
+        </p>
+        <p>
+          Importing a file fills the chosen language of the summary and sections above: each work entry becomes a
+          section, and education and skills become one section each. Sections imported before are updated in place.
+          The file's label and skill keywords fill the headline and topics only while those are empty.
+        </p>
+        <label>
+          File language
+          <select value={importLanguage} onChange={e => setImportLanguage(e.target.value as Lang)}>
+            <option value="en">English</option>
+            <option value="ja">日本語</option>
+          </select>
+        </label>
+        <label>
+          Import JSON Resume file
+          <input type="file" accept="application/json,.json" onChange={importJsonResume} />
+        </label>
+      </section>
+
       <section className="card form">
         <h3>Résumé PDFs</h3>
-        <p>Optional downloadable PDFs for each language.</p>
+        <p>
+          <a href="/resume.pdf" target="_blank" rel="noopener noreferrer">/resume.pdf</a> is generated from the
+          summary and sections above and refreshes whenever they are saved. Upload a PDF and enable the override
+          only when a language needs a hand-made file instead.
+        </p>
+        {!canUpload && <p className="muted">Your role cannot upload files; ask an editor or owner.</p>}
         <div className="resume-upload-grid">
           <div>
             <h4>English Resume</h4>
-            <p>Upload a PDF to make it available on the English site.</p>
+            <p>Optional hand-made PDF for the English site.</p>
             {urls.en && (
               <p>
                 Current file:&nbsp;
@@ -398,14 +862,23 @@ export default function AdminResume() {
                 type="file"
                 accept="application/pdf"
                 onChange={onFileChange('en')}
-                disabled={uploading.en}
+                disabled={uploading.en || !canUpload}
               />
             </label>
             {uploading.en && <p>Uploading English resume…</p>}
+            <label className="checkbox-line">
+              <input
+                type="checkbox"
+                checked={overrides.en}
+                onChange={e => toggleOverride('en', e.target.checked)}
+                disabled={!urls.en}
+              />
+              <span>Serve the uploaded file instead of the generated PDF</span>
+            </label>
           </div>
           <div>
             <h4>日本語の履歴書</h4>
-            <p>PDF をアップロードすると日本語サイトに表示されます。</p>
+            <p>日本語サイト用の PDF を任意でアップロードできます。</p>
             {urls.ja && (
               <p>
                 現在のファイル:&nbsp;
@@ -420,14 +893,25 @@ export default function AdminResume() {
                 type="file"
                 accept="application/pdf"
                 onChange={onFileChange('ja')}
-                disabled={uploading.ja}
+                disabled={uploading.ja || !canUpload}
               />
             </label>
             {uploading.ja && <p>日本語の履歴書をアップロード中…</p>}
+            <label className="checkbox-line">
+              <input
+                type="checkbox"
+                checked={overrides.ja}
+                onChange={e => toggleOverride('ja', e.target.checked)}
+                disabled={!urls.ja}
+              />
+              <span>生成された PDF の代わりにアップロードしたファイルを使う</span>
+            </label>
           </div>
         </div>
       </section>
 
+      <RevisionHistory collection="public" docId="resume" label="Resume" onRestored={() => setReloadKey(key => key + 1)} />
+
       {message && <p className="success">{message}</p>}
       {error && <p className="error">{error}</p>}
     </div>
@@ -0,0 +1,388 @@
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  Timestamp,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch
+} from 'firebase/firestore'
+import { useAuth } from '../../lib/auth'
+import { listProjects } from '../../lib/content'
+import { db } from '../../lib/firebase'
+import { loadLive } from '../../lib/drafts'
+import {
+  SHARE_LINKS_COLLECTION,
+  SHARE_LINK_OPENS_COLLECTION,
+  isValidShareTarget,
+  normalizeResumeDoc,
+  shareLinkState,
+  type ShareLinkState
+} from '../../lib/schema'
+
+type ShareLink = {
+  token: string
+  target: string
+  label: string
+  createdAt: Date | null
+  createdBy: string
+  expiresAt: Date | null
+  revoked: boolean
+  opens: number
+  previews: number
+  lastOpenedAt: Date | null
+  lastReferrer: string
+}
+
+type ShareLinkOpen = {
+  id: string
+  openedAt: Date | null
+  referrer: string
+  userAgent: string
+  preview: boolean
+}
+
+type TargetOption = { value: string; label: string }
+
+const STATE_LABELS: Record<ShareLinkState, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked'
+}
+
+const TOKEN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789'
+
+const pick = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+const toDate = (value: unknown) => (value instanceof Timestamp ? value.toDate() : null)
+const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0)
+
+function createToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(10))
+  return Array.from(bytes, byte => TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length]).join('')
+}
+
+function shareUrl(token: string) {
+  return `${window.location.origin}/s/${token}`
+}
+
+function linkState(link: ShareLink) {
+  return shareLinkState({ revoked: link.revoked, expiresAt: link.expiresAt?.getTime() ?? null })
+}
+
+const RESUME_TARGETS: TargetOption[] = [
+  { value: '/resume', label: 'Resume' },
+  { value: '/resume.pdf', label: 'Resume PDF' },
+  { value: '/ja/resume', label: '履歴書 (Japanese resume)' },
+  { value: '/resume.pdf?lang=ja', label: '履歴書 PDF (Japanese PDF)' }
+]
+
+async function loadTargets(): Promise<TargetOption[]> {
+  const [resume, projects] = await Promise.all([loadLive('public', 'resume'), listProjects()])
+  const variants = resume ? normalizeResumeDoc(resume).variants : []
+  return [
+    ...RESUME_TARGETS,
+    ...variants.flatMap(variant => [
+      { value: `/resume/${variant.id}`, label: `Resume variant: ${variant.label || variant.id}` },
+      { value: `/resume/${variant.id}.pdf`, label: `Resume variant PDF: ${variant.label || variant.id}` }
+    ]),
+    ...projects.map(project => ({
+      value: `/projects/${project.id}`,
+      label: `Case study: ${project.title.en || project.title.ja || project.id}`
+    }))
+  ].filter(option => isValidShareTarget(option.value))
+}
+
+export default function AdminShareLinks() {
+  const { user } = useAuth()
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [targets, setTargets] = useState<TargetOption[]>(RESUME_TARGETS)
+  const [loading, setLoading] = useState(true)
+  const [label, setLabel] = useState('')
+  const [target, setTarget] = useState('/resume')
+  const [expiresOn, setExpiresOn] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [busyToken, setBusyToken] = useState<string | null>(null)
+  const [openedToken, setOpenedToken] = useState<string | null>(null)
+  const [opens, setOpens] = useState<ShareLinkOpen[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLinks = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const snap = await getDocs(query(collection(db, SHARE_LINKS_COLLECTION), orderBy('createdAt', 'desc')))
+      setLinks(
+        snap.docs.map(d => {
+          const data = d.data()
+          return {
+            token: d.id,
+            target: pick(data.target),
+            label: pick(data.label),
+            createdAt: toDate(data.createdAt),
+            createdBy: pick(data.createdBy),
+            expiresAt: toDate(data.expiresAt),
+            revoked: data.revoked === true,
+            opens: count(data.opens),
+            previews: count(data.previews),
+            lastOpenedAt: toDate(data.lastOpenedAt),
+            lastReferrer: pick(data.lastReferrer)
+          }
+        })
+      )
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to load share links.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadLinks()
+    loadTargets()
+      .then(setTargets)
+      .catch(err => console.error(err))
+  }, [loadLinks])
+
+  async function createLink(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    if (!isValidShareTarget(target)) {
+      setError('Choose what the link should open.')
+      return
+    }
+    setCreating(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const token = createToken()
+      // Links stay valid until the end of the chosen day.
+      const expiresAt = expiresOn ? Timestamp.fromDate(new Date(`${expiresOn}T23:59:59`)) : null
+      await setDoc(doc(db, SHARE_LINKS_COLLECTION, token), {
+        target,
+        label: label.trim(),
+        createdAt: serverTimestamp(),
+        createdBy: user?.email ?? '',
+        expiresAt,
+        revoked: false
+      })
+      setLabel('')
+      setExpiresOn('')
+      await loadLinks()
+      setMessage(`Created ${shareUrl(token)}`)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to create share link.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  async function copyLink(link: ShareLink) {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.token))
+      setMessage(`Copied ${shareUrl(link.token)}`)
+    } catch (err) {
+      console.error(err)
+      setError('Copy failed; select the link and copy it instead.')
+    }
+  }
+
+  async function setRevoked(link: ShareLink, revoked: boolean) {
+    setBusyToken(link.token)
+    setError(null)
+    setMessage(null)
+    try {
+      await updateDoc(doc(db, SHARE_LINKS_COLLECTION, link.token), {
+        revoked,
+        revokedAt: revoked ? serverTimestamp() : null
+      })
+      setLinks(prev => prev.map(item => (item.token === link.token ? { ...item, revoked } : item)))
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to update share link.')
+    } finally {
+      setBusyToken(null)
+    }
+  }
+
+  async function removeLink(link: ShareLink) {
+    if (!confirm('Delete this link and its open history? Anyone using it will get a "not found" page.')) return
+    setBusyToken(link.token)
+    setError(null)
+    setMessage(null)
+    try {
+      const linkRef = doc(db, SHARE_LINKS_COLLECTION, link.token)
+      const history = await getDocs(collection(linkRef, SHARE_LINK_OPENS_COLLECTION))
+      // Batches are capped at 500 writes.
+      for (let start = 0; start < history.docs.length; start += 450) {
+        const batch = writeBatch(db)
+        history.docs.slice(start, start + 450).forEach(open => batch.delete(open.ref))
+        await batch.commit()
+      }
+      await deleteDoc(linkRef)
+      setLinks(prev => prev.filter(item => item.token !== link.token))
+      if (openedToken === link.token) setOpenedToken(null)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to delete share link.')
+    } finally {
+      setBusyToken(null)
+    }
+  }
+
+  async function toggleOpens(link: ShareLink) {
+    if (openedToken === link.token) {
+      setOpenedToken(null)
+      return
+    }
+    setBusyToken(link.token)
+    setError(null)
+    try {
+      const snap = await getDocs(query(
+        collection(db, SHARE_LINKS_COLLECTION, link.token, SHARE_LINK_OPENS_COLLECTION),
+        orderBy('openedAt', 'desc'),
+        limit(50)
+      ))
+      setOpens(snap.docs.map(d => {
+        const data = d.data()
+        return {
+          id: d.id,
+          openedAt: toDate(data.openedAt),
+          referrer: pick(data.referrer),
+          userAgent: pick(data.userAgent),
+          preview: data.preview === true
+        }
+      }))
+      setOpenedToken(link.token)
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to load opens.')
+    } finally {
+      setBusyToken(null)
+    }
+  }
+
+  const targetLabels = useMemo(() => new Map(targets.map(option => [option.value, option.label])), [targets])
+  const totals = useMemo(() => ({
+    active: links.filter(link => linkState(link) === 'active').length,
+    opened: links.filter(link => link.opens > 0).length,
+    opens: links.reduce((sum, link) => sum + link.opens, 0)
+  }), [links])
+
+  return (
+    <div className="stack">
+      <h2>Share Links</h2>
+      <p>
+        Short <code>/s/…</code> links for sending the resume or a case study to one person. Each open is counted with
+        its time and referring site; link previews from chat apps and mail scanners are counted separately.
+      </p>
+
+      <form className="card form" onSubmit={createLink}>
+        <h3>New link</h3>
+        <label>
+          Label (who it is for)
+          <input value={label} onChange={e => setLabel(e.target.value)} placeholder="Acme — recruiter" maxLength={200} />
+        </label>
+        <label>
+          Opens
+          <select value={target} onChange={e => setTarget(e.target.value)}>
+            {targets.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Expires after (optional)
+          <input type="date" value={expiresOn} onChange={e => setExpiresOn(e.target.value)} />
+        </label>
+        <button type="submit" disabled={creating}>
+          {creating ? 'Creating…' : 'Create Link'}
+        </button>
+      </form>
+
+      <ul className="admin-stats">
+        <li><strong>{totals.active}</strong> active</li>
+        <li><strong>{totals.opened}</strong> opened</li>
+        <li><strong>{totals.opens}</strong> opens in total</li>
+      </ul>
+      <div className="actions">
+        <button type="button" onClick={loadLinks} disabled={loading}>
+          {loading ? 'Refreshing…' : 'Refresh'}
+        </button>
+      </div>
+      {message && <p className="success">{message}</p>}
+      {error && <p className="error">{error}</p>}
+
+      {loading ? <p>Loading share links…</p> : links.length === 0 ? (
+        <p className="muted">No share links yet.</p>
+      ) : (
+        <ul className="stack">
+          {links.map(link => {
+            const state = linkState(link)
+            return (
+              <li key={link.token} className="card form inbox-message">
+                <div className="section-editor-header">
+                  <h3>{link.label || link.token}</h3>
+                  <span className={state === 'active' ? 'muted' : 'error'}>{STATE_LABELS[state]}</span>
+                </div>
+                <p>
+                  <code>{shareUrl(link.token)}</code> → {targetLabels.get(link.target) ?? link.target}
+                </p>
+                <p className="muted">
+                  {link.opens} open{link.opens === 1 ? '' : 's'}
+                  {link.previews > 0 && ` · ${link.previews} preview${link.previews === 1 ? '' : 's'}`}
+                  {link.lastOpenedAt && ` · last opened ${link.lastOpenedAt.toLocaleString()}`}
+                  {link.lastReferrer && ` from ${link.lastReferrer}`}
+                </p>
+                <p className="muted">
+                  Created {link.createdAt ? link.createdAt.toLocaleString() : '—'}
+                  {link.createdBy && ` by ${link.createdBy}`}
+                  {link.expiresAt && ` · expires ${link.expiresAt.toLocaleString()}`}
+                </p>
+                <div className="actions">
+                  <button type="button" onClick={() => copyLink(link)}>Copy link</button>
+                  <button type="button" onClick={() => toggleOpens(link)} disabled={busyToken === link.token}>
+                    {openedToken === link.token ? 'Hide opens' : 'Show opens'}
+                  </button>
+                  {link.revoked ? (
+                    <button type="button" onClick={() => setRevoked(link, false)} disabled={busyToken === link.token}>
+                      Restore
+                    </button>
+                  ) : (
+                    <button type="button" onClick={() => setRevoked(link, true)} disabled={busyToken === link.token}>
+                      Revoke
+                    </button>
+                  )}
+                  <button type="button" className="danger" onClick={() => removeLink(link)} disabled={busyToken === link.token}>
+                    Delete
+                  </button>
+                </div>
+                {openedToken === link.token && (
+                  opens.length === 0 ? <p className="muted">Not opened yet.</p> : (
+                    <ul>
+                      {opens.map(open => (
+                        <li key={open.id}>
+                          {open.openedAt ? open.openedAt.toLocaleString() : '—'}
+                          {open.preview ? ' · preview' : ''}
+                          {open.referrer ? ` · from ${open.referrer}` : ' · no referrer'}
+                          {open.userAgent && <span className="muted"> · {open.userAgent}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import { FormEvent, useEffect, useState } from 'react'
+import { httpsCallable } from 'firebase/functions'
+import { useAuth } from '../../lib/auth'
+import { functions } from '../../lib/firebase'
+import { ADMIN_ROLES, ROLE_LABELS, type AdminRole } from '../../lib/schema'
+
+type AdminUser = {
+  uid: string
+  email: string
+  role: AdminRole
+  disabled: boolean
+  lastSignInAt: string | null
+}
+
+type SetAdminRoleResult = {
+  user: AdminUser | null
+  created: boolean
+  inviteLink: string | null
+}
+
+const listAdminUsers = httpsCallable<void, AdminUser[]>(functions, 'listAdminUsers')
+const setAdminRole = httpsCallable<{ email: string; role: AdminRole | null }, SetAdminRoleResult>(functions, 'setAdminRole')
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: 'Everything, including managing users.',
+  editor: 'Edit drafts, upload files, publish and read the inbox.',
+  translator: 'Edit drafts only; an editor or owner publishes.'
+}
+
+export default function AdminUsers() {
+  const { user } = useAuth()
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<AdminRole>('editor')
+  const [busy, setBusy] = useState(false)
+  const [inviteLink, setInviteLink] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true)
+      try {
+        const result = await listAdminUsers()
+        setUsers(result.data)
+      } catch (err: any) {
+        console.error(err)
+        setError(err?.message || 'Failed to load users.')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [reloadKey])
+
+  async function applyRole(target: string, nextRole: AdminRole | null) {
+    setBusy(true)
+    setError(null)
+    setMessage(null)
+    setInviteLink(null)
+    try {
+      const result = await setAdminRole({ email: target, role: nextRole })
+      const { user: updated, created, inviteLink: link } = result.data
+      if (!updated) {
+        setMessage(`Revoked access for ${target}. Their current session ends within the hour.`)
+      } else if (created) {
+        setMessage(`Invited ${target} as ${ROLE_LABELS[updated.role]}. Send them the link below to set a password.`)
+      } else {
+        setMessage(`${target} is now ${ROLE_LABELS[updated.role]}. Their current session ends within the hour and the new role applies when they sign in again.`)
+      }
+      setInviteLink(link)
+      setReloadKey(key => key + 1)
+      return true
+    } catch (err: any) {
+      console.error(err)
+      setError(err?.message || 'Failed to update role.')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function invite(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const target = email.trim().toLowerCase()
+    if (!target) return
+    if (await applyRole(target, role)) setEmail('')
+  }
+
+  async function revoke(target: AdminUser) {
+    if (!confirm(`Revoke admin access for ${target.email}?`)) return
+    await applyRole(target.email, null)
+  }
+
+  return (
+    <div className="stack">
+      <h2>Users</h2>
+      <p className="muted">
+        Roles are stored on each account and checked by the database and storage rules.
+      </p>
+      <ul className="muted">
+        {ADMIN_ROLES.map(value => (
+          <li key={value}><strong>{ROLE_LABELS[value]}</strong>: {ROLE_DESCRIPTIONS[value]}</li>
+        ))}
+      </ul>
+      {message && <p className="success">{message}</p>}
+      {error && <p className="error">{error}</p>}
+      {inviteLink && (
+        <label>
+          Invite link
+          <input value={inviteLink} readOnly onFocus={e => e.target.select()} />
+        </label>
+      )}
+
+      <form className="card form" onSubmit={invite}>
+        <h3>Invite or change a user</h3>
+        <label>
+          Email
+          <input type="email" value={email} onChange={e => setEmail(e.target.value)} required />
+        </label>
+        <label>
+          Role
+          <select value={role} onChange={e => setRole(e.target.value as AdminRole)}>
+            {ADMIN_ROLES.map(value => (
+              <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="actions">
+          <button type="submit" disabled={busy}>{busy ? 'Saving…' : 'Save role'}</button>
+        </div>
+      </form>
+
+      <section className="card form">
+        <h3>Admin users</h3>
+        {loading ? <p>Loading users…</p> : users.length === 0 ? (
+          <p className="muted">No admin users yet.</p>
+        ) : (
+          <ul className="stack">
+            {users.map(entry => {
+              const isSelf = entry.uid === user?.uid
+              return (
+                <li key={entry.uid} className="section-editor-header">
+                  <span>
+                    <strong>{entry.email}</strong>
+                    <span className="muted">
+                      {' · '}{entry.lastSignInAt ? `last sign-in ${entry.lastSignInAt.slice(0, 10)}` : 'never signed in'}
+                      {entry.disabled ? ' · disabled' : ''}
+                    </span>
+                  </span>
+                  <span className="actions">
+                    <select
+                      value={entry.role}
+                      onChange={e => applyRole(entry.email, e.target.value as AdminRole)}
+                      disabled={busy || isSelf}
+                      aria-label={`Role for ${entry.email}`}
+                    >
+                      {ADMIN_ROLES.map(value => (
+                        <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                      ))}
+                    </select>
+                    <button type="button" className="danger" onClick={() => revoke(entry)} disabled={busy || isSelf}>
+                      Revoke
+                    </button>
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { RouteObject } from 'react-router-dom'
+import { RouteObject, redirect } from 'react-router-dom'
 import Layout, { LayoutHydrateFallback } from './components/Layout'
 import NotFound from './pages/NotFound'
 import AdminLayout from './pages/admin/AdminLayout'
@@ -9,19 +9,64 @@ import AdminAbout from './pages/admin/AdminAbout'
 import AdminContact from './pages/admin/AdminContact'
 import AdminProjects from './pages/admin/AdminProjects'
 import AdminResume from './pages/admin/AdminResume'
+import AdminInbox from './pages/admin/AdminInbox'
+import AdminShareLinks from './pages/admin/AdminShareLinks'
+import AdminPortal from './pages/admin/AdminPortal'
+import AdminPublish from './pages/admin/AdminPublish'
+import AdminPosts from './pages/admin/AdminPosts'
+import AdminUsers from './pages/admin/AdminUsers'
+import AdminAccount from './pages/admin/AdminAccount'
 import { getPublicDoc } from './lib/content'
+import { JA_PATH_PREFIX, localizePath } from './lib/language'
 
 export type AppLayoutLoaderData = {
   site: Promise<Record<string, unknown> | null>
 }
 
 export const routes: RouteObject[] = [
+  publicRoutes('app-shell', '/'),
+  publicRoutes('app-shell-ja', JA_PATH_PREFIX),
+  { path: '/admin/login', element: <AdminLogin /> },
   {
-    id: 'app-shell',
-    path: '/',
-    loader: () => ({
-      site: getPublicDoc('site')
-    }),
+    path: '/admin',
+    element: <AdminLayout />,
+    children: [
+      { index: true, element: <AdminOverview /> },
+      { path: 'home', element: <AdminHome /> },
+      { path: 'about', element: <AdminAbout /> },
+      { path: 'contact', element: <AdminContact /> },
+      { path: 'projects', element: <AdminProjects /> },
+      { path: 'posts', element: <AdminPosts /> },
+      { path: 'resume', element: <AdminResume /> },
+      { path: 'inbox', element: <AdminInbox /> },
+      { path: 'share-links', element: <AdminShareLinks /> },
+      { path: 'portal', element: <AdminPortal /> },
+      { path: 'publish', element: <AdminPublish /> },
+      { path: 'users', element: <AdminUsers /> },
+      { path: 'account', element: <AdminAccount /> }
+    ]
+  },
+  { path: '*', element: <NotFound /> }
+]
+
+// The Japanese tree mirrors the public routes under /ja so prerendered
+// Japanese pages have their own URLs to hydrate on.
+function publicRoutes(id: string, path: string): RouteObject {
+  return {
+    id,
+    path,
+    loader: ({ request }) => {
+      // `?lang=en|ja` links redirect to the equivalent language URL.
+      const url = new URL(request.url)
+      const requested = url.searchParams.get('lang')
+      if (requested === 'en' || requested === 'ja') {
+        url.searchParams.delete('lang')
+        throw redirect(`${localizePath(url.pathname, requested)}${url.search}${url.hash}`)
+      }
+      return {
+        site: getPublicDoc('site')
+      }
+    },
     element: <Layout />,
     hydrateFallbackElement: <LayoutHydrateFallback />,
     children: [
@@ -41,6 +86,14 @@ export const routes: RouteObject[] = [
         path: 'projects/:projectId',
         lazy: () => import('./pages/ProjectDetail')
       },
+      {
+        path: 'writing',
+        lazy: () => import('./pages/Writing')
+      },
+      {
+        path: 'writing/:slug',
+        lazy: () => import('./pages/WritingPost')
+      },
       {
         path: 'resume',
         lazy: () => import('./pages/Resume')
@@ -48,21 +101,11 @@ export const routes: RouteObject[] = [
       {
         path: 'contact',
         lazy: () => import('./pages/Contact')
+      },
+      {
+        path: 'portal',
+        lazy: () => import('./pages/Portal')
       }
     ]
-  },
-  { path: '/admin/login', element: <AdminLogin /> },
-  {
-    path: '/admin',
-    element: <AdminLayout />,
-    children: [
-      { index: true, element: <AdminOverview /> },
-      { path: 'home', element: <AdminHome /> },
-      { path: 'about', element: <AdminAbout /> },
-      { path: 'contact', element: <AdminContact /> },
-      { path: 'projects', element: <AdminProjects /> },
-      { path: 'resume', element: <AdminResume /> }
-    ]
-  },
-  { path: '*', element: <NotFound /> }
-]
+  }
+}
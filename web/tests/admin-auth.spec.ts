@@ -0,0 +1,66 @@
+import { test, expect, type Page } from '@playwright/test'
+import { clearAccounts, createUser, emulatorHost, password, setClaims } from './authEmulator'
+
+test.skip(!emulatorHost, 'FIREBASE_AUTH_EMULATOR_HOST is not set')
+
+async function signIn(page: Page, email: string) {
+  await page.goto('/admin/login')
+  await page.getByLabel('Email').fill(email)
+  await page.getByLabel('Password').fill(password)
+  await page.getByRole('button', { name: 'Sign in' }).click()
+}
+
+test.describe('Admin access', () => {
+  test.beforeEach(clearAccounts)
+
+  test('accounts without a role see the not authorized screen', async ({ page }) => {
+    await createUser('visitor@example.com')
+    await signIn(page, 'visitor@example.com')
+
+    await expect(page.getByRole('heading', { name: 'Not authorized' })).toBeVisible()
+    await expect(page.locator('.admin-nav')).toHaveCount(0)
+
+    await page.getByRole('button', { name: 'Sign out' }).click()
+    await expect(page).toHaveURL(/\/admin\/login$/)
+  })
+
+  test('the legacy admin claim no longer grants access', async ({ page }) => {
+    await createUser('legacy@example.com', { admin: true })
+    await signIn(page, 'legacy@example.com')
+
+    await expect(page.getByRole('heading', { name: 'Not authorized' })).toBeVisible()
+  })
+
+  test('editors get the panel without owner-only pages', async ({ page }) => {
+    await createUser('editor@example.com', { role: 'editor' })
+    await signIn(page, 'editor@example.com')
+
+    const nav = page.locator('.admin-nav')
+    await expect(nav.getByRole('link', { name: 'Publish' })).toBeVisible()
+    await expect(nav.getByRole('link', { name: 'Users' })).toHaveCount(0)
+
+    await page.goto('/admin/users')
+    await expect(page.getByText('Your role does not have access to this page.')).toBeVisible()
+  })
+
+  test('translators only see the content editors', async ({ page }) => {
+    await createUser('translator@example.com', { role: 'translator' })
+    await signIn(page, 'translator@example.com')
+
+    const nav = page.locator('.admin-nav')
+    await expect(nav.getByRole('link', { name: 'Posts' })).toBeVisible()
+    await expect(nav.getByRole('link', { name: 'Publish' })).toHaveCount(0)
+    await expect(nav.getByRole('link', { name: 'Inbox' })).toHaveCount(0)
+  })
+
+  test('a role granted after sign-in applies on check again', async ({ page }) => {
+    const localId = await createUser('late@example.com')
+    await signIn(page, 'late@example.com')
+    await expect(page.getByRole('heading', { name: 'Not authorized' })).toBeVisible()
+
+    await setClaims(localId, { role: 'owner' })
+
+    await page.getByRole('button', { name: 'Check again' }).click()
+    await expect(page.locator('.admin-nav').getByRole('link', { name: 'Users' })).toBeVisible()
+  })
+})
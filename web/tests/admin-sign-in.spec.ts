@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test'
+import { clearAccounts, createUser, emulatorHost, findUser, latestOobCode, setClaims } from './authEmulator'
+
+test.skip(!emulatorHost, 'FIREBASE_AUTH_EMULATOR_HOST is not set')
+
+test.describe('Admin sign-in options', () => {
+  test.beforeEach(clearAccounts)
+
+  test('email links sign in without a password', async ({ page }) => {
+    await createUser('link@example.com', { role: 'editor' })
+    await page.goto('/admin/login')
+    await page.getByRole('button', { name: 'Use an email link' }).click()
+    await page.getByLabel('Email').fill('link@example.com')
+    await page.getByRole('button', { name: 'Email me a link' }).click()
+    await expect(page.getByText('Check link@example.com for a sign-in link.')).toBeVisible()
+
+    // The emulator does not send mail; open the link it recorded instead.
+    const oobCode = await latestOobCode('link@example.com', 'EMAIL_SIGNIN')
+    await page.goto(`/admin/login?mode=signIn&oobCode=${oobCode}&apiKey=demo-key&lang=en`)
+    await expect(page.locator('.admin-nav').getByRole('link', { name: 'Publish' })).toBeVisible()
+  })
+
+  test('email links opened elsewhere ask for the address first', async ({ page }) => {
+    await createUser('elsewhere@example.com', { role: 'translator' })
+    await page.goto('/admin/login')
+    await page.getByRole('button', { name: 'Use an email link' }).click()
+    await page.getByLabel('Email').fill('elsewhere@example.com')
+    await page.getByRole('button', { name: 'Email me a link' }).click()
+    await expect(page.getByText('Check elsewhere@example.com')).toBeVisible()
+    await page.evaluate(() => window.localStorage.clear())
+
+    const oobCode = await latestOobCode('elsewhere@example.com', 'EMAIL_SIGNIN')
+    await page.goto(`/admin/login?mode=signIn&oobCode=${oobCode}&apiKey=demo-key&lang=en`)
+    await expect(page.getByRole('heading', { name: 'Confirm your email' })).toBeVisible()
+    await page.getByLabel('Email').fill('elsewhere@example.com')
+    await page.getByRole('button', { name: 'Finish signing in' }).click()
+    await expect(page.locator('.admin-nav').getByRole('link', { name: 'Posts' })).toBeVisible()
+  })
+
+  test('GitHub sign-in goes through the emulator IdP', async ({ page }) => {
+    await page.goto('/admin/login')
+    const popupPromise = page.waitForEvent('popup')
+    await page.getByRole('button', { name: 'Continue with GitHub' }).click()
+    const popup = await popupPromise
+    await popup.getByText('Add new account').click()
+    await popup.getByLabel('Email').fill('octocat@example.com')
+    await popup.getByRole('button', { name: /Sign in with GitHub/i }).click()
+
+    // New GitHub accounts have no role until an owner grants one.
+    await expect(page.getByRole('heading', { name: 'Not authorized' })).toBeVisible()
+    const user = await findUser('octocat@example.com')
+    await setClaims(user!.localId, { role: 'owner' })
+    await page.getByRole('button', { name: 'Check again' }).click()
+    await expect(page.locator('.admin-nav').getByRole('link', { name: 'Users' })).toBeVisible()
+  })
+})
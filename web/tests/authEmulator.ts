@@ -0,0 +1,53 @@
+// Helpers for specs that run against the Auth emulator
+// (`npm run test:e2e:emulator`).
+export const emulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST
+export const projectId = process.env.GCLOUD_PROJECT ?? 'demo-personal-site'
+export const password = 'correct-horse-battery'
+
+export async function emulatorFetch(path: string, init: RequestInit = {}) {
+  const response = await fetch(`http://${emulatorHost}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: 'Bearer owner', ...init.headers }
+  })
+  if (!response.ok) {
+    throw new Error(`${path} responded ${response.status}: ${await response.text()}`)
+  }
+  return response.json()
+}
+
+export async function clearAccounts() {
+  await emulatorFetch(`/emulator/v1/projects/${projectId}/accounts`, { method: 'DELETE' })
+}
+
+export async function findUser(email: string): Promise<{ localId: string } | undefined> {
+  const { users } = await emulatorFetch(`/identitytoolkit.googleapis.com/v1/projects/${projectId}/accounts:lookup`, {
+    method: 'POST',
+    body: JSON.stringify({ email: [email] })
+  })
+  return users?.[0]
+}
+
+export async function setClaims(localId: string, claims: Record<string, unknown>) {
+  await emulatorFetch(`/identitytoolkit.googleapis.com/v1/projects/${projectId}/accounts:update`, {
+    method: 'POST',
+    body: JSON.stringify({ localId, customAttributes: JSON.stringify(claims) })
+  })
+}
+
+export async function createUser(email: string, claims?: Record<string, unknown>) {
+  const { localId } = await emulatorFetch('/identitytoolkit.googleapis.com/v1/accounts:signUp?key=demo-key', {
+    method: 'POST',
+    body: JSON.stringify({ email, password, returnSecureToken: true })
+  })
+  if (claims) await setClaims(localId, claims)
+  return localId as string
+}
+
+export async function latestOobCode(email: string, requestType: string): Promise<string> {
+  const { oobCodes } = await emulatorFetch(`/emulator/v1/projects/${projectId}/oobCodes`)
+  const match = (oobCodes as Array<{ email: string; requestType: string; oobCode: string }>)
+    .filter(entry => entry.email === email && entry.requestType === requestType)
+    .pop()
+  if (!match) throw new Error(`No ${requestType} code for ${email}`)
+  return match.oobCode
+}
@@ -1,6 +1,19 @@
 import { test, expect } from '@playwright/test'
 
-const routes = ['/', '/about', '/projects', '/resume', '/contact'] as const
+const routes = [
+  '/',
+  '/about',
+  '/projects',
+  '/writing',
+  '/resume',
+  '/contact',
+  '/ja',
+  '/ja/about',
+  '/ja/projects',
+  '/ja/writing',
+  '/ja/resume',
+  '/ja/contact'
+] as const
 const forbiddenSnippets = [
   /Add a blurb/i,
   /admin panel/i,
@@ -0,0 +1,23 @@
+import { test, expect } from '@playwright/test'
+
+test.describe('Case study filters', () => {
+  test('search and facets are kept in the query string', async ({ page }) => {
+    await page.goto('/projects')
+    await page.getByRole('searchbox', { name: 'Search' }).fill('fastify')
+    await expect(page).toHaveURL(/\?q=fastify$/)
+    await expect(page.getByRole('heading', { name: '1 case study' })).toBeVisible()
+    await expect(page.getByRole('link', { name: 'CrowdPM Platform' })).toBeVisible()
+
+    await page.getByRole('button', { name: 'Clear filters' }).click()
+    await expect(page).toHaveURL(/\/projects$/)
+    await expect(page.getByRole('heading', { name: 'Selected case studies' })).toBeVisible()
+  })
+
+  test('a shared link restores the filters', async ({ page }) => {
+    await page.goto('/projects?language=Python&sort=title')
+    await expect(page.getByRole('group', { name: 'Language' }).getByRole('checkbox', { name: /Python/ })).toBeChecked()
+    await expect(page.getByLabel('Sort by')).toHaveValue('title')
+    await expect(page.getByRole('link', { name: 'QuestByCycle' })).toBeVisible()
+    await expect(page.getByRole('link', { name: 'Moonshine Art' })).toHaveCount(0)
+  })
+})
@@ -3,6 +3,7 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
-  server: { port: 5173 },
+  // Allow the dev server to serve the shared schema from ../shared.
+  server: { port: 5173, fs: { allow: ['..'] } },
   build: { outDir: 'dist' }
 })